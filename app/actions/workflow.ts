@@ -1,15 +1,377 @@
 'use server';
 
-import { productGeneratorWorkflow } from '@/app/workflows/product-generator';
-import type { CategoryInput } from '@/app/workflows/product-generator';
+import {
+  applyEnrichmentWorkflow,
+  deleteRunProductsWorkflow,
+  enrichCatalogWorkflow,
+  importProductsWorkflow,
+  productGeneratorWorkflow,
+  publishProductsWorkflow,
+  resumeProductsWorkflow,
+} from '@/app/workflows/product-generator';
+import type {
+  ApprovedEnrichment,
+  CategoryInput,
+  CommercePlatform,
+  DeletedProductResult,
+  EnrichmentApplyResult,
+  EnrichmentPreviewResult,
+  GeneratedProduct,
+  LocalizationSettings,
+  MetafieldDefinition,
+  ProductGeneratorOptions,
+  PromotionSettings,
+  StoreActivitySettings,
+  WorkflowResult,
+} from '@/app/workflows/product-generator';
+import { generateProduct } from '@/app/workflows/product-generator/generate-products';
+import { localizeProduct } from '@/app/workflows/product-generator/translate-products';
+import { generateProductMetafields } from '@/app/workflows/product-generator/generate-metafields';
+import { normalizeMetafieldSchema } from '@/app/workflows/product-generator/metafields';
+import {
+  normalizeApprovedEnrichments,
+  normalizeEnrichmentFields,
+  normalizeEnrichmentQuery,
+} from '@/app/workflows/product-generator/enrichment';
+import { normalizeInventorySettings } from '@/app/workflows/product-generator/inventory';
+import { isCollectionMode, normalizeCollectionDefinition } from '@/app/workflows/product-generator/collections';
+import { applySalePercentage, getSalePercentage } from '@/app/workflows/product-generator/discounts';
+import { getProductImages, normalizeImageSettings } from '@/app/workflows/product-generator/product-images';
+import { normalizeStoreActivitySettings } from '@/app/workflows/product-generator/store-activity';
+import { normalizePromotionSettings } from '@/app/workflows/product-generator/promotions';
+import {
+  hasLocalization,
+  normalizeLocalizationSettings,
+} from '@/app/workflows/product-generator/localization';
+import { getServerSession } from '@/lib/session/get-server-session';
+import {
+  claimGenerationRunForResume,
+  createGenerationRun,
+  getGenerationRun,
+  updateGenerationRun,
+} from '@/lib/db/generation-runs';
+import { getProductGenerationModels } from '@/lib/db/settings';
+import { getBrandProfile } from '@/lib/db/brand-profiles';
+import { getBlobStore } from '@/lib/blob-storage';
+import { isDataUri } from '@/app/workflows/product-generator/image-storage';
+import { normalizeApprovedProducts } from '@/app/workflows/product-generator/catalog-files';
+
+// Record the final state of a run once the workflow returns
+async function finishGenerationRun(runId: string, result: WorkflowResult) {
+  try {
+    await updateGenerationRun(runId, {
+      status: result.cancelled ? 'cancelled' : !result.success ? 'failed' : result.previewProducts ? 'preview' : 'completed',
+      totalProducts: result.totalProducts,
+      errors: result.errors ?? null,
+    });
+  } catch (error) {
+    console.error(`[Workflow Action] Failed to record result for run ${runId}:`, error);
+  }
+}
+
+// Load a brand profile for the signed-in user; profiles are private, so anyone else's ID is rejected
+async function resolveBrandProfile(brandProfileId: string | null | undefined, userId: string | undefined) {
+  if (!brandProfileId) {
+    return null;
+  }
+
+  const profile = userId ? await getBrandProfile(brandProfileId, userId) : null;
+  if (!profile) {
+    throw new Error('Brand profile not found');
+  }
+  return profile;
+}
 
 // Call the workflow function directly
 // The 'use workflow' directive and withWorkflow() in next.config.ts 
 // automatically handle workflow detection and tracking in Vercel dashboard
 export async function triggerProductGeneratorWorkflow(
   categories: CategoryInput[],
-  sampleImage?: string | null
-) {
-  return await productGeneratorWorkflow(categories, sampleImage);
+  { brandProfileId, ...options }: Omit<ProductGeneratorOptions, 'runId' | 'models' | 'brandProfile'> & {
+    brandProfileId?: string | null;
+  } = {}
+): Promise<WorkflowResult> {
+  // Runs are only persisted for signed-in users since every run needs an owner
+  const session = await getServerSession();
+  const brandProfile = await resolveBrandProfile(brandProfileId, session?.user?.id);
+  const runId = session?.user?.id
+    ? await createGenerationRun({
+        userId: session.user.id,
+        platform: options.platform ?? 'shopify',
+        categories,
+        previewOnly: options.previewOnly,
+        brandProfileId: brandProfile?.id,
+      })
+    : null;
+
+  try {
+    const models = await getProductGenerationModels(session?.user?.id);
+    const result = await productGeneratorWorkflow(categories, {
+      ...options,
+      runId,
+      models,
+      // Server actions are public endpoints, so ranges from the client are never trusted as-is
+      inventory: normalizeInventorySettings(options.inventory),
+      collectionMode: isCollectionMode(options.collectionMode) ? options.collectionMode : undefined,
+      images: normalizeImageSettings(options.images),
+      brandProfile,
+      storeActivity: normalizeStoreActivitySettings(options.storeActivity),
+      promotions: normalizePromotionSettings(options.promotions),
+      localization: normalizeLocalizationSettings(options.localization),
+      metafields: normalizeMetafieldSchema(options.metafields),
+    });
+
+    if (!runId) {
+      return result;
+    }
+
+    await finishGenerationRun(runId, result);
+    return { ...result, runId };
+  } catch (error) {
+    if (runId) {
+      await finishGenerationRun(runId, {
+        success: false,
+        totalProducts: 0,
+        createdProducts: [],
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+      });
+    }
+    throw error;
+  }
+}
+
+// Publish products imported from a catalog file, recording them as a run like generated products
+export async function triggerCatalogImportWorkflow(
+  products: GeneratedProduct[],
+  options: Pick<ProductGeneratorOptions, 'platform' | 'previewOnly' | 'progressId' | 'collectionMode'> = {}
+): Promise<WorkflowResult> {
+  const session = await getServerSession();
+  const categoryCounts = new Map<string, number>();
+  for (const product of products) {
+    categoryCounts.set(product.category, (categoryCounts.get(product.category) ?? 0) + 1);
+  }
+
+  const runId = session?.user?.id
+    ? await createGenerationRun({
+        userId: session.user.id,
+        platform: options.platform ?? 'shopify',
+        categories: [...categoryCounts].map(([category, count]) => ({ category, count })),
+        previewOnly: options.previewOnly,
+      })
+    : null;
+
+  try {
+    const result = await importProductsWorkflow(products, {
+      ...options,
+      runId,
+      collectionMode: isCollectionMode(options.collectionMode) ? options.collectionMode : undefined,
+    });
+
+    if (!runId) {
+      return result;
+    }
+
+    await finishGenerationRun(runId, result);
+    return { ...result, runId };
+  } catch (error) {
+    if (runId) {
+      await finishGenerationRun(runId, {
+        success: false,
+        totalProducts: products.length,
+        createdProducts: [],
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+      });
+    }
+    throw error;
+  }
+}
+
+// Publish the items a user approved in the preview, optionally seeding customers, orders, reviews
+// and promotions for them. The items come from the client, so they are validated like imported products
+// and their images must be files this app stored or images the run already had.
+export async function publishApprovedProducts(
+  products: GeneratedProduct[],
+  platform: CommercePlatform = 'shopify',
+  runId?: string | null,
+  storeActivity?: StoreActivitySettings,
+  promotions?: PromotionSettings
+): Promise<WorkflowResult> {
+  const session = await getServerSession();
+  // Image URLs the run's own items already had, such as the remote images of an imported catalog
+  const runImageUrls = new Set<string>();
+  if (runId) {
+    const run = session?.user?.id ? await getGenerationRun(runId, session.user.id) : null;
+    if (!run) {
+      throw new Error('Generation run not found');
+    }
+    // Resuming and undoing the run act on the platform it records, so it is published nowhere else
+    if (platform !== run.platform) {
+      throw new Error(`This run was generated for ${run.platform} and can only be published there`);
+    }
+
+    for (const item of run.items) {
+      const product = item.product as unknown as GeneratedProduct;
+      [product.image, ...getProductImages(product).map((image) => image.url)].forEach((url) => runImageUrls.add(url));
+    }
+  }
+
+  const blobStore = getBlobStore();
+  const approved = normalizeApprovedProducts(
+    products,
+    (url) => isDataUri(url) || blobStore.owns(url) || runImageUrls.has(url)
+  );
+
+  const settings = normalizeStoreActivitySettings(storeActivity);
+  const models = settings.customers > 0 ? await getProductGenerationModels(session?.user?.id) : undefined;
+  const result = await publishProductsWorkflow(
+    approved,
+    platform,
+    runId,
+    settings,
+    models,
+    normalizePromotionSettings(promotions)
+  );
+
+  if (!runId) {
+    return result;
+  }
+
+  await finishGenerationRun(runId, result);
+  return { ...result, runId };
 }
 
+// Re-roll a single preview item without regenerating the rest of the catalog. It takes over the collection
+// and sale depth of the item it replaces, then its custom fields are filled and it is localized like the
+// rest of the run; the sale is applied first so the market prices follow the sale price.
+export async function regeneratePreviewProduct(
+  category: string,
+  index: number,
+  sampleImage?: string | null,
+  brandProfileId?: string | null,
+  localization?: LocalizationSettings,
+  metafields?: MetafieldDefinition[],
+  replaced?: Pick<GeneratedProduct, 'collection' | 'variants'>
+): Promise<GeneratedProduct> {
+  const session = await getServerSession();
+  const models = await getProductGenerationModels(session?.user?.id);
+  const brandProfile = await resolveBrandProfile(brandProfileId, session?.user?.id);
+  let product = await generateProduct(category, index, sampleImage, models, null, undefined, undefined, brandProfile);
+
+  if (replaced) {
+    // A coverage draw over one item would always put it on sale, so the replaced item's sale state is kept
+    product = applySalePercentage(
+      { ...product, collection: normalizeCollectionDefinition(replaced.collection) },
+      getSalePercentage(replaced)
+    );
+  }
+
+  const definitions = normalizeMetafieldSchema(metafields);
+  if (definitions.length > 0) {
+    product = { ...product, metafields: await generateProductMetafields(product, definitions, models.textModel) };
+  }
+
+  const settings = normalizeLocalizationSettings(localization);
+  return hasLocalization(settings) ? await localizeProduct(product, settings, models.textModel) : product;
+}
+
+// Pick a failed or cancelled run back up from its last completed item
+export async function resumeGenerationRun(runId: string): Promise<WorkflowResult> {
+  const session = await getServerSession();
+  const run = session?.user?.id ? await getGenerationRun(runId, session.user.id) : null;
+  if (!run) {
+    throw new Error('Generation run not found');
+  }
+
+  if (run.status !== 'failed' && run.status !== 'cancelled') {
+    throw new Error(`Only failed or cancelled runs can be resumed (this run is ${run.status})`);
+  }
+
+  // Everything that has not fully reached the store yet; finished items are skipped by their checkpoints
+  const products = run.items
+    .filter(
+      (item) =>
+        item.status === 'generated' ||
+        item.status === 'failed' ||
+        (item.status === 'published' && !!item.idempotencyKey && !item.imagesUploadedAt)
+    )
+    .map((item) => ({
+      ...(item.product as unknown as GeneratedProduct),
+      itemId: item.id,
+      idempotencyKey: item.idempotencyKey ?? undefined,
+    }));
+
+  // The status is checked again as part of the update, so a concurrent resume cannot publish the items twice
+  if (!(await claimGenerationRunForResume(runId))) {
+    throw new Error('This run is already being resumed');
+  }
+
+  try {
+    const result = await resumeProductsWorkflow(products, run.platform, runId);
+    await finishGenerationRun(runId, result);
+    return { ...result, runId };
+  } catch (error) {
+    await finishGenerationRun(runId, {
+      success: false,
+      totalProducts: products.length,
+      createdProducts: [],
+      errors: [error instanceof Error ? error.message : 'Unknown error'],
+    });
+    throw error;
+  }
+}
+
+// Undo a run: delete every product (and its images) the run created in the store
+export async function deleteRunProducts(runId: string): Promise<DeletedProductResult[]> {
+  const session = await getServerSession();
+  const run = session?.user?.id ? await getGenerationRun(runId, session.user.id) : null;
+  if (!run) {
+    throw new Error('Generation run not found');
+  }
+
+  const products = run.items
+    .filter((item) => item.storeProductId && item.status !== 'deleted')
+    .map((item) => ({ itemId: item.id, title: item.title, storeProductId: item.storeProductId as string }));
+
+  // Refused when the store credentials now point at another store than the one the run published to
+  return await deleteRunProductsWorkflow(products, run.platform, run.id, run.storeId);
+}
+
+// Propose new copy and images for products already in the store; nothing is written until applied
+export async function previewCatalogEnrichment(
+  platform: CommercePlatform,
+  query: unknown,
+  fields: unknown,
+  brandProfileId?: string | null
+): Promise<EnrichmentPreviewResult> {
+  const session = await getServerSession();
+  if (!session?.user?.id) {
+    throw new Error('Sign in to enrich store products');
+  }
+
+  const models = await getProductGenerationModels(session?.user?.id);
+  const brandProfile = await resolveBrandProfile(brandProfileId, session?.user?.id);
+
+  return await enrichCatalogWorkflow(normalizeEnrichmentQuery(query), normalizeEnrichmentFields(fields), platform, {
+    models,
+    brandProfile,
+  });
+}
+
+// Write the changes a user approved in the enrichment preview to the store. The changes come from the
+// client, so they are validated and images must be files this app generated.
+export async function applyCatalogEnrichment(
+  platform: CommercePlatform,
+  approved: ApprovedEnrichment[]
+): Promise<EnrichmentApplyResult> {
+  const session = await getServerSession();
+  if (!session?.user?.id) {
+    throw new Error('Sign in to update store products');
+  }
+
+  // Images that could not be stored stay inline as data URIs, which point nowhere
+  const blobStore = getBlobStore();
+  return await applyEnrichmentWorkflow(
+    normalizeApprovedEnrichments(approved, (url) => isDataUri(url) || blobStore.owns(url)),
+    platform
+  );
+}
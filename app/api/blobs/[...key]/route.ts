@@ -0,0 +1,31 @@
+import { readFile } from 'fs/promises'
+import { NextResponse } from 'next/server'
+import { getBlobStore } from '@/lib/blob-storage'
+import { getLocalBlobContentType, resolveLocalBlobPath } from '@/lib/blob-storage/local'
+
+// Serves files of the local blob store. Not authenticated: commerce platforms download product
+// images from here, and keys contain random product IDs.
+export async function GET(_request: Request, { params }: { params: Promise<{ key: string[] }> }) {
+  if (getBlobStore().name !== 'local') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  const { key } = await params
+  const filePath = resolveLocalBlobPath(key.join('/'))
+  if (!filePath) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  try {
+    const data = await readFile(filePath)
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': getLocalBlobContentType(filePath),
+        // Keys never change content except when a retried generation overwrites them
+        'Cache-Control': 'public, max-age=3600',
+      },
+    })
+  } catch {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+}
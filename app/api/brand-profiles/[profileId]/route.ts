@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from '@/lib/session/get-server-session'
+import { deleteBrandProfile, getBrandProfile, updateBrandProfile } from '@/lib/db/brand-profiles'
+import { brandProfileInputSchema, prepareBrandProfileFields } from '@/lib/brand-profiles'
+
+export async function GET(_request: Request, { params }: { params: Promise<{ profileId: string }> }) {
+  try {
+    const session = await getServerSession()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { profileId } = await params
+    const profile = await getBrandProfile(profileId, session.user.id)
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Brand profile not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ profile })
+  } catch (error) {
+    console.error('Error fetching brand profile:', error)
+    return NextResponse.json({ error: 'Failed to fetch brand profile' }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ profileId: string }> }) {
+  try {
+    const session = await getServerSession()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { profileId } = await params
+    const existing = await getBrandProfile(profileId, session.user.id)
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Brand profile not found' }, { status: 404 })
+    }
+
+    const parsed = brandProfileInputSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.errors[0]?.message ?? 'Invalid brand profile' }, { status: 400 })
+    }
+
+    const fields = await prepareBrandProfileFields(profileId, parsed.data, existing.referenceImages)
+    const profile = await updateBrandProfile(profileId, session.user.id, fields)
+
+    return NextResponse.json({ profile })
+  } catch (error) {
+    console.error('Error updating brand profile:', error)
+    return NextResponse.json({ error: 'Failed to update brand profile' }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: Request, { params }: { params: Promise<{ profileId: string }> }) {
+  try {
+    const session = await getServerSession()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { profileId } = await params
+    const deleted = await deleteBrandProfile(profileId, session.user.id)
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Brand profile not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting brand profile:', error)
+    return NextResponse.json({ error: 'Failed to delete brand profile' }, { status: 500 })
+  }
+}
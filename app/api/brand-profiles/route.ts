@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { nanoid } from 'nanoid'
+import { getServerSession } from '@/lib/session/get-server-session'
+import { createBrandProfile, getBrandProfiles } from '@/lib/db/brand-profiles'
+import { brandProfileInputSchema, prepareBrandProfileFields } from '@/lib/brand-profiles'
+
+export async function GET() {
+  try {
+    const session = await getServerSession()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const profiles = await getBrandProfiles(session.user.id)
+
+    return NextResponse.json({ profiles })
+  } catch (error) {
+    console.error('Error fetching brand profiles:', error)
+    return NextResponse.json({ error: 'Failed to fetch brand profiles' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = brandProfileInputSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.errors[0]?.message ?? 'Invalid brand profile' }, { status: 400 })
+    }
+
+    // The ID is needed up front to key the reference images in blob storage
+    const id = nanoid()
+    const fields = await prepareBrandProfileFields(id, parsed.data)
+    const profile = await createBrandProfile(session.user.id, fields, id)
+
+    return NextResponse.json({ profile }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating brand profile:', error)
+    return NextResponse.json({ error: 'Failed to create brand profile' }, { status: 500 })
+  }
+}
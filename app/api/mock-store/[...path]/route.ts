@@ -0,0 +1,113 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { handleMockShopifyRequest } from '@/lib/mock-store/shopify'
+import {
+  getMockStoreDirectory,
+  readMockStoreState,
+  resetMockStoreState,
+  updateMockStoreState,
+} from '@/lib/mock-store/state'
+
+const simulatedErrorsSchema = z.array(
+  z.object({
+    status: z.union([z.literal(401), z.literal(422), z.literal(429)]),
+    method: z.string().optional(),
+    path: z.string().optional(),
+    count: z.number().int().positive().optional(),
+    retryAfter: z.number().nonnegative().optional(),
+  }),
+)
+
+type RouteContext = { params: Promise<{ path: string[] }> }
+
+// The mock store accepts writes from anyone, so it only runs in production when explicitly enabled
+function isMockStoreEnabled(): boolean {
+  return process.env.NODE_ENV !== 'production' || process.env.MOCK_STORE_ENABLED === 'true'
+}
+
+/**
+ * Endpoints for tests and local development: inspect or reset the stored catalog, configure
+ * simulated errors and serve uploaded image files
+ */
+async function handleControlRequest(request: Request, segments: string[]): Promise<Response> {
+  const [resource, ...rest] = segments
+
+  if (resource === 'state') {
+    if (request.method === 'GET') {
+      return NextResponse.json(await readMockStoreState())
+    }
+    if (request.method === 'DELETE') {
+      await resetMockStoreState()
+      return NextResponse.json({ success: true })
+    }
+  }
+
+  if (resource === 'errors') {
+    if (request.method === 'GET') {
+      return NextResponse.json({ errors: (await readMockStoreState()).simulatedErrors })
+    }
+    if (request.method === 'DELETE') {
+      await updateMockStoreState((current) => {
+        current.simulatedErrors = []
+      })
+      return NextResponse.json({ errors: [] })
+    }
+    // PUT replaces the configured errors, POST adds to them
+    if (request.method === 'PUT' || request.method === 'POST') {
+      const body = await request.json().catch(() => null)
+      const parsed = simulatedErrorsSchema.safeParse(Array.isArray(body) ? body : [body])
+      if (!parsed.success) {
+        return NextResponse.json({ error: parsed.error.issues[0]?.message ?? 'Invalid simulated errors' }, { status: 400 })
+      }
+
+      const errors = await updateMockStoreState((current) => {
+        current.simulatedErrors = request.method === 'PUT' ? parsed.data : [...current.simulatedErrors, ...parsed.data]
+        return current.simulatedErrors
+      })
+      return NextResponse.json({ errors })
+    }
+  }
+
+  if (resource === 'files' && request.method === 'GET' && rest.length === 1) {
+    try {
+      const data = await readFile(path.join(getMockStoreDirectory(), 'files', path.basename(rest[0])))
+      return new NextResponse(new Uint8Array(data))
+    } catch {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+  }
+
+  return NextResponse.json({ error: 'Not found' }, { status: 404 })
+}
+
+// A local stand-in for a Shopify store, so the workflow can run without live credentials.
+// Point the Shopify adapter at it with SHOPIFY_API_BASE_URL=http://localhost:3000/api/mock-store
+async function handleRequest(request: Request, { params }: RouteContext) {
+  if (!isMockStoreEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  const { path: segments } = await params
+  if (segments[0] === '_mock') {
+    return handleControlRequest(request, segments.slice(1))
+  }
+  return handleMockShopifyRequest(request, segments)
+}
+
+export async function GET(request: Request, context: RouteContext) {
+  return handleRequest(request, context)
+}
+
+export async function POST(request: Request, context: RouteContext) {
+  return handleRequest(request, context)
+}
+
+export async function PUT(request: Request, context: RouteContext) {
+  return handleRequest(request, context)
+}
+
+export async function DELETE(request: Request, context: RouteContext) {
+  return handleRequest(request, context)
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from '@/lib/session/get-server-session'
+import { getGenerationRun } from '@/lib/db/generation-runs'
+import type { GeneratedProduct } from '@/app/workflows/product-generator'
+import {
+  CATALOG_FILE_FORMATS,
+  exportCatalog,
+  isCatalogFileFormat,
+} from '@/app/workflows/product-generator/catalog-files'
+import { inlineProductImages } from '@/app/workflows/product-generator/image-storage'
+
+/**
+ * Download a run's products as a Shopify product CSV, a BigCommerce import CSV or JSON.
+ * `?embedImages=true` (JSON only) puts the image files in the export instead of their URLs.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ runId: string }> }) {
+  try {
+    const session = await getServerSession()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const format = request.nextUrl.searchParams.get('format') ?? 'json'
+    if (!isCatalogFileFormat(format)) {
+      return NextResponse.json(
+        { error: `Format must be one of: ${CATALOG_FILE_FORMATS.join(', ')}` },
+        { status: 400 },
+      )
+    }
+
+    const { runId } = await params
+    const run = await getGenerationRun(runId, session.user.id)
+
+    if (!run) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 })
+    }
+
+    // Discarded and deleted items are not part of the catalog anymore
+    const products = run.items
+      .filter((item) => item.status !== 'discarded' && item.status !== 'deleted')
+      .map((item) => item.product as unknown as GeneratedProduct)
+
+    const embedImages = format === 'json' && request.nextUrl.searchParams.get('embedImages') === 'true'
+    const file = exportCatalog(embedImages ? await Promise.all(products.map(inlineProductImages)) : products, format)
+
+    return new NextResponse(file.content, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="run-${run.id}-${format}.${file.extension}"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Error exporting generation run:', error)
+    return NextResponse.json({ error: 'Failed to export generation run' }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from '@/lib/session/get-server-session'
+import { deleteRunProducts } from '@/app/actions/workflow'
+
+// Delete every product the run created in the store and report the outcome per product
+export async function DELETE(_request: Request, { params }: { params: Promise<{ runId: string }> }) {
+  try {
+    const session = await getServerSession()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { runId } = await params
+    const results = await deleteRunProducts(runId)
+
+    return NextResponse.json({
+      deleted: results.filter((result) => result.success).length,
+      failed: results.filter((result) => !result.success).length,
+      results,
+    })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Generation run not found') {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 })
+    }
+
+    console.error('Error deleting run products:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete run products' },
+      { status: 500 },
+    )
+  }
+}
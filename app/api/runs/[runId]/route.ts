@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from '@/lib/session/get-server-session'
+import { getGenerationRun } from '@/lib/db/generation-runs'
+
+export async function GET(_request: Request, { params }: { params: Promise<{ runId: string }> }) {
+  try {
+    const session = await getServerSession()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { runId } = await params
+    const run = await getGenerationRun(runId, session.user.id)
+
+    if (!run) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ run })
+  } catch (error) {
+    console.error('Error fetching generation run:', error)
+    return NextResponse.json({ error: 'Failed to fetch generation run' }, { status: 500 })
+  }
+}
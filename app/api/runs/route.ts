@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from '@/lib/session/get-server-session'
+import { getGenerationRuns } from '@/lib/db/generation-runs'
+
+export async function GET() {
+  try {
+    const session = await getServerSession()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const runs = await getGenerationRuns(session.user.id)
+
+    return NextResponse.json({ runs })
+  } catch (error) {
+    console.error('Error fetching generation runs:', error)
+    return NextResponse.json({ error: 'Failed to fetch generation runs' }, { status: 500 })
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getServerSession } from '@/lib/session/get-server-session'
+import { getProductGenerationModels, setSetting } from '@/lib/db/settings'
+import { DEFAULT_PRODUCT_IMAGE_MODEL, DEFAULT_PRODUCT_TEXT_MODEL } from '@/lib/constants'
+
+// Gateway model IDs look like "provider/model-name"
+const modelIdSchema = z
+  .string()
+  .trim()
+  .regex(/^[a-z0-9-]+\/[\w.:-]+$/i, 'Model IDs must look like "provider/model-name"')
+
+const updateProductModelsSchema = z.object({
+  textModel: modelIdSchema.optional(),
+  imageModel: modelIdSchema.optional(),
+})
+
+export async function GET() {
+  try {
+    const session = await getServerSession()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const models = await getProductGenerationModels(session.user.id)
+
+    return NextResponse.json({
+      models,
+      defaults: { textModel: DEFAULT_PRODUCT_TEXT_MODEL, imageModel: DEFAULT_PRODUCT_IMAGE_MODEL },
+    })
+  } catch (error) {
+    console.error('Error fetching product models:', error)
+    return NextResponse.json({ error: 'Failed to fetch product models' }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = updateProductModelsSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.errors[0]?.message ?? 'Invalid models' }, { status: 400 })
+    }
+
+    const { textModel, imageModel } = parsed.data
+    if (textModel) {
+      await setSetting('productTextModel', session.user.id, textModel)
+    }
+    if (imageModel) {
+      await setSetting('productImageModel', session.user.id, imageModel)
+    }
+
+    const models = await getProductGenerationModels(session.user.id)
+
+    return NextResponse.json({ models })
+  } catch (error) {
+    console.error('Error updating product models:', error)
+    return NextResponse.json({ error: 'Failed to update product models' }, { status: 500 })
+  }
+}
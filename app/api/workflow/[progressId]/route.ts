@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelProgress, isCancelTokenValid } from '@/app/workflows/product-generator/progress';
+
+// Cancel a streaming run. Items already in flight finish; nothing new is started. Only the caller that
+// started the run has its cancel token (sent in the stream's `run` event), whether signed in or not.
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ progressId: string }> }) {
+  const { progressId } = await params;
+
+  // A wrong token is reported like a missing run, so run IDs cannot be probed
+  if (!isCancelTokenValid(progressId, request.headers.get('X-Cancel-Token')) || !cancelProgress(progressId)) {
+    return NextResponse.json({ error: 'Run not found or already finished' }, { status: 404 });
+  }
+
+  return NextResponse.json({ cancelled: true });
+}
@@ -1,5 +1,87 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { triggerProductGeneratorWorkflow } from '@/app/actions/workflow';
+import { randomUUID } from 'crypto';
+import { triggerCatalogImportWorkflow, triggerProductGeneratorWorkflow } from '@/app/actions/workflow';
+import type { GeneratedProduct, WorkflowResult } from '@/app/workflows/product-generator';
+import { COMMERCE_PLATFORMS, isCommercePlatform } from '@/app/workflows/product-generator/adapters';
+import { normalizeInventorySettings } from '@/app/workflows/product-generator/inventory';
+import { normalizeImageSettings } from '@/app/workflows/product-generator/product-images';
+import { normalizeStoreActivitySettings } from '@/app/workflows/product-generator/store-activity';
+import { normalizePromotionSettings } from '@/app/workflows/product-generator/promotions';
+import { normalizeLocalizationSettings } from '@/app/workflows/product-generator/localization';
+import { normalizeMetafieldSchema } from '@/app/workflows/product-generator/metafields';
+import { importCatalog } from '@/app/workflows/product-generator/catalog-files';
+import {
+  COLLECTION_MODES,
+  DEFAULT_COLLECTION_MODE,
+  isCollectionMode,
+} from '@/app/workflows/product-generator/collections';
+import {
+  cancelProgress,
+  registerProgress,
+  subscribeProgress,
+  unregisterProgress,
+} from '@/app/workflows/product-generator/progress';
+
+function getWorkflowStatus(result: WorkflowResult) {
+  return result.cancelled ? 'cancelled' : !result.success ? 'failed' : result.previewProducts ? 'preview' : 'completed';
+}
+
+/**
+ * Run the workflow and stream its progress as Server-Sent Events:
+ * `run` (progress ID and cancel token for cancelling), `progress` (per-item events), then `result` or `error`
+ */
+function streamWorkflow(
+  workflowId: string,
+  run: (progressId: string) => Promise<WorkflowResult>
+): Response {
+  const encoder = new TextEncoder();
+  // Only the caller reading this stream learns the token, so nobody else can cancel the run
+  const cancelToken = randomUUID();
+  registerProgress(workflowId, cancelToken);
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const send = (event: string, data: unknown) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        }
+      };
+
+      const unsubscribe = subscribeProgress(workflowId, (event) => send('progress', event));
+      send('run', { progressId: workflowId, cancelToken });
+
+      run(workflowId)
+        .then((result) => {
+          const resultWorkflowId = result.runId ?? workflowId;
+          console.log(`[Workflow API] Workflow ${resultWorkflowId} finished streaming. Success: ${result.success}`);
+          send('result', { workflowId: resultWorkflowId, status: getWorkflowStatus(result), result });
+        })
+        .catch((error) => {
+          console.error(`[Workflow API] Workflow ${workflowId} failed:`, error);
+          send('error', { error: error instanceof Error ? error.message : 'Internal server error' });
+        })
+        .finally(() => {
+          unsubscribe();
+          unregisterProgress(workflowId);
+          closed = true;
+          controller.close();
+        });
+    },
+    cancel() {
+      // The client went away - stop starting new items
+      cancelProgress(workflowId);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -7,26 +89,144 @@ export async function POST(request: NextRequest) {
     const contentType = request.headers.get('content-type') || '';
     let categories: any;
     let sampleImage: string | null = null;
+    let platform: unknown = 'shopify';
+    let previewOnly = false;
+    let streamProgress = false;
+    let inventoryInput: unknown;
+    let collectionMode: unknown = DEFAULT_COLLECTION_MODE;
+    let imagesInput: unknown;
+    let storeActivityInput: unknown;
+    let promotionsInput: unknown;
+    let localizationInput: unknown;
+    let metafieldsInput: unknown;
+    let brandProfileId: unknown = null;
+    // Contents of an exported catalog file (CSV or JSON) to publish instead of generating products
+    let catalogFile: unknown = null;
 
     if (contentType.includes('multipart/form-data')) {
       const formData = await request.formData();
       const categoriesStr = formData.get('categories') as string;
+      catalogFile = formData.get('catalogFile');
       
-      if (!categoriesStr) {
+      if (!categoriesStr && !catalogFile) {
         return NextResponse.json(
-          { error: 'Categories are required' },
+          { error: 'Categories or a catalog file are required' },
           { status: 400 }
         );
       }
 
-      categories = JSON.parse(categoriesStr);
+      categories = categoriesStr ? JSON.parse(categoriesStr) : undefined;
       const imageData = formData.get('sampleImage') as string | null;
       if (imageData) {
         sampleImage = imageData;
       }
+      platform = formData.get('platform') || 'shopify';
+      previewOnly = formData.get('previewOnly') === 'true';
+      streamProgress = formData.get('stream') === 'true';
+      const inventoryStr = formData.get('inventory') as string | null;
+      if (inventoryStr) {
+        inventoryInput = JSON.parse(inventoryStr);
+      }
+      collectionMode = formData.get('collectionMode') || DEFAULT_COLLECTION_MODE;
+      const imagesStr = formData.get('images') as string | null;
+      if (imagesStr) {
+        imagesInput = JSON.parse(imagesStr);
+      }
+      const storeActivityStr = formData.get('storeActivity') as string | null;
+      if (storeActivityStr) {
+        storeActivityInput = JSON.parse(storeActivityStr);
+      }
+      const promotionsStr = formData.get('promotions') as string | null;
+      if (promotionsStr) {
+        promotionsInput = JSON.parse(promotionsStr);
+      }
+      const localizationStr = formData.get('localization') as string | null;
+      if (localizationStr) {
+        localizationInput = JSON.parse(localizationStr);
+      }
+      const metafieldsStr = formData.get('metafields') as string | null;
+      if (metafieldsStr) {
+        metafieldsInput = JSON.parse(metafieldsStr);
+      }
+      brandProfileId = formData.get('brandProfileId') || null;
     } else {
       const body = await request.json();
       categories = body.categories;
+      platform = body.platform || 'shopify';
+      previewOnly = body.previewOnly === true;
+      streamProgress = body.stream === true;
+      inventoryInput = body.inventory;
+      collectionMode = body.collectionMode || DEFAULT_COLLECTION_MODE;
+      imagesInput = body.images;
+      storeActivityInput = body.storeActivity;
+      promotionsInput = body.promotions;
+      localizationInput = body.localization;
+      metafieldsInput = body.metafields;
+      brandProfileId = body.brandProfileId || null;
+      catalogFile = body.catalogFile ?? null;
+    }
+
+    if (!isCommercePlatform(platform)) {
+      return NextResponse.json(
+        { error: `Platform must be one of: ${COMMERCE_PLATFORMS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!isCollectionMode(collectionMode)) {
+      return NextResponse.json(
+        { error: `Collection mode must be one of: ${COLLECTION_MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (brandProfileId !== null && typeof brandProfileId !== 'string') {
+      return NextResponse.json(
+        { error: 'Brand profile ID must be a string' },
+        { status: 400 }
+      );
+    }
+
+    // Generate a workflow ID for tracking - replaced by the persisted run ID when the user is signed in.
+    // It doubles as the progress ID that cancels a streaming run, so it must not be guessable.
+    let workflowId = `workflow-${randomUUID()}`;
+
+    if (catalogFile !== null) {
+      if (typeof catalogFile !== 'string') {
+        return NextResponse.json(
+          { error: 'The catalog file must be sent as text' },
+          { status: 400 }
+        );
+      }
+
+      // Imported products skip generation, so the categories and generation settings do not apply
+      let products: GeneratedProduct[];
+      try {
+        products = importCatalog(catalogFile);
+      } catch (error) {
+        return NextResponse.json(
+          { error: `Invalid catalog file: ${error instanceof Error ? error.message : 'Unknown error'}` },
+          { status: 400 }
+        );
+      }
+
+      console.log(`[Workflow API] Importing ${products.length} products as workflow ${workflowId}`);
+      console.log(`[Workflow API] Platform:`, platform);
+      console.log(`[Workflow API] Preview only:`, previewOnly);
+
+      const runImport = (progressId?: string) =>
+        triggerCatalogImportWorkflow(products, { platform, previewOnly, collectionMode, progressId });
+
+      if (streamProgress) {
+        return streamWorkflow(workflowId, runImport);
+      }
+
+      const result = await runImport();
+      return NextResponse.json({
+        workflowId: result.runId ?? workflowId,
+        status: getWorkflowStatus(result),
+        result,
+      });
     }
 
     if (!categories || !Array.isArray(categories)) {
@@ -50,13 +250,48 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate a workflow ID for tracking
-    const workflowId = `workflow-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    
+    const inventory = normalizeInventorySettings(inventoryInput);
+    const images = normalizeImageSettings(imagesInput);
+    const storeActivity = normalizeStoreActivitySettings(storeActivityInput);
+    const promotions = normalizePromotionSettings(promotionsInput);
+    const localization = normalizeLocalizationSettings(localizationInput);
+    const metafields = normalizeMetafieldSchema(metafieldsInput);
+
+
     console.log(`[Workflow API] Starting workflow ${workflowId}`);
     console.log(`[Workflow API] Categories:`, JSON.stringify(categories));
     console.log(`[Workflow API] Categories type:`, typeof categories, 'Is array:', Array.isArray(categories));
     console.log(`[Workflow API] Sample image provided:`, !!sampleImage);
+    console.log(`[Workflow API] Platform:`, platform);
+    console.log(`[Workflow API] Preview only:`, previewOnly);
+    console.log(`[Workflow API] Stream progress:`, streamProgress);
+    console.log(`[Workflow API] Inventory settings:`, JSON.stringify(inventory));
+    console.log(`[Workflow API] Collections:`, collectionMode);
+    console.log(`[Workflow API] Image settings:`, JSON.stringify(images));
+    console.log(`[Workflow API] Brand profile:`, brandProfileId ?? 'none');
+    console.log(`[Workflow API] Store activity:`, JSON.stringify(storeActivity));
+    console.log(`[Workflow API] Promotions:`, JSON.stringify(promotions));
+    console.log(`[Workflow API] Localization:`, JSON.stringify(localization));
+    console.log(`[Workflow API] Metafields:`, JSON.stringify(metafields));
+
+    if (streamProgress) {
+      return streamWorkflow(workflowId, (progressId) =>
+        triggerProductGeneratorWorkflow(categories, {
+          sampleImage,
+          platform,
+          previewOnly,
+          progressId,
+          inventory,
+          collectionMode,
+          images,
+          brandProfileId,
+          storeActivity,
+          promotions,
+          localization,
+          metafields,
+        })
+      );
+    }
 
     // Trigger the workflow through the Server Action wrapper
     // This ensures the workflow is properly tracked in the Vercel dashboard
@@ -64,7 +299,20 @@ export async function POST(request: NextRequest) {
     let result;
     
     try {
-      result = await triggerProductGeneratorWorkflow(categories, sampleImage);
+      result = await triggerProductGeneratorWorkflow(categories, {
+        sampleImage,
+        platform,
+        previewOnly,
+        inventory,
+        collectionMode,
+        images,
+        brandProfileId,
+        storeActivity,
+        promotions,
+        localization,
+        metafields,
+      });
+      workflowId = result.runId ?? workflowId;
       const duration = Date.now() - startTime;
       console.log(`[Workflow API] Workflow ${workflowId} completed in ${duration}ms`);
       console.log(`[Workflow API] Success: ${result.success}, Products created: ${result.createdProducts.length}/${result.totalProducts}`);
@@ -80,7 +328,7 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       workflowId,
-      status: result.success ? 'completed' : 'failed',
+      status: getWorkflowStatus(result),
       result,
     });
   } catch (error) {
@@ -3,6 +3,7 @@
 import { useCallback, useEffect, useMemo, useState } from "react"
 import { useAtom, useAtomValue, useSetAtom } from "jotai"
 import { Loader2 } from "lucide-react"
+import Link from "next/link"
 import { RepoSelector } from "@/components/repo-selector"
 import { Button } from "@/components/ui/button"
 import { githubSelectionAtom } from "@/lib/atoms/github-selection"
@@ -214,17 +215,31 @@ export default function AppHeader() {
             {sessionLoading ? (
               <span className="text-sm text-zinc-500">Loading session…</span>
             ) : session?.user ? (
-              <div className="text-right">
-                <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100">
-                  {session.user.name || session.user.username}
-                </p>
-                <button
-                  type="button"
-                  onClick={handleSignOut}
-                  className="text-xs text-zinc-500 underline hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200"
+              <div className="flex items-center gap-4">
+                <Link
+                  href="/runs"
+                  className="text-sm text-zinc-600 underline hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100"
                 >
-                  Sign out
-                </button>
+                  Generation history
+                </Link>
+                <Link
+                  href="/settings"
+                  className="text-sm text-zinc-600 underline hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100"
+                >
+                  Settings
+                </Link>
+                <div className="text-right">
+                  <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100">
+                    {session.user.name || session.user.username}
+                  </p>
+                  <button
+                    type="button"
+                    onClick={handleSignOut}
+                    className="text-xs text-zinc-500 underline hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200"
+                  >
+                    Sign out
+                  </button>
+                </div>
               </div>
             ) : (
               <button
@@ -3,17 +3,37 @@
 import { useState, useRef } from 'react';
 import V0Chat from '@/app/components/v0-chat';
 import Image from 'next/image';
+import { WorkflowProgress } from '@/components/workflow-progress';
+import { InventorySettingsFields } from '@/components/inventory-settings-fields';
+import { ImageSettingsFields } from '@/components/image-settings-fields';
+import { BrandProfileSelect } from '@/components/brand-profile-select';
+import {
+  DEFAULT_INVENTORY_SETTINGS,
+  type InventorySettings,
+} from '@/app/workflows/product-generator/inventory';
+import {
+  DEFAULT_COLLECTION_MODE,
+  type CollectionMode,
+} from '@/app/workflows/product-generator/collections';
+import {
+  DEFAULT_IMAGE_SETTINGS,
+  type ImageSettings,
+} from '@/app/workflows/product-generator/product-images';
+import { useWorkflowStream } from '@/lib/hooks/use-workflow-stream';
 
 interface CategoryInput {
   category: string;
   count: number;
 }
 
+type Platform = 'shopify' | 'bigcommerce';
+
 interface WorkflowResult {
   success: boolean;
   totalProducts: number;
   createdProducts: Array<{ id: string; title: string; image: string }>;
   errors?: string[];
+  cancelled?: boolean;
 }
 
 export default function Home() {
@@ -26,7 +46,13 @@ export default function Home() {
   const [workflowStatus, setWorkflowStatus] = useState<string>('');
   const [workflowResult, setWorkflowResult] = useState<WorkflowResult | null>(null);
   const [sampleImage, setSampleImage] = useState<string | null>(null);
+  const [platform, setPlatform] = useState<Platform>('shopify');
+  const [inventory, setInventory] = useState<InventorySettings>(DEFAULT_INVENTORY_SETTINGS);
+  const [collectionMode, setCollectionMode] = useState<CollectionMode>(DEFAULT_COLLECTION_MODE);
+  const [imageSettings, setImageSettings] = useState<ImageSettings>(DEFAULT_IMAGE_SETTINGS);
+  const [brandProfileId, setBrandProfileId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { progress, start: startWorkflow, cancel: cancelWorkflow } = useWorkflowStream<WorkflowResult>();
 
   const addCategory = () => {
     if (categories.length < 10) {
@@ -101,6 +127,13 @@ export default function Home() {
         count: cat.count,
       }));
       formData.append('categories', JSON.stringify(categoriesData));
+      formData.append('platform', platform);
+      formData.append('inventory', JSON.stringify(inventory));
+      formData.append('collectionMode', collectionMode);
+      formData.append('images', JSON.stringify(imageSettings));
+      if (brandProfileId) {
+        formData.append('brandProfileId', brandProfileId);
+      }
       
       console.log('[Frontend] Categories to process:', categoriesData);
       
@@ -113,25 +146,15 @@ export default function Home() {
       setWorkflowStatus('Submitting workflow request...');
       const startTime = Date.now();
 
-      const response = await fetch('/api/workflow', {
-        method: 'POST',
-        body: formData,
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        console.error('[Frontend] Workflow API error:', errorData);
-        throw new Error(errorData.error || 'Failed to start workflow');
-      }
-
-      const data = await response.json();
+      // Progress events stream in while the workflow runs
+      const data = await startWorkflow(formData);
       const duration = Date.now() - startTime;
       
       console.log('[Frontend] Workflow response received:', data);
       console.log(`[Frontend] Workflow completed in ${duration}ms`);
       
       setWorkflowId(data.workflowId);
-      setWorkflowStatus(data.status === 'completed' ? 'completed' : 'failed');
+      setWorkflowStatus(data.status === 'completed' || data.status === 'cancelled' ? data.status : 'failed');
       setWorkflowResult(data.result);
       
       if (data.result) {
@@ -158,6 +181,15 @@ export default function Home() {
     }
   };
 
+  const handleCancel = async () => {
+    try {
+      await cancelWorkflow();
+    } catch (err) {
+      console.error('[Frontend] Cancel error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to cancel workflow');
+    }
+  };
+
   return (
     <div className="flex min-h-screen items-center justify-center bg-zinc-50 font-sans dark:bg-black">
       <main className="flex min-h-screen w-full max-w-7xl flex-col items-center justify-center py-16 px-8">
@@ -232,6 +264,48 @@ export default function Home() {
               </button>
             )}
 
+            {/* Target Platform */}
+            <div className="rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+              <label className="mb-2 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                Target Platform
+              </label>
+              <select
+                value={platform}
+                onChange={(e) => setPlatform(e.target.value as Platform)}
+                className="w-full rounded-md border border-zinc-300 px-3 py-2 text-black focus:border-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-white"
+              >
+                <option value="shopify">Shopify</option>
+                <option value="bigcommerce">BigCommerce</option>
+              </select>
+            </div>
+
+            {/* Brand Profile */}
+            <div className="rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+              <BrandProfileSelect value={brandProfileId} onChange={setBrandProfileId} />
+            </div>
+
+            {/* Store Collections */}
+            <div className="rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+              <label className="mb-2 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                Collections
+              </label>
+              <select
+                value={collectionMode}
+                onChange={(e) => setCollectionMode(e.target.value as CollectionMode)}
+                className="w-full rounded-md border border-zinc-300 px-3 py-2 text-black focus:border-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-white"
+              >
+                <option value="smart">Smart collection per category (matched by product type)</option>
+                <option value="custom">Custom collection per category</option>
+                <option value="none">Don&apos;t create collections</option>
+              </select>
+            </div>
+
+            {/* Inventory & Shipping Ranges */}
+            <InventorySettingsFields value={inventory} onChange={setInventory} />
+
+            {/* Image Angles */}
+            <ImageSettingsFields value={imageSettings} onChange={setImageSettings} />
+
             {/* Sample Image Upload Section */}
             <div className="rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
               <label className="mb-2 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
@@ -280,19 +354,7 @@ export default function Home() {
 
             {/* Workflow Status */}
             {isSubmitting && (
-              <div className="rounded-md bg-blue-50 p-4 dark:bg-blue-900/20">
-                <div className="flex items-center gap-3">
-                  <div className="h-5 w-5 animate-spin rounded-full border-2 border-blue-600 border-t-transparent"></div>
-                  <div>
-                    <p className="font-medium text-blue-900 dark:text-blue-100">
-                      {workflowStatus || 'Processing workflow...'}
-                    </p>
-                    <p className="text-sm text-blue-700 dark:text-blue-300">
-                      This may take a few minutes
-                    </p>
-                  </div>
-                </div>
-              </div>
+              <WorkflowProgress progress={progress} publishes onCancel={handleCancel} />
             )}
 
             {workflowId && !isSubmitting && (
@@ -300,6 +362,8 @@ export default function Home() {
                 <div className={`rounded-md p-4 ${
                   workflowStatus === 'completed' 
                     ? 'bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400'
+                    : workflowStatus === 'cancelled'
+                    ? 'bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300'
                     : workflowStatus === 'failed'
                     ? 'bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-400'
                     : 'bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-400'
@@ -307,6 +371,8 @@ export default function Home() {
                   <p className="font-medium">
                     {workflowStatus === 'completed' 
                       ? 'Workflow completed successfully!'
+                      : workflowStatus === 'cancelled'
+                      ? 'Workflow cancelled'
                       : workflowStatus === 'failed'
                       ? 'Workflow failed'
                       : 'Workflow started'}
@@ -0,0 +1,6 @@
+import { GenerationRunDetails } from '@/components/generation-run-details'
+
+export default async function RunPage({ params }: { params: Promise<{ runId: string }> }) {
+  const { runId } = await params
+  return <GenerationRunDetails runId={runId} />
+}
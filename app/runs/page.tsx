@@ -0,0 +1,5 @@
+import { GenerationRunsList } from '@/components/generation-runs-list'
+
+export default function RunsPage() {
+  return <GenerationRunsList />
+}
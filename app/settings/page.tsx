@@ -0,0 +1,11 @@
+import { BrandProfileSettings } from '@/components/brand-profile-settings'
+import { ProductModelSettings } from '@/components/product-model-settings'
+
+export default function SettingsPage() {
+  return (
+    <>
+      <ProductModelSettings />
+      <BrandProfileSettings />
+    </>
+  )
+}
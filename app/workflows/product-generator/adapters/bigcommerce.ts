@@ -0,0 +1,1067 @@
+import type { GeneratedProduct } from '../generate-products';
+import type { ProductImage } from '../product-images';
+import type { GeneratedCustomer, GeneratedOrder, GeneratedReview } from '../store-activity';
+import type { PlannedDiscount, PlannedPriceList } from '../promotions';
+import { formatMetafieldValue, metafieldName } from '../metafields';
+import type { EnrichmentQuery, ExistingProduct, ProductCopyUpdate } from '../enrichment';
+import type {
+  AttachImagesOptions,
+  CollectionDefinition,
+  CommerceAdapter,
+  ListedProduct,
+  ListProductsOptions,
+  StoreCollection,
+  StoreProduct,
+} from './types';
+import {
+  descriptionToHtml,
+  fromBodyHtml,
+  isImageUrl,
+  parseImageDataUri,
+  resolveVariantOptions,
+  toBodyHtml,
+} from './utils';
+import { fetchWithRateLimit } from './rate-limit';
+
+interface BigCommerceVariantPayload {
+  sku: string;
+  price: number;
+  retail_price?: number;
+  gtin?: string;
+  option_values: Array<{
+    option_display_name: string;
+    label: string;
+  }>;
+}
+
+/**
+ * Convert generated variants into BigCommerce variants with option values. BigCommerce builds
+ * the option set from the option_display_name/label pairs, so every variant must use the same
+ * dimensions and a unique combination.
+ */
+function buildVariants(product: GeneratedProduct, skuPrefix: string): BigCommerceVariantPayload[] {
+  const { optionNames, rows } = resolveVariantOptions(product);
+
+  return rows.map(({ values, variant }, index) => {
+    const compareAtPrice = parseFloat(variant.compareAtPrice ?? '');
+
+    return {
+      sku: variant.sku || `${skuPrefix}-${index + 1}`,
+      price: parseFloat(variant.price) || parseFloat(product.price) || 0,
+      // BigCommerce shows the retail (MSRP) price struck through next to a lower price
+      ...(compareAtPrice > 0 ? { retail_price: compareAtPrice } : {}),
+      ...(variant.barcode ? { gtin: variant.barcode } : {}),
+      option_values: values.map((label, dimension) => ({
+        option_display_name: optionNames[dimension],
+        label,
+      })),
+    };
+  });
+}
+
+function getBigCommerceCredentials(): { storeHash: string; accessToken: string } {
+  const storeHash = process.env.BIGCOMMERCE_STORE_HASH;
+  const accessToken = process.env.BIGCOMMERCE_ACCESS_TOKEN;
+
+  if (!storeHash || !accessToken) {
+    throw new Error(
+      `BigCommerce credentials not configured. Please set BIGCOMMERCE_STORE_HASH and BIGCOMMERCE_ACCESS_TOKEN environment variables.
+      Found BIGCOMMERCE_STORE_HASH: ${storeHash ? 'yes' : 'no'}
+      Found BIGCOMMERCE_ACCESS_TOKEN: ${accessToken ? 'yes' : 'no'}`
+    );
+  }
+
+  // Accept either the bare hash or the "stores/<hash>" form shown in the API path
+  return {
+    storeHash: storeHash.replace(/^stores\//, '').replace(/\/$/, '').trim(),
+    accessToken: accessToken.trim(),
+  };
+}
+
+// Pause once fewer requests than this are left in the current window
+const BIGCOMMERCE_REQUESTS_HEADROOM = 5;
+// Translations and market prices are set for the default storefront channel
+const BIGCOMMERCE_CHANNEL_ID = 1;
+const MARKET_PRICE_LIST_NAME = 'Generated market prices';
+// Custom field names and values are limited to 250 characters each
+const CUSTOM_FIELD_MAX_LENGTH = 250;
+// BigCommerce has no product tags, so finding products by tag scans this many pages of the catalog
+const TAG_SCAN_MAX_PAGES = 4;
+const EXISTING_PRODUCT_FIELDS = 'name,description,search_keywords,page_title,meta_description,price';
+
+interface BigCommerceProduct {
+  id: number;
+  name: string;
+  description: string;
+  search_keywords: string;
+  page_title: string;
+  meta_description: string;
+  price: number;
+  images?: Array<{ url_standard: string; description: string }>;
+}
+
+function toExistingProduct(product: BigCommerceProduct, currency: string, categoryName?: string): ExistingProduct {
+  const { description, features } = fromBodyHtml(product.description ?? '');
+  return {
+    id: product.id.toString(),
+    title: product.name,
+    category: categoryName ?? '',
+    description,
+    features,
+    // Generated products keep their tags among the search keywords
+    tags: (product.search_keywords ?? '')
+      .split(',')
+      .map((keyword) => keyword.trim())
+      .filter(Boolean),
+    seo:
+      product.page_title || product.meta_description
+        ? { title: product.page_title ?? '', description: product.meta_description ?? '' }
+        : null,
+    images: (product.images ?? []).map((image) => ({ url: image.url_standard, altText: image.description ?? '' })),
+    price: String(product.price),
+    currency,
+  };
+}
+
+/**
+ * Read X-Rate-Limit-Requests-Left and wait out the window (X-Rate-Limit-Time-Reset-Ms)
+ * when the quota is nearly used up
+ */
+function bigCommerceThrottle(response: Response): number {
+  const requestsLeft = parseInt(response.headers.get('X-Rate-Limit-Requests-Left') ?? '', 10);
+  const resetMs = parseInt(response.headers.get('X-Rate-Limit-Time-Reset-Ms') ?? '', 10);
+
+  if (Number.isNaN(requestsLeft) || Number.isNaN(resetMs)) {
+    return 0;
+  }
+
+  return requestsLeft < BIGCOMMERCE_REQUESTS_HEADROOM ? resetMs : 0;
+}
+
+async function throwBigCommerceError(response: Response): Promise<never> {
+  const errorText = await response.text();
+
+  if (response.status === 401 || response.status === 403) {
+    throw new Error(
+      `BigCommerce authentication failed (${response.status}). Please verify:
+      1. Your BIGCOMMERCE_ACCESS_TOKEN is correct and active
+      2. The API account has the 'Products: modify' OAuth scope ('Information & settings: read' and 'Inventory: modify' for stock levels, 'Customers: modify' and 'Orders: modify' for customers and orders, 'Marketing: modify' for discounts)
+      3. Your BIGCOMMERCE_STORE_HASH matches the store the token was created for
+
+      Error details: ${errorText}`
+    );
+  }
+
+  if (response.status === 429) {
+    throw new Error(
+      `BigCommerce rate limit exceeded (429) and retries were exhausted. Try lowering STORE_WRITE_CONCURRENCY.
+
+      Error details: ${errorText}`
+    );
+  }
+
+  if (response.status === 409) {
+    throw new Error(
+      `BigCommerce conflict (409). A product with the same name or SKU already exists.
+
+      Error details: ${errorText}`
+    );
+  }
+
+  if (response.status === 422) {
+    throw new Error(
+      `BigCommerce validation error (422). Common issues:
+      1. Duplicate variant option combinations
+      2. Invalid product data format
+      3. Missing required fields
+
+      Error details: ${errorText}`
+    );
+  }
+
+  throw new Error(`BigCommerce API error: ${response.status} - ${errorText}`);
+}
+
+export function createBigCommerceAdapter(): CommerceAdapter {
+  const { storeHash, accessToken } = getBigCommerceCredentials();
+
+  // Orders and customer groups are only available in the older v2 API
+  const bigCommerceFetch = (path: string, init: RequestInit = {}, apiVersion: 'v2' | 'v3' = 'v3') =>
+    fetchWithRateLimit(
+      `https://api.bigcommerce.com/stores/${storeHash}/${apiVersion}/${path}`,
+      {
+        ...init,
+        headers: {
+          Accept: 'application/json',
+          'X-Auth-Token': accessToken,
+          // Multipart bodies set their own content type with the boundary
+          ...(init.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
+          ...init.headers,
+        },
+      },
+      bigCommerceThrottle
+    );
+
+  const bigCommerceGraphql = async <T>(query: string, variables: Record<string, unknown>): Promise<T> => {
+    const response = await fetchWithRateLimit(
+      `https://api.bigcommerce.com/stores/${storeHash}/graphql`,
+      {
+        method: 'POST',
+        headers: { Accept: 'application/json', 'Content-Type': 'application/json', 'X-Auth-Token': accessToken },
+        body: JSON.stringify({ query, variables }),
+      },
+      bigCommerceThrottle
+    );
+
+    if (!response.ok) {
+      await throwBigCommerceError(response);
+    }
+
+    const result = await response.json();
+    if (result.errors?.length) {
+      throw new Error(`BigCommerce GraphQL error: ${result.errors.map((error: { message: string }) => error.message).join(', ')}`);
+    }
+    return result.data as T;
+  };
+
+  const findProductBySku = async (sku: string): Promise<{ id: number; name: string } | null> => {
+    const response = await bigCommerceFetch(`catalog/products?sku=${encodeURIComponent(sku)}&include_fields=name`);
+
+    if (!response.ok) {
+      await throwBigCommerceError(response);
+    }
+
+    const result = await response.json();
+    return result.data?.[0] ?? null;
+  };
+
+  // Product URLs in the store, loaded once per adapter since the catalog API cannot filter by URL
+  let productUrls: Promise<Set<string>> | null = null;
+  const getProductUrls = () => {
+    productUrls ??= (async () => {
+      const urls = new Set<string>();
+      for (let page = 1, totalPages = 1; page <= totalPages; page++) {
+        const response = await bigCommerceFetch(`catalog/products?limit=250&page=${page}&include_fields=custom_url`);
+        if (!response.ok) {
+          await throwBigCommerceError(response);
+        }
+
+        const result = await response.json();
+        for (const product of result.data ?? []) {
+          if (product.custom_url?.url) {
+            urls.add(product.custom_url.url.toLowerCase());
+          }
+        }
+        totalPages = result.meta?.pagination?.total_pages ?? 1;
+      }
+      return urls;
+    })();
+    return productUrls;
+  };
+
+  // Categories by parent and name, cached as promises so concurrent creates never make the same one twice
+  const categoryIds = new Map<string, Promise<number>>();
+  const ensureCategory = (name: string, parentId: number) => {
+    const key = `${parentId}:${name.toLowerCase()}`;
+    if (!categoryIds.has(key)) {
+      categoryIds.set(
+        key,
+        (async () => {
+          const existingResponse = await bigCommerceFetch(
+            `catalog/categories?name=${encodeURIComponent(name)}&parent_id=${parentId}&include_fields=name`
+          );
+          if (!existingResponse.ok) {
+            await throwBigCommerceError(existingResponse);
+          }
+
+          const existing = (await existingResponse.json()).data?.[0];
+          if (existing) {
+            return existing.id as number;
+          }
+
+          const response = await bigCommerceFetch('catalog/categories', {
+            method: 'POST',
+            body: JSON.stringify({ name, parent_id: parentId, is_visible: true }),
+          });
+          if (!response.ok) {
+            await throwBigCommerceError(response);
+          }
+
+          return (await response.json()).data.id as number;
+        })().catch((error) => {
+          // Let a later product try again instead of caching the failure
+          categoryIds.delete(key);
+          throw error;
+        })
+      );
+    }
+    return categoryIds.get(key)!;
+  };
+
+  /**
+   * BigCommerce has no standard product taxonomy, so the taxonomy path is mirrored as a category
+   * tree ("Furniture > Office Furniture > Office Chairs") and the product is placed in the leaf.
+   * Returns null (and logs) when the tree could not be built, since the product can do without it.
+   */
+  const ensureTaxonomyCategory = async (product: GeneratedProduct): Promise<number | null> => {
+    if (!product.taxonomyCategory) {
+      return null;
+    }
+
+    try {
+      let parentId = 0;
+      for (const segment of product.taxonomyCategory.split(' > ')) {
+        parentId = await ensureCategory(segment, parentId);
+      }
+      return parentId || null;
+    } catch (error) {
+      console.warn(`[BigCommerce] Failed to set up taxonomy categories for "${product.title}":`, error);
+      return null;
+    }
+  };
+
+  /**
+   * Load a product's variants and return a lookup of the variant IDs that have an option value,
+   * such as every "Color: Red" variant
+   */
+  const loadVariantIdsByOption = async (productId: string) => {
+    const response = await bigCommerceFetch(`catalog/products/${productId}/variants?include_fields=option_values&limit=250`);
+    if (!response.ok) {
+      await throwBigCommerceError(response);
+    }
+
+    const variants: Array<{ id: number; option_values: Array<{ option_display_name: string; label: string }> }> =
+      (await response.json()).data ?? [];
+    return (option: { name: string; value: string }): number[] =>
+      variants
+        .filter((variant) =>
+          variant.option_values.some(
+            (optionValue) =>
+              optionValue.option_display_name.toLowerCase() === option.name.toLowerCase() &&
+              optionValue.label === option.value
+          )
+        )
+        .map((variant) => variant.id);
+  };
+
+  /**
+   * Point variants at an uploaded product image. Failures are logged rather than thrown since the
+   * image itself is already attached to the product.
+   */
+  const setVariantImages = async (productId: string, variantIds: number[], imageUrl: string) => {
+    for (const variantId of variantIds) {
+      try {
+        const response = await bigCommerceFetch(`catalog/products/${productId}/variants/${variantId}/image`, {
+          method: 'POST',
+          body: JSON.stringify({ image_url: imageUrl }),
+        });
+
+        if (!response.ok) {
+          await throwBigCommerceError(response);
+        }
+      } catch (error) {
+        console.warn(`[BigCommerce] Failed to set the image of variant ${variantId}:`, error);
+      }
+    }
+  };
+
+  // The store's default currency, in which catalog prices are set, loaded once per adapter
+  let storeCurrency: Promise<string> | null = null;
+  const getStoreCurrency = () => {
+    storeCurrency ??= bigCommerceFetch('store', {}, 'v2')
+      .then(async (response) => {
+        if (!response.ok) {
+          await throwBigCommerceError(response);
+        }
+        return ((await response.json()) as { currency: string }).currency;
+      })
+      .catch((error) => {
+        storeCurrency = null;
+        throw error;
+      });
+    return storeCurrency;
+  };
+
+  // Active locations, loaded once per adapter and matched to generated stock levels in order
+  let locationIds: Promise<number[]> | null = null;
+  const getLocationIds = () => {
+    locationIds ??= bigCommerceFetch('inventory/locations?is_active=true').then(async (response) => {
+      if (!response.ok) {
+        await throwBigCommerceError(response);
+      }
+      const result = await response.json();
+      return (result.data ?? []).map((location: { id: number }) => location.id).sort((a: number, b: number) => a - b);
+    });
+    return locationIds;
+  };
+
+  /**
+   * Set each variant's stock at the store's locations with one absolute inventory adjustment.
+   * Failures are logged rather than thrown since the product itself was already created.
+   */
+  const setStockLevels = async (product: GeneratedProduct, createdVariants: Array<{ id: number; sku: string }>) => {
+    try {
+      const locations = await getLocationIds();
+      const items = createdVariants.flatMap((createdVariant) => {
+        const variant = product.variants.find((generated) => generated.sku === createdVariant.sku);
+        return (variant?.stockLevels ?? [])
+          .slice(0, locations.length)
+          .map((quantity, index) => ({ location_id: locations[index], variant_id: createdVariant.id, quantity }));
+      });
+
+      if (items.length === 0) {
+        return;
+      }
+
+      const response = await bigCommerceFetch('inventory/adjustments/absolute', {
+        method: 'PUT',
+        body: JSON.stringify({ reason: 'Generated stock levels', items }),
+      });
+
+      if (!response.ok) {
+        await throwBigCommerceError(response);
+      }
+    } catch (error) {
+      console.warn(`[BigCommerce] Failed to set stock levels for "${product.title}":`, error);
+    }
+  };
+
+  /**
+   * Set the product's translated name, description and SEO fields on the storefront channel. The
+   * locale has to be enabled for the channel first. Failures are logged rather than thrown since the
+   * product itself was already created.
+   */
+  const setTranslations = async (productId: string, product: GeneratedProduct) => {
+    if (!product.translations?.length) {
+      return;
+    }
+
+    try {
+      for (const translation of product.translations) {
+        const target = {
+          productId: `bc/store/product/${productId}`,
+          localeContext: { channelId: `bc/store/channel/${BIGCOMMERCE_CHANNEL_ID}`, locale: translation.locale },
+        };
+        await bigCommerceGraphql(
+          `mutation SetProductTranslation($basic: SetProductBasicInformationInput!, $seo: SetProductSeoInformationInput!) {
+            product {
+              setProductBasicInformation(input: $basic) { product { id } }
+              setProductSeoInformation(input: $seo) { product { id } }
+            }
+          }`,
+          {
+            basic: {
+              ...target,
+              data: { name: translation.title, description: descriptionToHtml(translation.description) },
+            },
+            seo: {
+              ...target,
+              data: {
+                pageTitle: translation.seo?.title ?? translation.title,
+                metaDescription: translation.seo?.description ?? '',
+              },
+            },
+          }
+        );
+      }
+    } catch (error) {
+      console.warn(`[BigCommerce] Failed to add translations for "${product.title}":`, error);
+    }
+  };
+
+  // One price list holds the market prices of every currency, found or created once per adapter
+  let marketPriceListId: Promise<number> | null = null;
+  const getMarketPriceList = () => {
+    marketPriceListId ??= (async () => {
+      const existingResponse = await bigCommerceFetch(`pricelists?name=${encodeURIComponent(MARKET_PRICE_LIST_NAME)}`);
+      if (!existingResponse.ok) {
+        await throwBigCommerceError(existingResponse);
+      }
+
+      const existing = (await existingResponse.json()).data?.[0];
+      if (existing) {
+        return existing.id as number;
+      }
+
+      const response = await bigCommerceFetch('pricelists', {
+        method: 'POST',
+        body: JSON.stringify({ name: MARKET_PRICE_LIST_NAME, active: true }),
+      });
+      if (!response.ok) {
+        await throwBigCommerceError(response);
+      }
+      const priceListId = (await response.json()).data.id as number;
+
+      // Assigned to the channel without a customer group, the list prices every shopper paying in its currencies
+      const assignmentResponse = await bigCommerceFetch('pricelists/assignments', {
+        method: 'POST',
+        body: JSON.stringify([{ price_list_id: priceListId, channel_id: BIGCOMMERCE_CHANNEL_ID }]),
+      });
+      if (!assignmentResponse.ok) {
+        await throwBigCommerceError(assignmentResponse);
+      }
+
+      return priceListId;
+    })().catch((error) => {
+      marketPriceListId = null;
+      throw error;
+    });
+    return marketPriceListId;
+  };
+
+  /**
+   * Set the product's prices in the run's other currencies. The currencies have to be enabled in the
+   * store. Failures are logged rather than thrown since the product itself was already created.
+   */
+  const setMarketPrices = async (product: GeneratedProduct, createdVariants: Array<{ id: number; sku: string }>) => {
+    try {
+      const records = (product.marketPrices ?? []).flatMap((marketPrice) =>
+        createdVariants.flatMap((createdVariant, index) => {
+          const generatedIndex = product.variants.findIndex((variant) => variant.sku === createdVariant.sku);
+          const variantPrice = marketPrice.variants[generatedIndex >= 0 ? generatedIndex : index];
+          if (!variantPrice) {
+            return [];
+          }
+          return [
+            {
+              variant_id: createdVariant.id,
+              currency: marketPrice.currency.toLowerCase(),
+              price: parseFloat(variantPrice.price),
+              ...(variantPrice.compareAtPrice ? { retail_price: parseFloat(variantPrice.compareAtPrice) } : {}),
+            },
+          ];
+        })
+      );
+
+      if (records.length === 0) {
+        return;
+      }
+
+      const response = await bigCommerceFetch(`pricelists/${await getMarketPriceList()}/records`, {
+        method: 'PUT',
+        body: JSON.stringify(records),
+      });
+
+      if (!response.ok) {
+        await throwBigCommerceError(response);
+      }
+    } catch (error) {
+      console.warn(`[BigCommerce] Failed to set market prices for "${product.title}":`, error);
+    }
+  };
+
+  // Variants of the products orders are placed for, cached since one product usually sells many times
+  const productVariants = new Map<string, Promise<Array<{ id: number; sku: string }>>>();
+  const getProductVariants = (productId: string) => {
+    if (!productVariants.has(productId)) {
+      productVariants.set(
+        productId,
+        bigCommerceFetch(`catalog/products/${productId}/variants?include_fields=sku&limit=250`)
+          .then(async (response) => {
+            if (!response.ok) {
+              await throwBigCommerceError(response);
+            }
+            // Variants are listed in creation order, which is the order of the generated variants
+            return (await response.json()).data ?? [];
+          })
+          .catch((error) => {
+            productVariants.delete(productId);
+            throw error;
+          })
+      );
+    }
+    return productVariants.get(productId)!;
+  };
+
+  // The store variant a generated variant became, matched by SKU and otherwise by position
+  const findVariant = async (productId: string, variant: { sku?: string; variantIndex: number }) => {
+    const variants = await getProductVariants(productId);
+    const match =
+      variants.find((candidate) => variant.sku && candidate.sku === variant.sku) ??
+      variants[variant.variantIndex] ??
+      variants[0];
+    if (!match) {
+      throw new Error(`Product ${productId} has no variants`);
+    }
+    return match;
+  };
+
+  return {
+    platform: 'bigcommerce',
+    storeId: storeHash,
+
+    async createProduct(product: GeneratedProduct, collectionIds: string[] = []): Promise<StoreProduct> {
+      // SKUs must be unique across the whole store. Deriving them from the idempotency key makes a
+      // retried create collide with the product it already made instead of duplicating it.
+      const skuPrefix = product.idempotencyKey
+        ? `AI-${product.idempotencyKey.toUpperCase()}`
+        : `AI-${Date.now().toString(36).toUpperCase()}-${Math.random().toString(36).slice(2, 6).toUpperCase()}`;
+
+      const hasStockLevels = product.variants.some((variant) => variant.stockLevels?.length);
+      const taxonomyCategoryId = await ensureTaxonomyCategory(product);
+      const categories = [...new Set([...collectionIds.map(Number), ...(taxonomyCategoryId ? [taxonomyCategoryId] : [])])];
+
+      const productPayload = {
+        name: product.title,
+        type: 'physical',
+        sku: skuPrefix,
+        description: descriptionToHtml(product.description),
+        price: parseFloat(product.price) || 0,
+        // Weight is required for physical products. Values are in the store's units, which are assumed to be kg/cm.
+        weight: product.shipping?.weightKg ?? 1,
+        ...(product.shipping
+          ? { width: product.shipping.widthCm, height: product.shipping.heightCm, depth: product.shipping.lengthCm }
+          : {}),
+        ...(hasStockLevels ? { inventory_tracking: 'variant' } : {}),
+        brand_name: 'AI Generated',
+        search_keywords: [product.category, ...(product.tags ?? []), ...product.features].join(', '),
+        ...(product.handle ? { custom_url: { url: `/${product.handle}/`, is_customized: true } } : {}),
+        ...(product.seo ? { page_title: product.seo.title, meta_description: product.seo.description } : {}),
+        ...(categories.length > 0 ? { categories } : {}),
+        // BigCommerce has no typed product attributes; custom fields are shown to shoppers as name/value text
+        ...(product.metafields?.length
+          ? {
+              custom_fields: product.metafields.map((metafield) => ({
+                name: metafieldName(metafield.key).slice(0, CUSTOM_FIELD_MAX_LENGTH),
+                value: formatMetafieldValue(metafield).slice(0, CUSTOM_FIELD_MAX_LENGTH),
+              })),
+            }
+          : {}),
+        is_visible: true,
+        variants: buildVariants(product, skuPrefix),
+      };
+
+      const response = await bigCommerceFetch('catalog/products?include=variants', {
+        method: 'POST',
+        body: JSON.stringify(productPayload),
+      });
+
+      if (response.status === 409 && product.idempotencyKey) {
+        const existing = await findProductBySku(skuPrefix);
+        if (existing) {
+          console.log(`[BigCommerce] Product with SKU ${skuPrefix} already exists as ${existing.id}, reusing it`);
+          return { id: existing.id.toString(), title: existing.name, image: product.image };
+        }
+      }
+
+      if (!response.ok) {
+        await throwBigCommerceError(response);
+      }
+
+      const result = await response.json();
+      const productId = result.data?.id;
+
+      if (!productId) {
+        throw new Error('Product created but no ID returned from BigCommerce');
+      }
+
+      if (hasStockLevels) {
+        await setStockLevels(product, result.data.variants ?? []);
+      }
+
+      await setTranslations(productId.toString(), product);
+      if (product.marketPrices?.length) {
+        await setMarketPrices(product, result.data.variants ?? []);
+      }
+
+      return {
+        id: productId.toString(),
+        title: result.data.name,
+        image: product.image,
+      };
+    },
+
+    async isHandleTaken(handle: string): Promise<boolean> {
+      return (await getProductUrls()).has(`/${handle}/`);
+    },
+
+    async ensureCollection(collection: CollectionDefinition): Promise<StoreCollection> {
+      // Categories are BigCommerce's only collection type, so automated collections become regular categories
+      const id = await ensureCategory(collection.title, 0);
+      return { id: id.toString(), title: collection.title, automated: false };
+    },
+
+    async attachImages(productId: string, images: ProductImage[], options: AttachImagesOptions = {}): Promise<void> {
+      const { skip = 0, onAttached } = options;
+      const variantIdsByOption = images.slice(skip).some((image) => image.variantOption)
+        ? await loadVariantIdsByOption(productId)
+        : null;
+
+      for (const [index, image] of images.entries()) {
+        // Positions count from the full list, so a resumed upload keeps the same thumbnail
+        if (index < skip) {
+          continue;
+        }
+
+        let body: FormData | string;
+        if (isImageUrl(image.url)) {
+          // BigCommerce downloads the image itself. It only accepts raster formats for product images.
+          if (/\.svg$/i.test(new URL(image.url).pathname)) {
+            continue;
+          }
+          body = JSON.stringify({
+            image_url: image.url,
+            is_thumbnail: index === 0,
+            ...(image.altText ? { description: image.altText } : {}),
+          });
+        } else {
+          const parsed = parseImageDataUri(image.url);
+
+          // BigCommerce only accepts raster formats for product images
+          if (!parsed || parsed.extension === 'svg') {
+            continue;
+          }
+
+          // The Catalog API takes binary uploads as multipart/form-data with an image_file part
+          const formData = new FormData();
+          formData.append(
+            'image_file',
+            new Blob([Buffer.from(parsed.base64, 'base64')], { type: parsed.mimeType }),
+            `product-${productId}-${Date.now()}-${index + 1}.${parsed.extension}`
+          );
+          formData.append('is_thumbnail', index === 0 ? 'true' : 'false');
+          if (image.altText) {
+            formData.append('description', image.altText);
+          }
+          body = formData;
+        }
+
+        const response = await bigCommerceFetch(`catalog/products/${productId}/images`, {
+          method: 'POST',
+          body,
+        });
+
+        if (!response.ok) {
+          await throwBigCommerceError(response);
+        }
+
+        // Variant images can only be set from a URL, so they point at the image just uploaded
+        if (image.variantOption && variantIdsByOption) {
+          const uploaded = (await response.json()).data;
+          if (uploaded?.url_zoom) {
+            await setVariantImages(productId, variantIdsByOption(image.variantOption), uploaded.url_zoom);
+          }
+        }
+        await onAttached?.(index + 1);
+      }
+    },
+
+    async deleteProduct(productId: string): Promise<void> {
+      // Deleting a product also deletes its images, variants and option set
+      const response = await bigCommerceFetch(`catalog/products/${productId}`, { method: 'DELETE' });
+
+      if (!response.ok && response.status !== 404) {
+        await throwBigCommerceError(response);
+      }
+    },
+
+    async listProducts(options: ListProductsOptions = {}): Promise<ListedProduct[]> {
+      const limit = Math.min(options.limit ?? 50, 250);
+      const response = await bigCommerceFetch(
+        `catalog/products?limit=${limit}&include_fields=name&sort=date_modified&direction=desc`
+      );
+
+      if (!response.ok) {
+        await throwBigCommerceError(response);
+      }
+
+      const result = await response.json();
+      return (result.data ?? []).map((product: { id: number; name: string }) => ({
+        id: product.id.toString(),
+        title: product.name,
+      }));
+    },
+
+    async findProducts(query: EnrichmentQuery): Promise<ExistingProduct[]> {
+      const currency = await getStoreCurrency();
+      const loadProducts = async (filter: string): Promise<{ products: BigCommerceProduct[]; totalPages: number }> => {
+        const response = await bigCommerceFetch(
+          `catalog/products?${filter}&include_fields=${EXISTING_PRODUCT_FIELDS}&include=images&sort=date_modified&direction=desc`
+        );
+        if (!response.ok) {
+          await throwBigCommerceError(response);
+        }
+
+        const result = await response.json();
+        return { products: result.data ?? [], totalPages: result.meta?.pagination?.total_pages ?? 1 };
+      };
+
+      if (query.source === 'collection') {
+        const categoryResponse = await bigCommerceFetch(
+          `catalog/categories?name=${encodeURIComponent(query.value)}&include_fields=name`
+        );
+        if (!categoryResponse.ok) {
+          await throwBigCommerceError(categoryResponse);
+        }
+
+        const category = (await categoryResponse.json()).data?.[0] as { id: number; name: string } | undefined;
+        if (!category) {
+          throw new Error(`No category named "${query.value}" was found in the store`);
+        }
+
+        const { products } = await loadProducts(`categories:in=${category.id}&limit=${query.limit}`);
+        return products.map((product) => toExistingProduct(product, currency, category.name));
+      }
+
+      if (query.source === 'search') {
+        const { products } = await loadProducts(`keyword=${encodeURIComponent(query.value)}&limit=${query.limit}`);
+        return products.map((product) => toExistingProduct(product, currency));
+      }
+
+      const tag = query.value.toLowerCase();
+      const found: ExistingProduct[] = [];
+      for (let page = 1, totalPages = 1; page <= Math.min(totalPages, TAG_SCAN_MAX_PAGES); page++) {
+        const result = await loadProducts(`limit=250&page=${page}`);
+        for (const product of result.products.map((product) => toExistingProduct(product, currency))) {
+          if (product.tags.some((candidate) => candidate.toLowerCase() === tag)) {
+            found.push(product);
+          }
+        }
+        if (found.length >= query.limit) {
+          break;
+        }
+        totalPages = result.totalPages;
+      }
+      return found.slice(0, query.limit);
+    },
+
+    async updateProduct(productId: string, copy: ProductCopyUpdate): Promise<void> {
+      const response = await bigCommerceFetch(`catalog/products/${productId}`, {
+        method: 'PUT',
+        body: JSON.stringify({
+          // Features of generated products are only search keywords, so rewritten ones are listed on the page
+          ...(copy.description !== undefined
+            ? { description: toBodyHtml({ description: copy.description, features: copy.features ?? [] }) }
+            : {}),
+          ...(copy.seo ? { page_title: copy.seo.title, meta_description: copy.seo.description } : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        await throwBigCommerceError(response);
+      }
+    },
+
+    async createCustomer(customer: GeneratedCustomer): Promise<string> {
+      const response = await bigCommerceFetch('customers', {
+        method: 'POST',
+        body: JSON.stringify([
+          {
+            email: customer.email,
+            first_name: customer.firstName,
+            last_name: customer.lastName,
+            notes: customer.persona.summary,
+            accepts_product_review_abandoned_cart_emails: customer.acceptsMarketing,
+            addresses: [
+              {
+                first_name: customer.firstName,
+                last_name: customer.lastName,
+                address1: customer.address.address1,
+                city: customer.address.city,
+                state_or_province: customer.address.province,
+                postal_code: customer.address.zip,
+                country_code: customer.address.countryCode,
+              },
+            ],
+          },
+        ]),
+      });
+
+      if (!response.ok) {
+        await throwBigCommerceError(response);
+      }
+
+      const customerId = (await response.json()).data?.[0]?.id;
+      if (!customerId) {
+        throw new Error('Customer created but no ID returned from BigCommerce');
+      }
+      return customerId.toString();
+    },
+
+    async createOrder(order: GeneratedOrder, customer: GeneratedCustomer, customerId: string): Promise<string> {
+      const products = await Promise.all(
+        order.lineItems.map(async (lineItem) => {
+          const variants = await getProductVariants(lineItem.storeProductId);
+          const variant =
+            variants.find((candidate) => lineItem.sku && candidate.sku === lineItem.sku) ?? variants[lineItem.variantIndex];
+          const price = parseFloat(lineItem.price) || 0;
+          return {
+            product_id: Number(lineItem.storeProductId),
+            ...(variant ? { variant_id: variant.id } : {}),
+            quantity: lineItem.quantity,
+            price_inc_tax: price,
+            price_ex_tax: price,
+          };
+        })
+      );
+
+      // Status IDs: 4 Refunded, 10 Completed, 11 Awaiting Fulfillment
+      const statusId = order.financialStatus === 'refunded' ? 4 : order.fulfilled ? 10 : 11;
+      const response = await bigCommerceFetch(
+        'orders',
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            customer_id: Number(customerId),
+            status_id: statusId,
+            // The v2 API takes RFC 2822 dates
+            date_created: new Date(order.processedAt).toUTCString(),
+            billing_address: {
+              first_name: customer.firstName,
+              last_name: customer.lastName,
+              street_1: customer.address.address1,
+              city: customer.address.city,
+              state: customer.address.province,
+              zip: customer.address.zip,
+              country: customer.address.country,
+              country_iso2: customer.address.countryCode,
+              email: customer.email,
+            },
+            products,
+            external_source: 'AI Generated',
+          }),
+        },
+        'v2'
+      );
+
+      if (!response.ok) {
+        await throwBigCommerceError(response);
+      }
+
+      const orderId = (await response.json()).id;
+      if (!orderId) {
+        throw new Error('Order created but no ID returned from BigCommerce');
+      }
+      return orderId.toString();
+    },
+
+    async addReviews(productId: string, reviews: GeneratedReview[]): Promise<void> {
+      for (const review of reviews) {
+        const response = await bigCommerceFetch(`catalog/products/${productId}/reviews`, {
+          method: 'POST',
+          body: JSON.stringify({
+            title: review.title,
+            text: review.body,
+            status: 'approved',
+            rating: review.rating,
+            email: review.email,
+            name: review.authorName,
+            date_reviewed: review.createdAt,
+          }),
+        });
+
+        if (!response.ok) {
+          await throwBigCommerceError(response);
+        }
+      }
+    },
+
+    async createDiscount(discount: PlannedDiscount): Promise<string> {
+      const response = await bigCommerceFetch('promotions', {
+        method: 'POST',
+        body: JSON.stringify({
+          name: discount.title,
+          redemption_type: discount.code ? 'COUPON' : 'AUTOMATIC',
+          status: 'ENABLED',
+          start_date: discount.startsAt,
+          ...(discount.endsAt ? { end_date: discount.endsAt } : {}),
+          rules: [
+            {
+              action: {
+                cart_items: {
+                  discount: { percentage_amount: String(discount.percentage) },
+                  items: { products: discount.productIds.map(Number) },
+                },
+              },
+              apply_once: false,
+              stop: false,
+            },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        await throwBigCommerceError(response);
+      }
+
+      const promotionId = (await response.json()).data?.id;
+      if (!promotionId) {
+        throw new Error('Promotion created but no ID returned from BigCommerce');
+      }
+
+      // Coupon promotions are redeemed with codes added to the promotion
+      if (discount.code) {
+        const codeResponse = await bigCommerceFetch(`promotions/${promotionId}/codes`, {
+          method: 'POST',
+          body: JSON.stringify({
+            code: discount.code,
+            max_uses_per_customer: 1,
+            ...(discount.usageLimit ? { max_uses: discount.usageLimit } : {}),
+          }),
+        });
+
+        if (!codeResponse.ok) {
+          await throwBigCommerceError(codeResponse);
+        }
+      }
+
+      return promotionId.toString();
+    },
+
+    async createPriceList(priceList: PlannedPriceList): Promise<string> {
+      const response = await bigCommerceFetch('pricelists', {
+        method: 'POST',
+        body: JSON.stringify({ name: priceList.name, active: true }),
+      });
+
+      if (!response.ok) {
+        await throwBigCommerceError(response);
+      }
+
+      const priceListId = (await response.json()).data?.id;
+      if (!priceListId) {
+        throw new Error('Price list created but no ID returned from BigCommerce');
+      }
+
+      const currency = (await getStoreCurrency()).toLowerCase();
+      const records = await Promise.all(
+        priceList.prices.map(async (price) => ({
+          variant_id: (await findVariant(price.storeProductId, price)).id,
+          currency,
+          price: parseFloat(price.price),
+        }))
+      );
+
+      // Records are upserted at most 1000 per call
+      for (let start = 0; start < records.length; start += 1000) {
+        const recordsResponse = await bigCommerceFetch(`pricelists/${priceListId}/records`, {
+          method: 'PUT',
+          body: JSON.stringify(records.slice(start, start + 1000)),
+        });
+
+        if (!recordsResponse.ok) {
+          await throwBigCommerceError(recordsResponse);
+        }
+      }
+
+      // Customers in the group see the price list in the storefront
+      const groupResponse = await bigCommerceFetch(
+        'customer_groups',
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            name: priceList.customerGroup,
+            discount_rules: [{ type: 'price_list', price_list_id: priceListId }],
+          }),
+        },
+        'v2'
+      );
+
+      if (!groupResponse.ok) {
+        await throwBigCommerceError(groupResponse);
+      }
+
+      return priceListId.toString();
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import type { CommerceAdapter, CommercePlatform } from './types';
+import { createShopifyAdapter } from './shopify';
+import { createBigCommerceAdapter } from './bigcommerce';
+
+export type {
+  CollectionDefinition,
+  CommerceAdapter,
+  CommercePlatform,
+  ListedProduct,
+  ListProductsOptions,
+  StoreCollection,
+  StoreProduct,
+} from './types';
+
+// Register new platforms here - the workflow only ever talks to the CommerceAdapter interface
+const adapterFactories: Record<CommercePlatform, () => CommerceAdapter> = {
+  shopify: createShopifyAdapter,
+  bigcommerce: createBigCommerceAdapter,
+};
+
+export const COMMERCE_PLATFORMS = Object.keys(adapterFactories) as CommercePlatform[];
+
+export function isCommercePlatform(value: unknown): value is CommercePlatform {
+  return typeof value === 'string' && value in adapterFactories;
+}
+
+/**
+ * Create the adapter for a platform. Credentials are read (and validated) at creation time.
+ */
+export function getCommerceAdapter(platform: CommercePlatform): CommerceAdapter {
+  const factory = adapterFactories[platform];
+  if (!factory) {
+    throw new Error(`Unsupported commerce platform: ${platform}`);
+  }
+  return factory();
+}
@@ -0,0 +1,60 @@
+const MAX_RATE_LIMIT_RETRIES = 5;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+
+/**
+ * Inspects a successful response and returns how long to pause before the next request,
+ * so callers slow down before the store starts answering with 429
+ */
+export type ThrottleCheck = (response: Response) => number;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Milliseconds to wait according to a Retry-After header (seconds or HTTP date), if present
+ */
+function parseRetryAfter(response: Response): number | null {
+  const retryAfter = response.headers.get('Retry-After');
+  if (!retryAfter) {
+    return null;
+  }
+
+  const seconds = parseFloat(retryAfter);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * fetch() that retries 429 responses, honouring Retry-After and otherwise backing off
+ * exponentially, and that pauses when the store reports its rate limit is nearly used up
+ */
+export async function fetchWithRateLimit(
+  url: string,
+  init: RequestInit,
+  throttle?: ThrottleCheck
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch(url, init);
+
+    if (response.status === 429 && attempt < MAX_RATE_LIMIT_RETRIES) {
+      const backoff = Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+      const delay = parseRetryAfter(response) ?? backoff + Math.random() * BASE_BACKOFF_MS;
+      console.warn(`[fetchWithRateLimit] Rate limited by ${new URL(url).host}, retrying in ${Math.round(delay)}ms`);
+      // Drain the body so the connection can be reused
+      await response.text().catch(() => undefined);
+      await sleep(delay);
+      continue;
+    }
+
+    const pause = throttle?.(response) ?? 0;
+    if (pause > 0) {
+      await sleep(pause);
+    }
+
+    return response;
+  }
+}
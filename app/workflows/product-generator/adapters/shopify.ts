@@ -0,0 +1,1272 @@
+import type { GeneratedProduct } from '../generate-products';
+import type { ProductImage } from '../product-images';
+import type { GeneratedCustomer, GeneratedOrder, GeneratedReview } from '../store-activity';
+import type { PlannedDiscount, PlannedPriceList } from '../promotions';
+import { metafieldName, type ProductMetafield } from '../metafields';
+import type { EnrichmentQuery, ExistingProduct, ProductCopyUpdate } from '../enrichment';
+import type {
+  AttachImagesOptions,
+  CollectionDefinition,
+  CommerceAdapter,
+  ListedProduct,
+  ListProductsOptions,
+  StoreCollection,
+  StoreProduct,
+} from './types';
+import {
+  descriptionToHtml,
+  fromBodyHtml,
+  isImageUrl,
+  parseImageDataUri,
+  resolveVariantOptions,
+  toBodyHtml,
+} from './utils';
+import { fetchWithRateLimit } from './rate-limit';
+
+export const SHOPIFY_API_VERSION = '2025-07';
+
+interface ShopifyVariantPayload {
+  option1: string;
+  option2?: string;
+  option3?: string;
+  price: string;
+  compare_at_price?: string;
+  sku?: string;
+  barcode?: string;
+  weight?: number;
+  weight_unit?: 'kg';
+  requires_shipping?: boolean;
+  position: number;
+  inventory_management: 'shopify' | null;
+}
+
+function getShopifyCredentials(): { domain: string; accessToken: string; apiBaseUrl: string } {
+  const shopifyDomain = process.env.SHOPIFY_STORE_DOMAIN;
+  const accessToken = process.env.SHOPIFY_ACCESS_TOKEN;
+
+  if (!shopifyDomain || !accessToken) {
+    throw new Error(
+      `Shopify credentials not configured. Please set SHOPIFY_STORE_DOMAIN and SHOPIFY_ACCESS_TOKEN environment variables.
+      Found SHOPIFY_STORE_DOMAIN: ${shopifyDomain ? 'yes' : 'no'}
+      Found SHOPIFY_ACCESS_TOKEN: ${accessToken ? 'yes' : 'no'}`
+    );
+  }
+
+  // Normalize domain - remove https:// or http:// if present
+  const domain = shopifyDomain.replace(/^https?:\/\//, '').replace(/\/$/, '');
+
+  return {
+    domain,
+    accessToken: accessToken.trim(),
+    // Override the API address to run against a stand-in store such as the local mock store (/api/mock-store)
+    apiBaseUrl: process.env.SHOPIFY_API_BASE_URL?.replace(/\/$/, '') || `https://${domain}`,
+  };
+}
+
+/**
+ * Shopify requires variants to have option1, option2, option3 instead of title.
+ * The title is computed from the options, which are declared on the product (up to 3).
+ */
+function buildVariants(product: GeneratedProduct): {
+  options?: Array<{ name: string; values: string[] }>;
+  variants: ShopifyVariantPayload[];
+} {
+  const { optionNames, rows } = resolveVariantOptions(product);
+
+  if (rows.length === 0) {
+    // Default variant if none provided
+    return {
+      variants: [
+        {
+          option1: 'Default',
+          price: product.price || '0.00',
+          position: 1,
+          inventory_management: null,
+        },
+      ],
+    };
+  }
+
+  return {
+    options: optionNames.map((name, dimension) => ({
+      name,
+      values: [...new Set(rows.map(({ values }) => values[dimension]))],
+    })),
+    variants: rows.map(({ values, variant }, index) => {
+      const [option1, option2, option3] = values;
+
+      return {
+        option1,
+        ...(option2 !== undefined ? { option2 } : {}),
+        ...(option3 !== undefined ? { option3 } : {}),
+        price: variant.price,
+        ...(variant.compareAtPrice ? { compare_at_price: variant.compareAtPrice } : {}),
+        ...(variant.sku ? { sku: variant.sku } : {}),
+        ...(variant.barcode ? { barcode: variant.barcode } : {}),
+        ...(product.shipping
+          ? { weight: product.shipping.weightKg, weight_unit: 'kg' as const, requires_shipping: true }
+          : {}),
+        position: index + 1,
+        // Track stock when levels were generated, otherwise allow unlimited inventory
+        inventory_management: variant.stockLevels ? 'shopify' : null,
+      };
+    }),
+  };
+}
+
+// The REST Admin API leaks 2 calls per second from the bucket on standard plans
+const SHOPIFY_LEAK_RATE_MS = 500;
+const SHOPIFY_BUCKET_HEADROOM = 0.8;
+
+/**
+ * Read X-Shopify-Shop-Api-Call-Limit ("32/40") and wait for the bucket to drain
+ * once it is more than 80% full
+ */
+function shopifyThrottle(response: Response): number {
+  const callLimit = response.headers.get('X-Shopify-Shop-Api-Call-Limit');
+  const [used, limit] = (callLimit ?? '').split('/').map((value) => parseInt(value, 10));
+
+  if (!used || !limit) {
+    return 0;
+  }
+
+  const overThreshold = used - Math.floor(limit * SHOPIFY_BUCKET_HEADROOM);
+  return overThreshold > 0 ? overThreshold * SHOPIFY_LEAK_RATE_MS : 0;
+}
+
+async function throwShopifyError(response: Response): Promise<never> {
+  const errorText = await response.text();
+
+  if (response.status === 401) {
+    throw new Error(
+      `Shopify authentication failed (401). Please verify:
+      1. Your SHOPIFY_ACCESS_TOKEN is correct and active
+      2. The token has 'write_products' scope ('write_inventory' and 'read_locations' for stock levels, 'write_customers' and 'write_orders' for customers and orders, 'write_discounts' for discounts)
+      3. The token hasn't been revoked or regenerated
+      4. Your SHOPIFY_STORE_DOMAIN is correct (should be: your-store.myshopify.com)
+
+      Error details: ${errorText}
+
+      To get a new token:
+      1. Go to Shopify Admin > Settings > Apps and sales channels
+      2. Click "Develop apps" > Create an app
+      3. Configure Admin API scopes (check 'write_products', 'write_inventory', 'read_locations', 'write_customers', 'write_orders' and 'write_discounts')
+      4. Install the app and copy the Admin API access token`
+    );
+  }
+
+  if (response.status === 429) {
+    throw new Error(
+      `Shopify rate limit exceeded (429) and retries were exhausted. Try lowering STORE_WRITE_CONCURRENCY.
+
+      Error details: ${errorText}`
+    );
+  }
+
+  if (response.status === 422) {
+    throw new Error(
+      `Shopify validation error (422). Common issues:
+      1. Duplicate variant option combinations
+      2. Invalid product data format
+      3. Missing required fields
+
+      Error details: ${errorText}`
+    );
+  }
+
+  throw new Error(`Shopify API error: ${response.status} - ${errorText}`);
+}
+
+interface ShopifyTaxonomyCategory {
+  id: string;
+  fullName: string;
+}
+
+/**
+ * Pick the taxonomy category matching a generated path: the exact path if the search found it,
+ * otherwise the closest category with the same leaf name
+ */
+function matchTaxonomyCategory(path: string, candidates: ShopifyTaxonomyCategory[]): ShopifyTaxonomyCategory | null {
+  const normalizedPath = path.toLowerCase();
+  const leaf = normalizedPath.split(' > ').pop() ?? normalizedPath;
+
+  return (
+    candidates.find((candidate) => candidate.fullName.toLowerCase() === normalizedPath) ??
+    candidates.find((candidate) => candidate.fullName.toLowerCase().endsWith(` > ${leaf}`)) ??
+    null
+  );
+}
+
+function toShopifyAddress(customer: GeneratedCustomer) {
+  return {
+    first_name: customer.firstName,
+    last_name: customer.lastName,
+    address1: customer.address.address1,
+    city: customer.address.city,
+    province: customer.address.province,
+    zip: customer.address.zip,
+    country: customer.address.country,
+    country_code: customer.address.countryCode,
+  };
+}
+
+// Fields read from existing products to enrich them. Images are capped so the query stays within the cost limit.
+const EXISTING_PRODUCT_FIELDS = `
+  id
+  title
+  productType
+  descriptionHtml
+  tags
+  seo { title description }
+  priceRangeV2 { minVariantPrice { amount currencyCode } }
+  images(first: 10) { nodes { url altText } }
+`;
+
+interface ShopifyProductNode {
+  id: string;
+  title: string;
+  productType: string;
+  descriptionHtml: string;
+  tags: string[];
+  seo: { title: string | null; description: string | null };
+  priceRangeV2: { minVariantPrice: { amount: string; currencyCode: string } };
+  images: { nodes: Array<{ url: string; altText: string | null }> };
+}
+
+function toExistingProduct(node: ShopifyProductNode, collectionTitle?: string): ExistingProduct {
+  const { description, features } = fromBodyHtml(node.descriptionHtml ?? '');
+  return {
+    id: node.id.split('/').pop() ?? node.id,
+    title: node.title,
+    category: node.productType || collectionTitle || '',
+    description,
+    features,
+    tags: node.tags,
+    // Unset SEO fields fall back to the title and description on the storefront
+    seo:
+      node.seo.title || node.seo.description
+        ? { title: node.seo.title ?? '', description: node.seo.description ?? '' }
+        : null,
+    images: node.images.nodes.map((image) => ({ url: image.url, altText: image.altText ?? '' })),
+    price: node.priceRangeV2.minVariantPrice.amount,
+    currency: node.priceRangeV2.minVariantPrice.currencyCode,
+  };
+}
+
+// Generated products carry their idempotency key in this metafield. Its definition only allows unique
+// values, which lets a retried create look the product up by key instead of duplicating it.
+const IDEMPOTENCY_METAFIELD = { namespace: 'product_generator', key: 'idempotency_key' } as const;
+
+// Quote a value for Shopify's search syntax, so tags and titles with spaces match as a whole
+const quoteSearchValue = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`;
+
+interface ShopifyCreatedVariant {
+  id: number;
+  inventory_item_id: number;
+  position: number;
+}
+
+export function createShopifyAdapter(): CommerceAdapter {
+  const { domain, accessToken, apiBaseUrl } = getShopifyCredentials();
+
+  const shopifyFetch = (path: string, init: RequestInit = {}) =>
+    fetchWithRateLimit(
+      `${apiBaseUrl}/admin/api/${SHOPIFY_API_VERSION}/${path}`,
+      {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Shopify-Access-Token': accessToken,
+          ...init.headers,
+        },
+      },
+      shopifyThrottle
+    );
+
+  const shopifyGraphql = async <T>(query: string, variables: Record<string, unknown>): Promise<T> => {
+    const response = await shopifyFetch('graphql.json', {
+      method: 'POST',
+      body: JSON.stringify({ query, variables }),
+    });
+
+    if (!response.ok) {
+      await throwShopifyError(response);
+    }
+
+    const result = await response.json();
+    if (result.errors?.length) {
+      throw new Error(`Shopify GraphQL error: ${result.errors.map((error: { message: string }) => error.message).join(', ')}`);
+    }
+    return result.data as T;
+  };
+
+  // Taxonomy lookups, cached per path since every product of a category usually shares one
+  const taxonomyCategories = new Map<string, Promise<ShopifyTaxonomyCategory | null>>();
+  const findTaxonomyCategory = (path: string) => {
+    if (!taxonomyCategories.has(path)) {
+      const leaf = path.split(' > ').pop() ?? path;
+      taxonomyCategories.set(
+        path,
+        shopifyGraphql<{ taxonomy: { categories: { nodes: ShopifyTaxonomyCategory[] } } }>(
+          `query TaxonomyCategories($search: String!) {
+            taxonomy {
+              categories(first: 25, search: $search) {
+                nodes { id fullName }
+              }
+            }
+          }`,
+          { search: leaf }
+        ).then((data) => matchTaxonomyCategory(path, data.taxonomy.categories.nodes))
+      );
+    }
+    return taxonomyCategories.get(path)!;
+  };
+
+  /**
+   * Map the product onto Shopify's Standard Product Taxonomy, which drives the category filters
+   * of the storefront. Failures are logged rather than thrown since the product was already created.
+   */
+  const setTaxonomyCategory = async (productId: string, product: GeneratedProduct) => {
+    if (!product.taxonomyCategory) {
+      return;
+    }
+
+    try {
+      const category = await findTaxonomyCategory(product.taxonomyCategory);
+      if (!category) {
+        console.warn(`[Shopify] No taxonomy category matches "${product.taxonomyCategory}"`);
+        return;
+      }
+
+      const data = await shopifyGraphql<{ productUpdate: { userErrors: Array<{ message: string }> } }>(
+        `mutation SetProductCategory($product: ProductUpdateInput!) {
+          productUpdate(product: $product) {
+            userErrors { field message }
+          }
+        }`,
+        { product: { id: `gid://shopify/Product/${productId}`, category: category.id } }
+      );
+
+      if (data.productUpdate.userErrors.length > 0) {
+        throw new Error(data.productUpdate.userErrors.map((error) => error.message).join(', '));
+      }
+    } catch (error) {
+      console.warn(`[Shopify] Failed to set taxonomy category for "${product.title}":`, error);
+    }
+  };
+
+  /**
+   * Load a product's options and variants and return a lookup of the variant IDs that have an
+   * option value, such as every "Color: Red" variant
+   */
+  const loadVariantIdsByOption = async (productId: string) => {
+    const response = await shopifyFetch(`products/${productId}.json?fields=options,variants`);
+    if (!response.ok) {
+      await throwShopifyError(response);
+    }
+
+    const { product } = await response.json();
+    return (option: { name: string; value: string }): number[] => {
+      const position =
+        (product.options ?? []).findIndex((candidate: { name: string }) => candidate.name.toLowerCase() === option.name.toLowerCase()) + 1;
+      if (position === 0) {
+        return [];
+      }
+      return (product.variants ?? [])
+        .filter((variant: Record<string, unknown>) => variant[`option${position}`] === option.value)
+        .map((variant: { id: number }) => variant.id);
+    };
+  };
+
+  // Active locations, loaded once per adapter and matched to generated stock levels in order
+  let locationIds: Promise<number[]> | null = null;
+  const getLocationIds = () => {
+    locationIds ??= shopifyFetch('locations.json').then(async (response) => {
+      if (!response.ok) {
+        await throwShopifyError(response);
+      }
+      const result = await response.json();
+      return (result.locations ?? [])
+        .filter((location: { active: boolean }) => location.active)
+        .map((location: { id: number }) => location.id)
+        .sort((a: number, b: number) => a - b);
+    });
+    return locationIds;
+  };
+
+  /**
+   * Set each variant's stock at the store's locations. Requires the write_inventory scope.
+   * Failures are logged rather than thrown since the product itself was already created.
+   */
+  const setStockLevels = async (product: GeneratedProduct, createdVariants: ShopifyCreatedVariant[]) => {
+    try {
+      const locations = await getLocationIds();
+
+      for (const createdVariant of createdVariants) {
+        const stockLevels = product.variants[createdVariant.position - 1]?.stockLevels ?? [];
+
+        for (const [index, available] of stockLevels.entries()) {
+          if (index >= locations.length) break;
+
+          const response = await shopifyFetch('inventory_levels/set.json', {
+            method: 'POST',
+            body: JSON.stringify({
+              location_id: locations[index],
+              inventory_item_id: createdVariant.inventory_item_id,
+              available,
+            }),
+          });
+
+          if (!response.ok) {
+            await throwShopifyError(response);
+          }
+        }
+      }
+    } catch (error) {
+      console.warn(`[Shopify] Failed to set stock levels for "${product.title}":`, error);
+    }
+  };
+
+  // Variants of the products orders are placed for, cached since one product usually sells many times
+  const productVariants = new Map<string, Promise<Array<{ id: number; sku: string | null }>>>();
+  const getProductVariants = (productId: string) => {
+    if (!productVariants.has(productId)) {
+      productVariants.set(
+        productId,
+        shopifyFetch(`products/${productId}.json?fields=variants`)
+          .then(async (response) => {
+            if (!response.ok) {
+              await throwShopifyError(response);
+            }
+            const { product } = await response.json();
+            return [...(product.variants ?? [])].sort((a, b) => a.position - b.position);
+          })
+          .catch((error) => {
+            productVariants.delete(productId);
+            throw error;
+          })
+      );
+    }
+    return productVariants.get(productId)!;
+  };
+
+  // The store variant a generated variant became, matched by SKU and otherwise by position
+  const findVariant = async (productId: string, variant: { sku?: string; variantIndex: number }) => {
+    const variants = await getProductVariants(productId);
+    const match =
+      variants.find((candidate) => variant.sku && candidate.sku === variant.sku) ??
+      variants[variant.variantIndex] ??
+      variants[0];
+    if (!match) {
+      throw new Error(`Product ${productId} has no variants`);
+    }
+    return match;
+  };
+
+  const throwUserErrors = (userErrors: Array<{ message: string }>) => {
+    if (userErrors.length > 0) {
+      throw new Error(`Shopify rejected the request: ${userErrors.map((error) => error.message).join(', ')}`);
+    }
+  };
+
+  // The shop's own currency, in which product prices are set, loaded once per adapter
+  let shopCurrency: Promise<string> | null = null;
+  const getShopCurrency = () => {
+    shopCurrency ??= shopifyGraphql<{ shop: { currencyCode: string } }>(`query ShopCurrency { shop { currencyCode } }`, {})
+      .then((data) => data.shop.currencyCode)
+      .catch((error) => {
+        shopCurrency = null;
+        throw error;
+      });
+    return shopCurrency;
+  };
+
+  const createShopifyPriceList = async (name: string, currency: string, catalogId?: string) => {
+    const data = await shopifyGraphql<{
+      priceListCreate: { priceList: { id: string } | null; userErrors: Array<{ message: string }> };
+    }>(
+      `mutation CreatePriceList($input: PriceListCreateInput!) {
+        priceListCreate(input: $input) {
+          priceList { id }
+          userErrors { field message }
+        }
+      }`,
+      {
+        input: {
+          name,
+          currency,
+          parent: { adjustment: { type: 'PERCENTAGE_DECREASE', value: 0 } },
+          ...(catalogId ? { catalogId } : {}),
+        },
+      }
+    );
+    throwUserErrors(data.priceListCreate.userErrors);
+
+    const priceListId = data.priceListCreate.priceList?.id;
+    if (!priceListId) {
+      throw new Error('Price list created but no ID returned from Shopify');
+    }
+    return priceListId;
+  };
+
+  const addFixedPrices = async (priceListId: string, prices: Array<{ variantId: string }>) => {
+    // Fixed prices are added at most 250 per call
+    for (let start = 0; start < prices.length; start += 250) {
+      const data = await shopifyGraphql<{ priceListFixedPricesAdd: { userErrors: Array<{ message: string }> } }>(
+        `mutation AddFixedPrices($priceListId: ID!, $prices: [PriceListPriceInput!]!) {
+          priceListFixedPricesAdd(priceListId: $priceListId, prices: $prices) {
+            userErrors { field message }
+          }
+        }`,
+        { priceListId, prices: prices.slice(start, start + 250) }
+      );
+      throwUserErrors(data.priceListFixedPricesAdd.userErrors);
+    }
+  };
+
+  /**
+   * The price list holding the market prices of a currency, shared by every product of the run. A market
+   * selling in the currency gets its catalog's price list used, or one created for it; without such a
+   * market the prices go to an unattached list the merchant can assign later.
+   */
+  const marketPriceLists = new Map<string, Promise<string>>();
+  const getMarketPriceList = (currency: string) => {
+    if (!marketPriceLists.has(currency)) {
+      marketPriceLists.set(
+        currency,
+        (async () => {
+          const name = `Generated ${currency} prices`;
+          const data = await shopifyGraphql<{
+            markets: {
+              nodes: Array<{
+                name: string;
+                currencySettings: { baseCurrency: { currencyCode: string } } | null;
+                catalogs: { nodes: Array<{ id: string; priceList: { id: string } | null }> };
+              }>;
+            };
+            priceLists: { nodes: Array<{ id: string; name: string }> };
+          }>(
+            `query MarketPriceLists {
+              markets(first: 50) {
+                nodes {
+                  name
+                  currencySettings { baseCurrency { currencyCode } }
+                  catalogs(first: 1) { nodes { id priceList { id } } }
+                }
+              }
+              priceLists(first: 100) { nodes { id name } }
+            }`,
+            {}
+          );
+
+          const market = data.markets.nodes.find(
+            (candidate) => candidate.currencySettings?.baseCurrency.currencyCode === currency
+          );
+          const catalog = market?.catalogs.nodes[0];
+          if (catalog?.priceList) {
+            return catalog.priceList.id;
+          }
+
+          const existing = data.priceLists.nodes.find((priceList) => priceList.name === name);
+          if (existing && !catalog) {
+            return existing.id;
+          }
+
+          if (!catalog) {
+            console.warn(`[Shopify] No market sells in ${currency}, so "${name}" is not assigned to a market`);
+          }
+          return createShopifyPriceList(catalog ? `${name} (${market!.name})` : name, currency, catalog?.id);
+        })().catch((error) => {
+          marketPriceLists.delete(currency);
+          throw error;
+        })
+      );
+    }
+    return marketPriceLists.get(currency)!;
+  };
+
+  /**
+   * Set the product's prices in the run's other currencies. Failures are logged rather than thrown
+   * since the product itself was already created.
+   */
+  const setMarketPrices = async (product: GeneratedProduct, createdVariants: ShopifyCreatedVariant[]) => {
+    for (const marketPrice of product.marketPrices ?? []) {
+      try {
+        const priceListId = await getMarketPriceList(marketPrice.currency);
+        const prices = createdVariants.flatMap((createdVariant) => {
+          const variantPrice = marketPrice.variants[createdVariant.position - 1];
+          if (!variantPrice) {
+            return [];
+          }
+          return [
+            {
+              variantId: `gid://shopify/ProductVariant/${createdVariant.id}`,
+              price: { amount: variantPrice.price, currencyCode: marketPrice.currency },
+              ...(variantPrice.compareAtPrice
+                ? { compareAtPrice: { amount: variantPrice.compareAtPrice, currencyCode: marketPrice.currency } }
+                : {}),
+            },
+          ];
+        });
+        await addFixedPrices(priceListId, prices);
+      } catch (error) {
+        console.warn(`[Shopify] Failed to set ${marketPrice.currency} prices for "${product.title}":`, error);
+      }
+    }
+  };
+
+  // Shop languages, enabled and published once per adapter so every product can be translated into them
+  let shopLocales: Promise<string[]> | null = null;
+  const enabledLocales = new Map<string, Promise<void>>();
+  const ensureLocale = (locale: string) => {
+    if (!enabledLocales.has(locale)) {
+      shopLocales ??= shopifyGraphql<{ shopLocales: Array<{ locale: string }> }>(
+        `query ShopLocales { shopLocales { locale } }`,
+        {}
+      ).then((data) => data.shopLocales.map((shopLocale) => shopLocale.locale));
+
+      enabledLocales.set(
+        locale,
+        shopLocales
+          .then(async (existing) => {
+            if (existing.includes(locale)) {
+              return;
+            }
+
+            const data = await shopifyGraphql<{
+              shopLocaleEnable: { userErrors: Array<{ message: string }> };
+              shopLocaleUpdate: { userErrors: Array<{ message: string }> };
+            }>(
+              `mutation EnableLocale($locale: String!) {
+                shopLocaleEnable(locale: $locale) { userErrors { field message } }
+                shopLocaleUpdate(locale: $locale, shopLocale: { published: true }) { userErrors { field message } }
+              }`,
+              { locale }
+            );
+            throwUserErrors([...data.shopLocaleEnable.userErrors, ...data.shopLocaleUpdate.userErrors]);
+          })
+          .catch((error) => {
+            shopLocales = null;
+            enabledLocales.delete(locale);
+            throw error;
+          })
+      );
+    }
+    return enabledLocales.get(locale)!;
+  };
+
+  /**
+   * Register the product's translated title, description and SEO fields. Failures are logged rather
+   * than thrown since the product itself was already created.
+   */
+  const setTranslations = async (productId: string, product: GeneratedProduct) => {
+    if (!product.translations?.length) {
+      return;
+    }
+
+    try {
+      // Shopify only accepts a translation together with the digest of the content it translates
+      const resourceId = `gid://shopify/Product/${productId}`;
+      const data = await shopifyGraphql<{
+        translatableResource: { translatableContent: Array<{ key: string; digest: string }> } | null;
+      }>(
+        `query TranslatableContent($resourceId: ID!) {
+          translatableResource(resourceId: $resourceId) {
+            translatableContent { key digest }
+          }
+        }`,
+        { resourceId }
+      );
+      const digests = new Map(
+        (data.translatableResource?.translatableContent ?? []).map((content) => [content.key, content.digest])
+      );
+
+      for (const translation of product.translations) {
+        await ensureLocale(translation.locale);
+
+        const values: Record<string, string | undefined> = {
+          title: translation.title,
+          body_html: descriptionToHtml(translation.description),
+          meta_title: translation.seo?.title,
+          meta_description: translation.seo?.description,
+        };
+        const translations = Object.entries(values).flatMap(([key, value]) =>
+          value && digests.has(key)
+            ? [{ locale: translation.locale, key, value, translatableContentDigest: digests.get(key) }]
+            : []
+        );
+
+        const registered = await shopifyGraphql<{ translationsRegister: { userErrors: Array<{ message: string }> } }>(
+          `mutation RegisterTranslations($resourceId: ID!, $translations: [TranslationInput!]!) {
+            translationsRegister(resourceId: $resourceId, translations: $translations) {
+              userErrors { field message }
+            }
+          }`,
+          { resourceId, translations }
+        );
+        throwUserErrors(registered.translationsRegister.userErrors);
+      }
+    } catch (error) {
+      console.warn(`[Shopify] Failed to add translations for "${product.title}":`, error);
+    }
+  };
+
+  // Metafield definitions, created once per adapter so the admin shows the fields with their names and types
+  const metafieldDefinitions = new Map<string, Promise<void>>();
+  const ensureMetafieldDefinition = (
+    metafield: Pick<ProductMetafield, 'namespace' | 'key' | 'type'>,
+    uniqueValues = false
+  ) => {
+    const id = `${metafield.namespace}.${metafield.key}`;
+    if (!metafieldDefinitions.has(id)) {
+      metafieldDefinitions.set(
+        id,
+        shopifyGraphql<{
+          metafieldDefinitionCreate: { userErrors: Array<{ message: string; code: string | null }> };
+        }>(
+          `mutation CreateMetafieldDefinition($definition: MetafieldDefinitionInput!) {
+            metafieldDefinitionCreate(definition: $definition) {
+              createdDefinition { id }
+              userErrors { field message code }
+            }
+          }`,
+          {
+            definition: {
+              name: metafieldName(metafield.key),
+              namespace: metafield.namespace,
+              key: metafield.key,
+              type: metafield.type,
+              ownerType: 'PRODUCT',
+              ...(uniqueValues ? { capabilities: { uniqueValues: { enabled: true } } } : {}),
+            },
+          }
+        )
+          // A definition left by an earlier run is reused as it is
+          .then((data) =>
+            throwUserErrors(data.metafieldDefinitionCreate.userErrors.filter((error) => error.code !== 'TAKEN'))
+          )
+          .catch((error) => {
+            metafieldDefinitions.delete(id);
+            throw error;
+          })
+      );
+    }
+    return metafieldDefinitions.get(id)!;
+  };
+
+  /**
+   * Create the definitions of the product's custom fields before their values are written. The values
+   * are stored without a definition when this fails, so failures are logged rather than thrown.
+   */
+  const ensureMetafieldDefinitions = async (product: GeneratedProduct) => {
+    for (const metafield of product.metafields ?? []) {
+      try {
+        await ensureMetafieldDefinition(metafield);
+      } catch (error) {
+        console.warn(`[Shopify] Failed to create the ${metafield.namespace}.${metafield.key} metafield definition:`, error);
+      }
+    }
+  };
+
+  /**
+   * The product an earlier attempt created for an idempotency key, such as one whose checkpoint was never
+   * saved because the process stopped right after the create
+   */
+  const findProductByIdempotencyKey = async (idempotencyKey: string) => {
+    await ensureMetafieldDefinition({ ...IDEMPOTENCY_METAFIELD, type: 'single_line_text_field' }, true);
+    const data = await shopifyGraphql<{ productByIdentifier: { id: string; title: string } | null }>(
+      `query ProductByIdempotencyKey($identifier: ProductIdentifierInput!) {
+        productByIdentifier(identifier: $identifier) { id title }
+      }`,
+      { identifier: { customId: { ...IDEMPOTENCY_METAFIELD, value: idempotencyKey } } }
+    );
+    return data.productByIdentifier;
+  };
+
+  return {
+    platform: 'shopify',
+    storeId: domain,
+
+    async createProduct(product: GeneratedProduct, collectionIds: string[] = []): Promise<StoreProduct> {
+      if (product.idempotencyKey) {
+        const existing = await findProductByIdempotencyKey(product.idempotencyKey);
+        if (existing) {
+          const id = existing.id.split('/').pop()!;
+          console.log(`[Shopify] Product with idempotency key ${product.idempotencyKey} already exists as ${id}, reusing it`);
+          return { id, title: existing.title, image: product.image };
+        }
+      }
+
+      // Create product payload WITHOUT images first
+      // According to Shopify API docs, images are uploaded separately after product creation
+      const { options, variants } = buildVariants(product);
+      await ensureMetafieldDefinitions(product);
+      // Shopify variants have a weight but no dimensions, so the package size is kept in a metafield
+      const metafields = [
+        ...(product.shipping
+          ? [
+              {
+                namespace: 'shipping',
+                key: 'package_dimensions',
+                type: 'json',
+                value: JSON.stringify({
+                  length: product.shipping.lengthCm,
+                  width: product.shipping.widthCm,
+                  height: product.shipping.heightCm,
+                  unit: 'cm',
+                }),
+              },
+            ]
+          : []),
+        ...(product.metafields ?? []),
+        ...(product.idempotencyKey
+          ? [{ ...IDEMPOTENCY_METAFIELD, type: 'single_line_text_field', value: product.idempotencyKey }]
+          : []),
+      ];
+      const productPayload = {
+        product: {
+          title: product.title,
+          body_html: descriptionToHtml(product.description),
+          vendor: 'AI Generated',
+          product_type: product.category,
+          ...(product.handle ? { handle: product.handle } : {}),
+          ...(product.seo
+            ? {
+                metafields_global_title_tag: product.seo.title,
+                metafields_global_description_tag: product.seo.description,
+              }
+            : {}),
+          ...(product.tags?.length ? { tags: product.tags.join(', ') } : {}),
+          variants,
+          // Define what each variant option represents (Size, Color, Material, ...)
+          ...(options ? { options } : {}),
+          ...(metafields.length > 0 ? { metafields } : {}),
+        },
+      };
+
+      const response = await shopifyFetch('products.json', {
+        method: 'POST',
+        body: JSON.stringify(productPayload),
+      });
+
+      if (!response.ok) {
+        await throwShopifyError(response);
+      }
+
+      const result = await response.json();
+      const productId = result.product?.id;
+
+      if (!productId) {
+        throw new Error('Product created but no ID returned from Shopify');
+      }
+
+      if (product.variants.some((variant) => variant.stockLevels?.length)) {
+        await setStockLevels(product, result.product.variants ?? []);
+      }
+
+      await setTaxonomyCategory(productId.toString(), product);
+      await setTranslations(productId.toString(), product);
+      if (product.marketPrices?.length) {
+        await setMarketPrices(product, result.product.variants ?? []);
+      }
+
+      for (const collectionId of collectionIds) {
+        const collectResponse = await shopifyFetch('collects.json', {
+          method: 'POST',
+          body: JSON.stringify({ collect: { product_id: productId, collection_id: Number(collectionId) } }),
+        });
+
+        // The product exists either way, so a failed assignment is not worth failing the item over
+        if (!collectResponse.ok) {
+          console.warn(
+            `[Shopify] Failed to add "${product.title}" to collection ${collectionId}: ${collectResponse.status} ${await collectResponse.text()}`
+          );
+        }
+      }
+
+      return {
+        id: productId.toString(),
+        title: result.product.title,
+        image: product.image,
+      };
+    },
+
+    async isHandleTaken(handle: string): Promise<boolean> {
+      const response = await shopifyFetch(`products.json?handle=${encodeURIComponent(handle)}&fields=id`);
+
+      if (!response.ok) {
+        await throwShopifyError(response);
+      }
+
+      const result = await response.json();
+      return (result.products ?? []).length > 0;
+    },
+
+    async ensureCollection(collection: CollectionDefinition): Promise<StoreCollection> {
+      // Smart collections pick up every product whose type matches, including ones created later
+      const resource = collection.automated ? 'smart_collections' : 'custom_collections';
+      const key = collection.automated ? 'smart_collection' : 'custom_collection';
+
+      const existingResponse = await shopifyFetch(`${resource}.json?title=${encodeURIComponent(collection.title)}&fields=id,title`);
+      if (!existingResponse.ok) {
+        await throwShopifyError(existingResponse);
+      }
+
+      const existing = (await existingResponse.json())[resource]?.find(
+        (candidate: { title: string }) => candidate.title.toLowerCase() === collection.title.toLowerCase()
+      );
+      if (existing) {
+        return { id: existing.id.toString(), title: existing.title, automated: collection.automated };
+      }
+
+      const response = await shopifyFetch(`${resource}.json`, {
+        method: 'POST',
+        body: JSON.stringify({
+          [key]: {
+            title: collection.title,
+            published: true,
+            ...(collection.automated
+              ? { disjunctive: false, rules: [{ column: 'type', relation: 'equals', condition: collection.title }] }
+              : {}),
+          },
+        }),
+      });
+
+      if (!response.ok) {
+        await throwShopifyError(response);
+      }
+
+      const created = (await response.json())[key];
+      return { id: created.id.toString(), title: created.title, automated: collection.automated };
+    },
+
+    async attachImages(productId: string, images: ProductImage[], options: AttachImagesOptions = {}): Promise<void> {
+      const { skip = 0, onAttached } = options;
+      const variantIdsByOption = images.slice(skip).some((image) => image.variantOption)
+        ? await loadVariantIdsByOption(productId)
+        : null;
+
+      for (const [index, image] of images.entries()) {
+        // Positions count from the full list, so a resumed upload keeps the same thumbnail
+        if (index < skip) {
+          continue;
+        }
+
+        let source: { src: string } | { attachment: string; filename: string };
+        if (isImageUrl(image.url)) {
+          // Shopify downloads the image itself
+          source = { src: image.url };
+        } else {
+          const parsed = parseImageDataUri(image.url);
+          if (!parsed) {
+            continue; // Skip if no valid base64 data
+          }
+
+          // Shopify might not accept SVG via base64 attachment, so it is sent with a PNG filename
+          const extension = parsed.extension === 'svg' ? 'png' : parsed.extension;
+          // Shopify API requires filename when using attachment
+          source = { attachment: parsed.base64, filename: `product-${productId}-${Date.now()}-${index + 1}.${extension}` };
+        }
+
+        const response = await shopifyFetch(`products/${productId}/images.json`, {
+          method: 'POST',
+          body: JSON.stringify({
+            image: {
+              ...source,
+              ...(image.altText ? { alt: image.altText } : {}),
+              // Shopify shows a variant's image when the shopper selects it
+              ...(image.variantOption && variantIdsByOption
+                ? { variant_ids: variantIdsByOption(image.variantOption) }
+                : {}),
+            },
+          }),
+        });
+
+        if (!response.ok) {
+          await throwShopifyError(response);
+        }
+        await onAttached?.(index + 1);
+      }
+    },
+
+    async deleteProduct(productId: string): Promise<void> {
+      // Deleting a product also deletes its images and variants
+      const response = await shopifyFetch(`products/${productId}.json`, { method: 'DELETE' });
+
+      if (!response.ok && response.status !== 404) {
+        await throwShopifyError(response);
+      }
+    },
+
+    async listProducts(options: ListProductsOptions = {}): Promise<ListedProduct[]> {
+      const limit = Math.min(options.limit ?? 50, 250);
+      const response = await shopifyFetch(`products.json?limit=${limit}&fields=id,title`);
+
+      if (!response.ok) {
+        await throwShopifyError(response);
+      }
+
+      const result = await response.json();
+      return (result.products ?? []).map((product: { id: number; title: string }) => ({
+        id: product.id.toString(),
+        title: product.title,
+      }));
+    },
+
+    async findProducts(query: EnrichmentQuery): Promise<ExistingProduct[]> {
+      if (query.source === 'collection') {
+        const data = await shopifyGraphql<{ collections: { nodes: Array<{ id: string; title: string }> } }>(
+          `query FindCollections($query: String!) {
+            collections(first: 10, query: $query) { nodes { id title } }
+          }`,
+          { query: `title:${quoteSearchValue(query.value)}` }
+        );
+        // The title search also matches partially, so an exact match wins
+        const collection =
+          data.collections.nodes.find((candidate) => candidate.title.toLowerCase() === query.value.toLowerCase()) ??
+          data.collections.nodes[0];
+        if (!collection) {
+          throw new Error(`No collection titled "${query.value}" was found in the store`);
+        }
+
+        const products = await shopifyGraphql<{ collection: { products: { nodes: ShopifyProductNode[] } } | null }>(
+          `query CollectionProducts($id: ID!, $first: Int!) {
+            collection(id: $id) {
+              products(first: $first) { nodes { ${EXISTING_PRODUCT_FIELDS} } }
+            }
+          }`,
+          { id: collection.id, first: query.limit }
+        );
+        return (products.collection?.products.nodes ?? []).map((node) => toExistingProduct(node, collection.title));
+      }
+
+      const data = await shopifyGraphql<{ products: { nodes: ShopifyProductNode[] } }>(
+        `query FindProducts($query: String!, $first: Int!) {
+          products(first: $first, query: $query, sortKey: UPDATED_AT, reverse: true) {
+            nodes { ${EXISTING_PRODUCT_FIELDS} }
+          }
+        }`,
+        { query: query.source === 'tag' ? `tag:${quoteSearchValue(query.value)}` : query.value, first: query.limit }
+      );
+      return data.products.nodes.map((node) => toExistingProduct(node));
+    },
+
+    async updateProduct(productId: string, copy: ProductCopyUpdate): Promise<void> {
+      const response = await shopifyFetch(`products/${productId}.json`, {
+        method: 'PUT',
+        body: JSON.stringify({
+          product: {
+            id: Number(productId),
+            ...(copy.description !== undefined
+              ? { body_html: toBodyHtml({ description: copy.description, features: copy.features ?? [] }) }
+              : {}),
+            ...(copy.seo
+              ? {
+                  metafields_global_title_tag: copy.seo.title,
+                  metafields_global_description_tag: copy.seo.description,
+                }
+              : {}),
+          },
+        }),
+      });
+
+      if (!response.ok) {
+        await throwShopifyError(response);
+      }
+    },
+
+    async createCustomer(customer: GeneratedCustomer): Promise<string> {
+      const response = await shopifyFetch('customers.json', {
+        method: 'POST',
+        body: JSON.stringify({
+          customer: {
+            first_name: customer.firstName,
+            last_name: customer.lastName,
+            email: customer.email,
+            verified_email: true,
+            send_email_invite: false,
+            note: customer.persona.summary,
+            tags: customer.tags.join(', '),
+            ...(customer.acceptsMarketing
+              ? { email_marketing_consent: { state: 'subscribed', opt_in_level: 'single_opt_in' } }
+              : {}),
+            addresses: [{ ...toShopifyAddress(customer), default: true }],
+          },
+        }),
+      });
+
+      if (!response.ok) {
+        await throwShopifyError(response);
+      }
+
+      const customerId = (await response.json()).customer?.id;
+      if (!customerId) {
+        throw new Error('Customer created but no ID returned from Shopify');
+      }
+      return customerId.toString();
+    },
+
+    async createOrder(order: GeneratedOrder, customer: GeneratedCustomer, customerId: string): Promise<string> {
+      const lineItems = await Promise.all(
+        order.lineItems.map(async (lineItem) => {
+          const variant = await findVariant(lineItem.storeProductId, lineItem);
+          return { variant_id: variant.id, quantity: lineItem.quantity, price: lineItem.price };
+        })
+      );
+
+      const address = toShopifyAddress(customer);
+      const response = await shopifyFetch('orders.json', {
+        method: 'POST',
+        body: JSON.stringify({
+          order: {
+            customer: { id: Number(customerId) },
+            email: customer.email,
+            line_items: lineItems,
+            processed_at: order.processedAt,
+            financial_status: order.financialStatus,
+            ...(order.fulfilled ? { fulfillment_status: 'fulfilled' } : {}),
+            billing_address: address,
+            shipping_address: address,
+            tags: 'generated',
+            // Historical orders must not email the customer or take stock from the generated levels
+            send_receipt: false,
+            send_fulfillment_receipt: false,
+            inventory_behaviour: 'bypass',
+          },
+        }),
+      });
+
+      if (!response.ok) {
+        await throwShopifyError(response);
+      }
+
+      const orderId = (await response.json()).order?.id;
+      if (!orderId) {
+        throw new Error('Order created but no ID returned from Shopify');
+      }
+      return orderId.toString();
+    },
+
+    async addReviews(productId: string, reviews: GeneratedReview[]): Promise<void> {
+      if (reviews.length === 0) {
+        return;
+      }
+
+      // Shopify has no review API. Themes and review apps read the standard reviews.rating and
+      // reviews.rating_count metafields; the reviews themselves are kept in a JSON metafield.
+      const average = reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length;
+      const metafields = [
+        {
+          namespace: 'reviews',
+          key: 'rating',
+          type: 'rating',
+          value: JSON.stringify({ value: average.toFixed(1), scale_min: '1.0', scale_max: '5.0' }),
+        },
+        { namespace: 'reviews', key: 'rating_count', type: 'number_integer', value: String(reviews.length) },
+        {
+          namespace: 'custom',
+          key: 'reviews',
+          type: 'json',
+          value: JSON.stringify(
+            reviews.map((review) => ({
+              author: review.authorName,
+              rating: review.rating,
+              title: review.title,
+              body: review.body,
+              created_at: review.createdAt,
+            }))
+          ),
+        },
+      ];
+
+      for (const metafield of metafields) {
+        const response = await shopifyFetch(`products/${productId}/metafields.json`, {
+          method: 'POST',
+          body: JSON.stringify({ metafield }),
+        });
+
+        if (!response.ok) {
+          await throwShopifyError(response);
+        }
+      }
+    },
+
+    async createDiscount(discount: PlannedDiscount): Promise<string> {
+      const discountInput = {
+        title: discount.title,
+        startsAt: discount.startsAt,
+        endsAt: discount.endsAt,
+        customerGets: {
+          value: { percentage: discount.percentage / 100 },
+          items: { products: { productsToAdd: discount.productIds.map((id) => `gid://shopify/Product/${id}`) } },
+        },
+      };
+
+      let discountId: string | undefined;
+      if (discount.code) {
+        const data = await shopifyGraphql<{
+          discountCodeBasicCreate: { codeDiscountNode: { id: string } | null; userErrors: Array<{ message: string }> };
+        }>(
+          `mutation CreateDiscountCode($discount: DiscountCodeBasicInput!) {
+            discountCodeBasicCreate(basicCodeDiscount: $discount) {
+              codeDiscountNode { id }
+              userErrors { field message }
+            }
+          }`,
+          {
+            discount: {
+              ...discountInput,
+              code: discount.code,
+              usageLimit: discount.usageLimit,
+              appliesOncePerCustomer: true,
+              context: { all: 'ALL' },
+            },
+          }
+        );
+        throwUserErrors(data.discountCodeBasicCreate.userErrors);
+        discountId = data.discountCodeBasicCreate.codeDiscountNode?.id;
+      } else {
+        const data = await shopifyGraphql<{
+          discountAutomaticBasicCreate: {
+            automaticDiscountNode: { id: string } | null;
+            userErrors: Array<{ message: string }>;
+          };
+        }>(
+          `mutation CreateAutomaticDiscount($discount: DiscountAutomaticBasicInput!) {
+            discountAutomaticBasicCreate(automaticBasicDiscount: $discount) {
+              automaticDiscountNode { id }
+              userErrors { field message }
+            }
+          }`,
+          { discount: discountInput }
+        );
+        throwUserErrors(data.discountAutomaticBasicCreate.userErrors);
+        discountId = data.discountAutomaticBasicCreate.automaticDiscountNode?.id;
+      }
+
+      if (!discountId) {
+        throw new Error('Discount created but no ID returned from Shopify');
+      }
+      return discountId.split('/').pop()!;
+    },
+
+    async createPriceList(priceList: PlannedPriceList): Promise<string> {
+      // Shopify price lists apply to B2B catalogs rather than customer groups. Products outside the
+      // list keep their regular price, and the fixed prices below cover the run's products.
+      const currency = await getShopCurrency();
+      const priceListId = await createShopifyPriceList(priceList.name, currency);
+      const prices = await Promise.all(
+        priceList.prices.map(async (price) => {
+          const variant = await findVariant(price.storeProductId, price);
+          return {
+            variantId: `gid://shopify/ProductVariant/${variant.id}`,
+            price: { amount: price.price, currencyCode: currency },
+          };
+        })
+      );
+      await addFixedPrices(priceListId, prices);
+
+      return priceListId.split('/').pop()!;
+    },
+  };
+}
@@ -0,0 +1,114 @@
+import type { GeneratedProduct } from '../generate-products';
+import type { ProductImage } from '../product-images';
+import type { GeneratedCustomer, GeneratedOrder, GeneratedReview } from '../store-activity';
+import type { PlannedDiscount, PlannedPriceList } from '../promotions';
+import type { EnrichmentQuery, ExistingProduct, ProductCopyUpdate } from '../enrichment';
+
+/**
+ * Commerce platforms the generated catalog can be written to
+ */
+export type CommercePlatform = 'shopify' | 'bigcommerce';
+
+/**
+ * A product that was created in the target store
+ */
+export interface StoreProduct {
+  id: string;
+  title: string;
+  image: string; // Keep image data for separate upload step
+  images?: ProductImage[]; // All images, attached to the product (and its variants) in the upload step
+  idempotencyKey?: string; // Key of the generated product it was created from
+  imageAltText?: string; // Alt text set on the uploaded images
+}
+
+/**
+ * A collection (Shopify) or category (BigCommerce) that groups products for store navigation
+ */
+export interface CollectionDefinition {
+  title: string;
+  // Match products by a product type rule instead of assigning them one by one
+  automated: boolean;
+}
+
+/**
+ * A collection that exists in the target store
+ */
+export interface StoreCollection {
+  id: string;
+  title: string;
+  // Products join automated collections through their rules and must not be assigned by hand
+  automated: boolean;
+}
+
+/**
+ * Minimal product summary returned when listing a store's catalog
+ */
+export interface ListedProduct {
+  id: string;
+  title: string;
+}
+
+export interface ListProductsOptions {
+  limit?: number;
+}
+
+export interface AttachImagesOptions {
+  // Leading images already attached by an earlier attempt, which are not uploaded again
+  skip?: number;
+  // Called after each image is attached with the number of leading images now in the store
+  onAttached?: (attachedCount: number) => Promise<void>;
+}
+
+/**
+ * Catalog operations the product generator workflow needs from a store.
+ * Each platform (Shopify, BigCommerce, ...) provides one implementation so the
+ * workflow steps never deal with platform URLs, headers or API versions.
+ */
+export interface CommerceAdapter {
+  readonly platform: CommercePlatform;
+  /** Identifies the store being written to (Shopify domain, BigCommerce store hash) for auditing */
+  readonly storeId: string;
+  /**
+   * Create a product (with variants and custom fields, without images), add it to the given manual
+   * collections, map it onto the platform's product taxonomy, publish its translations and market
+   * prices and return its store ID
+   */
+  createProduct(product: GeneratedProduct, collectionIds?: string[]): Promise<StoreProduct>;
+  /** Whether a product in the store already uses this URL handle */
+  isHandleTaken(handle: string): Promise<boolean>;
+  /** Find a collection by title or create it, so repeated runs share the same navigation */
+  ensureCollection(collection: CollectionDefinition): Promise<StoreCollection>;
+  /**
+   * Attach images to an existing product, in order with the first as the main image. Image URLs are
+   * downloaded by the store itself; base64 data URIs are uploaded as files.
+   * Images with a variant option are also assigned to the variants that have that option value.
+   */
+  attachImages(productId: string, images: ProductImage[], options?: AttachImagesOptions): Promise<void>;
+  /** Permanently delete a product, including its images */
+  deleteProduct(productId: string): Promise<void>;
+  /** List products in the store, newest first where the platform supports it */
+  listProducts(options?: ListProductsOptions): Promise<ListedProduct[]>;
+  /**
+   * Read the products of a collection, with a tag or matching a search, with their page content and
+   * SEO fields. Throws when the collection does not exist.
+   */
+  findProducts(query: EnrichmentQuery): Promise<ExistingProduct[]>;
+  /** Rewrite the copy of an existing product. Fields left out keep their content. */
+  updateProduct(productId: string, copy: ProductCopyUpdate): Promise<void>;
+  /** Create a customer with their address and return the store's customer ID */
+  createCustomer(customer: GeneratedCustomer): Promise<string>;
+  /**
+   * Create a historical order for a customer made by createCustomer and return its store ID.
+   * Nobody is notified and stock levels are left alone.
+   */
+  createOrder(order: GeneratedOrder, customer: GeneratedCustomer, customerId: string): Promise<string>;
+  /** Publish reviews of a product. Platforms without a review API keep them in product metafields. */
+  addReviews(productId: string, reviews: GeneratedReview[]): Promise<void>;
+  /** Create a percentage discount on some products, automatic or redeemed with a code, and return its store ID */
+  createDiscount(discount: PlannedDiscount): Promise<string>;
+  /**
+   * Create a price list with fixed variant prices and return its store ID. Where the platform has
+   * customer groups the list is assigned to a group of that name.
+   */
+  createPriceList(priceList: PlannedPriceList): Promise<string>;
+}
@@ -0,0 +1,183 @@
+import type { GeneratedProduct } from '../generate-products';
+
+export interface ParsedImage {
+  mimeType: string;
+  base64: string;
+  extension: 'jpg' | 'png' | 'webp' | 'svg';
+}
+
+/**
+ * Whether an image is a downloadable http(s) URL rather than inline base64 data
+ */
+export function isImageUrl(image: string): boolean {
+  return /^https?:\/\//i.test(image);
+}
+
+/**
+ * Split a base64 image data URI into its MIME type, payload and file extension.
+ * Handles various formats: data:image/png;base64, data:image/svg+xml;base64, etc.
+ */
+export function parseImageDataUri(image: string): ParsedImage | null {
+  if (!image) {
+    return null;
+  }
+
+  let base64 = image;
+  if (base64.startsWith('data:image/')) {
+    // Remove data URI prefix - match everything from data:image/ to ;base64,
+    base64 = base64.replace(/^data:image\/[^;]+;base64,/, '');
+  } else if (base64.includes('base64,')) {
+    // Fallback: just remove everything before base64,
+    base64 = base64.substring(base64.indexOf('base64,') + 7);
+  }
+
+  if (!base64) {
+    return null;
+  }
+
+  // Determine image type from original data URI or default to PNG
+  const mimeType = image.match(/data:(image\/[^;]+)/)?.[1] ?? 'image/png';
+  let extension: ParsedImage['extension'] = 'png';
+  if (mimeType.includes('jpeg') || mimeType.includes('jpg')) {
+    extension = 'jpg';
+  } else if (mimeType.includes('webp')) {
+    extension = 'webp';
+  } else if (mimeType.includes('svg')) {
+    extension = 'svg';
+  }
+
+  return { mimeType, base64, extension };
+}
+
+/**
+ * Convert the plain-text description produced by the model into simple HTML paragraphs
+ */
+export function descriptionToHtml(description: string): string {
+  return `<p>${description.replace(/\n/g, '</p><p>')}</p>`;
+}
+
+/**
+ * Product page HTML: the description paragraphs followed by the features as a list, so the
+ * features survive a round trip through CSV files and store updates
+ */
+export function toBodyHtml(product: Pick<GeneratedProduct, 'description' | 'features'>): string {
+  const features =
+    product.features.length > 0
+      ? `<ul>${product.features.map((feature) => `<li>${feature}</li>`).join('')}</ul>`
+      : '';
+  return `${descriptionToHtml(product.description)}${features}`;
+}
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+
+const stripTags = (html: string) => decodeEntities(html.replace(/<[^>]*>/g, '')).trim();
+
+/**
+ * Split product page HTML back into the plain-text description and the feature list
+ */
+export function fromBodyHtml(html: string): { description: string; features: string[] } {
+  const features = [...html.matchAll(/<li[^>]*>([\s\S]*?)<\/li>/gi)].map((match) => stripTags(match[1])).filter(Boolean);
+  const withoutLists = html.replace(/<ul[^>]*>[\s\S]*?<\/ul>/gi, '');
+  const paragraphs = [...withoutLists.matchAll(/<p[^>]*>([\s\S]*?)<\/p>/gi)].map((match) => stripTags(match[1]));
+  const description = paragraphs.length > 0 ? paragraphs.join('\n') : stripTags(withoutLists.replace(/<br\s*\/?>/gi, '\n'));
+
+  return { description, features };
+}
+
+type GeneratedVariant = GeneratedProduct['variants'][number];
+
+/**
+ * A product's variants expressed as option dimensions: the option names (at most 3) and,
+ * per variant, its values in the same order. Every row is a unique combination.
+ */
+export interface ResolvedVariantOptions {
+  optionNames: string[];
+  rows: Array<{ values: string[]; variant: GeneratedVariant }>;
+}
+
+const MAX_OPTIONS = 3;
+
+const SIZE_VALUES = /^(xxs|xs|s|m|l|xl|xxl|xxxl|small|medium|large|x-large|xx-large|one size|\d+(\.\d+)?\s*(in|inch|inches|"|cm|mm|ft|oz|ml|l|qt|gal))$/i;
+const COLOR_VALUES = /^(black|white|gray|grey|silver|gold|red|blue|navy|green|olive|yellow|orange|pink|purple|brown|tan|beige|cream|ivory|charcoal|natural|walnut|oak|espresso|teal|burgundy)$/i;
+const MATERIAL_VALUES = /^(leather|fabric|cotton|linen|wool|velvet|wood|metal|steel|aluminum|plastic|glass|ceramic|bamboo|rattan|marble|silk|polyester|nylon|canvas)$/i;
+
+/**
+ * Guess a human readable option name (Size, Color, Material) from the values
+ * the model produced for one variant dimension.
+ */
+function inferOptionName(values: string[], index: number): string {
+  if (values.every((value) => SIZE_VALUES.test(value))) return 'Size';
+  if (values.every((value) => COLOR_VALUES.test(value))) return 'Color';
+  if (values.every((value) => MATERIAL_VALUES.test(value))) return 'Material';
+  return index === 0 ? 'Variant' : `Option ${index + 1}`;
+}
+
+/**
+ * Products generated before variants carried options only have titles ("Small / Black").
+ * Split those into dimensions when every variant has the same number of parts.
+ */
+function inferOptionsFromTitles(variants: GeneratedVariant[]): { optionNames: string[]; values: string[][] } {
+  const splitTitles = variants.map((variant, index) =>
+    (variant.title || `Option ${index + 1}`).split('/').map((part) => part.trim()).filter(Boolean)
+  );
+
+  const dimensionCount = splitTitles[0].length;
+  const consistent =
+    dimensionCount > 1 && dimensionCount <= MAX_OPTIONS && splitTitles.every((parts) => parts.length === dimensionCount);
+  const values = consistent ? splitTitles : splitTitles.map((parts) => [parts.join(' / ')]);
+
+  return {
+    optionNames: values[0].map((_, dimension) => inferOptionName(values.map((parts) => parts[dimension]), dimension)),
+    values,
+  };
+}
+
+/**
+ * Resolve a generated product's variants into option dimensions for the store payloads
+ */
+export function resolveVariantOptions(product: GeneratedProduct): ResolvedVariantOptions {
+  if (product.variants.length === 0) {
+    return { optionNames: [], rows: [] };
+  }
+
+  const declaredNames = (product.options ?? []).slice(0, MAX_OPTIONS).map((option) => option.name);
+  const hasDeclaredOptions =
+    declaredNames.length > 0 &&
+    product.variants.every((variant) =>
+      declaredNames.every((name) => variant.options?.some((option) => option.name === name))
+    );
+
+  const { optionNames, values } = hasDeclaredOptions
+    ? {
+        optionNames: declaredNames,
+        values: product.variants.map((variant) =>
+          declaredNames.map((name) => variant.options?.find((option) => option.name === name)?.value ?? '')
+        ),
+      }
+    : inferOptionsFromTitles(product.variants);
+
+  // Stores reject duplicate combinations, so make any repeat unique on its last dimension
+  const seenCombinations = new Set<string>();
+
+  return {
+    optionNames,
+    rows: values.map((parts, index) => {
+      let labels = parts;
+      let key = labels.join('|').toLowerCase();
+      if (seenCombinations.has(key)) {
+        labels = [...parts.slice(0, -1), `${parts[parts.length - 1]} ${index + 1}`];
+        key = labels.join('|').toLowerCase();
+      }
+      seenCombinations.add(key);
+
+      return { values: labels, variant: product.variants[index] };
+    }),
+  };
+}
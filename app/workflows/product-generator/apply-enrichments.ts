@@ -0,0 +1,40 @@
+import { getCommerceAdapter, CommercePlatform, ListedProduct } from './adapters';
+import { mapWithConcurrency } from './concurrency';
+import { resolveImageForUpload } from './image-storage';
+import type { ApprovedEnrichment } from './enrichment';
+import { STORE_WRITE_CONCURRENCY } from '@/lib/constants';
+
+/**
+ * Write approved copy and images to existing store products. Every product is attempted and
+ * reported on its own so one failure does not stop the rest.
+ */
+export async function applyEnrichments(
+  approved: ApprovedEnrichment[],
+  platform: CommercePlatform
+): Promise<{ updatedProducts: ListedProduct[]; errors: string[] }> {
+  const adapter = getCommerceAdapter(platform);
+  const errors: string[] = [];
+
+  const updated = await mapWithConcurrency(approved, STORE_WRITE_CONCURRENCY, async (enrichment) => {
+    try {
+      if (Object.keys(enrichment.copy).length > 0) {
+        await adapter.updateProduct(enrichment.productId, enrichment.copy);
+      }
+      if (enrichment.images.length > 0) {
+        await adapter.attachImages(
+          enrichment.productId,
+          await Promise.all(
+            enrichment.images.map(async (image) => ({ ...image, url: await resolveImageForUpload(image.url) }))
+          )
+        );
+      }
+      return { id: enrichment.productId, title: enrichment.title };
+    } catch (error) {
+      console.error(`[applyEnrichments] Failed to update "${enrichment.title}" (${enrichment.productId}) on ${platform}:`, error);
+      errors.push(`Failed to update "${enrichment.title}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return null;
+    }
+  });
+
+  return { updatedProducts: updated.filter((product) => product !== null), errors };
+}
@@ -0,0 +1,116 @@
+import type { ProductCopy } from './generate-products';
+
+/**
+ * A reusable brand style guide applied to every product of a run: the copy is written in the
+ * brand's voice and price band, and the photos follow its reference images and colours
+ */
+export interface BrandProfile {
+  name: string;
+  toneOfVoice: string;
+  targetAudience: string;
+  priceBand: { min: number; max: number } | null; // USD range every price must fall in
+  forbiddenWords: string[];
+  colorPalette: string[]; // Hex codes such as "#1a1a1a"
+  referenceImages: string[]; // Blob storage URLs, sent to the image model with every product photo
+}
+
+export const MAX_BRAND_REFERENCE_IMAGES = 4;
+export const MAX_BRAND_PALETTE_COLORS = 8;
+
+export function isHexColor(value: string): boolean {
+  return /^#[0-9a-f]{6}$/i.test(value);
+}
+
+/**
+ * Prompt section that tells the text model how the brand writes and prices its products
+ */
+export function buildBrandCopyGuidance(profile: BrandProfile): string {
+  const lines = [`BRAND GUIDELINES - every product belongs to the "${profile.name}" catalog:`];
+  if (profile.toneOfVoice) {
+    lines.push(`- Tone of voice: ${profile.toneOfVoice}`);
+  }
+  if (profile.targetAudience) {
+    lines.push(`- Target audience: ${profile.targetAudience}`);
+  }
+  if (profile.priceBand) {
+    lines.push(
+      `- Every price, including variant and compare-at prices, must be between ${profile.priceBand.min} and ${profile.priceBand.max} USD`
+    );
+  }
+  if (profile.forbiddenWords.length > 0) {
+    lines.push(`- Never use these words anywhere in the copy, tags or SEO fields: ${profile.forbiddenWords.join(', ')}`);
+  }
+  if (profile.colorPalette.length > 0) {
+    lines.push(`- Prefer colour options that fit the brand palette: ${profile.colorPalette.join(', ')}`);
+  }
+
+  return lines.join('\n    ');
+}
+
+/**
+ * Prompt section that tells the image model what the attached brand reference images are for
+ */
+export function buildBrandImageGuidance(profile: BrandProfile, referenceCount: number): string {
+  const lines = [`BRAND STYLE - the photo is for the "${profile.name}" catalog:`];
+  if (referenceCount > 0) {
+    lines.push(
+      `- The ${referenceCount} attached image(s) are brand reference photos: match their lighting, background, composition and styling, but show the product described below, not the products in the references`
+    );
+  }
+  if (profile.colorPalette.length > 0) {
+    lines.push(`- Use the brand colour palette for the background and styling: ${profile.colorPalette.join(', ')}`);
+  }
+  if (profile.targetAudience) {
+    lines.push(`- Style the shot for this audience: ${profile.targetAudience}`);
+  }
+
+  return lines.join('\n    ');
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The forbidden words of a brand profile that occur in a text, matched as whole words
+ */
+export function findForbiddenWords(text: string, profile: BrandProfile): string[] {
+  return profile.forbiddenWords.filter((word) =>
+    new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(word)}($|[^\\p{L}\\p{N}])`, 'iu').test(text)
+  );
+}
+
+/**
+ * Check generated copy against the profile's hard rules (price band and forbidden words).
+ * Returns one message per problem, written so it can be fed back to the model on retry.
+ */
+export function findBrandViolations(copy: ProductCopy, profile: BrandProfile): string[] {
+  const violations: string[] = [];
+
+  if (profile.priceBand) {
+    const { min, max } = profile.priceBand;
+    const prices = [
+      copy.price,
+      ...copy.variants.flatMap((variant) => [variant.price, variant.compareAtPrice ?? undefined]),
+    ].filter((price): price is string => !!price);
+    const outOfBand = [...new Set(prices)].filter((price) => parseFloat(price) < min || parseFloat(price) > max);
+    if (outOfBand.length > 0) {
+      violations.push(`Prices ${outOfBand.join(', ')} are outside the brand price band of ${min}-${max} USD`);
+    }
+  }
+
+  const text = [
+    copy.title,
+    copy.description,
+    ...copy.features,
+    ...copy.tags,
+    copy.seo.title,
+    copy.seo.description,
+    copy.imageAltText,
+    ...copy.options.flatMap((option) => [option.name, ...option.values]),
+  ].join('\n');
+  const usedWords = findForbiddenWords(text, profile);
+  if (usedWords.length > 0) {
+    violations.push(`The copy uses forbidden brand words: ${usedWords.join(', ')}`);
+  }
+
+  return violations;
+}
@@ -0,0 +1,759 @@
+import { z } from 'zod';
+import type { GeneratedProduct } from './generate-products';
+import type { ShippingData } from './inventory';
+import { fromBodyHtml, isImageUrl, resolveVariantOptions, toBodyHtml } from './adapters/utils';
+import { findColorOption, getProductImages, IMAGE_ANGLE_ALT_TEXT, IMAGE_ANGLES, ProductImage } from './product-images';
+import { slugifyHandle } from './seo';
+
+/**
+ * File formats a run's products can be exported to and imported from: the product CSV templates of
+ * Shopify and BigCommerce (for their bulk importers), and plain JSON, which keeps every field
+ */
+export type CatalogFileFormat = 'shopify-csv' | 'bigcommerce-csv' | 'json';
+
+export const CATALOG_FILE_FORMATS: CatalogFileFormat[] = ['shopify-csv', 'bigcommerce-csv', 'json'];
+
+export function isCatalogFileFormat(value: unknown): value is CatalogFileFormat {
+  return typeof value === 'string' && CATALOG_FILE_FORMATS.includes(value as CatalogFileFormat);
+}
+
+export interface CatalogFile {
+  content: string;
+  contentType: string;
+  extension: 'csv' | 'json';
+}
+
+// Most stores cap imports well below this; it also keeps a malformed file from flooding a run
+export const MAX_IMPORTED_PRODUCTS = 500;
+// A preview holds at most 10 categories of 100 products
+export const MAX_PUBLISHED_PRODUCTS = 1000;
+
+const CATALOG_JSON_VERSION = 1;
+
+function toCsvField(value: string | number | boolean | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: Array<Record<string, string | number | boolean | null | undefined>>): string {
+  return [header, ...rows.map((row) => header.map((column) => row[column]))]
+    .map((fields) => fields.map(toCsvField).join(','))
+    .join('\r\n');
+}
+
+/**
+ * Parse RFC 4180 CSV (quoted fields may contain commas, quotes and line breaks) into objects keyed
+ * by the header row. Blank lines are skipped.
+ */
+function parseCsv(text: string): Array<Record<string, string>> {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new Error('The CSV file ends inside a quoted field');
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...records] = rows.filter((fields) => fields.some((value) => value.trim()));
+  if (!header) {
+    throw new Error('The CSV file is empty');
+  }
+
+  const columns = header.map((column) => column.trim());
+  return records.map((fields) => Object.fromEntries(columns.map((column, index) => [column, fields[index]?.trim() ?? ''])));
+}
+
+const formatPrice = (value: number) => (Math.round(value * 100) / 100).toFixed(2);
+
+function parsePrice(value: string | undefined, context: string): string {
+  const price = parseFloat((value ?? '').replace(/[^0-9.]/g, ''));
+  if (!Number.isFinite(price)) {
+    throw new Error(`${context} has no valid price`);
+  }
+  return formatPrice(price);
+}
+
+const parseNumber = (value: string | undefined) => {
+  const number = parseFloat(value ?? '');
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const splitList = (value: string | undefined) =>
+  (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const totalStock = (variant: GeneratedProduct['variants'][number]) =>
+  variant.stockLevels?.reduce((sum, level) => sum + level, 0);
+
+/**
+ * Guess which shot an imported image is from its alt text, which ends with the angle description
+ * when it was generated here ("..., side view")
+ */
+function inferImageAngle(altText: string, position: number): ProductImage['angle'] {
+  const lowerAltText = altText.toLowerCase();
+  const angle = IMAGE_ANGLES.find((candidate) => lowerAltText.endsWith(IMAGE_ANGLE_ALT_TEXT[candidate]));
+  return angle ?? (position === 0 ? 'front' : 'detail');
+}
+
+/**
+ * Build a product from imported rows: variant titles come from the option values and the primary
+ * image is the first image, like generated products
+ */
+function toImportedProduct(
+  fields: Omit<GeneratedProduct, 'image' | 'variants' | 'options'>,
+  optionNames: string[],
+  variants: Array<Omit<GeneratedProduct['variants'][number], 'title' | 'options'> & { values: string[] }>
+): GeneratedProduct {
+  if (variants.length === 0) {
+    throw new Error(`Product "${fields.title}" has no variants`);
+  }
+
+  const options = optionNames.map((name, index) => ({
+    name,
+    values: [...new Set(variants.map((variant) => variant.values[index]).filter(Boolean))],
+  }));
+
+  return {
+    ...fields,
+    options,
+    variants: variants.map(({ values, ...variant }) => ({
+      ...variant,
+      title: values.filter(Boolean).join(' / ') || 'Default',
+      options: optionNames.map((name, index) => ({ name, value: values[index] ?? '' })),
+    })),
+    image: fields.images?.[0]?.url ?? '',
+  };
+}
+
+/**
+ * Mark the images shown on variants as variant images, keyed by the variant's colour (or first) option
+ */
+function linkVariantImages(product: GeneratedProduct, variantImageUrls: Map<number, string>): GeneratedProduct {
+  const optionName = findColorOption(product)?.name ?? product.options?.[0]?.name;
+  if (!optionName || variantImageUrls.size === 0) {
+    return product;
+  }
+
+  const images = [...(product.images ?? [])];
+  variantImageUrls.forEach((url, variantIndex) => {
+    const value = product.variants[variantIndex].options?.find((option) => option.name === optionName)?.value;
+    if (!value) {
+      return;
+    }
+
+    const existing = images.findIndex((image) => image.url === url);
+    const image: ProductImage = {
+      url,
+      angle: 'variant',
+      altText: `${product.title} in ${value}`,
+      variantOption: { name: optionName, value },
+    };
+    if (existing > 0) {
+      images[existing] = { ...images[existing], angle: 'variant', variantOption: image.variantOption };
+    } else if (existing === -1) {
+      images.push(image);
+    }
+  });
+
+  return { ...product, images, image: images[0]?.url ?? '' };
+}
+
+const SHOPIFY_PACKAGE_COLUMN = 'Package Dimensions (product.metafields.shipping.package_dimensions)';
+
+const SHOPIFY_COLUMNS = [
+  'Handle',
+  'Title',
+  'Body (HTML)',
+  'Vendor',
+  'Product Category',
+  'Type',
+  'Tags',
+  'Published',
+  'Option1 Name',
+  'Option1 Value',
+  'Option2 Name',
+  'Option2 Value',
+  'Option3 Name',
+  'Option3 Value',
+  'Variant SKU',
+  'Variant Grams',
+  'Variant Inventory Tracker',
+  'Variant Inventory Qty',
+  'Variant Inventory Policy',
+  'Variant Fulfillment Service',
+  'Variant Price',
+  'Variant Compare At Price',
+  'Variant Requires Shipping',
+  'Variant Taxable',
+  'Variant Barcode',
+  'Image Src',
+  'Image Position',
+  'Image Alt Text',
+  'Gift Card',
+  'SEO Title',
+  'SEO Description',
+  'Variant Image',
+  'Variant Weight Unit',
+  'Status',
+  SHOPIFY_PACKAGE_COLUMN,
+];
+
+/**
+ * Shopify's product CSV: one row per variant, extra rows per image beyond the variant count, all
+ * sharing the product's handle. Only downloadable image URLs can be imported by Shopify.
+ */
+export function exportShopifyCsv(products: GeneratedProduct[]): string {
+  const usedHandles = new Set<string>();
+  const rows = products.flatMap((product) => {
+    let handle = product.handle || slugifyHandle(product.title);
+    for (let suffix = 2; usedHandles.has(handle); suffix++) {
+      handle = `${product.handle || slugifyHandle(product.title)}-${suffix}`;
+    }
+    usedHandles.add(handle);
+
+    const { optionNames, rows: variantRows } = resolveVariantOptions(product);
+    const images = getProductImages(product).filter((image) => isImageUrl(image.url));
+    const variantImage = (values: string[]) =>
+      images.find(
+        (image) =>
+          image.variantOption && values[optionNames.indexOf(image.variantOption.name)] === image.variantOption.value
+      )?.url;
+    const grams = product.shipping ? Math.round(product.shipping.weightKg * 1000) : undefined;
+
+    return Array.from({ length: Math.max(variantRows.length, images.length) }, (_, index) => {
+      const variantRow = variantRows[index];
+      const image = images[index];
+      const stock = variantRow ? totalStock(variantRow.variant) : undefined;
+
+      return {
+        Handle: handle,
+        ...(index === 0
+          ? {
+              Title: product.title,
+              'Body (HTML)': toBodyHtml(product),
+              Vendor: 'AI Generated',
+              'Product Category': product.taxonomyCategory,
+              Type: product.category,
+              Tags: product.tags?.join(', '),
+              Published: 'TRUE',
+              'Gift Card': 'FALSE',
+              'SEO Title': product.seo?.title,
+              'SEO Description': product.seo?.description,
+              Status: 'active',
+              [SHOPIFY_PACKAGE_COLUMN]: product.shipping
+                ? JSON.stringify({
+                    length: product.shipping.lengthCm,
+                    width: product.shipping.widthCm,
+                    height: product.shipping.heightCm,
+                    unit: 'cm',
+                  })
+                : undefined,
+            }
+          : {}),
+        ...Object.fromEntries(
+          optionNames.flatMap((name, optionIndex) => [
+            // Shopify reads the option names from the first row only
+            [`Option${optionIndex + 1} Name`, index === 0 ? name : undefined],
+            [`Option${optionIndex + 1} Value`, variantRow?.values[optionIndex]],
+          ])
+        ),
+        ...(variantRow
+          ? {
+              'Variant SKU': variantRow.variant.sku,
+              'Variant Grams': grams,
+              'Variant Inventory Tracker': stock !== undefined ? 'shopify' : undefined,
+              'Variant Inventory Qty': stock,
+              'Variant Inventory Policy': 'deny',
+              'Variant Fulfillment Service': 'manual',
+              'Variant Price': variantRow.variant.price,
+              'Variant Compare At Price': variantRow.variant.compareAtPrice,
+              'Variant Requires Shipping': 'TRUE',
+              'Variant Taxable': 'TRUE',
+              'Variant Barcode': variantRow.variant.barcode,
+              'Variant Image': variantImage(variantRow.values),
+              'Variant Weight Unit': 'kg',
+            }
+          : {}),
+        ...(image ? { 'Image Src': image.url, 'Image Position': index + 1, 'Image Alt Text': image.altText } : {}),
+      };
+    });
+  });
+
+  return toCsv(SHOPIFY_COLUMNS, rows);
+}
+
+function parsePackageDimensions(value: string | undefined): Omit<ShippingData, 'weightKg'> | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  try {
+    const dimensions = JSON.parse(value);
+    const [lengthCm, widthCm, heightCm] = [dimensions.length, dimensions.width, dimensions.height].map(Number);
+    return [lengthCm, widthCm, heightCm].every((side) => side > 0) ? { lengthCm, widthCm, heightCm } : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function importShopifyCsv(rows: Array<Record<string, string>>): GeneratedProduct[] {
+  const rowsByHandle = new Map<string, Array<Record<string, string>>>();
+  rows.forEach((row, index) => {
+    if (!row.Handle) {
+      throw new Error(`Row ${index + 2} has no Handle`);
+    }
+    rowsByHandle.set(row.Handle, [...(rowsByHandle.get(row.Handle) ?? []), row]);
+  });
+
+  return [...rowsByHandle].map(([handle, productRows]) => {
+    const [first] = productRows;
+    if (!first.Title) {
+      throw new Error(`Product "${handle}" has no Title on its first row`);
+    }
+
+    const optionNames = [1, 2, 3].map((n) => first[`Option${n} Name`]).filter(Boolean);
+    const weightKg = parseNumber(first['Variant Grams']);
+    const dimensions = parsePackageDimensions(first[SHOPIFY_PACKAGE_COLUMN]);
+    const { description, features } = fromBodyHtml(first['Body (HTML)'] ?? '');
+    const tags = splitList(first.Tags);
+
+    const variantRows = productRows.filter((row) => row['Variant Price'] || row['Option1 Value']);
+    const variantImageUrls = new Map<number, string>();
+    const variants = variantRows.map((row, index) => {
+      if (row['Variant Image']) {
+        variantImageUrls.set(index, row['Variant Image']);
+      }
+      const stock = parseNumber(row['Variant Inventory Qty']);
+      return {
+        values: optionNames.map((_, optionIndex) => row[`Option${optionIndex + 1} Value`] ?? ''),
+        price: parsePrice(row['Variant Price'], `Variant ${index + 1} of "${first.Title}"`),
+        compareAtPrice: row['Variant Compare At Price'] ? parsePrice(row['Variant Compare At Price'], first.Title) : null,
+        ...(row['Variant SKU'] ? { sku: row['Variant SKU'] } : {}),
+        ...(row['Variant Barcode'] ? { barcode: row['Variant Barcode'] } : {}),
+        ...(stock !== undefined ? { stockLevels: [stock] } : {}),
+      };
+    });
+
+    const images = productRows
+      .filter((row) => row['Image Src'])
+      .sort((a, b) => (parseNumber(a['Image Position']) ?? 0) - (parseNumber(b['Image Position']) ?? 0))
+      .map((row, position) => ({
+        url: row['Image Src'],
+        angle: inferImageAngle(row['Image Alt Text'] ?? '', position),
+        ...(row['Image Alt Text'] ? { altText: row['Image Alt Text'] } : {}),
+      }));
+
+    const product = toImportedProduct(
+      {
+        title: first.Title,
+        description,
+        price: variants[0]?.price ?? '0.00',
+        features,
+        category: first.Type || tags[0] || 'Imported',
+        ...(tags.length > 0 ? { tags } : {}),
+        ...(first['Product Category'] ? { taxonomyCategory: first['Product Category'] } : {}),
+        ...(first['SEO Title'] || first['SEO Description']
+          ? { seo: { title: first['SEO Title'] || first.Title, description: first['SEO Description'] ?? '' } }
+          : {}),
+        ...(images[0]?.altText ? { imageAltText: images[0].altText } : {}),
+        ...(weightKg && dimensions ? { shipping: { weightKg: weightKg / 1000, ...dimensions } } : {}),
+        handle,
+        images,
+      },
+      optionNames,
+      variants
+    );
+
+    return linkVariantImages(product, variantImageUrls);
+  });
+}
+
+const BIGCOMMERCE_COLUMNS = [
+  'Item',
+  'ID',
+  'Name',
+  'Type',
+  'SKU',
+  'Options',
+  'Inventory Tracking',
+  'Current Stock',
+  'Price',
+  'Retail Price',
+  'Sale Price',
+  'Brand ID',
+  'Categories',
+  'Description',
+  'Page Title',
+  'Product URL',
+  'Meta Description',
+  'Search Keywords',
+  'UPC/EAN',
+  'Weight',
+  'Width',
+  'Height',
+  'Depth',
+  'Is Visible',
+  'Variant Image URL',
+  'Image URL (Import)',
+  'Image Description',
+  'Image is Thumbnail',
+  'Image Sort Order',
+];
+
+const toBigCommerceOptions = (names: string[], values: string[]) =>
+  names.map((name, index) => `Type=Rectangle|Name=${name}|Value=${values[index]}`).join(',');
+
+function fromBigCommerceOptions(value: string): Array<{ name: string; value: string }> {
+  return value
+    .split(/,(?=Type=)/)
+    .map((option) => Object.fromEntries(option.split('|').map((part) => part.split('=').map((text) => text.trim()))))
+    .filter((option) => option.Name)
+    .map((option) => ({ name: option.Name, value: option.Value ?? '' }));
+}
+
+/**
+ * BigCommerce's v3 import CSV: a Product row followed by its Variant and Image rows. Categories and
+ * brands are referenced by store-specific IDs, so the category travels as the first search keyword
+ * (as the adapter sends it) and is mapped when the file is imported here.
+ */
+export function exportBigCommerceCsv(products: GeneratedProduct[]): string {
+  const rows = products.flatMap((product) => {
+    const { optionNames, rows: variantRows } = resolveVariantOptions(product);
+    const images = getProductImages(product).filter((image) => isImageUrl(image.url));
+    const hasStock = product.variants.some((variant) => variant.stockLevels?.length);
+
+    return [
+      {
+        Item: 'Product',
+        Name: product.title,
+        Type: 'Physical',
+        Options: optionNames.length > 0 ? optionNames.map((name) => `Type=Rectangle|Name=${name}`).join(',') : undefined,
+        'Inventory Tracking': hasStock ? 'variant' : 'none',
+        Price: product.price,
+        Description: toBodyHtml(product),
+        'Page Title': product.seo?.title,
+        'Product URL': product.handle ? `/${product.handle}/` : undefined,
+        'Meta Description': product.seo?.description,
+        'Search Keywords': [product.category, ...(product.tags ?? [])].join(', '),
+        Weight: product.shipping?.weightKg,
+        Width: product.shipping?.widthCm,
+        Height: product.shipping?.heightCm,
+        Depth: product.shipping?.lengthCm,
+        'Is Visible': 'TRUE',
+      },
+      ...variantRows.map(({ values, variant }) => ({
+        Item: 'Variant',
+        SKU: variant.sku,
+        Options: toBigCommerceOptions(optionNames, values),
+        'Current Stock': totalStock(variant),
+        Price: variant.price,
+        'Retail Price': variant.compareAtPrice,
+        'UPC/EAN': variant.barcode,
+        'Variant Image URL': images.find(
+          (image) =>
+            image.variantOption && values[optionNames.indexOf(image.variantOption.name)] === image.variantOption.value
+        )?.url,
+      })),
+      ...images.map((image, index) => ({
+        Item: 'Image',
+        'Image URL (Import)': image.url,
+        'Image Description': image.altText,
+        'Image is Thumbnail': index === 0 ? 'TRUE' : 'FALSE',
+        'Image Sort Order': index,
+      })),
+    ];
+  });
+
+  return toCsv(BIGCOMMERCE_COLUMNS, rows);
+}
+
+function importBigCommerceCsv(rows: Array<Record<string, string>>): GeneratedProduct[] {
+  type CsvRow = Record<string, string>;
+  const groups: Array<{ product: CsvRow; variants: CsvRow[]; images: CsvRow[] }> = [];
+
+  rows.forEach((row, index) => {
+    const item = row.Item?.toLowerCase();
+    if (item === 'product') {
+      groups.push({ product: row, variants: [], images: [] });
+      return;
+    }
+
+    const group = groups[groups.length - 1];
+    if (!group || (item !== 'variant' && item !== 'image')) {
+      throw new Error(`Row ${index + 2} is not a Product, Variant or Image row that follows a Product row`);
+    }
+    (item === 'variant' ? group.variants : group.images).push(row);
+  });
+
+  return groups.map(({ product: row, variants: variantRows, images: imageRows }) => {
+    if (!row.Name) {
+      throw new Error('A Product row has no Name');
+    }
+
+    const optionNames = fromBigCommerceOptions(row.Options ?? '').map((option) => option.name);
+    const [category, ...tags] = splitList(row['Search Keywords']);
+    const { description, features } = fromBodyHtml(row.Description ?? '');
+    const [weightKg, widthCm, heightCm, lengthCm] = [row.Weight, row.Width, row.Height, row.Depth].map(parseNumber);
+
+    const variantImageUrls = new Map<number, string>();
+    const variants =
+      variantRows.length > 0
+        ? variantRows.map((variantRow, index) => {
+            if (variantRow['Variant Image URL']) {
+              variantImageUrls.set(index, variantRow['Variant Image URL']);
+            }
+            const options = fromBigCommerceOptions(variantRow.Options ?? '');
+            const stock = parseNumber(variantRow['Current Stock']);
+            return {
+              values: optionNames.map((name) => options.find((option) => option.name === name)?.value ?? ''),
+              price: parsePrice(variantRow.Price || row.Price, `Variant ${index + 1} of "${row.Name}"`),
+              compareAtPrice: variantRow['Retail Price'] ? parsePrice(variantRow['Retail Price'], row.Name) : null,
+              ...(variantRow.SKU ? { sku: variantRow.SKU } : {}),
+              ...(variantRow['UPC/EAN'] ? { barcode: variantRow['UPC/EAN'] } : {}),
+              ...(stock !== undefined ? { stockLevels: [stock] } : {}),
+            };
+          })
+        : [{ values: [], price: parsePrice(row.Price, `"${row.Name}"`), compareAtPrice: null }];
+
+    const images = imageRows
+      .filter((imageRow) => imageRow['Image URL (Import)'])
+      .sort((a, b) => (parseNumber(a['Image Sort Order']) ?? 0) - (parseNumber(b['Image Sort Order']) ?? 0))
+      .map((imageRow, position) => ({
+        url: imageRow['Image URL (Import)'],
+        angle: inferImageAngle(imageRow['Image Description'] ?? '', position),
+        ...(imageRow['Image Description'] ? { altText: imageRow['Image Description'] } : {}),
+      }));
+
+    const product = toImportedProduct(
+      {
+        title: row.Name,
+        description,
+        price: parsePrice(row.Price, `"${row.Name}"`),
+        features,
+        category: category || 'Imported',
+        ...(tags.length > 0 ? { tags } : {}),
+        ...(row['Page Title'] || row['Meta Description']
+          ? { seo: { title: row['Page Title'] || row.Name, description: row['Meta Description'] ?? '' } }
+          : {}),
+        ...(images[0]?.altText ? { imageAltText: images[0].altText } : {}),
+        ...(weightKg && widthCm && heightCm && lengthCm ? { shipping: { weightKg, lengthCm, widthCm, heightCm } } : {}),
+        ...(row['Product URL'] ? { handle: row['Product URL'].replace(/^\/+|\/+$/g, '') } : {}),
+        images,
+      },
+      optionNames,
+      variants
+    );
+
+    return linkVariantImages(product, variantImageUrls);
+  });
+}
+
+/**
+ * The fields every imported JSON product needs; everything else a generated product carries is
+ * optional and passed through as-is
+ */
+const importedJsonProductSchema = z
+  .object({
+    title: z.string().min(1),
+    description: z.string(),
+    price: z.string().regex(/^\d+(\.\d{1,2})?$/, 'Price must be a plain number such as "99.99"'),
+    category: z.string().min(1),
+    features: z.array(z.string()).default([]),
+    variants: z
+      .array(
+        z
+          .object({ title: z.string(), price: z.string().regex(/^\d+(\.\d{1,2})?$/) })
+          .passthrough()
+      )
+      .min(1),
+    image: z.string().default(''),
+  })
+  .passthrough();
+
+// Item IDs and idempotency keys belong to one run; an imported product gets new ones
+function withoutRunIds(product: GeneratedProduct): GeneratedProduct {
+  const copy = { ...product };
+  delete copy.itemId;
+  delete copy.idempotencyKey;
+  return copy;
+}
+
+/**
+ * Plain JSON keeps every field of the products. Run-specific IDs are left out so the file can be
+ * imported again as new products.
+ */
+export function exportCatalogJson(products: GeneratedProduct[]): string {
+  return JSON.stringify(
+    {
+      version: CATALOG_JSON_VERSION,
+      exportedAt: new Date().toISOString(),
+      products: products.map(withoutRunIds),
+    },
+    null,
+    2
+  );
+}
+
+function importCatalogJson(content: string): GeneratedProduct[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const products = Array.isArray(data) ? data : (data as { products?: unknown })?.products;
+  if (!Array.isArray(products)) {
+    throw new Error('The JSON file must contain a "products" array');
+  }
+
+  return products.map((product, index) => {
+    const parsed = importedJsonProductSchema.safeParse(product);
+    if (!parsed.success) {
+      const issue = parsed.error.errors[0];
+      throw new Error(`Product ${index + 1}: ${issue.path.join('.') || 'product'} - ${issue.message}`);
+    }
+
+    const imported = withoutRunIds(parsed.data as unknown as GeneratedProduct);
+    return { ...imported, image: imported.image || imported.images?.[0]?.url || '' };
+  });
+}
+
+const approvedImageSchema = z
+  .object({ url: z.string().min(1), angle: z.string(), altText: z.string().optional() })
+  .passthrough();
+
+/**
+ * Approved preview items additionally keep the IDs of their run and list their images, which are checked
+ * one by one
+ */
+const approvedProductSchema = importedJsonProductSchema.extend({
+  tags: z.array(z.string()).optional(),
+  handle: z.string().optional(),
+  images: z.array(approvedImageSchema).optional(),
+  itemId: z.string().optional(),
+  idempotencyKey: z.string().optional(),
+});
+
+/**
+ * Validate the approved preview items a client sends back to be published. They follow the rules of
+ * imported JSON products, and every image must be one the server knows (isKnownImage), so the store is
+ * never pointed at an arbitrary address.
+ */
+export function normalizeApprovedProducts(input: unknown, isKnownImage: (url: string) => boolean): GeneratedProduct[] {
+  if (!Array.isArray(input)) {
+    throw new Error('Approved products must be a list');
+  }
+  if (input.length > MAX_PUBLISHED_PRODUCTS) {
+    throw new Error(`At most ${MAX_PUBLISHED_PRODUCTS} products can be published at once`);
+  }
+
+  return input.map((product, index) => {
+    const parsed = approvedProductSchema.safeParse(product);
+    if (!parsed.success) {
+      const issue = parsed.error.errors[0];
+      throw new Error(`Product ${index + 1}: ${issue.path.join('.') || 'product'} - ${issue.message}`);
+    }
+
+    const approved = parsed.data as unknown as GeneratedProduct;
+    const imageUrls = [approved.image, ...(approved.images ?? []).map((image) => image.url)].filter(Boolean);
+    if (!imageUrls.every(isKnownImage)) {
+      throw new Error(`Product ${index + 1}: "${approved.title}" has an image from an unknown address`);
+    }
+    return approved;
+  });
+}
+
+export function exportCatalog(products: GeneratedProduct[], format: CatalogFileFormat): CatalogFile {
+  switch (format) {
+    case 'shopify-csv':
+      return { content: exportShopifyCsv(products), contentType: 'text/csv; charset=utf-8', extension: 'csv' };
+    case 'bigcommerce-csv':
+      return { content: exportBigCommerceCsv(products), contentType: 'text/csv; charset=utf-8', extension: 'csv' };
+    case 'json':
+      return { content: exportCatalogJson(products), contentType: 'application/json', extension: 'json' };
+  }
+}
+
+/**
+ * Work out a file's format from its content: JSON, or a CSV whose header matches one of the templates
+ */
+export function detectCatalogFileFormat(content: string): CatalogFileFormat {
+  const trimmed = content.replace(/^\uFEFF/, '').trimStart();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    return 'json';
+  }
+
+  const header = trimmed.split(/\r?\n/, 1)[0].split(',').map((column) => column.replace(/"/g, '').trim());
+  if (header.includes('Handle') && header.includes('Variant Price')) {
+    return 'shopify-csv';
+  }
+  if (header.includes('Item') && header.includes('Name')) {
+    return 'bigcommerce-csv';
+  }
+
+  throw new Error('Unrecognised file: expected JSON, a Shopify product CSV or a BigCommerce import CSV');
+}
+
+/**
+ * Parse an exported (or hand-written) catalog file into products ready for the publish steps.
+ * Throws with the offending product or row when the file cannot be used.
+ */
+export function importCatalog(
+  content: string,
+  format: CatalogFileFormat = detectCatalogFileFormat(content)
+): GeneratedProduct[] {
+  const products =
+    format === 'json'
+      ? importCatalogJson(content)
+      : format === 'shopify-csv'
+        ? importShopifyCsv(parseCsv(content))
+        : importBigCommerceCsv(parseCsv(content));
+
+  if (products.length === 0) {
+    throw new Error('The file contains no products');
+  }
+  if (products.length > MAX_IMPORTED_PRODUCTS) {
+    throw new Error(
+      `The file contains ${products.length} products; at most ${MAX_IMPORTED_PRODUCTS} can be imported at once`
+    );
+  }
+
+  return products;
+}
@@ -0,0 +1,84 @@
+import type { GeneratedProduct } from './generate-products';
+import type { CollectionDefinition, CommerceAdapter, StoreCollection } from './adapters';
+
+/**
+ * How generated products are grouped into store collections, one collection per category:
+ * - smart: an automated collection whose rule matches the product type (BigCommerce has no
+ *   rule-based collections, so it falls back to a regular category)
+ * - custom: a manual collection every product is assigned to
+ * - none: products are not added to any collection
+ */
+export type CollectionMode = 'smart' | 'custom' | 'none';
+
+export const COLLECTION_MODES: CollectionMode[] = ['smart', 'custom', 'none'];
+
+export const DEFAULT_COLLECTION_MODE: CollectionMode = 'smart';
+
+export function isCollectionMode(value: unknown): value is CollectionMode {
+  return typeof value === 'string' && (COLLECTION_MODES as string[]).includes(value);
+}
+
+/**
+ * Read a collection sent by a client, keeping only its title and whether it is automated
+ */
+export function normalizeCollectionDefinition(value: unknown): CollectionDefinition | undefined {
+  const collection = value as Partial<CollectionDefinition> | null | undefined;
+  if (typeof collection?.title !== 'string' || !collection.title.trim()) {
+    return undefined;
+  }
+  return { title: collection.title.trim(), automated: collection.automated === true };
+}
+
+/**
+ * Tag products with the collection of their category. The collection is stored on the product
+ * so publishing a reviewed preview later still knows where the products belong.
+ */
+export function assignCollections(products: GeneratedProduct[], mode: CollectionMode): GeneratedProduct[] {
+  if (mode === 'none') {
+    return products;
+  }
+
+  return products.map((product) => ({
+    ...product,
+    collection: { title: product.category, automated: mode === 'smart' },
+  }));
+}
+
+const collectionKey = (collection: { title: string; automated: boolean }) =>
+  `${collection.automated ? 'smart' : 'custom'}:${collection.title.toLowerCase()}`;
+
+/**
+ * Create or reuse the collections the products belong to, once per distinct collection.
+ * A collection that cannot be set up is logged and skipped so the products are still published.
+ */
+export async function ensureCollections(
+  adapter: CommerceAdapter,
+  products: GeneratedProduct[]
+): Promise<Map<string, StoreCollection>> {
+  const collections = new Map<string, StoreCollection>();
+
+  for (const product of products) {
+    if (!product.collection || collections.has(collectionKey(product.collection))) {
+      continue;
+    }
+
+    try {
+      const collection = await adapter.ensureCollection(product.collection);
+      collections.set(collectionKey(product.collection), collection);
+      console.log(`[ensureCollections] Using ${adapter.platform} collection "${collection.title}" (${collection.id})`);
+    } catch (error) {
+      console.error(`[ensureCollections] Failed to set up collection "${product.collection.title}":`, error);
+    }
+  }
+
+  return collections;
+}
+
+/**
+ * IDs of the collections a product must be added to by hand. Automated collections pick the
+ * product up through their rules.
+ */
+export function manualCollectionIds(product: GeneratedProduct, collections: Map<string, StoreCollection>): string[] {
+  const collection = product.collection ? collections.get(collectionKey(product.collection)) : undefined;
+  return collection && !collection.automated ? [collection.id] : [];
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { createStoreProducts } from './create-store-products';
+import type { GeneratedProduct } from './generate-products';
+import { readMockStoreState } from '@/lib/mock-store/state';
+import { useMockShopifyStore } from '@/lib/mock-store/testing';
+
+const product: GeneratedProduct = {
+  title: 'Linen Throw Pillow',
+  description: 'A throw pillow covered in washed linen.',
+  price: '29.00',
+  variants: [{ title: 'Default', price: '29.00', sku: 'LTP-1' }],
+  features: ['Washed linen cover'],
+  image: '',
+  category: 'Pillows',
+  idempotencyKey: 'c0ffee00-0000-4000-8000-000000000001',
+};
+
+describe('createStoreProducts', () => {
+  let crashAfterCreate = false;
+  useMockShopifyStore({
+    // The store creates the product, but the process stops before the response (and the checkpoint) arrives
+    intercept: async (request, handle) => {
+      const response = await handle(request);
+      if (crashAfterCreate && request.method === 'POST' && request.url.endsWith('/products.json')) {
+        crashAfterCreate = false;
+        throw new Error('Process stopped');
+      }
+      return response;
+    },
+  });
+
+  it('reuses the product a crashed attempt created instead of creating a duplicate', async () => {
+    crashAfterCreate = true;
+    expect(await createStoreProducts([product], 'shopify')).toEqual([]);
+    const [created] = (await readMockStoreState()).products;
+
+    const [resumed] = await createStoreProducts([product], 'shopify');
+
+    expect(resumed.id).toBe(String(created.id));
+    expect((await readMockStoreState()).products).toHaveLength(1);
+  });
+
+  it('creates products without an idempotency key every time', async () => {
+    const withoutKey = { ...product, idempotencyKey: undefined };
+    await createStoreProducts([withoutKey], 'shopify');
+    await createStoreProducts([withoutKey], 'shopify');
+
+    expect((await readMockStoreState()).products).toHaveLength(2);
+  });
+});
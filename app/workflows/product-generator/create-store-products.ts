@@ -0,0 +1,86 @@
+import { GeneratedProduct } from './generate-products';
+import { getCommerceAdapter, CommercePlatform, StoreProduct } from './adapters';
+import { loadItemCheckpoints, recordItemResult, recordRunStore } from './record-run';
+import { mapWithConcurrency } from './concurrency';
+import { ensureCollections, manualCollectionIds } from './collections';
+import { resolveUniqueHandle } from './seo';
+import { emitProgress, isCancelled } from './progress';
+import { STORE_WRITE_CONCURRENCY } from '@/lib/constants';
+
+export async function createStoreProducts(
+  products: GeneratedProduct[],
+  platform: CommercePlatform,
+  runId?: string | null,
+  progressId?: string | null
+): Promise<StoreProduct[]> {
+  // Note: 'use step' removed - when called from within a workflow with 'use workflow',
+  // the steps are automatically tracked. The directive was causing return value issues.
+  const adapter = getCommerceAdapter(platform);
+  await recordRunStore(runId, adapter.storeId);
+  const checkpoints = await loadItemCheckpoints(runId);
+  // Collections are set up once up front so concurrent creates don't race to make the same one
+  const collections = await ensureCollections(adapter, products);
+  // Handles picked by this run, so two products with the same title don't compete for one URL
+  const reservedHandles = new Set<string>();
+
+  // A few products are written at a time; the adapter backs off when the store's rate limit is hit
+  const results = await mapWithConcurrency(products, STORE_WRITE_CONCURRENCY, async (product): Promise<StoreProduct | null> => {
+    // Nothing new is written to the store once the run is cancelled
+    if (isCancelled(progressId)) {
+      return null;
+    }
+
+    // Resumed runs reuse products that already reached the store instead of creating duplicates
+    const checkpoint = product.idempotencyKey ? checkpoints.get(product.idempotencyKey) : undefined;
+    if (checkpoint?.storeProductId) {
+      console.log(`[createStoreProducts] Skipping "${product.title}", already created as ${checkpoint.storeProductId}`);
+      return {
+        id: checkpoint.storeProductId,
+        title: product.title,
+        image: product.image,
+        images: product.images,
+        idempotencyKey: product.idempotencyKey,
+        imageAltText: product.imageAltText,
+      };
+    }
+
+    try {
+      const handle = product.handle ? await resolveUniqueHandle(adapter, product.handle, reservedHandles) : undefined;
+
+      // Store product with image data - images will be uploaded in a separate step
+      const created = await adapter.createProduct({ ...product, handle }, manualCollectionIds(product, collections));
+      const storeProduct = {
+        ...created,
+        images: product.images,
+        idempotencyKey: product.idempotencyKey,
+        imageAltText: product.imageAltText,
+      };
+
+      try {
+        await recordItemResult(runId, product, { storeProductId: storeProduct.id });
+      } catch (error) {
+        // Without its checkpoint a resume would create the product again, so it is removed and the item fails
+        await adapter.deleteProduct(storeProduct.id).catch((deleteError) => {
+          console.error(`[createStoreProducts] Failed to remove unrecorded product ${storeProduct.id}:`, deleteError);
+        });
+        throw new Error(
+          `Could not save the checkpoint of "${product.title}": ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+
+      emitProgress(progressId, { type: 'product-created', title: storeProduct.title, storeProductId: storeProduct.id });
+      return storeProduct;
+    } catch (error) {
+      // Continue with next product instead of failing entirely
+      console.error(`[createStoreProducts] Failed to create "${product.title}" in ${platform}:`, error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await recordItemResult(runId, product, { error: message });
+      emitProgress(progressId, { type: 'product-failed', title: product.title, error: message });
+      return null;
+    }
+  });
+
+  const createdProducts = results.filter((product): product is StoreProduct => product !== null);
+
+  return createdProducts;
+}
@@ -0,0 +1,145 @@
+import { randomUUID } from 'crypto';
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import { assertGatewayConfigured, describeGenerationError } from './generate-products';
+import type { GeneratedCustomer } from './store-activity';
+
+// Customers generated per model call, small enough to keep every persona distinct
+const CUSTOMER_BATCH_SIZE = 10;
+const MAX_ATTEMPTS = 3;
+
+const customerBatchSchema = z.object({
+  customers: z.array(
+    z.object({
+      firstName: z.string().min(1).max(40),
+      lastName: z.string().min(1).max(40),
+      ageRange: z.string().min(2).max(20).describe('Such as "25-34"'),
+      summary: z
+        .string()
+        .min(20)
+        .max(200)
+        .describe('One sentence about who they are and why they shop here, such as "Busy parent of two who buys durable kitchen gear"'),
+      interests: z.array(z.string().min(1)).min(1).max(3).describe('Store categories they shop in, copied exactly from the list'),
+      budget: z.enum(['budget', 'mid-range', 'premium']),
+      reviewStyle: z
+        .string()
+        .min(5)
+        .max(100)
+        .describe('How they write product reviews, such as "short and practical" or "detailed, mentions every flaw"'),
+      acceptsMarketing: z.boolean(),
+      address: z.object({
+        address1: z.string().min(3).describe('Fictional street address'),
+        city: z.string().min(2),
+        province: z.string().min(2).describe('State, province or region'),
+        zip: z.string().min(3),
+        country: z.string().min(2),
+        countryCode: z.string().length(2).describe('ISO 3166-1 alpha-2 country code'),
+      }),
+    })
+  ),
+});
+
+type CustomerDraft = z.infer<typeof customerBatchSchema>['customers'][number];
+
+const emailPart = (value: string) =>
+  value
+    .normalize('NFKD')
+    .replace(/[^a-zA-Z0-9]/g, '')
+    .toLowerCase() || 'customer';
+
+function toCustomer(draft: CustomerDraft, categories: string[]): GeneratedCustomer {
+  const key = randomUUID();
+  // Keep interests the store can serve; a customer with none left shops in a random category
+  const interests = draft.interests
+    .map((interest) => categories.find((category) => category.toLowerCase() === interest.trim().toLowerCase()))
+    .filter((interest): interest is string => !!interest);
+
+  return {
+    key,
+    firstName: draft.firstName.trim(),
+    lastName: draft.lastName.trim(),
+    // example.com is reserved (RFC 2606), so no real inbox ever receives store emails
+    email: `${emailPart(draft.firstName)}.${emailPart(draft.lastName)}.${key.slice(0, 6)}@example.com`,
+    acceptsMarketing: draft.acceptsMarketing,
+    persona: {
+      summary: draft.summary.trim(),
+      ageRange: draft.ageRange.trim(),
+      interests:
+        interests.length > 0 ? [...new Set(interests)] : [categories[Math.floor(Math.random() * categories.length)]],
+      budget: draft.budget,
+      reviewStyle: draft.reviewStyle.trim(),
+    },
+    address: { ...draft.address, countryCode: draft.address.countryCode.toUpperCase() },
+    tags: ['generated', draft.budget],
+  };
+}
+
+async function generateCustomerBatch(
+  count: number,
+  categories: string[],
+  textModel: string,
+  previousError?: string
+): Promise<CustomerDraft[]> {
+  const retryEnhancement = previousError
+    ? `
+
+    YOUR PREVIOUS RESPONSE WAS REJECTED: ${previousError}
+    Fix these problems in this response.`
+    : '';
+
+  const { object } = await generateObject({
+    model: textModel,
+    schema: customerBatchSchema,
+    schemaName: 'Customers',
+    schemaDescription: 'Believable customers of an online store',
+    prompt: `Generate exactly ${count} distinct, believable customers of an online store that sells: ${categories.join(', ')}.
+
+    Each customer needs:
+    1. A realistic name, age range and a one-sentence persona explaining what they buy and why
+    2. 1-3 interests copied exactly from the store categories above
+    3. A budget (budget, mid-range or premium) that fits the persona
+    4. The tone they write product reviews in
+    5. A fictional street address in a real city, with a matching region, postal code and country code
+
+    Mix ages, regions, budgets and shopping habits, mostly in the United States with some customers abroad.${retryEnhancement}`,
+  });
+
+  if (object.customers.length < count) {
+    throw new Error(`Expected ${count} customers but got ${object.customers.length}`);
+  }
+  return object.customers.slice(0, count);
+}
+
+/**
+ * Generate customers with consistent personas for a store selling the given categories
+ */
+export async function generateCustomers(
+  count: number,
+  categories: string[],
+  textModel: string
+): Promise<GeneratedCustomer[]> {
+  assertGatewayConfigured();
+
+  const customers: GeneratedCustomer[] = [];
+  while (customers.length < count) {
+    const batchSize = Math.min(CUSTOMER_BATCH_SIZE, count - customers.length);
+    let drafts: CustomerDraft[] | null = null;
+    let lastError: string | undefined;
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS && !drafts; attempt++) {
+      try {
+        drafts = await generateCustomerBatch(batchSize, categories, textModel, lastError);
+      } catch (error) {
+        lastError = describeGenerationError(error);
+        console.warn(`[generateCustomers] Invalid customers on attempt ${attempt}: ${lastError}`);
+      }
+    }
+
+    if (!drafts) {
+      throw new Error(`Could not generate valid customers after ${MAX_ATTEMPTS} attempts: ${lastError}`);
+    }
+    customers.push(...drafts.map((draft) => toCustomer(draft, categories)));
+  }
+
+  return customers;
+}
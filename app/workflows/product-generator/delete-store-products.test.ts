@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { getCommerceAdapter } from './adapters';
+import { deleteStoreProducts } from './delete-store-products';
+import type { GeneratedProduct } from './generate-products';
+import { readMockStoreState } from '@/lib/mock-store/state';
+import { useMockShopifyStore } from '@/lib/mock-store/testing';
+
+const product: GeneratedProduct = {
+  title: 'Walnut Desk Organizer',
+  description: 'A desk organizer made of walnut.',
+  price: '39.00',
+  variants: [{ title: 'Default', price: '39.00', sku: 'WDO-1' }],
+  features: ['Solid walnut'],
+  image: '',
+  category: 'Desk Accessories',
+};
+
+describe('deleteStoreProducts', () => {
+  useMockShopifyStore({ domain: 'mock.myshopify.com' });
+
+  it('deletes the products of a run from the store it published to', async () => {
+    const created = await getCommerceAdapter('shopify').createProduct(product);
+
+    const results = await deleteStoreProducts(
+      [{ title: product.title, storeProductId: created.id }],
+      'shopify',
+      'run-1',
+      'mock.myshopify.com'
+    );
+
+    expect(results).toEqual([{ title: product.title, storeProductId: created.id, success: true }]);
+    expect((await readMockStoreState()).products).toHaveLength(0);
+  });
+
+  it('refuses to delete anything when the connected store is not the one the run published to', async () => {
+    const created = await getCommerceAdapter('shopify').createProduct(product);
+
+    await expect(
+      deleteStoreProducts([{ title: product.title, storeProductId: created.id }], 'shopify', 'run-1', 'other.myshopify.com')
+    ).rejects.toThrow('This run published to other.myshopify.com, but the connected shopify store is mock.myshopify.com');
+    expect((await readMockStoreState()).products.map((storeProduct) => String(storeProduct.id))).toEqual([created.id]);
+  });
+});
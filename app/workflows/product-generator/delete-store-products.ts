@@ -0,0 +1,49 @@
+import { getCommerceAdapter, CommercePlatform } from './adapters';
+import { mapWithConcurrency } from './concurrency';
+import { recordItemDeleted } from './record-run';
+import { STORE_WRITE_CONCURRENCY } from '@/lib/constants';
+
+export interface StoreProductToDelete {
+  itemId?: string;
+  title: string;
+  storeProductId: string;
+}
+
+export interface DeletedProductResult {
+  itemId?: string;
+  title: string;
+  storeProductId: string;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Delete products a run created from the store, including their images. Every product is
+ * attempted and reported on its own so one failure does not stop the cleanup.
+ * Product IDs only mean something in the store the run published to, so nothing is deleted when the
+ * configured store is a different one.
+ */
+export async function deleteStoreProducts(
+  products: StoreProductToDelete[],
+  platform: CommercePlatform,
+  runId: string,
+  storeId: string | null
+): Promise<DeletedProductResult[]> {
+  const adapter = getCommerceAdapter(platform);
+  if (adapter.storeId !== storeId) {
+    throw new Error(
+      `This run published to ${storeId ?? 'no store'}, but the connected ${platform} store is ${adapter.storeId}`
+    );
+  }
+
+  return mapWithConcurrency(products, STORE_WRITE_CONCURRENCY, async (product) => {
+    try {
+      await adapter.deleteProduct(product.storeProductId);
+      await recordItemDeleted(runId, product.itemId);
+      return { ...product, success: true };
+    } catch (error) {
+      console.error(`[deleteStoreProducts] Failed to delete "${product.title}" (${product.storeProductId}) from ${platform}:`, error);
+      return { ...product, success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  });
+}
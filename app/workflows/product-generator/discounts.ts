@@ -0,0 +1,158 @@
+import type { GeneratedProduct } from './generate-products';
+import { shuffle, StoreCatalogEntry } from './orders';
+import {
+  MAX_DISCOUNT_DEPTH,
+  MIN_DISCOUNT_DEPTH,
+  PlannedDiscount,
+  PlannedPriceList,
+  PromotionSettings,
+} from './promotions';
+
+// Promotions differ from each other by up to this many points around the chosen depth
+const DEPTH_SPREAD = 10;
+const AUTOMATIC_DISCOUNT_DAYS = 30;
+const DISCOUNT_CODE_DAYS = 60;
+const DISCOUNT_CODE_USAGE_LIMIT = 100;
+const CODE_WORDS = ['SAVE', 'WELCOME', 'VIP', 'SPRING', 'SUMMER', 'FALL', 'WINTER', 'FLASH', 'HOLIDAY', 'THANKS'];
+// Wholesale buyers get a deeper cut than the public sale, VIP customers a smaller one
+const PRICE_LIST_TIERS = [
+  { name: 'Wholesale', depthFactor: 1.5 },
+  { name: 'VIP', depthFactor: 0.5 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const clampDepth = (depth: number) => Math.min(Math.max(Math.round(depth), MIN_DISCOUNT_DEPTH), MAX_DISCOUNT_DEPTH);
+
+// Round to a multiple of 5 like a merchant would, staying within DEPTH_SPREAD of the chosen depth
+const varyDepth = (depth: number) =>
+  clampDepth(Math.round((depth + (Math.random() * 2 - 1) * DEPTH_SPREAD) / 5) * 5);
+
+const discountPrice = (price: string, percentage: number) =>
+  Math.max(0.01, Math.round((parseFloat(price) || 0) * (100 - percentage)) / 100).toFixed(2);
+
+const randomSuffix = () => Math.random().toString(36).slice(2, 6).toUpperCase();
+
+// The products one promotion applies to; every promotion draws its own share of the catalog
+function pickCovered<T>(items: T[], coverage: number): T[] {
+  return shuffle(items).slice(0, Math.max(1, Math.round(items.length * coverage)));
+}
+
+/**
+ * Put a share of the products on sale: their variants are lowered by about the chosen depth and the
+ * old price becomes the compare-at price. The other products lose any compare-at price the model
+ * set, so exactly the chosen coverage is on sale.
+ */
+export function applySalePrices(products: GeneratedProduct[], settings?: PromotionSettings): GeneratedProduct[] {
+  if (!settings?.salePrices || products.length === 0) {
+    return products;
+  }
+
+  const onSale = new Set(pickCovered(products, settings.coverage));
+  return products.map((product) => applySalePercentage(product, onSale.has(product) ? varyDepth(settings.depth) : null));
+}
+
+/**
+ * Mark a product down by a percentage, or take it off sale (null) by dropping every compare-at price
+ */
+export function applySalePercentage(product: GeneratedProduct, percentage: number | null): GeneratedProduct {
+  if (percentage === null) {
+    return { ...product, variants: product.variants.map((variant) => ({ ...variant, compareAtPrice: null })) };
+  }
+
+  return {
+    ...product,
+    price: discountPrice(product.price, percentage),
+    variants: product.variants.map((variant) => ({
+      ...variant,
+      price: discountPrice(variant.price, percentage),
+      compareAtPrice: variant.price,
+    })),
+  };
+}
+
+/**
+ * The percentage a product is marked down by, read from its first variant with a compare-at price,
+ * or null if it is not on sale
+ */
+export function getSalePercentage(product: Pick<GeneratedProduct, 'variants'>): number | null {
+  const variant = Array.isArray(product.variants) ? product.variants.find((v) => v?.compareAtPrice) : undefined;
+  const price = parseFloat(variant?.price ?? '');
+  const compareAtPrice = parseFloat(variant?.compareAtPrice ?? '');
+  return price > 0 && compareAtPrice > price ? clampDepth((1 - price / compareAtPrice) * 100) : null;
+}
+
+/**
+ * Plan the automatic sale discount and the discount codes for the products that reached the store
+ */
+export function planDiscounts(
+  catalog: StoreCatalogEntry[],
+  settings: PromotionSettings,
+  now = Date.now()
+): PlannedDiscount[] {
+  if (catalog.length === 0) {
+    return [];
+  }
+
+  const productIds = () => pickCovered(catalog, settings.coverage).map((entry) => entry.storeProductId);
+  const discounts: PlannedDiscount[] = [];
+
+  if (settings.automaticDiscount) {
+    const percentage = clampDepth(settings.depth);
+    discounts.push({
+      title: `Sale: ${percentage}% off selected products`,
+      code: null,
+      percentage,
+      productIds: productIds(),
+      startsAt: new Date(now).toISOString(),
+      endsAt: new Date(now + AUTOMATIC_DISCOUNT_DAYS * DAY_MS).toISOString(),
+      usageLimit: null,
+    });
+  }
+
+  for (const word of shuffle(CODE_WORDS).slice(0, settings.discountCodes)) {
+    const percentage = varyDepth(settings.depth);
+    // A random suffix keeps codes unique across runs against the same store
+    const code = `${word}${percentage}-${randomSuffix()}`;
+    discounts.push({
+      title: `${code}: ${percentage}% off selected products`,
+      code,
+      percentage,
+      productIds: productIds(),
+      startsAt: new Date(now).toISOString(),
+      endsAt: new Date(now + DISCOUNT_CODE_DAYS * DAY_MS).toISOString(),
+      usageLimit: DISCOUNT_CODE_USAGE_LIMIT,
+    });
+  }
+
+  return discounts;
+}
+
+/**
+ * Plan the wholesale and VIP price lists, with a fixed price for every variant of the covered products
+ */
+export function planPriceLists(catalog: StoreCatalogEntry[], settings: PromotionSettings): PlannedPriceList[] {
+  if (!settings.priceLists || catalog.length === 0) {
+    return [];
+  }
+
+  // Price list and customer group names must be unique in the store, so every run gets its own
+  const suffix = randomSuffix();
+  return PRICE_LIST_TIERS.map((tier) => {
+    const percentage = clampDepth(settings.depth * tier.depthFactor);
+    return {
+      name: `${tier.name} ${suffix} (${percentage}% off)`,
+      customerGroup: `${tier.name} ${suffix}`,
+      percentage,
+      prices: pickCovered(catalog, settings.coverage).flatMap((entry) =>
+        entry.product.variants.map((variant, variantIndex) => ({
+          storeProductId: entry.storeProductId,
+          variantIndex,
+          ...(variant.sku ? { sku: variant.sku } : {}),
+          // Based on the regular price, so a price list never stacks on top of a sale
+          price: discountPrice(variant.compareAtPrice || variant.price, percentage),
+        }))
+      ),
+    };
+  });
+}
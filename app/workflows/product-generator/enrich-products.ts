@@ -0,0 +1,197 @@
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import { randomUUID } from 'crypto';
+import {
+  assertGatewayConfigured,
+  DEFAULT_PRODUCT_GENERATION_MODELS,
+  describeGenerationError,
+  generateFrontImage,
+  productCopySchema,
+  type ProductCopy,
+  type ProductGenerationModels,
+} from './generate-products';
+import { getCommerceAdapter, CommercePlatform } from './adapters';
+import { mapWithConcurrency } from './concurrency';
+import { emitProgress, isCancelled } from './progress';
+import { BrandProfile, buildBrandCopyGuidance, findForbiddenWords } from './brand-profile';
+import { storeProductImages } from './image-storage';
+import { MIN_IMAGE_QUALITY_SCORE } from './product-images';
+import type { EnrichmentField, EnrichmentQuery, ExistingProduct, ProductEnrichment } from './enrichment';
+import { PRODUCT_GENERATION_CONCURRENCY } from '@/lib/constants';
+
+const MAX_ATTEMPTS = 3;
+
+type EnrichedCopy = Partial<Pick<ProductCopy, 'description' | 'features' | 'seo' | 'imageAltText'>>;
+
+// Only the requested fields are part of the structured output, with the rules of newly generated products
+function buildEnrichmentSchema(fields: EnrichmentField[], needsImage: boolean) {
+  const copyFields = productCopySchema.innerType().shape;
+  return z.object({
+    ...(fields.includes('description') ? { description: copyFields.description } : {}),
+    ...(fields.includes('features') ? { features: copyFields.features } : {}),
+    ...(fields.includes('seo') ? { seo: copyFields.seo } : {}),
+    ...(needsImage ? { imageAltText: copyFields.imageAltText } : {}),
+  });
+}
+
+async function generateEnrichedCopy(
+  product: ExistingProduct,
+  fields: EnrichmentField[],
+  needsImage: boolean,
+  textModel: string,
+  previousError?: string,
+  brandProfile?: BrandProfile | null
+): Promise<EnrichedCopy> {
+  const brandGuidance = brandProfile
+    ? `
+
+    ${buildBrandCopyGuidance(brandProfile)}`
+    : '';
+  const retryEnhancement = previousError
+    ? `
+
+    YOUR PREVIOUS RESPONSE WAS REJECTED: ${previousError}
+    Fix these problems in this response.`
+    : '';
+
+  const { object } = await generateObject({
+    model: textModel,
+    schema: buildEnrichmentSchema(fields, needsImage),
+    schemaName: 'ProductEnrichment',
+    schemaDescription: 'Improved copy for an existing product',
+    prompt: `Improve the copy of this product from an online store.
+
+    Title: ${product.title}
+    ${product.category ? `Category: ${product.category}\n    ` : ''}Price: ${product.price} ${product.currency}
+    Tags: ${product.tags.join(', ') || 'none'}
+    Description:
+    ${product.description || 'none'}
+    Features: ${product.features.join('; ') || 'none'}
+    SEO title: ${product.seo?.title || 'none'}
+    SEO description: ${product.seo?.description || 'none'}
+
+    Rewrite or fill in only the requested fields. Keep every fact the current copy states, such as
+    materials, dimensions and care, and never invent specifications that contradict it. Where the
+    current copy is thin, add realistic detail that fits the product.${brandGuidance}${retryEnhancement}`,
+  });
+
+  // Forbidden words cannot be expressed in the schema, so they are checked here and fed back on retry
+  const copy = object as EnrichedCopy;
+  const forbidden = brandProfile
+    ? findForbiddenWords(
+        [copy.description, ...(copy.features ?? []), copy.seo?.title, copy.seo?.description].filter(Boolean).join('\n'),
+        brandProfile
+      )
+    : [];
+  if (forbidden.length > 0) {
+    throw new Error(`The copy uses words the brand forbids: ${forbidden.join(', ')}`);
+  }
+
+  return copy;
+}
+
+/**
+ * Rewrite the requested fields of an existing product and generate a photo for a product without any,
+ * retrying invalid copy with the rejection as feedback. Fields that come back unchanged are left out.
+ */
+export async function enrichProduct(
+  product: ExistingProduct,
+  fields: EnrichmentField[],
+  index: number,
+  models: ProductGenerationModels = DEFAULT_PRODUCT_GENERATION_MODELS,
+  brandProfile?: BrandProfile | null
+): Promise<ProductEnrichment> {
+  assertGatewayConfigured();
+
+  const needsImage = fields.includes('images') && product.images.length === 0;
+  let copy: EnrichedCopy | null = null;
+  let lastError: string | undefined;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS && !copy; attempt++) {
+    try {
+      copy = await generateEnrichedCopy(product, fields, needsImage, models.textModel, lastError, brandProfile);
+    } catch (error) {
+      lastError = describeGenerationError(error);
+      console.warn(`[enrichProduct] Invalid copy on attempt ${attempt} for "${product.title}": ${lastError}`);
+    }
+  }
+
+  if (!copy) {
+    throw new Error(`Could not enrich "${product.title}" after ${MAX_ATTEMPTS} attempts: ${lastError}`);
+  }
+
+  const enrichment: ProductEnrichment = { product };
+  if (copy.description && copy.description.trim() !== product.description.trim()) {
+    enrichment.description = copy.description;
+  }
+  if (copy.features && copy.features.join('\n') !== product.features.join('\n')) {
+    enrichment.features = copy.features;
+  }
+  if (copy.seo && (copy.seo.title !== product.seo?.title || copy.seo.description !== product.seo?.description)) {
+    enrichment.seo = copy.seo;
+  }
+
+  if (needsImage) {
+    const front = await generateFrontImage(
+      product.category || product.title,
+      index,
+      { title: product.title, description: enrichment.description ?? product.description },
+      models,
+      null,
+      null,
+      brandProfile
+    );
+
+    // A placeholder is no improvement on a product page, so only real photos are proposed
+    if (front.quality.score > 0) {
+      if (front.quality.score < MIN_IMAGE_QUALITY_SCORE) {
+        console.warn(`[enrichProduct] Proposing a low quality photo (score ${front.quality.score}) for "${product.title}"`);
+      }
+      enrichment.images = await storeProductImages(randomUUID(), [
+        { url: front.url, angle: 'front', altText: copy.imageAltText ?? product.title, quality: front.quality },
+      ]);
+    }
+  }
+
+  return enrichment;
+}
+
+/**
+ * Read the products to enrich from the store
+ */
+export async function findStoreProducts(query: EnrichmentQuery, platform: CommercePlatform): Promise<ExistingProduct[]> {
+  return getCommerceAdapter(platform).findProducts(query);
+}
+
+/**
+ * Propose enrichments for products read from the store. A product that cannot be enriched is left
+ * out and reported.
+ */
+export async function enrichProducts(
+  products: ExistingProduct[],
+  fields: EnrichmentField[],
+  models: ProductGenerationModels = DEFAULT_PRODUCT_GENERATION_MODELS,
+  brandProfile?: BrandProfile | null,
+  progressId?: string | null
+): Promise<{ enrichments: ProductEnrichment[]; errors: string[] }> {
+  const errors: string[] = [];
+  let completed = 0;
+
+  const enrichments = await mapWithConcurrency(products, PRODUCT_GENERATION_CONCURRENCY, async (product, index) => {
+    if (isCancelled(progressId)) {
+      return null;
+    }
+
+    try {
+      return await enrichProduct(product, fields, index, models, brandProfile);
+    } catch (error) {
+      console.error(`[enrichProducts] Failed to enrich "${product.title}":`, error);
+      errors.push(`Failed to enrich "${product.title}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return null;
+    } finally {
+      emitProgress(progressId, { type: 'enriched', completed: ++completed, total: products.length });
+    }
+  });
+
+  return { enrichments: enrichments.filter((enrichment) => enrichment !== null), errors };
+}
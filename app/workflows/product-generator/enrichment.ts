@@ -0,0 +1,318 @@
+import type { ProductImage } from './product-images';
+import type { ProductSeo } from './seo';
+
+/**
+ * How the products to enrich are picked from the store: by collection (category on BigCommerce)
+ * title, by tag, or by a search of the catalog
+ */
+export const ENRICHMENT_SOURCES = ['collection', 'tag', 'search'] as const;
+
+export type EnrichmentSource = (typeof ENRICHMENT_SOURCES)[number];
+
+/**
+ * Parts of a product the enrichment can rewrite or fill in
+ */
+export const ENRICHMENT_FIELDS = ['description', 'features', 'seo', 'images'] as const;
+
+export type EnrichmentField = (typeof ENRICHMENT_FIELDS)[number];
+
+export const ENRICHMENT_FIELD_LABELS: Record<EnrichmentField, string> = {
+  description: 'Description',
+  features: 'Features',
+  seo: 'SEO title & description',
+  images: 'Missing images',
+};
+
+export interface EnrichmentQuery {
+  source: EnrichmentSource;
+  // Collection title, tag or search terms
+  value: string;
+  limit: number;
+}
+
+// Every product is rewritten by the model and previewed, so a run is limited to a page of products
+export const MAX_ENRICHMENT_PRODUCTS = 50;
+
+export const DEFAULT_ENRICHMENT_QUERY: EnrichmentQuery = {
+  source: 'collection',
+  value: '',
+  limit: 10,
+};
+
+/**
+ * A product read back from the store, with its page content split into the description and features
+ */
+export interface ExistingProduct {
+  id: string;
+  title: string;
+  category: string; // Product type, or the collection it was found in where the platform has none
+  description: string;
+  features: string[];
+  tags: string[];
+  seo: ProductSeo | null;
+  images: Array<{ url: string; altText: string }>;
+  price: string;
+  currency: string; // ISO code of the store's currency, in which the price is given
+}
+
+/**
+ * Copy written back to an existing product. The description and features make up the product page
+ * together, so they are always written as a pair.
+ */
+export interface ProductCopyUpdate {
+  description?: string;
+  features?: string[];
+  seo?: ProductSeo;
+}
+
+/**
+ * What the model proposes for one product: only the requested fields that differ from the store are set
+ */
+export interface ProductEnrichment {
+  product: ExistingProduct;
+  description?: string;
+  features?: string[];
+  seo?: ProductSeo;
+  // Generated for products without any image
+  images?: ProductImage[];
+}
+
+/**
+ * The changes a user approved for one product, sent back to be written to the store
+ */
+export interface ApprovedEnrichment {
+  productId: string;
+  title: string;
+  copy: ProductCopyUpdate;
+  images: ProductImage[];
+}
+
+/**
+ * One field of a product before and after enrichment, as shown in the diff preview
+ */
+export interface EnrichmentChange {
+  field: EnrichmentField;
+  before: string;
+  after: string;
+}
+
+export interface DiffSegment {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export function isEnrichmentSource(value: unknown): value is EnrichmentSource {
+  return ENRICHMENT_SOURCES.includes(value as EnrichmentSource);
+}
+
+export function isEnrichmentField(value: unknown): value is EnrichmentField {
+  return ENRICHMENT_FIELDS.includes(value as EnrichmentField);
+}
+
+/**
+ * Validate the product query from a form or request body, clamping the limit
+ */
+export function normalizeEnrichmentQuery(input: unknown): EnrichmentQuery {
+  const query = (input ?? {}) as Partial<Record<keyof EnrichmentQuery, unknown>>;
+  if (!isEnrichmentSource(query.source)) {
+    throw new Error(`Products must be picked by one of: ${ENRICHMENT_SOURCES.join(', ')}`);
+  }
+
+  const value = typeof query.value === 'string' ? query.value.trim() : '';
+  if (!value) {
+    throw new Error(`Enter the ${query.source === 'search' ? 'search terms' : query.source} to pick products by`);
+  }
+
+  const limit = Math.round(Number(query.limit));
+  return {
+    source: query.source,
+    value,
+    limit: Number.isFinite(limit)
+      ? Math.min(Math.max(limit, 1), MAX_ENRICHMENT_PRODUCTS)
+      : DEFAULT_ENRICHMENT_QUERY.limit,
+  };
+}
+
+/**
+ * Keep the known, distinct fields in their canonical order
+ */
+export function normalizeEnrichmentFields(input: unknown): EnrichmentField[] {
+  const fields = Array.isArray(input) ? input.filter(isEnrichmentField) : [];
+  return ENRICHMENT_FIELDS.filter((field) => fields.includes(field));
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+/**
+ * Validate approved changes sent back by the client before they are written to the store. Product IDs
+ * are numeric on every platform, copy holds only the known fields, and images must be files this app
+ * stored itself (isStoredImage), so the store is never pointed at an arbitrary address.
+ */
+export function normalizeApprovedEnrichments(
+  input: unknown,
+  isStoredImage: (url: string) => boolean
+): ApprovedEnrichment[] {
+  if (!Array.isArray(input)) {
+    throw new Error('Approved changes must be a list');
+  }
+  if (input.length > MAX_ENRICHMENT_PRODUCTS) {
+    throw new Error(`At most ${MAX_ENRICHMENT_PRODUCTS} products can be updated at once`);
+  }
+
+  return input.map((entry, index) => {
+    const enrichment = (entry ?? {}) as Partial<Record<keyof ApprovedEnrichment, unknown>>;
+    if (!isString(enrichment.productId) || !/^\d+$/.test(enrichment.productId)) {
+      throw new Error(`Change ${index + 1} has an invalid product ID`);
+    }
+    const title = isString(enrichment.title) ? enrichment.title : enrichment.productId;
+
+    const copy = (enrichment.copy ?? {}) as Record<string, unknown>;
+    if (typeof copy !== 'object' || Array.isArray(copy)) {
+      throw new Error(`The copy of "${title}" must be an object`);
+    }
+    const unknownKeys = Object.keys(copy).filter((key) => !['description', 'features', 'seo'].includes(key));
+    if (unknownKeys.length > 0) {
+      throw new Error(`Changes to "${title}" have unknown fields: ${unknownKeys.join(', ')}`);
+    }
+
+    const normalizedCopy: ProductCopyUpdate = {};
+    if (copy.description !== undefined) {
+      if (!isString(copy.description)) {
+        throw new Error(`The description of "${title}" must be text`);
+      }
+      normalizedCopy.description = copy.description;
+    }
+    if (copy.features !== undefined) {
+      if (!Array.isArray(copy.features) || !copy.features.every(isString)) {
+        throw new Error(`The features of "${title}" must be a list of text`);
+      }
+      normalizedCopy.features = copy.features;
+    }
+    if (copy.seo !== undefined) {
+      const seo = (copy.seo ?? {}) as Partial<Record<keyof ProductSeo, unknown>>;
+      if (!isString(seo.title) || !isString(seo.description)) {
+        throw new Error(`The SEO fields of "${title}" must be text`);
+      }
+      normalizedCopy.seo = { title: seo.title, description: seo.description };
+    }
+
+    const images = enrichment.images ?? [];
+    if (!Array.isArray(images)) {
+      throw new Error(`The images of "${title}" must be a list`);
+    }
+    const normalizedImages: ProductImage[] = images.map((image) => {
+      const { url, altText } = (image ?? {}) as Partial<Record<keyof ProductImage, unknown>>;
+      if (!isString(url) || !isStoredImage(url)) {
+        throw new Error(`An image of "${title}" was not generated by this app`);
+      }
+      return { url, angle: 'front', ...(isString(altText) ? { altText } : {}) };
+    });
+
+    return { productId: enrichment.productId, title, copy: normalizedCopy, images: normalizedImages };
+  });
+}
+
+const formatFeatures = (features: string[]) => features.map((feature) => `• ${feature}`).join('\n');
+const formatSeo = (seo: ProductSeo | null) => (seo ? `${seo.title}\n${seo.description}` : '');
+const formatImageCount = (count: number) => `${count} ${count === 1 ? 'image' : 'images'}`;
+
+/**
+ * The proposed changes of a product, field by field, for the diff preview
+ */
+export function listEnrichmentChanges(enrichment: ProductEnrichment): EnrichmentChange[] {
+  const { product } = enrichment;
+  const changes: EnrichmentChange[] = [];
+
+  if (enrichment.description !== undefined) {
+    changes.push({ field: 'description', before: product.description, after: enrichment.description });
+  }
+  if (enrichment.features) {
+    changes.push({ field: 'features', before: formatFeatures(product.features), after: formatFeatures(enrichment.features) });
+  }
+  if (enrichment.seo) {
+    changes.push({ field: 'seo', before: formatSeo(product.seo), after: formatSeo(enrichment.seo) });
+  }
+  if (enrichment.images?.length) {
+    changes.push({
+      field: 'images',
+      before: formatImageCount(product.images.length),
+      after: formatImageCount(product.images.length + enrichment.images.length),
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Turn the fields a user approved into the update written to the store. When only one of the
+ * description and features is approved, the other keeps its current content. Returns null when
+ * nothing was approved.
+ */
+export function buildApprovedEnrichment(
+  enrichment: ProductEnrichment,
+  approvedFields: EnrichmentField[]
+): ApprovedEnrichment | null {
+  const { product } = enrichment;
+  const approved = (field: EnrichmentField) =>
+    approvedFields.includes(field) && listEnrichmentChanges(enrichment).some((change) => change.field === field);
+
+  const copy: ProductCopyUpdate = {};
+  if (approved('description') || approved('features')) {
+    copy.description = approved('description') ? enrichment.description : product.description;
+    copy.features = approved('features') ? enrichment.features : product.features;
+  }
+  if (approved('seo')) {
+    copy.seo = enrichment.seo;
+  }
+  const images = approved('images') ? (enrichment.images ?? []) : [];
+
+  if (Object.keys(copy).length === 0 && images.length === 0) {
+    return null;
+  }
+  return { productId: product.id, title: product.title, copy, images };
+}
+
+/**
+ * Word-level diff of two texts, keeping whitespace with the word before it so the segments can be
+ * rendered back to back
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const tokenize = (text: string) => text.match(/\S+\s*|\s+/g) ?? [];
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Longest common subsequence table, filled from the end so the walk below can go forwards
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i++]);
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  a.slice(i).forEach((token) => push('removed', token));
+  b.slice(j).forEach((token) => push('added', token));
+
+  return segments;
+}
@@ -0,0 +1,144 @@
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import { assertGatewayConfigured, describeGenerationError, type GeneratedProduct } from './generate-products';
+import { mapWithConcurrency } from './concurrency';
+import { emitProgress, isCancelled } from './progress';
+import { MetafieldDefinition, metafieldName, MetafieldType, ProductMetafield } from './metafields';
+import { PRODUCT_GENERATION_CONCURRENCY } from '@/lib/constants';
+
+const MAX_ATTEMPTS = 3;
+
+const VALUE_SCHEMAS: Record<MetafieldType, () => z.ZodTypeAny> = {
+  single_line_text_field: () => z.string().min(1).max(255),
+  multi_line_text_field: () => z.string().min(1).max(5000),
+  number_integer: () => z.number().int(),
+  number_decimal: () => z.number(),
+  boolean: () => z.boolean(),
+  date: () => z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be written as YYYY-MM-DD'),
+  'list.single_line_text_field': () => z.array(z.string().min(1).max(255)).min(1).max(10),
+};
+
+// Namespaces and keys only hold letters, digits, dashes and underscores, so "__" keeps the property names apart
+const fieldName = (definition: MetafieldDefinition) => `${definition.namespace}__${definition.key}`;
+
+const describeField = (definition: MetafieldDefinition) =>
+  `- ${fieldName(definition)}: ${metafieldName(definition.key)}${definition.hint ? ` (${definition.hint})` : ''}`;
+
+function buildMetafieldSchema(definitions: MetafieldDefinition[]) {
+  return z.object(
+    Object.fromEntries(
+      definitions.map((definition) => [
+        fieldName(definition),
+        VALUE_SCHEMAS[definition.type]().describe(
+          [metafieldName(definition.key), definition.hint].filter(Boolean).join(': ')
+        ),
+      ])
+    )
+  );
+}
+
+function serializeValue(value: unknown): string {
+  return Array.isArray(value) ? JSON.stringify(value) : String(value).trim();
+}
+
+async function generateMetafieldValues(
+  product: GeneratedProduct,
+  definitions: MetafieldDefinition[],
+  textModel: string,
+  previousError?: string
+): Promise<ProductMetafield[]> {
+  const retryEnhancement = previousError
+    ? `
+
+    YOUR PREVIOUS RESPONSE WAS REJECTED: ${previousError}
+    Fix these problems in this response.`
+    : '';
+
+  const { object } = await generateObject({
+    model: textModel,
+    schema: buildMetafieldSchema(definitions),
+    schemaName: 'ProductAttributes',
+    schemaDescription: 'Custom attributes of one product',
+    prompt: `Fill in the custom attributes of this online store product.
+
+    Title: ${product.title}
+    Category: ${product.category}
+    Description:
+    ${product.description}
+    Features: ${product.features.join('; ')}
+
+    Attributes:
+    ${definitions.map(describeField).join('\n    ')}
+
+    Make every value realistic for this specific product and consistent with its description.${retryEnhancement}`,
+  });
+
+  const values = object as Record<string, unknown>;
+  return definitions.map((definition) => ({
+    namespace: definition.namespace,
+    key: definition.key,
+    type: definition.type,
+    value: serializeValue(values[fieldName(definition)]),
+  }));
+}
+
+/**
+ * Fill the custom attributes of a product, retrying with the rejection as feedback
+ */
+export async function generateProductMetafields(
+  product: GeneratedProduct,
+  definitions: MetafieldDefinition[],
+  textModel: string
+): Promise<ProductMetafield[]> {
+  if (definitions.length === 0) {
+    return [];
+  }
+  assertGatewayConfigured();
+
+  let lastError: string | undefined;
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      return await generateMetafieldValues(product, definitions, textModel, lastError);
+    } catch (error) {
+      lastError = describeGenerationError(error);
+      console.warn(`[generateProductMetafields] Invalid attributes on attempt ${attempt} for "${product.title}": ${lastError}`);
+    }
+  }
+
+  throw new Error(`Could not fill the custom fields of "${product.title}" after ${MAX_ATTEMPTS} attempts: ${lastError}`);
+}
+
+/**
+ * Fill the custom attributes of the products of a run. A product whose attributes cannot be filled
+ * is kept without them and reported.
+ */
+export async function addProductMetafields(
+  products: GeneratedProduct[],
+  definitions: MetafieldDefinition[] | undefined,
+  textModel: string,
+  progressId?: string | null
+): Promise<{ products: GeneratedProduct[]; errors: string[] }> {
+  if (!definitions?.length) {
+    return { products, errors: [] };
+  }
+
+  const errors: string[] = [];
+  let completed = 0;
+  const withMetafields = await mapWithConcurrency(products, PRODUCT_GENERATION_CONCURRENCY, async (product) => {
+    if (isCancelled(progressId)) {
+      return product;
+    }
+
+    try {
+      return { ...product, metafields: await generateProductMetafields(product, definitions, textModel) };
+    } catch (error) {
+      console.error(`[addProductMetafields] Failed to fill custom fields of "${product.title}":`, error);
+      errors.push(`Failed to fill custom fields of "${product.title}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return product;
+    } finally {
+      emitProgress(progressId, { type: 'metafields', completed: ++completed, total: products.length });
+    }
+  });
+
+  return { products: withMetafields, errors };
+}
@@ -1,323 +1,791 @@
-import { generateText } from 'ai';
+import { randomUUID } from 'crypto';
+import { generateObject, generateText, GeneratedFile, NoObjectGeneratedError } from 'ai';
+import { z } from 'zod';
 import { OrganizedInput } from './organize-input';
+import type { CollectionDefinition } from './adapters';
+import { mapWithConcurrency } from './concurrency';
+import { emitProgress, isCancelled } from './progress';
+import {
+  clampShippingData,
+  DEFAULT_INVENTORY_SETTINGS,
+  generateBarcode,
+  generateStockLevels,
+  InventorySettings,
+  ShippingData,
+} from './inventory';
+import {
+  IMAGE_ALT_TEXT_MAX_LENGTH,
+  ProductSeo,
+  SEO_DESCRIPTION_MAX_LENGTH,
+  SEO_TITLE_MAX_LENGTH,
+  slugifyHandle,
+} from './seo';
+import {
+  DEFAULT_IMAGE_SETTINGS,
+  findColorOption,
+  IMAGE_ANGLE_ALT_TEXT,
+  IMAGE_ANGLE_PROMPTS,
+  ImageQualityReport,
+  ImageSettings,
+  MIN_IMAGE_QUALITY_SCORE,
+  ProductImage,
+} from './product-images';
+import { parseImageDataUri } from './adapters/utils';
+import { loadImageForModel, ModelImage, storeProductImages } from './image-storage';
+import { analyzeImageQuality } from './image-quality';
+import { BrandProfile, buildBrandCopyGuidance, buildBrandImageGuidance, findBrandViolations } from './brand-profile';
+import type { MarketPrice, ProductTranslation } from './localization';
+import type { ProductMetafield } from './metafields';
+import {
+  DEFAULT_PRODUCT_IMAGE_MODEL,
+  DEFAULT_PRODUCT_TEXT_MODEL,
+  PRODUCT_GENERATION_CONCURRENCY,
+} from '@/lib/constants';
+
+/**
+ * AI Gateway model IDs for the two halves of a product: a text model for the copy
+ * and a dedicated image model for the photo
+ */
+export interface ProductGenerationModels {
+  textModel: string;
+  imageModel: string;
+}
+
+export const DEFAULT_PRODUCT_GENERATION_MODELS: ProductGenerationModels = {
+  textModel: DEFAULT_PRODUCT_TEXT_MODEL,
+  imageModel: DEFAULT_PRODUCT_IMAGE_MODEL,
+};
+
+const priceSchema = z
+  .string()
+  .regex(/^\d+(\.\d{1,2})?$/, 'Price must be a plain number such as "99.99" (no currency symbol)');
+
+/**
+ * Structured output schema for the text part of a generated product.
+ * Variants reference real option dimensions (Size, Color, Material) instead of free-text titles.
+ */
+export const productCopySchema = z
+  .object({
+    title: z
+      .string()
+      .min(10)
+      .max(150)
+      .describe('Specific, detailed product name such as "Modern Ergonomic Office Chair with Lumbar Support"'),
+    description: z
+      .string()
+      .min(100)
+      .describe('2-3 paragraphs covering key features, materials, dimensions and benefits'),
+    price: priceSchema.describe('Base price in USD'),
+    options: z
+      .array(
+        z.object({
+          name: z.string().min(1).describe('Option name such as Size, Color or Material'),
+          values: z.array(z.string().min(1)).min(1).describe('Possible values for this option'),
+        })
+      )
+      .min(1)
+      .max(3)
+      .describe('The option dimensions variants are built from (at most 3)'),
+    variants: z
+      .array(
+        z.object({
+          optionValues: z
+            .array(z.string().min(1))
+            .describe('One value per option, in the same order as the options array'),
+          price: priceSchema.describe('Variant price in USD'),
+          compareAtPrice: priceSchema
+            .nullable()
+            .describe('Original price shown struck through when the variant is on sale, otherwise null'),
+        })
+      )
+      .min(2)
+      .max(100),
+    features: z.array(z.string().min(3)).min(3).max(5).describe('3-5 key product features'),
+    tags: z
+      .array(z.string().min(2).max(40))
+      .min(3)
+      .max(10)
+      .describe('3-10 short lowercase tags shoppers filter by, such as style, material, room or use'),
+    taxonomyCategory: z
+      .string()
+      .min(3)
+      .describe(
+        'Full path of the best matching category in the Shopify Standard Product Taxonomy, with " > " between levels, such as "Furniture > Office Furniture > Office Chairs"'
+      ),
+    seo: z
+      .object({
+        title: z
+          .string()
+          .min(10)
+          .max(SEO_TITLE_MAX_LENGTH)
+          .describe(`Search result headline, at most ${SEO_TITLE_MAX_LENGTH} characters, leading with the main keyword`),
+        description: z
+          .string()
+          .min(50)
+          .max(SEO_DESCRIPTION_MAX_LENGTH)
+          .describe(`Meta description, at most ${SEO_DESCRIPTION_MAX_LENGTH} characters, summarizing the product for search results`),
+      })
+      .describe('Search engine metadata for the product page'),
+    imageAltText: z
+      .string()
+      .min(10)
+      .max(IMAGE_ALT_TEXT_MAX_LENGTH)
+      .describe(`Alt text describing what the product photo shows, at most ${IMAGE_ALT_TEXT_MAX_LENGTH} characters`),
+    shipping: z
+      .object({
+        weightKg: z.number().positive().describe('Shipping weight in kilograms, including packaging'),
+        lengthCm: z.number().positive().describe('Package length in centimetres'),
+        widthCm: z.number().positive().describe('Package width in centimetres'),
+        heightCm: z.number().positive().describe('Package height in centimetres'),
+      })
+      .describe('Realistic shipping package for the product'),
+  })
+  .superRefine((copy, ctx) => {
+    const optionNames = copy.options.map((option) => option.name.toLowerCase());
+    if (new Set(optionNames).size !== optionNames.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['options'],
+        message: 'Option names must be unique',
+      });
+    }
+
+    const seenCombinations = new Set<string>();
+
+    copy.variants.forEach((variant, index) => {
+      if (variant.optionValues.length !== copy.options.length) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['variants', index, 'optionValues'],
+          message: `Expected ${copy.options.length} option values (one per option), got ${variant.optionValues.length}`,
+        });
+        return;
+      }
+
+      variant.optionValues.forEach((value, optionIndex) => {
+        if (!copy.options[optionIndex].values.includes(value)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['variants', index, 'optionValues', optionIndex],
+            message: `"${value}" is not one of the values of option "${copy.options[optionIndex].name}"`,
+          });
+        }
+      });
+
+      const combination = variant.optionValues.join('|').toLowerCase();
+      if (seenCombinations.has(combination)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['variants', index, 'optionValues'],
+          message: `Duplicate variant combination "${variant.optionValues.join(' / ')}"`,
+        });
+      }
+      seenCombinations.add(combination);
+
+      if (variant.compareAtPrice !== null && parseFloat(variant.compareAtPrice) <= parseFloat(variant.price)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['variants', index, 'compareAtPrice'],
+          message: `Compare-at price ${variant.compareAtPrice} must be higher than the price ${variant.price}, or null`,
+        });
+      }
+    });
+  });
+
+export type ProductCopy = z.infer<typeof productCopySchema>;
 
 export interface GeneratedProduct {
   title: string;
   description: string;
   price: string;
+  options?: Array<{ name: string; values: string[] }>; // Option dimensions (Size, Color, Material), at most 3
   variants: Array<{
     title: string;
     price: string;
+    options?: Array<{ name: string; value: string }>; // Option name/value pairs that make up the title
+    sku?: string;
+    barcode?: string; // EAN-13
+    compareAtPrice?: string | null; // Original price shown struck through, higher than price
+    stockLevels?: number[]; // Stock per store location, in the store's location order
   }>;
+  shipping?: ShippingData;
   features: string[];
-  image: string; // base64 data URI
+  tags?: string[];
+  taxonomyCategory?: string; // "Furniture > Office Furniture > Office Chairs" in the standard product taxonomy
+  collection?: CollectionDefinition; // Store collection the product is grouped into
+  seo?: ProductSeo;
+  handle?: string; // URL handle; made unique against the store when the product is created
+  imageAltText?: string;
+  image: string; // URL (or, if it could not be stored, base64 data URI) of the primary (front) image
+  images?: ProductImage[]; // Every image including the primary one: other angles and per-colour variant images
+  category: string;
+  itemId?: string; // generation_items row ID, set once the run is persisted
+  idempotencyKey?: string; // Stable key that follows the product through every step, so reruns never push it twice
+  translations?: ProductTranslation[]; // Copy in the run's other languages (see localization.ts)
+  marketPrices?: MarketPrice[]; // Prices in the run's other currencies
+  metafields?: ProductMetafield[]; // Custom attributes filled from the run's metafield schema
+}
+
+export interface ProductGenerationFailure {
   category: string;
+  index: number;
+  error: string;
+}
+
+export interface GenerateProductsResult {
+  products: GeneratedProduct[];
+  failures: ProductGenerationFailure[];
+}
+
+export function assertGatewayConfigured(): void {
+  // The AI SDK reads AI_GATEWAY_API_KEY from env
+  // Priority: AI_GATEWAY_API_KEY > VERCEL_AI_GATEWAY_KEY
+  const apiKey = process.env.AI_GATEWAY_API_KEY || process.env.VERCEL_AI_GATEWAY_KEY;
+
+  if (!apiKey) {
+    throw new Error(
+      'AI Gateway API key not found. Please set AI_GATEWAY_API_KEY in your .env.local file. ' +
+      'Get your API key from: https://vercel.com/d?to=%2F%5Bteam%5D%2F%7E%2Fai%2Fapi-keys'
+    );
+  }
+
+  if (!process.env.AI_GATEWAY_API_KEY) {
+    process.env.AI_GATEWAY_API_KEY = apiKey;
+  }
 }
 
 /**
- * Detects if an image is a placeholder (SVG, simple graphic, or text overlay)
+ * Describe why structured output failed so the retry prompt (and the run errors) can say what was wrong
  */
-function isPlaceholderImage(imageDataUri: string): boolean {
-  // Check if it's an SVG (our fallback placeholder format)
-  if (imageDataUri.includes('data:image/svg+xml')) {
-    return true;
+export function describeGenerationError(error: unknown): string {
+  if (NoObjectGeneratedError.isInstance(error)) {
+    return error.cause instanceof Error ? error.cause.message : error.message;
   }
-  
-  // Check if it contains common placeholder indicators in the base64 data
-  // Placeholder images often have very uniform patterns or simple structures
-  try {
-    // Extract base64 part
-    const base64Match = imageDataUri.match(/base64,(.+)/);
-    if (!base64Match) return false;
-    
-    const base64Data = base64Match[1];
-    // Decode a small sample to check for uniformity
-    const buffer = Buffer.from(base64Data, 'base64');
-    
-    // Very small images (< 1KB) are likely placeholders
-    if (buffer.length < 1024) {
-      return true;
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+const skuCode = (value: string, length: number) =>
+  value.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, length) || 'X';
+
+/**
+ * Build readable variant SKUs such as "CHA-1A2B3C4D-SMA-BLA": category, a product code taken from
+ * the idempotency key (so SKUs stay stable across retries) and one code per option value
+ */
+function buildVariantSkus(category: string, idempotencyKey: string, optionValues: string[][]): string[] {
+  const base = `${skuCode(category, 3)}-${skuCode(idempotencyKey, 8)}`;
+  const seen = new Set<string>();
+
+  return optionValues.map((values, index) => {
+    let sku = [base, ...values.map((value) => skuCode(value, 3))].join('-');
+    // Different values can share a prefix ("Black" / "Blackout"), so fall back to the position
+    if (seen.has(sku)) {
+      sku = `${sku}-${index + 1}`;
     }
+    seen.add(sku);
+    return sku;
+  });
+}
+
+/**
+ * Lowercase, de-duplicate and cap the generated tags, always including the category so the
+ * products of one category can be filtered together
+ */
+function normalizeTags(category: string, tags: string[]): string[] {
+  const normalized = [category, ...tags].map((tag) => tag.trim().toLowerCase().replace(/\s+/g, ' ')).filter(Boolean);
+  return [...new Set(normalized)].slice(0, 10);
+}
+
+/**
+ * Clean up the spacing of a generated taxonomy path ("Furniture>Chairs") into "Furniture > Chairs"
+ */
+function normalizeTaxonomyPath(path: string): string {
+  return path
+    .split('>')
+    .map((segment) => segment.trim())
+    .filter(Boolean)
+    .join(' > ');
+}
+
+function createPlaceholderImage(category: string): string {
+  return `data:image/svg+xml;base64,${Buffer.from(
+    `<svg width="400" height="400" xmlns="http://www.w3.org/2000/svg"><rect width="400" height="400" fill="#f0f0f0"/><text x="50%" y="50%" font-family="Arial" font-size="20" fill="#666" text-anchor="middle" dominant-baseline="middle">${category}</text></svg>`
+  ).toString('base64')}`;
+}
+
+async function generateProductCopy(
+  category: string,
+  textModel: string,
+  previousError?: string,
+  brandProfile?: BrandProfile | null
+): Promise<ProductCopy> {
+  const brandGuidance = brandProfile
+    ? `
+
+    ${buildBrandCopyGuidance(brandProfile)}`
+    : '';
+  const retryEnhancement = previousError
+    ? `
+
+    YOUR PREVIOUS RESPONSE WAS REJECTED: ${previousError}
+    Fix these problems in this response.`
+    : '';
+
+  const { object } = await generateObject({
+    model: textModel,
+    schema: productCopySchema,
+    schemaName: 'Product',
+    schemaDescription: 'A realistic ecommerce product with option-based variants',
+    prompt: `Generate a realistic ecommerce product for the ${category} category.
+
+    Create a specific product (not generic) with:
+    1. A creative and specific product title (be very specific - not just "${category}", but something like "Modern Ergonomic Office Chair with Lumbar Support" or "Vintage Brown Leather Reclining Sofa" - make it a real, detailed product name)
+    2. A detailed product description (2-3 paragraphs) that highlights key features, materials, dimensions, and benefits
+    3. A realistic price in USD (format as a number like "99.99")
+    4. 1-3 real option dimensions that fit the product (e.g., Size: Small/Large, Color: Black/White, Material: Leather/Fabric)
+    5. At least 2 variants, each a unique combination of option values, with realistic prices (set a higher compare-at price only for variants on sale)
+    6. A list of 3-5 key features
+    7. A realistic shipping weight and package size
+    8. 3-10 tags shoppers would filter by, and the matching Shopify Standard Product Taxonomy category path
+    9. An SEO title and meta description, and alt text describing the product photo${brandGuidance}${retryEnhancement}`,
+  });
+
+  // The schema cannot express per-brand rules, so they are checked here and fed back on retry like schema errors
+  const violations = brandProfile ? findBrandViolations(object, brandProfile) : [];
+  if (violations.length > 0) {
+    throw new Error(`The product breaks the brand guidelines: ${violations.join('; ')}`);
+  }
+
+  return object;
+}
+
+/**
+ * Reference images attached to the image prompt: the sample image uploaded for the run and the
+ * reference photos of the brand profile
+ */
+interface ImageReferences {
+  sample: ModelImage | null;
+  brand: ModelImage[];
+}
+
+async function loadImageReferences(
+  sampleImage?: string | null,
+  brandProfile?: BrandProfile | null
+): Promise<ImageReferences> {
+  const [sample, ...brand] = await Promise.all([
+    sampleImage ? loadImageForModel(sampleImage) : null,
+    ...(brandProfile?.referenceImages ?? []).map((url) => loadImageForModel(url)),
+  ]);
+
+  return { sample, brand: brand.filter((image): image is ModelImage => !!image) };
+}
+
+async function generateProductImage(
+  category: string,
+  copy: Pick<ProductCopy, 'title' | 'description'>,
+  imageModel: string,
+  attempt: number,
+  maxRetries: number,
+  references: ImageReferences = { sample: null, brand: [] },
+  previousIssues: string[] = [],
+  brandProfile?: BrandProfile | null
+): Promise<string> {
+  // The sample image comes first, then the brand references, matching the order they are attached in
+  let imageInstruction = '';
+  if (references.sample) {
+    imageInstruction = `
+    REFERENCE IMAGE PROVIDED: The first attached image is a sample product photo to use as a style and design reference.
+    Generate a similar product that:
+    - Matches the visual style, quality, and presentation of the reference image
+    - Has similar lighting, background, and composition
+    - Maintains the professional ecommerce photography aesthetic
+    - Creates a product that fits the same visual category and quality level
     
-    // Check for high uniformity in pixel data (gray boxes)
-    // Sample first 100 bytes - if they're mostly the same value, it's likely a placeholder
-    const sampleSize = Math.min(100, buffer.length);
-    const samples: number[] = [];
-    for (let i = 0; i < sampleSize; i++) {
-      samples.push(buffer[i]);
-    }
+    `;
+  }
+  if (brandProfile) {
+    imageInstruction += `
+    ${buildBrandImageGuidance(brandProfile, references.brand.length)}
     
-    // If 80% of samples are within 10 of each other, likely a uniform placeholder
-    const avg = samples.reduce((a, b) => a + b, 0) / samples.length;
-    const uniformCount = samples.filter(s => Math.abs(s - avg) < 10).length;
-    if (uniformCount / samples.length > 0.8) {
-      return true;
-    }
-  } catch (error) {
-    // If we can't analyze, assume it's valid
-    console.warn('Could not analyze image for placeholder detection:', error);
+    `;
   }
-  
-  return false;
+
+  // Build prompt with retry-specific enhancements
+  let retryEnhancement = '';
+  if (attempt > 1) {
+    retryEnhancement = `
+    
+    PREVIOUS ATTEMPTS FAILED: The previous image was a placeholder or generic graphic. You MUST generate a REAL PHOTOGRAPH of an actual physical product. This is a retry attempt ${attempt}/${maxRetries}.
+    ${previousIssues.length > 0 ? `Problems found in the previous image: ${previousIssues.join('; ')}` : ''}
+    - DO NOT create simple graphics, gray boxes, or text overlays
+    - DO NOT use placeholder images
+    - Generate ONLY a real product photograph like you would see on Amazon, Nike, or other professional ecommerce sites
+    - The image MUST show a tangible, physical product item with realistic textures and materials
+    `;
+  }
+
+  const prompt = `Generate a PHOTOGRAPHIC image of this ${category} product:
+
+    Product: ${copy.title}
+    Description: ${copy.description}
+    
+    ${imageInstruction}${retryEnhancement}
+    CRITICAL IMAGE REQUIREMENTS - READ CAREFULLY:
+    - The image MUST be a high-quality PHOTOGRAPH showing a REAL PHYSICAL PRODUCT
+    - NO text, NO labels, NO category names, NO placeholders, NO gray boxes with text
+    - The image must show the actual product item as it would appear in real life
+    - Use professional product photography style (like Amazon, Nike, or premium ecommerce sites)
+    - The product must be clearly visible with proper lighting
+    - Use a clean, neutral background (white, light gray, or subtle gradient)
+    - The product should be the main focus, centered and well-lit
+    - Show the product from an angle that displays its features (not just front-on)
+    - Include realistic textures, materials, and details that make it look like a real product photo
+    
+    DO NOT GENERATE:
+    - Placeholder images
+    - Gray squares with text
+    - Simple graphics or icons
+    - Category name labels
+    - Generic stock photo templates`;
+
+  const attachments = [...(references.sample ? [references.sample] : []), ...references.brand];
+  const result = await generateText({
+    model: imageModel,
+    providerOptions: {
+      google: { responseModalities: ['TEXT', 'IMAGE'] },
+    },
+    messages: [
+      {
+        role: 'user',
+        content: [
+          ...attachments.map((image) => ({ type: 'image' as const, image: image.base64, mediaType: image.mimeType })),
+          { type: 'text', text: prompt },
+        ],
+      },
+    ],
+  });
+
+  return extractImageDataUri(result.files);
 }
 
-export async function generateProducts(
-  organizedInput: OrganizedInput,
-  sampleImage?: string | null
-): Promise<GeneratedProduct[]> {
-  // Note: 'use step' removed - when called from within a workflow with 'use workflow',
-  // the steps are automatically tracked. The directive was causing return value issues.
-  const allProducts: GeneratedProduct[] = [];
+function extractImageDataUri(files: GeneratedFile[]): string {
+  // Extract generated images
+  const imageFile = files.find((f) => f.mediaType?.startsWith('image/'));
+  if (!imageFile) {
+    return '';
+  }
 
-  // Iterate through each category
-  for (const categoryData of organizedInput.categories) {
-    const { category, count } = categoryData;
-
-    // Generate products for this category
-    for (let i = 0; i < count; i++) {
-      let attempts = 0;
-      const maxRetries = 3;
-      let productGenerated = false;
-      
-      while (!productGenerated && attempts < maxRetries) {
-        attempts++;
-        try {
-          if (attempts > 1) {
-            console.log(`[generateProducts] Retry attempt ${attempts} for ${category} product ${i + 1} due to placeholder image`);
-          }
-        // Build prompt with optional reference image instruction
-        let imageInstruction = '';
-        if (sampleImage) {
-          imageInstruction = `
-        REFERENCE IMAGE PROVIDED: Use the provided sample product image as a style and design reference. 
-        Generate a similar product that:
-        - Matches the visual style, quality, and presentation of the reference image
-        - Has similar lighting, background, and composition
-        - Maintains the professional ecommerce photography aesthetic
-        - Creates a product that fits the same visual category and quality level
-        
-        `;
-        }
+  if (imageFile.base64) {
+    return `data:${imageFile.mediaType};base64,${imageFile.base64}`;
+  }
 
-        // Build prompt with retry-specific enhancements
-        let retryEnhancement = '';
-        if (attempts > 1) {
-          retryEnhancement = `
-        
-        PREVIOUS ATTEMPTS FAILED: The previous image was a placeholder or generic graphic. You MUST generate a REAL PHOTOGRAPH of an actual physical product. This is a retry attempt ${attempts}/${maxRetries}.
-        - DO NOT create simple graphics, gray boxes, or text overlays
-        - DO NOT use placeholder images
-        - Generate ONLY a real product photograph like you would see on Amazon, Nike, or other professional ecommerce sites
-        - The image MUST show a tangible, physical product item with realistic textures and materials
-        `;
-        }
-        
-        const prompt = `Generate a realistic ecommerce product for the ${category} category. Create a specific, detailed product with a PHOTOGRAPHIC image of the actual product.
-        
-        ${imageInstruction}${retryEnhancement}
-        CRITICAL IMAGE REQUIREMENTS - READ CAREFULLY:
-        - The image MUST be a high-quality PHOTOGRAPH showing a REAL PHYSICAL PRODUCT
-        - NO text, NO labels, NO category names, NO placeholders, NO gray boxes with text
-        - The image must show the actual product item as it would appear in real life
-        - Use professional product photography style (like Amazon, Nike, or premium ecommerce sites)
-        - The product must be clearly visible with proper lighting
-        - Use a clean, neutral background (white, light gray, or subtle gradient)
-        - The product should be the main focus, centered and well-lit
-        - Show the product from an angle that displays its features (not just front-on)
-        - Include realistic textures, materials, and details that make it look like a real product photo
-        
-        DO NOT GENERATE:
-        - Placeholder images
-        - Gray squares with text
-        - Simple graphics or icons
-        - Category name labels
-        - Generic stock photo templates
-        
-        DO GENERATE:
-        - A real product photograph
-        - High-resolution, detailed product image
-        - Professional ecommerce-style product photography
-        
-        Create a specific product (not generic) with:
-        1. A creative and specific product title (be very specific - not just "${category}", but something like "Modern Ergonomic Office Chair with Lumbar Support" or "Vintage Brown Leather Reclining Sofa" - make it a real, detailed product name)
-        2. A detailed product description (2-3 paragraphs) that highlights key features, materials, dimensions, and benefits
-        3. A realistic price in USD (format as a number like "99.99")
-        4. At least 2 product variants with different options (e.g., size: Small/Large, color: Black/White, material: Leather/Fabric) and their prices
-        5. A list of 3-5 key features
-        
-        Generate a high-quality, PHOTOGRAPHIC product image that shows the actual physical product item. This must be a real product photo, not a placeholder or graphic design.
-        
-        Format your response as JSON with the following structure:
-        {
-          "title": "Specific Product Title (not just category name)",
-          "description": "Full product description with details about materials, features, dimensions...",
-          "price": "99.99",
-          "variants": [
-            {"title": "Small / Black", "price": "79.99"},
-            {"title": "Large / White", "price": "119.99"}
-          ],
-          "features": ["Feature 1", "Feature 2", "Feature 3"]
-        }`;
-
-        // Configure AI Gateway - The AI SDK expects AI_GATEWAY_API_KEY environment variable
-        // Priority: AI_GATEWAY_API_KEY > VERCEL_AI_GATEWAY_KEY
-        const apiKey = process.env.AI_GATEWAY_API_KEY || process.env.VERCEL_AI_GATEWAY_KEY;
-        
-        if (!apiKey) {
-          throw new Error(
-            'AI Gateway API key not found. Please set AI_GATEWAY_API_KEY in your .env.local file. ' +
-            'Get your API key from: https://vercel.com/d?to=%2F%5Bteam%5D%2F%7E%2Fai%2Fapi-keys'
-          );
-        }
+  // Convert uint8Array to base64
+  return `data:${imageFile.mediaType};base64,${Buffer.from(imageFile.uint8Array).toString('base64')}`;
+}
+
+/**
+ * Generate another photo of the product shown in the reference image, so every angle and
+ * colour shows the same design with the same lighting
+ */
+async function generateImageFromReference(
+  copy: ProductCopy,
+  reference: string,
+  shot: string,
+  imageModel: string
+): Promise<string> {
+  const parsed = parseImageDataUri(reference);
+  if (!parsed) {
+    return '';
+  }
+
+  const result = await generateText({
+    model: imageModel,
+    providerOptions: {
+      google: { responseModalities: ['TEXT', 'IMAGE'] },
+    },
+    messages: [
+      {
+        role: 'user',
+        content: [
+          { type: 'image', image: parsed.base64, mediaType: parsed.mimeType },
+          {
+            type: 'text',
+            text: `The attached photo shows this product: ${copy.title}
 
-        // Configure the generateText call
-        // The AI SDK will automatically use AI_GATEWAY_API_KEY from env, but we can also pass it explicitly
-        const gatewayUrl = process.env.VERCEL_AI_GATEWAY_URL || process.env.AI_GATEWAY_URL;
-        
-        const config: {
-          model: string;
-          providerOptions: { google: { responseModalities: string[] } };
-          apiKey: string;
-          baseURL?: string;
-        } = {
-          model: 'google/gemini-2.5-flash-image-preview',
-          providerOptions: {
-            google: { responseModalities: ['TEXT', 'IMAGE'] },
+    Generate a new PHOTOGRAPH of exactly the same product showing ${shot}.
+    - Keep the design, materials, proportions and colours identical to the attached photo unless told otherwise
+    - Match the lighting, colour grading and professional ecommerce photography style of the attached photo
+    - NO text, NO labels, NO placeholders, NO gray boxes`,
           },
-          apiKey: apiKey,
-        };
+        ],
+      },
+    ],
+  });
 
-        // Add gateway URL if provided (optional - AI Gateway usually works without it)
-        if (gatewayUrl) {
-          config.baseURL = gatewayUrl;
-        }
+  return extractImageDataUri(result.files);
+}
 
-        // When a sample image is provided, enhance the prompt to reference it
-        // The AI will use the enhanced prompt description to generate similar images
-        const finalPrompt = sampleImage 
-          ? `${prompt}\n\nNote: A reference sample image has been provided. Generate the product image to match the visual style, quality, composition, and aesthetic of sample product images in the same category.`
-          : prompt;
+/**
+ * Generate the extra angles and per-colour images from the front shot. Shots that fail or don't
+ * pass the quality check are skipped: the product is still usable with fewer images.
+ */
+async function generateAdditionalImages(
+  category: string,
+  i: number,
+  copy: ProductCopy,
+  frontImage: string,
+  models: ProductGenerationModels,
+  imageSettings: ImageSettings
+): Promise<ProductImage[]> {
+  const colorOption = imageSettings.perVariantColor ? findColorOption(copy) : undefined;
+  const shots: Array<{ image: Omit<ProductImage, 'url'>; prompt: string }> = [
+    ...imageSettings.angles
+      .filter((angle) => angle !== 'front')
+      .map((angle) => ({ image: { angle }, prompt: IMAGE_ANGLE_PROMPTS[angle] })),
+    ...(colorOption?.values ?? []).map((value) => ({
+      image: { angle: 'variant' as const, variantOption: { name: colorOption!.name, value } },
+      prompt: `${IMAGE_ANGLE_PROMPTS.front}, with the product in the colour "${value}"`,
+    })),
+  ];
 
-        const result = await generateText({
-          ...config,
-          prompt: finalPrompt,
-        });
+  const images: ProductImage[] = [];
+  for (const shot of shots) {
+    try {
+      const url = await generateImageFromReference(copy, frontImage, shot.prompt, models.imageModel);
+      if (!url) {
+        continue;
+      }
 
-        // Extract text response
-        let productData: Omit<GeneratedProduct, 'image' | 'category'>;
-        try {
-          // Try to parse JSON from the response
-          const jsonMatch = result.text.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            productData = JSON.parse(jsonMatch[0]);
-          } else {
-            // Fallback: extract structured data from text
-            productData = {
-              title: result.text.split('\n')[0] || `Premium ${category} ${i + 1}`,
-              description: result.text,
-              price: '99.99',
-              variants: [
-                { title: 'Standard', price: '99.99' },
-                { title: 'Premium', price: '149.99' },
-              ],
-              features: ['High quality', 'Durable', 'Modern design'],
-            };
-          }
-        } catch (parseError) {
-          // Fallback to basic structure if JSON parsing fails
-          console.warn(`Failed to parse JSON for ${category} product:`, parseError);
-          productData = {
-            title: `Premium ${category} ${i + 1}`,
-            description: result.text || `A high-quality ${category} with excellent features.`,
-            price: '99.99',
-            variants: [
-              { title: 'Standard', price: '99.99' },
-              { title: 'Premium', price: '149.99' },
-            ],
-            features: ['High quality', 'Durable', 'Modern design'],
-          };
-        }
+      const quality = await analyzeImageQuality(url, models.textModel);
+      if (quality.score >= MIN_IMAGE_QUALITY_SCORE) {
+        images.push({ ...shot.image, url, quality });
+        continue;
+      }
+      console.warn(
+        `[generateProducts] Skipping low quality ${shot.image.angle} image for ${category} product ${i + 1}: ${quality.reasons.join('; ')}`
+      );
+    } catch (error) {
+      console.warn(`[generateProducts] Failed to generate ${shot.image.angle} image for ${category} product ${i + 1}:`, error);
+    }
+  }
 
-        // Extract generated images
-        const imageFiles = result.files.filter((f) =>
-          f.mediaType?.startsWith('image/')
-        );
-
-        let imageDataUri = '';
-        if (imageFiles.length > 0) {
-          // Use the first image
-          const imageFile = imageFiles[0];
-          if (imageFile.base64) {
-            imageDataUri = `data:${imageFile.mediaType};base64,${imageFile.base64}`;
-          } else if (imageFile.uint8Array) {
-            // Convert uint8Array to base64
-            const base64 = Buffer.from(imageFile.uint8Array).toString('base64');
-            imageDataUri = `data:${imageFile.mediaType};base64,${base64}`;
-          }
-        }
+  return images;
+}
 
-        // If no image was generated, create a placeholder data URI
-        if (!imageDataUri) {
-          imageDataUri = `data:image/svg+xml;base64,${Buffer.from(
-            `<svg width="400" height="400" xmlns="http://www.w3.org/2000/svg"><rect width="400" height="400" fill="#f0f0f0"/><text x="50%" y="50%" font-family="Arial" font-size="20" fill="#666" text-anchor="middle" dominant-baseline="middle">${category}</text></svg>`
-          ).toString('base64')}`;
-        }
+/**
+ * Generate the front (main) photo of a product. Images that fail the quality check are retried with
+ * its findings fed back, and the best attempt is kept; a placeholder stands in when the model returns
+ * no image at all.
+ */
+export async function generateFrontImage(
+  category: string,
+  i: number,
+  copy: Pick<ProductCopy, 'title' | 'description'>,
+  models: ProductGenerationModels = DEFAULT_PRODUCT_GENERATION_MODELS,
+  sampleImage?: string | null,
+  progressId?: string | null,
+  brandProfile?: BrandProfile | null
+): Promise<{ url: string; quality: ImageQualityReport }> {
+  const maxRetries = 3;
+  const references = await loadImageReferences(sampleImage, brandProfile);
 
-        // Check if the generated image is a placeholder
-        const isPlaceholder = isPlaceholderImage(imageDataUri);
-        
-        if (isPlaceholder && attempts < maxRetries) {
-          console.warn(`[generateProducts] Detected placeholder image for ${category} product ${i + 1}, retrying with stronger prompt...`);
-          // Continue to retry - don't add to products yet
-          continue;
-        }
+  // Keep the best image across attempts, stopping as soon as one passes the quality check
+  let front: { url: string; quality: ImageQualityReport } | null = null;
+  let previousIssues: string[] = [];
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    if (attempt > 1) {
+      console.log(`[generateProducts] Retry attempt ${attempt} for ${category} product ${i + 1}: ${previousIssues.join('; ')}`);
+      emitProgress(progressId, { type: 'placeholder-retry', category, index: i, attempt, reasons: previousIssues });
+    }
 
-        // If we have a placeholder after max retries, log it but still add the product
-        if (isPlaceholder) {
-          console.warn(`[generateProducts] Placeholder image still detected after ${maxRetries} attempts for ${category} product ${i + 1}, using it anyway`);
-        }
+    let imageDataUri = '';
+    try {
+      imageDataUri = await generateProductImage(
+        category,
+        copy,
+        models.imageModel,
+        attempt,
+        maxRetries,
+        references,
+        previousIssues,
+        brandProfile
+      );
+    } catch (error) {
+      console.warn(`[generateProducts] Image error on attempt ${attempt} for ${category} product ${i + 1}:`, error);
+    }
 
-        allProducts.push({
-          ...productData,
-          image: imageDataUri,
-          category,
-        });
-        
-        productGenerated = true;
-      } catch (error) {
-          // If this is not the last attempt, log and continue retrying
-          if (attempts < maxRetries) {
-            console.warn(`[generateProducts] Error on attempt ${attempts} for ${category} product ${i + 1}, retrying...`, error);
-            continue;
-          }
-          
-          // Last attempt failed - create a fallback product
-          console.error(`Failed to generate product for ${category} after ${maxRetries} attempts:`, error);
-          allProducts.push({
-            title: `${category} ${i + 1}`,
-            description: `A high-quality ${category} with excellent features and modern design.`,
-            price: '99.99',
-            variants: [
-              { title: 'Standard', price: '99.99' },
-            ],
-            features: ['High quality', 'Durable', 'Modern design'],
-            image: `data:image/svg+xml;base64,${Buffer.from(
-              `<svg width="400" height="400" xmlns="http://www.w3.org/2000/svg"><rect width="400" height="400" fill="#f0f0f0"/><text x="50%" y="50%" font-family="Arial" font-size="20" fill="#666" text-anchor="middle" dominant-baseline="middle">${category}</text></svg>`
-            ).toString('base64')}`,
-            category,
-          });
-          productGenerated = true; // Exit the retry loop
-        }
-      }
+    if (!imageDataUri) {
+      previousIssues = ['No image was returned'];
+      continue;
+    }
+
+    const quality = await analyzeImageQuality(imageDataUri, models.textModel);
+    if (!front || quality.score > front.quality.score) {
+      front = { url: imageDataUri, quality };
     }
+
+    if (quality.score >= MIN_IMAGE_QUALITY_SCORE) {
+      break;
+    }
+
+    previousIssues = quality.reasons;
+    if (attempt < maxRetries) {
+      console.warn(`[generateProducts] Low quality image (score ${quality.score}) for ${category} product ${i + 1}, retrying with stronger prompt...`);
+    }
+  }
+
+  // If we still have no usable image after max retries, log it but still keep the product
+  if (!front || front.quality.score < MIN_IMAGE_QUALITY_SCORE) {
+    console.warn(`[generateProducts] No image passed the quality check after ${maxRetries} attempts for ${category} product ${i + 1}, using the best one anyway`);
+    front ??= {
+      url: createPlaceholderImage(category),
+      quality: { score: 0, reasons: ['No image could be generated, using a placeholder'] },
+    };
   }
 
-  console.log('[generateProducts] About to return. Total products:', allProducts.length);
-  console.log('[generateProducts] Return value is array:', Array.isArray(allProducts));
-  
-  // Explicitly ensure we return the array
-  const returnValue: GeneratedProduct[] = allProducts;
-  console.log('[generateProducts] Returning', returnValue.length, 'products');
-  return returnValue;
+  return front;
 }
 
+/**
+ * Generate a single product (copy and image) for a category. Copy that fails schema
+ * validation or breaks the brand profile's rules is retried with the errors fed back to the model, and the image
+ * is retried when the model returns a placeholder. Throws when no valid copy could be
+ * produced instead of falling back to made-up data.
+ */
+export async function generateProduct(
+  category: string,
+  i: number,
+  sampleImage?: string | null,
+  models: ProductGenerationModels = DEFAULT_PRODUCT_GENERATION_MODELS,
+  progressId?: string | null,
+  inventory: InventorySettings = DEFAULT_INVENTORY_SETTINGS,
+  imageSettings: ImageSettings = DEFAULT_IMAGE_SETTINGS,
+  brandProfile?: BrandProfile | null
+): Promise<GeneratedProduct> {
+  assertGatewayConfigured();
+
+  const maxRetries = 3;
+  let copy: ProductCopy | null = null;
+  let lastError: string | undefined;
+
+  for (let attempt = 1; attempt <= maxRetries && !copy; attempt++) {
+    try {
+      copy = await generateProductCopy(category, models.textModel, lastError, brandProfile);
+    } catch (error) {
+      lastError = describeGenerationError(error);
+      console.warn(`[generateProducts] Invalid product data on attempt ${attempt} for ${category} product ${i + 1}: ${lastError}`);
+    }
+  }
+
+  if (!copy) {
+    throw new Error(`Could not generate valid product data for ${category} product ${i + 1} after ${maxRetries} attempts: ${lastError}`);
+  }
+
+  const front = await generateFrontImage(category, i, copy, models, sampleImage, progressId, brandProfile);
+
+  // Other angles are derived from the front shot, which is pointless when it is a placeholder
+  const additionalImages =
+    front.quality.score < MIN_IMAGE_QUALITY_SCORE
+      ? []
+      : await generateAdditionalImages(category, i, copy, front.url, models, imageSettings);
+  const generatedImages: ProductImage[] = [
+    { url: front.url, angle: 'front', altText: copy.imageAltText, quality: front.quality },
+    ...additionalImages.map((image) => ({
+      ...image,
+      altText:
+        image.angle === 'variant'
+          ? `${copy.title} in ${image.variantOption?.value}`
+          : `${copy.title}, ${IMAGE_ANGLE_ALT_TEXT[image.angle]}`,
+    })),
+  ];
+
+  const { options } = copy;
+  const idempotencyKey = randomUUID();
+  // Only URLs travel on from here; the base64 data is released once it is in blob storage
+  const images = await storeProductImages(idempotencyKey, generatedImages);
+  const skus = buildVariantSkus(category, idempotencyKey, copy.variants.map((variant) => variant.optionValues));
+
+  return {
+    title: copy.title,
+    description: copy.description,
+    price: copy.price,
+    options: options.map((option) => ({ name: option.name, values: option.values })),
+    variants: copy.variants.map((variant, index) => ({
+      title: variant.optionValues.join(' / '),
+      price: variant.price,
+      options: variant.optionValues.map((value, optionIndex) => ({ name: options[optionIndex].name, value })),
+      sku: skus[index],
+      barcode: generateBarcode(),
+      compareAtPrice: variant.compareAtPrice,
+      stockLevels: generateStockLevels(inventory),
+    })),
+    shipping: clampShippingData(copy.shipping, inventory),
+    features: copy.features,
+    tags: normalizeTags(category, copy.tags),
+    taxonomyCategory: normalizeTaxonomyPath(copy.taxonomyCategory),
+    seo: copy.seo,
+    handle: slugifyHandle(copy.title),
+    imageAltText: copy.imageAltText,
+    images,
+    image: images[0].url,
+    category,
+    idempotencyKey,
+  };
+}
+
+export async function generateProducts(
+  organizedInput: OrganizedInput,
+  sampleImage?: string | null,
+  models: ProductGenerationModels = DEFAULT_PRODUCT_GENERATION_MODELS,
+  progressId?: string | null,
+  inventory: InventorySettings = DEFAULT_INVENTORY_SETTINGS,
+  imageSettings: ImageSettings = DEFAULT_IMAGE_SETTINGS,
+  brandProfile?: BrandProfile | null
+): Promise<GenerateProductsResult> {
+  // Note: 'use step' removed - when called from within a workflow with 'use workflow',
+  // the steps are automatically tracked. The directive was causing return value issues.
+  const jobs = organizedInput.categories.flatMap(({ category, count }) =>
+    Array.from({ length: count }, (_, index) => ({ category, index }))
+  );
+
+  // Generate several products at once, keeping the category order of the input in the result
+  const outcomes = await mapWithConcurrency(jobs, PRODUCT_GENERATION_CONCURRENCY, async ({ category, index }) => {
+    // Products that have not started yet are skipped once the run is cancelled
+    if (isCancelled(progressId)) {
+      return {};
+    }
+
+    try {
+      const product = await generateProduct(
+        category,
+        index,
+        sampleImage,
+        models,
+        progressId,
+        inventory,
+        imageSettings,
+        brandProfile
+      );
+      emitProgress(progressId, { type: 'item-generated', category, index, title: product.title, image: product.image });
+      return { product };
+    } catch (error) {
+      // Report the failure instead of creating a junk product
+      console.error(`[generateProducts] Failed to generate ${category} product ${index + 1}:`, error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      emitProgress(progressId, { type: 'generation-failed', category, index, error: message });
+      return { failure: { category, index, error: message } };
+    }
+  });
+
+  const allProducts: GeneratedProduct[] = [];
+  const failures: ProductGenerationFailure[] = [];
+  for (const outcome of outcomes) {
+    if (outcome.product) {
+      allProducts.push(outcome.product);
+    } else if (outcome.failure) {
+      failures.push(outcome.failure);
+    }
+  }
+
+  console.log('[generateProducts] Generated', allProducts.length, 'products,', failures.length, 'failed');
+  return { products: allProducts, failures };
+}
@@ -0,0 +1,161 @@
+import sharp from 'sharp';
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import { parseImageDataUri } from './adapters/utils';
+import { ImageQualityReport, MIN_IMAGE_QUALITY_SCORE } from './product-images';
+
+const MIN_IMAGE_SIDE = 512;
+const LOW_RES_IMAGE_SIDE = 256;
+// Average per-channel standard deviation: photos sit well above this, flat boxes and gradients below
+const UNIFORM_STDEV = 8;
+const LOW_DETAIL_STDEV = 20;
+const LOW_ENTROPY = 3;
+// Share of pixels matching the border colour above which the "product" is hardly there
+const BACKGROUND_SHARE = 0.95;
+const BACKGROUND_TOLERANCE = 12;
+const SAMPLE_SIZE = 64;
+
+const textOverlaySchema = z.object({
+  hasTextOverlay: z
+    .boolean()
+    .describe('True if text, labels, watermarks or captions are overlaid on the image (not printed on the product itself)'),
+  text: z.string().describe('The overlaid text, or an empty string'),
+});
+
+/**
+ * Share of pixels that match the colour of the image border, measured on a small thumbnail
+ */
+async function backgroundShare(image: sharp.Sharp): Promise<number> {
+  const { data, info } = await image
+    .clone()
+    .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: 'fill' })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const pixel = (x: number, y: number) => {
+    const offset = (y * info.width + x) * info.channels;
+    return [data[offset], data[offset + 1], data[offset + 2]];
+  };
+
+  const border: number[][] = [];
+  for (let i = 0; i < SAMPLE_SIZE; i++) {
+    border.push(pixel(i, 0), pixel(i, SAMPLE_SIZE - 1), pixel(0, i), pixel(SAMPLE_SIZE - 1, i));
+  }
+  const background = [0, 1, 2].map((channel) => border.reduce((sum, color) => sum + color[channel], 0) / border.length);
+
+  let matching = 0;
+  for (let y = 0; y < SAMPLE_SIZE; y++) {
+    for (let x = 0; x < SAMPLE_SIZE; x++) {
+      const color = pixel(x, y);
+      if (color.every((value, channel) => Math.abs(value - background[channel]) <= BACKGROUND_TOLERANCE)) {
+        matching++;
+      }
+    }
+  }
+
+  return matching / (SAMPLE_SIZE * SAMPLE_SIZE);
+}
+
+/**
+ * Ask a vision model whether text is overlaid on the image. Returns null when the check could not run,
+ * so a flaky model call never rejects a good image.
+ */
+async function detectTextOverlay(base64: string, mimeType: string, visionModel: string): Promise<string | null> {
+  try {
+    const { object } = await generateObject({
+      model: visionModel,
+      schema: textOverlaySchema,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'image', image: base64, mediaType: mimeType },
+            {
+              type: 'text',
+              text: 'Read any text in this ecommerce product photo. Only report text overlaid on the image (captions, labels, watermarks, category names), not logos or text physically printed on the product.',
+            },
+          ],
+        },
+      ],
+    });
+
+    return object.hasTextOverlay ? object.text || 'unreadable text' : null;
+  } catch (error) {
+    console.warn('[analyzeImageQuality] Text overlay detection failed, skipping it:', error);
+    return null;
+  }
+}
+
+/**
+ * Decode a generated image and score it on what placeholders and broken generations have in common:
+ * vector graphics, small dimensions, flat colour, an almost empty frame and text overlays
+ * (read by a vision model when one is given).
+ */
+export async function analyzeImageQuality(dataUri: string, visionModel?: string): Promise<ImageQualityReport> {
+  const parsed = parseImageDataUri(dataUri);
+  if (!parsed) {
+    return { score: 0, reasons: ['No image data'] };
+  }
+
+  if (parsed.extension === 'svg') {
+    return { score: 0, reasons: ['Vector graphic instead of a photograph'] };
+  }
+
+  const reasons: string[] = [];
+  let score = 100;
+  const penalize = (points: number, reason: string) => {
+    score -= points;
+    reasons.push(reason);
+  };
+
+  // Everything that decodes pixels is read up front, so a corrupt image scores 0 instead of failing the product
+  let width: number;
+  let height: number;
+  let stats: sharp.Stats;
+  let share: number;
+  try {
+    const image = sharp(Buffer.from(parsed.base64, 'base64'));
+    const metadata = await image.metadata();
+    width = metadata.width ?? 0;
+    height = metadata.height ?? 0;
+    stats = await image.stats();
+    share = await backgroundShare(image);
+  } catch (error) {
+    console.warn('[analyzeImageQuality] Could not decode image:', error);
+    return { score: 0, reasons: ['Image could not be decoded'] };
+  }
+
+  const shortestSide = Math.min(width, height);
+  if (shortestSide < LOW_RES_IMAGE_SIDE) {
+    penalize(50, `Very low resolution (${width}×${height})`);
+  } else if (shortestSide < MIN_IMAGE_SIDE) {
+    penalize(20, `Low resolution (${width}×${height}), at least ${MIN_IMAGE_SIDE}px per side expected`);
+  }
+
+  const colorChannels = stats.channels.slice(0, 3);
+  const stdev = colorChannels.reduce((sum, channel) => sum + channel.stdev, 0) / colorChannels.length;
+  if (stdev < UNIFORM_STDEV) {
+    penalize(60, 'Almost a single flat colour');
+  } else if (stdev < LOW_DETAIL_STDEV) {
+    penalize(25, 'Very little colour variation');
+  }
+
+  if (stats.entropy < LOW_ENTROPY) {
+    penalize(20, 'Very little detail, looks like a simple graphic');
+  }
+
+  if (share > BACKGROUND_SHARE) {
+    penalize(40, `Background covers ${Math.round(share * 100)}% of the image, the product is barely visible`);
+  }
+
+  // Only worth a model call while the image could still pass
+  if (visionModel && score >= MIN_IMAGE_QUALITY_SCORE) {
+    const overlay = await detectTextOverlay(parsed.base64, parsed.mimeType, visionModel);
+    if (overlay) {
+      penalize(50, `Text overlay detected: "${overlay.slice(0, 60)}"`);
+    }
+  }
+
+  return { score: Math.max(0, score), reasons, width, height };
+}
@@ -0,0 +1,103 @@
+import { getBlobStore } from '@/lib/blob-storage';
+import { parseImageDataUri } from './adapters/utils';
+import type { ProductImage } from './product-images';
+import { slugifyHandle } from './seo';
+
+export function isDataUri(url: string): boolean {
+  return url.startsWith('data:');
+}
+
+/**
+ * Write a product's images to blob storage and return them with URLs in place of the base64 data,
+ * so products carry small URLs through the workflow state, the database and the UI.
+ * Images that cannot be stored keep their data URI rather than losing the product.
+ */
+export async function storeProductImages(productKey: string, images: ProductImage[]): Promise<ProductImage[]> {
+  const blobStore = getBlobStore();
+
+  return Promise.all(
+    images.map(async (image, index) => {
+      const parsed = isDataUri(image.url) ? parseImageDataUri(image.url) : null;
+      if (!parsed) {
+        return image;
+      }
+
+      const name = image.variantOption ? `variant-${slugifyHandle(image.variantOption.value)}` : image.angle;
+      const key = `products/${productKey}/${index + 1}-${name}.${parsed.extension}`;
+
+      try {
+        const url = await blobStore.put(key, Buffer.from(parsed.base64, 'base64'), parsed.mimeType);
+        return { ...image, url };
+      } catch (error) {
+        console.error(`[storeProductImages] Failed to store ${key} in ${blobStore.name}, keeping the image inline:`, error);
+        return image;
+      }
+    })
+  );
+}
+
+/**
+ * The image to hand to a commerce platform: its URL when the platform can download it, otherwise
+ * the file itself as a data URI. SVG placeholders are always inlined so the adapters can convert
+ * or skip them. Only files of our own blob store are inlined; other URLs, such as the remote images
+ * of an imported catalog, are passed on for the store to download.
+ */
+export async function resolveImageForUpload(url: string): Promise<string> {
+  const blobStore = getBlobStore();
+  if (
+    isDataUri(url) ||
+    !blobStore.owns(url) ||
+    (blobStore.publiclyReachable && !/\.svg$/i.test(new URL(url).pathname))
+  ) {
+    return url;
+  }
+
+  const blob = await blobStore.get(url);
+  if (!blob) {
+    throw new Error(`Image not found in ${blobStore.name} storage: ${url}`);
+  }
+  return `data:${blob.contentType};base64,${blob.data.toString('base64')}`;
+}
+
+// An image ready to attach to a model prompt as an image part
+export interface ModelImage {
+  base64: string;
+  mimeType: string;
+}
+
+/**
+ * Load an image (a data URI or a blob storage URL) as base64 so it can be attached to a model
+ * prompt. Returns null for images that cannot be read, so a missing reference does not fail the product.
+ */
+export async function loadImageForModel(url: string): Promise<ModelImage | null> {
+  if (isDataUri(url)) {
+    const parsed = parseImageDataUri(url);
+    return parsed && { base64: parsed.base64, mimeType: parsed.mimeType };
+  }
+
+  const blobStore = getBlobStore();
+  try {
+    const blob = await blobStore.get(url);
+    return blob && { base64: blob.data.toString('base64'), mimeType: blob.contentType };
+  } catch (error) {
+    console.warn(`[loadImageForModel] Failed to load ${url} from ${blobStore.name} storage:`, error);
+    return null;
+  }
+}
+
+/**
+ * Replace a product's image URLs with the files themselves, so an exported catalog still has its
+ * images where the blob storage URLs are not reachable (such as fixtures checked into a repo)
+ */
+export async function inlineProductImages<T extends { image: string; images?: ProductImage[] }>(product: T): Promise<T> {
+  const inline = async (url: string) => {
+    const image = url ? await loadImageForModel(url) : null;
+    return image ? `data:${image.mimeType};base64,${image.base64}` : url;
+  };
+
+  const images = product.images
+    ? await Promise.all(product.images.map(async (image) => ({ ...image, url: await inline(image.url) })))
+    : undefined;
+
+  return { ...product, image: images?.[0]?.url ?? (await inline(product.image)), ...(images ? { images } : {}) };
+}
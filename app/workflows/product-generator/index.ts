@@ -1,32 +1,114 @@
 'use workflow';
 
-import { CategoryInput, OrganizedInput } from './organize-input';
+import { CategoryInput, OrganizedInput, ProductGeneratorOptions } from './organize-input';
+import type { CommercePlatform, ListedProduct, StoreProduct } from './adapters';
 
-// Re-export CategoryInput for use in Server Actions and API routes
-export type { CategoryInput } from './organize-input';
-import { generateProducts, GeneratedProduct } from './generate-products';
-import { createShopifyProducts, ShopifyProduct } from './create-shopify-products';
+// Re-export input types for use in Server Actions and API routes
+export type { CategoryInput, ProductGeneratorOptions } from './organize-input';
+export type { CommercePlatform, ListedProduct, StoreProduct } from './adapters';
+export type { GeneratedProduct, ProductGenerationModels } from './generate-products';
+export type { DeletedProductResult, StoreProductToDelete } from './delete-store-products';
+export type { InventorySettings } from './inventory';
+export type { CollectionMode } from './collections';
+export type { ImageAngle, ImageSettings, ProductImage } from './product-images';
+export type { BrandProfile } from './brand-profile';
+export type { CatalogFileFormat } from './catalog-files';
+export type { StoreActivitySettings, StoreActivitySummary } from './store-activity';
+export type { PromotionSettings, PromotionSummary } from './promotions';
+export type { LocalizationSettings, MarketPrice, ProductTranslation } from './localization';
+export type { MetafieldDefinition, MetafieldType, ProductMetafield } from './metafields';
+export type {
+  ApprovedEnrichment,
+  EnrichmentField,
+  EnrichmentQuery,
+  ExistingProduct,
+  ProductEnrichment,
+} from './enrichment';
+import {
+  DEFAULT_PRODUCT_GENERATION_MODELS,
+  generateProducts,
+  GeneratedProduct,
+  ProductGenerationModels,
+} from './generate-products';
+import { createStoreProducts } from './create-store-products';
 import { uploadProductImages } from './upload-product-images';
+import { deleteStoreProducts, DeletedProductResult, StoreProductToDelete } from './delete-store-products';
+import { recordApprovedItems, recordGeneratedItems } from './record-run';
+import { emitProgress, isCancelled } from './progress';
+import { assignCollections, DEFAULT_COLLECTION_MODE } from './collections';
+import { prepareImportedProducts } from './prepare-imported-products';
+import { seedStoreActivity } from './seed-store-activity';
+import type { StoreActivitySettings, StoreActivitySummary } from './store-activity';
+import { applySalePrices } from './discounts';
+import { seedPromotions } from './seed-promotions';
+import { hasPromotions, PromotionSettings, PromotionSummary } from './promotions';
+import { hasLocalization } from './localization';
+import { localizeProducts } from './translate-products';
+import { addProductMetafields } from './generate-metafields';
+import { enrichProducts, findStoreProducts } from './enrich-products';
+import { applyEnrichments } from './apply-enrichments';
+import {
+  ApprovedEnrichment,
+  EnrichmentField,
+  EnrichmentQuery,
+  ExistingProduct,
+  listEnrichmentChanges,
+  ProductEnrichment,
+} from './enrichment';
+import type { BrandProfile } from './brand-profile';
 
 export interface WorkflowResult {
   success: boolean;
   totalProducts: number;
-  createdProducts: ShopifyProduct[];
+  createdProducts: StoreProduct[];
+  // Set in preview mode: generated products that have not been published yet
+  previewProducts?: GeneratedProduct[];
   errors?: string[];
+  runId?: string;
+  // Set when the run was cancelled before all products were processed
+  cancelled?: boolean;
+  // Customers, orders and reviews seeded after publishing, when requested
+  storeActivity?: StoreActivitySummary;
+  // Sale prices, discounts and price lists created after publishing, when requested
+  promotions?: PromotionSummary;
 }
 
 export async function productGeneratorWorkflow(
   categories: CategoryInput[],
-  sampleImage?: string | null
+  options: ProductGeneratorOptions = {}
 ): Promise<WorkflowResult> {
+  const {
+    sampleImage,
+    platform = 'shopify',
+    previewOnly = false,
+    runId,
+    models,
+    progressId,
+    inventory,
+    collectionMode = DEFAULT_COLLECTION_MODE,
+    images,
+    brandProfile,
+    storeActivity,
+    promotions,
+    localization,
+    metafields,
+  } = options;
   console.log('[Workflow] Starting productGeneratorWorkflow');
   console.log('[Workflow] Input categories:', JSON.stringify(categories));
   console.log('[Workflow] Sample image provided:', !!sampleImage);
+  console.log('[Workflow] Target platform:', platform);
+  console.log('[Workflow] Preview only:', previewOnly);
+  console.log('[Workflow] Collections:', collectionMode);
+  console.log('[Workflow] Brand profile:', brandProfile?.name ?? 'none');
+  console.log('[Workflow] Store activity:', storeActivity?.customers ? JSON.stringify(storeActivity) : 'none');
+  console.log('[Workflow] Promotions:', hasPromotions(promotions) ? JSON.stringify(promotions) : 'none');
+  console.log('[Workflow] Localization:', hasLocalization(localization) ? JSON.stringify(localization) : 'none');
+  console.log('[Workflow] Metafields:', metafields?.length ? JSON.stringify(metafields) : 'none');
+  console.log('[Workflow] Run ID:', runId ?? 'not persisted');
   
   const errors: string[] = [];
   let organizedInput: OrganizedInput;
   let generatedProducts: GeneratedProduct[] = [];
-  let createdProducts: ShopifyProduct[] = [];
 
   try {
     // Step 1: Organize Input
@@ -67,6 +149,7 @@ export async function productGeneratorWorkflow(
     };
     
     console.log('[Workflow] Step 1 complete. Total products to generate:', organizedInput.totalProducts);
+    emitProgress(progressId, { type: 'started', progressId: progressId ?? '', totalProducts: organizedInput.totalProducts });
     console.log('[Workflow] Organized categories:', JSON.stringify(organizedInput.categories));
   } catch (error) {
     const errorMsg = `Step 1 failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
@@ -84,21 +167,55 @@ export async function productGeneratorWorkflow(
   try {
     // Step 2: Generate Product Data (with images)
     console.log('[Workflow] Step 2: Generating products...');
-    const result = await generateProducts(organizedInput, sampleImage);
-    console.log('[Workflow] Step 2 result received:', result);
-    console.log('[Workflow] Step 2 result type:', typeof result, 'Is array:', Array.isArray(result));
-    
-    if (result === null || result === undefined) {
-      console.error('[Workflow] generateProducts returned null or undefined');
-      throw new Error('generateProducts returned null or undefined');
+    const result = await generateProducts(
+      organizedInput,
+      sampleImage,
+      models,
+      progressId,
+      inventory,
+      images,
+      brandProfile
+    );
+    // Sale prices are set before the preview, so they can be reviewed and edited like any other price
+    result.products = applySalePrices(assignCollections(result.products, collectionMode), promotions);
+    console.log('[Workflow] Step 2 result received:', result.products.length, 'products,', result.failures.length, 'failures');
+
+    // Products that never passed validation are reported instead of being published as junk
+    for (const failure of result.failures) {
+      errors.push(`Failed to generate ${failure.category} product ${failure.index + 1}: ${failure.error}`);
     }
-    
-    if (!Array.isArray(result)) {
-      console.error('[Workflow] generateProducts returned non-array:', typeof result);
-      throw new Error(`generateProducts returned invalid type: ${typeof result}, expected array`);
+
+    const { textModel } = models ?? DEFAULT_PRODUCT_GENERATION_MODELS;
+    // Custom fields are filled from the finished copy, so they agree with the description
+    const filled = await addProductMetafields(result.products, metafields, textModel, progressId);
+    result.products = filled.products;
+    errors.push(...filled.errors);
+
+    // Translations and market prices follow the sale prices, and are added before the preview so they can be reviewed
+    const localized = await localizeProducts(result.products, localization, textModel, progressId);
+    result.products = localized.products;
+    errors.push(...localized.errors);
+
+    if (isCancelled(progressId)) {
+      // Keep what was generated before the cancel so the run can still be reviewed
+      generatedProducts = await recordGeneratedItems(runId, result.products);
+      console.log('[Workflow] Cancelled after generating', generatedProducts.length, 'products');
+      errors.push('Run cancelled before publishing');
+      return {
+        success: false,
+        totalProducts: organizedInput.totalProducts,
+        createdProducts: [],
+        errors,
+        cancelled: true,
+      };
     }
-    
-    generatedProducts = result;
+
+    if (result.products.length === 0) {
+      throw new Error('No products could be generated');
+    }
+
+    // Persist the items so the run can be audited and re-opened later
+    generatedProducts = await recordGeneratedItems(runId, result.products);
     console.log('[Workflow] Step 2 complete. Generated', generatedProducts.length, 'products');
   } catch (error) {
     const errorMsg = `Step 2 failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
@@ -112,11 +229,334 @@ export async function productGeneratorWorkflow(
     };
   }
 
+  if (previewOnly) {
+    // Stop before touching the store - the caller reviews the items and publishes the approved ones
+    console.log('[Workflow] Preview mode. Returning', generatedProducts.length, 'products without publishing');
+    return {
+      success: true,
+      totalProducts: organizedInput.totalProducts,
+      createdProducts: [],
+      previewProducts: generatedProducts,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  const result = await publishGeneratedProducts(
+    generatedProducts,
+    platform,
+    organizedInput.totalProducts,
+    errors,
+    runId,
+    progressId
+  );
+  const withActivity = await withStoreActivity(result, generatedProducts, platform, storeActivity, models, progressId);
+  return withPromotions(withActivity, generatedProducts, platform, promotions, progressId);
+}
+
+/**
+ * Run the publish steps for products imported from a catalog file, skipping AI generation.
+ * Products keep the collection they were exported with; the others are grouped by collectionMode.
+ */
+export async function importProductsWorkflow(
+  products: GeneratedProduct[],
+  options: Pick<ProductGeneratorOptions, 'platform' | 'previewOnly' | 'runId' | 'progressId' | 'collectionMode'> = {}
+): Promise<WorkflowResult> {
+  const { platform = 'shopify', previewOnly = false, runId, progressId, collectionMode = DEFAULT_COLLECTION_MODE } = options;
+  console.log('[Workflow] Starting importProductsWorkflow');
+  console.log('[Workflow] Products to import:', products?.length ?? 0, 'Target platform:', platform);
+  console.log('[Workflow] Preview only:', previewOnly);
+
+  if (!Array.isArray(products) || products.length === 0) {
+    return {
+      success: false,
+      totalProducts: 0,
+      createdProducts: [],
+      errors: ['The file contains no products'],
+    };
+  }
+
+  emitProgress(progressId, { type: 'started', progressId: progressId ?? '', totalProducts: products.length });
+
+  let importedProducts: GeneratedProduct[];
+  try {
+    const prepared = await prepareImportedProducts(products);
+    importedProducts = await recordGeneratedItems(
+      runId,
+      prepared.map((product) => (product.collection ? product : assignCollections([product], collectionMode)[0]))
+    );
+  } catch (error) {
+    const errorMsg = `Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    console.error('[Workflow] Import error:', errorMsg, error);
+    return {
+      success: false,
+      totalProducts: products.length,
+      createdProducts: [],
+      errors: [errorMsg],
+    };
+  }
+
+  if (previewOnly) {
+    console.log('[Workflow] Preview mode. Returning', importedProducts.length, 'imported products without publishing');
+    return {
+      success: true,
+      totalProducts: importedProducts.length,
+      createdProducts: [],
+      previewProducts: importedProducts,
+    };
+  }
+
+  return publishGeneratedProducts(importedProducts, platform, importedProducts.length, [], runId, progressId);
+}
+
+/**
+ * Publish products that were generated (and optionally edited) in preview mode
+ */
+export async function publishProductsWorkflow(
+  products: GeneratedProduct[],
+  platform: CommercePlatform = 'shopify',
+  runId?: string | null,
+  storeActivity?: StoreActivitySettings,
+  models?: ProductGenerationModels,
+  promotions?: PromotionSettings
+): Promise<WorkflowResult> {
+  console.log('[Workflow] Starting publishProductsWorkflow');
+  console.log('[Workflow] Products to publish:', products?.length ?? 0, 'Target platform:', platform);
+
+  if (!Array.isArray(products) || products.length === 0) {
+    return {
+      success: false,
+      totalProducts: 0,
+      createdProducts: [],
+      errors: ['No products selected for publishing'],
+    };
+  }
+
+  try {
+    // Keep the user's edits and mark the items they did not approve as discarded
+    await recordApprovedItems(runId, products);
+  } catch (error) {
+    console.error('[Workflow] Failed to record approved items:', error);
+  }
+
+  const result = await publishGeneratedProducts(products, platform, products.length, [], runId);
+  const withActivity = await withStoreActivity(result, products, platform, storeActivity, models);
+  return withPromotions(withActivity, products, platform, promotions);
+}
+
+/**
+ * Continue publishing a failed or cancelled run. Items whose checkpoints show they already
+ * reached the store are not created or uploaded again.
+ */
+export async function resumeProductsWorkflow(
+  products: GeneratedProduct[],
+  platform: CommercePlatform,
+  runId: string
+): Promise<WorkflowResult> {
+  console.log('[Workflow] Starting resumeProductsWorkflow for run', runId);
+  console.log('[Workflow] Products to resume:', products?.length ?? 0, 'Target platform:', platform);
+
+  if (!Array.isArray(products) || products.length === 0) {
+    return {
+      success: false,
+      totalProducts: 0,
+      createdProducts: [],
+      errors: ['Nothing left to resume'],
+    };
+  }
+
+  return publishGeneratedProducts(products, platform, products.length, [], runId);
+}
+
+/**
+ * Remove the products a run created from the store, reporting the outcome per product
+ */
+export async function deleteRunProductsWorkflow(
+  products: StoreProductToDelete[],
+  platform: CommercePlatform,
+  runId: string,
+  storeId: string | null
+): Promise<DeletedProductResult[]> {
+  console.log('[Workflow] Starting deleteRunProductsWorkflow');
+  console.log('[Workflow] Products to delete:', products?.length ?? 0, 'Target platform:', platform);
+
+  const results = await deleteStoreProducts(products, platform, runId, storeId);
+  console.log('[Workflow] Deleted', results.filter((result) => result.success).length, 'of', results.length, 'products');
+
+  return results;
+}
+
+export interface EnrichmentPreviewResult {
+  success: boolean;
+  // Only products with at least one proposed change
+  enrichments: ProductEnrichment[];
+  // Products found in the store, including those left unchanged
+  totalProducts: number;
+  errors?: string[];
+}
+
+export interface EnrichmentApplyResult {
+  success: boolean;
+  updatedProducts: ListedProduct[];
+  errors?: string[];
+}
+
+/**
+ * Read existing products from the store and propose new copy and images for them. Nothing is written
+ * to the store: the user reviews the changes field by field and applies them with applyEnrichmentWorkflow.
+ */
+export async function enrichCatalogWorkflow(
+  query: EnrichmentQuery,
+  fields: EnrichmentField[],
+  platform: CommercePlatform = 'shopify',
+  options: { models?: ProductGenerationModels; brandProfile?: BrandProfile | null; progressId?: string | null } = {}
+): Promise<EnrichmentPreviewResult> {
+  console.log('[Workflow] Starting enrichCatalogWorkflow');
+  console.log('[Workflow] Query:', JSON.stringify(query), 'Fields:', fields.join(', '), 'Target platform:', platform);
+
+  if (fields.length === 0) {
+    return { success: false, enrichments: [], totalProducts: 0, errors: ['Select at least one field to enrich'] };
+  }
+
+  let products: ExistingProduct[];
+  try {
+    products = await findStoreProducts(query, platform);
+  } catch (error) {
+    const errorMsg = `Failed to read products from the store: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    console.error('[Workflow] Enrichment error:', errorMsg, error);
+    return { success: false, enrichments: [], totalProducts: 0, errors: [errorMsg] };
+  }
+
+  if (products.length === 0) {
+    return { success: false, enrichments: [], totalProducts: 0, errors: ['No products matched the query'] };
+  }
+
+  const { enrichments, errors } = await enrichProducts(
+    products,
+    fields,
+    options.models,
+    options.brandProfile,
+    options.progressId
+  );
+  const changed = enrichments.filter((enrichment) => listEnrichmentChanges(enrichment).length > 0);
+  console.log('[Workflow] Proposed changes for', changed.length, 'of', products.length, 'products');
+
+  return {
+    success: enrichments.length > 0,
+    enrichments: changed,
+    totalProducts: products.length,
+    errors: errors.length > 0 ? errors : undefined,
+  };
+}
+
+/**
+ * Write the changes a user approved in the enrichment preview to the store, reporting failures per product
+ */
+export async function applyEnrichmentWorkflow(
+  approved: ApprovedEnrichment[],
+  platform: CommercePlatform = 'shopify'
+): Promise<EnrichmentApplyResult> {
+  console.log('[Workflow] Starting applyEnrichmentWorkflow');
+  console.log('[Workflow] Products to update:', approved?.length ?? 0, 'Target platform:', platform);
+
+  if (!Array.isArray(approved) || approved.length === 0) {
+    return { success: false, updatedProducts: [], errors: ['No changes selected'] };
+  }
+
+  const { updatedProducts, errors } = await applyEnrichments(approved, platform);
+  console.log('[Workflow] Updated', updatedProducts.length, 'of', approved.length, 'products');
+
+  return {
+    success: updatedProducts.length > 0,
+    updatedProducts,
+    errors: errors.length > 0 ? errors : undefined,
+  };
+}
+
+// Step 5: customers, orders and reviews for the products that were just published
+async function withStoreActivity(
+  result: WorkflowResult,
+  products: GeneratedProduct[],
+  platform: CommercePlatform,
+  settings?: StoreActivitySettings,
+  models: ProductGenerationModels = DEFAULT_PRODUCT_GENERATION_MODELS,
+  progressId?: string | null
+): Promise<WorkflowResult> {
+  if (!settings?.customers || result.cancelled || result.createdProducts.length === 0) {
+    return result;
+  }
+
+  const errors = [...(result.errors ?? [])];
+  try {
+    console.log('[Workflow] Step 5: Seeding customers, orders and reviews...');
+    const { summary, errors: activityErrors } = await seedStoreActivity(
+      products,
+      result.createdProducts,
+      platform,
+      settings,
+      models.textModel,
+      progressId
+    );
+    errors.push(...activityErrors);
+    console.log('[Workflow] Step 5 complete:', JSON.stringify(summary));
+    return { ...result, storeActivity: summary, errors: errors.length > 0 ? errors : undefined };
+  } catch (error) {
+    // The products are published either way, so the run still succeeds
+    const errorMsg = `Step 5 failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    console.error('[Workflow] Step 5 error:', errorMsg, error);
+    return { ...result, errors: [...errors, errorMsg] };
+  }
+}
+
+// Step 6: discounts and price lists for the products that were just published
+async function withPromotions(
+  result: WorkflowResult,
+  products: GeneratedProduct[],
+  platform: CommercePlatform,
+  settings?: PromotionSettings,
+  progressId?: string | null
+): Promise<WorkflowResult> {
+  if (!settings || !hasPromotions(settings) || result.cancelled || result.createdProducts.length === 0) {
+    return result;
+  }
+
+  const errors = [...(result.errors ?? [])];
+  try {
+    console.log('[Workflow] Step 6: Creating discounts and price lists...');
+    const { summary, errors: promotionErrors } = await seedPromotions(
+      products,
+      result.createdProducts,
+      platform,
+      settings,
+      progressId
+    );
+    errors.push(...promotionErrors);
+    console.log('[Workflow] Step 6 complete:', JSON.stringify(summary));
+    return { ...result, promotions: summary, errors: errors.length > 0 ? errors : undefined };
+  } catch (error) {
+    // The products are published either way, so the run still succeeds
+    const errorMsg = `Step 6 failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    console.error('[Workflow] Step 6 error:', errorMsg, error);
+    return { ...result, errors: [...errors, errorMsg] };
+  }
+}
+
+// Steps 3 and 4, shared by the full run and by publishing approved preview items
+async function publishGeneratedProducts(
+  generatedProducts: GeneratedProduct[],
+  platform: CommercePlatform,
+  totalProducts: number,
+  errors: string[],
+  runId?: string | null,
+  progressId?: string | null
+): Promise<WorkflowResult> {
+  let createdProducts: StoreProduct[] = [];
+  emitProgress(progressId, { type: 'publishing', totalProducts: generatedProducts.length });
+
   try {
-    // Step 3: Create Shopify Products (without images)
-    console.log('[Workflow] Step 3: Creating Shopify products...');
-    createdProducts = await createShopifyProducts(generatedProducts);
-    console.log('[Workflow] Step 3 complete. Created', createdProducts.length, 'Shopify products');
+    // Step 3: Create Store Products (without images)
+    console.log(`[Workflow] Step 3: Creating ${platform} products...`);
+    createdProducts = await createStoreProducts(generatedProducts, platform, runId, progressId);
+    console.log('[Workflow] Step 3 complete. Created', createdProducts.length, `${platform} products`);
   } catch (error) {
     const errorMsg = `Step 3 failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
     console.error('[Workflow] Step 3 error:', errorMsg, error);
@@ -124,16 +564,22 @@ export async function productGeneratorWorkflow(
     // Still return partial success if some products were created
     return {
       success: createdProducts.length > 0,
-      totalProducts: organizedInput.totalProducts,
+      totalProducts,
       createdProducts,
       errors,
     };
   }
 
+  // Products that were created before a cancel still get their images so they are not left half-finished
+  const cancelled = isCancelled(progressId);
+  if (cancelled) {
+    errors.push(`Run cancelled after creating ${createdProducts.length} of ${generatedProducts.length} products`);
+  }
+
   try {
     // Step 4: Upload Product Images
     console.log('[Workflow] Step 4: Uploading product images...');
-    await uploadProductImages(createdProducts);
+    await uploadProductImages(createdProducts, platform, runId, progressId);
     console.log('[Workflow] Step 4 complete. Images uploaded');
   } catch (error) {
     const errorMsg = `Step 4 failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
@@ -142,13 +588,14 @@ export async function productGeneratorWorkflow(
     // Continue - products are created, just images failed
   }
 
-  console.log('[Workflow] Workflow complete. Success:', true, 'Total:', organizedInput.totalProducts, 'Created:', createdProducts.length);
+  console.log('[Workflow] Workflow complete. Success:', true, 'Total:', totalProducts, 'Created:', createdProducts.length);
   
   return {
     success: true,
-    totalProducts: organizedInput.totalProducts,
+    totalProducts,
     createdProducts,
     errors: errors.length > 0 ? errors : undefined,
+    ...(cancelled ? { cancelled } : {}),
   };
 }
 
@@ -0,0 +1,99 @@
+export interface NumberRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * User-controlled ranges for the stock and shipping data of generated products
+ */
+export interface InventorySettings {
+  stockPerLocation: NumberRange;
+  // How many store locations get a stock level (matched to the store's locations in order)
+  locations: number;
+  weightKg: NumberRange;
+  // Range for each side of the shipping package
+  dimensionsCm: NumberRange;
+}
+
+/**
+ * Package size and weight of a product, in kilograms and centimetres
+ */
+export interface ShippingData {
+  weightKg: number;
+  lengthCm: number;
+  widthCm: number;
+  heightCm: number;
+}
+
+export const MAX_STOCK_LOCATIONS = 5;
+
+export const DEFAULT_INVENTORY_SETTINGS: InventorySettings = {
+  stockPerLocation: { min: 5, max: 100 },
+  locations: 1,
+  weightKg: { min: 0.1, max: 30 },
+  dimensionsCm: { min: 5, max: 150 },
+};
+
+function normalizeRange(value: unknown, fallback: NumberRange, limit: number): NumberRange {
+  const range = (value ?? {}) as Partial<Record<keyof NumberRange, unknown>>;
+  const min = Number(range.min);
+  const max = Number(range.max);
+
+  const safeMin = Number.isFinite(min) && min >= 0 ? Math.min(min, limit) : fallback.min;
+  const safeMax = Number.isFinite(max) && max >= 0 ? Math.min(max, limit) : fallback.max;
+
+  return safeMin <= safeMax ? { min: safeMin, max: safeMax } : { min: safeMax, max: safeMin };
+}
+
+/**
+ * Turn untrusted form input into usable settings, falling back to the defaults per field
+ */
+export function normalizeInventorySettings(input: unknown): InventorySettings {
+  const settings = (input ?? {}) as Partial<Record<keyof InventorySettings, unknown>>;
+  const locations = Math.round(Number(settings.locations));
+
+  return {
+    stockPerLocation: normalizeRange(settings.stockPerLocation, DEFAULT_INVENTORY_SETTINGS.stockPerLocation, 100000),
+    locations:
+      Number.isFinite(locations) && locations >= 1
+        ? Math.min(locations, MAX_STOCK_LOCATIONS)
+        : DEFAULT_INVENTORY_SETTINGS.locations,
+    weightKg: normalizeRange(settings.weightKg, DEFAULT_INVENTORY_SETTINGS.weightKg, 1000),
+    dimensionsCm: normalizeRange(settings.dimensionsCm, DEFAULT_INVENTORY_SETTINGS.dimensionsCm, 500),
+  };
+}
+
+const randomInt = ({ min, max }: NumberRange) => Math.floor(min + Math.random() * (Math.floor(max) - Math.ceil(min) + 1));
+
+const clamp = (value: number, { min, max }: NumberRange) => Math.min(Math.max(value, min), max);
+
+/**
+ * Random stock level for each configured location
+ */
+export function generateStockLevels(settings: InventorySettings): number[] {
+  return Array.from({ length: settings.locations }, () => Math.max(0, randomInt(settings.stockPerLocation)));
+}
+
+/**
+ * Keep the model's shipping estimate, but inside the user's ranges and rounded to store precision
+ */
+export function clampShippingData(estimate: ShippingData, settings: InventorySettings): ShippingData {
+  const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+  return {
+    weightKg: round(clamp(estimate.weightKg, settings.weightKg), 3),
+    lengthCm: round(clamp(estimate.lengthCm, settings.dimensionsCm), 1),
+    widthCm: round(clamp(estimate.widthCm, settings.dimensionsCm), 1),
+    heightCm: round(clamp(estimate.heightCm, settings.dimensionsCm), 1),
+  };
+}
+
+/**
+ * Random EAN-13 barcode with a valid check digit. The 200-299 prefix is reserved for in-store
+ * use, so generated codes never collide with real products.
+ */
+export function generateBarcode(): string {
+  const digits = [2, ...Array.from({ length: 11 }, () => Math.floor(Math.random() * 10))];
+  const sum = digits.reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 1 : 3), 0);
+  return [...digits, (10 - (sum % 10)) % 10].join('');
+}
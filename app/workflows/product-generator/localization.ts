@@ -0,0 +1,134 @@
+import type { ProductSeo } from './seo';
+
+/**
+ * Languages the copy can be translated into, by the locale code both platforms use
+ */
+export const SUPPORTED_LOCALES = {
+  fr: 'French',
+  de: 'German',
+  es: 'Spanish',
+  it: 'Italian',
+  nl: 'Dutch',
+  'pt-BR': 'Portuguese (Brazil)',
+  sv: 'Swedish',
+  pl: 'Polish',
+  ja: 'Japanese',
+} as const;
+
+export type SupportedLocale = keyof typeof SUPPORTED_LOCALES;
+
+/**
+ * Currencies market prices can be set in. Rates are approximate USD conversions that keep demo
+ * prices believable; they are not meant to track the exchange markets.
+ */
+export const SUPPORTED_CURRENCIES = {
+  EUR: { name: 'Euro', rate: 0.92, decimals: 2 },
+  GBP: { name: 'British pound', rate: 0.79, decimals: 2 },
+  CAD: { name: 'Canadian dollar', rate: 1.37, decimals: 2 },
+  AUD: { name: 'Australian dollar', rate: 1.52, decimals: 2 },
+  CHF: { name: 'Swiss franc', rate: 0.88, decimals: 2 },
+  SEK: { name: 'Swedish krona', rate: 10.5, decimals: 2 },
+  MXN: { name: 'Mexican peso', rate: 17.5, decimals: 2 },
+  BRL: { name: 'Brazilian real', rate: 5.1, decimals: 2 },
+  JPY: { name: 'Japanese yen', rate: 150, decimals: 0 },
+} as const;
+
+export type SupportedCurrency = keyof typeof SUPPORTED_CURRENCIES;
+
+/**
+ * Which languages and currencies a run's products are localized into, besides English and USD
+ */
+export interface LocalizationSettings {
+  locales: SupportedLocale[];
+  currencies: SupportedCurrency[];
+}
+
+// Every locale adds copy to write per product, so a run is limited to a few
+export const MAX_LOCALES = 5;
+
+export const DEFAULT_LOCALIZATION_SETTINGS: LocalizationSettings = {
+  locales: [],
+  currencies: [],
+};
+
+/**
+ * Translated copy of a product, published as store translations
+ */
+export interface ProductTranslation {
+  locale: SupportedLocale;
+  title: string;
+  description: string;
+  seo?: ProductSeo;
+}
+
+/**
+ * Prices of a product in a market currency, published as market (Shopify) or price list (BigCommerce) prices
+ */
+export interface MarketPrice {
+  currency: SupportedCurrency;
+  price: string;
+  // In the order of the product's variants
+  variants: Array<{ price: string; compareAtPrice: string | null }>;
+}
+
+export function isSupportedLocale(value: unknown): value is SupportedLocale {
+  return typeof value === 'string' && Object.hasOwn(SUPPORTED_LOCALES, value);
+}
+
+export function isSupportedCurrency(value: unknown): value is SupportedCurrency {
+  return typeof value === 'string' && Object.hasOwn(SUPPORTED_CURRENCIES, value);
+}
+
+export function hasLocalization(settings?: LocalizationSettings): boolean {
+  return !!settings && (settings.locales.length > 0 || settings.currencies.length > 0);
+}
+
+/**
+ * Keep only supported, distinct locales and currencies from a form or request body
+ */
+export function normalizeLocalizationSettings(input: unknown): LocalizationSettings {
+  const settings = (input ?? {}) as Partial<Record<keyof LocalizationSettings, unknown>>;
+  const locales = Array.isArray(settings.locales) ? settings.locales.filter(isSupportedLocale) : [];
+  const currencies = Array.isArray(settings.currencies) ? settings.currencies.filter(isSupportedCurrency) : [];
+
+  return {
+    locales: [...new Set(locales)].slice(0, MAX_LOCALES),
+    currencies: [...new Set(currencies)],
+  };
+}
+
+/**
+ * Convert a USD price and round it the way local shops price things: 24.99 becomes €22.99, and
+ * currencies without cents round up to the next 10 (¥3,750)
+ */
+export function convertPrice(usd: string, currency: SupportedCurrency): string {
+  const { rate, decimals } = SUPPORTED_CURRENCIES[currency];
+  const converted = (parseFloat(usd) || 0) * rate;
+
+  if (decimals === 0) {
+    return String(Math.max(10, Math.ceil(converted / 10) * 10));
+  }
+  return Math.max(0.99, Math.ceil(converted) - 0.01).toFixed(2);
+}
+
+/**
+ * Derive the market prices of a product from its USD prices
+ */
+export function buildMarketPrices(
+  product: { price: string; variants: Array<{ price: string; compareAtPrice?: string | null }> },
+  currencies: SupportedCurrency[]
+): MarketPrice[] {
+  return currencies.map((currency) => ({
+    currency,
+    price: convertPrice(product.price, currency),
+    variants: product.variants.map((variant) => {
+      const price = convertPrice(variant.price, currency);
+      const compareAtPrice = variant.compareAtPrice ? convertPrice(variant.compareAtPrice, currency) : null;
+      // Rounding can close a small markdown, and a compare-at price must stay above the price
+      return {
+        price,
+        compareAtPrice: compareAtPrice && parseFloat(compareAtPrice) > parseFloat(price) ? compareAtPrice : null,
+      };
+    }),
+  }));
+}
@@ -0,0 +1,125 @@
+/**
+ * Value types a custom product attribute can have, named like Shopify's metafield types
+ */
+export const METAFIELD_TYPES = [
+  'single_line_text_field',
+  'multi_line_text_field',
+  'number_integer',
+  'number_decimal',
+  'boolean',
+  'date',
+  'list.single_line_text_field',
+] as const;
+
+export type MetafieldType = (typeof METAFIELD_TYPES)[number];
+
+export const METAFIELD_TYPE_LABELS: Record<MetafieldType, string> = {
+  single_line_text_field: 'Single line text',
+  multi_line_text_field: 'Multi-line text',
+  number_integer: 'Integer',
+  number_decimal: 'Decimal',
+  boolean: 'True or false',
+  date: 'Date',
+  'list.single_line_text_field': 'List of text',
+};
+
+/**
+ * A custom product attribute the model fills for every product of a run, such as care instructions
+ * or warranty years. Published as metafields (Shopify) or custom fields (BigCommerce).
+ */
+export interface MetafieldDefinition {
+  namespace: string;
+  key: string;
+  type: MetafieldType;
+  // What the model should put in the field, such as "Washing and drying instructions"
+  hint: string;
+}
+
+/**
+ * The value of one custom attribute of a product, serialized the way Shopify stores it: numbers and
+ * booleans as their text, lists as a JSON array
+ */
+export interface ProductMetafield {
+  namespace: string;
+  key: string;
+  type: MetafieldType;
+  value: string;
+}
+
+// Every field is part of the structured output for each product, so a schema is limited to a few
+export const MAX_METAFIELDS = 10;
+export const MAX_METAFIELD_HINT_LENGTH = 300;
+export const DEFAULT_METAFIELD_NAMESPACE = 'custom';
+
+// Shopify namespaces are 3-255 characters and keys 2-64, both limited to letters, digits, dashes and underscores
+const NAMESPACE_PATTERN = /^[a-z0-9_-]{3,255}$/;
+const KEY_PATTERN = /^[a-z0-9_-]{2,64}$/;
+
+export function isMetafieldType(value: unknown): value is MetafieldType {
+  return METAFIELD_TYPES.includes(value as MetafieldType);
+}
+
+/**
+ * Readable name of a field, taken from its key: "care_instructions" becomes "Care instructions"
+ */
+export function metafieldName(key: string): string {
+  const words = key.replace(/[_-]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Keep the valid, distinct fields of a schema from a form or request body. Namespaces and keys are
+ * lowercased and their spaces turned into underscores, so "Care Instructions" is accepted as a key.
+ */
+export function normalizeMetafieldSchema(input: unknown): MetafieldDefinition[] {
+  if (!Array.isArray(input)) {
+    return [];
+  }
+
+  const slug = (value: unknown) =>
+    typeof value === 'string' ? value.trim().toLowerCase().replace(/\s+/g, '_') : '';
+  const seen = new Set<string>();
+  const definitions: MetafieldDefinition[] = [];
+
+  for (const entry of input) {
+    const field = (entry ?? {}) as Partial<Record<keyof MetafieldDefinition, unknown>>;
+    const namespace = slug(field.namespace) || DEFAULT_METAFIELD_NAMESPACE;
+    const key = slug(field.key);
+    if (!NAMESPACE_PATTERN.test(namespace) || !KEY_PATTERN.test(key) || !isMetafieldType(field.type)) {
+      continue;
+    }
+
+    const id = `${namespace}.${key}`;
+    if (seen.has(id)) {
+      continue;
+    }
+    seen.add(id);
+
+    definitions.push({
+      namespace,
+      key,
+      type: field.type,
+      hint: typeof field.hint === 'string' ? field.hint.trim().slice(0, MAX_METAFIELD_HINT_LENGTH) : '',
+    });
+  }
+
+  return definitions.slice(0, MAX_METAFIELDS);
+}
+
+/**
+ * The value of a field as shoppers read it, for platforms that show custom fields as plain text
+ */
+export function formatMetafieldValue(metafield: ProductMetafield): string {
+  switch (metafield.type) {
+    case 'boolean':
+      return metafield.value === 'true' ? 'Yes' : 'No';
+    case 'list.single_line_text_field':
+      try {
+        return (JSON.parse(metafield.value) as string[]).join(', ');
+      } catch {
+        return metafield.value;
+      }
+    default:
+      return metafield.value;
+  }
+}
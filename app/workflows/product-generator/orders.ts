@@ -0,0 +1,176 @@
+import { randomUUID } from 'crypto';
+import type { GeneratedProduct } from './generate-products';
+import type { StoreProduct } from './adapters';
+import type {
+  CustomerBudget,
+  GeneratedCustomer,
+  GeneratedOrder,
+  GeneratedOrderLineItem,
+  StoreActivitySettings,
+} from './store-activity';
+
+/**
+ * A generated product together with the ID it was created under in the store
+ */
+export interface StoreCatalogEntry {
+  storeProductId: string;
+  product: GeneratedProduct;
+}
+
+/**
+ * Pair the products that reached the store with the generated products they were created from
+ */
+export function linkStoreCatalog(products: GeneratedProduct[], createdProducts: StoreProduct[]): StoreCatalogEntry[] {
+  const productsByKey = new Map(products.map((product) => [product.idempotencyKey, product]));
+  return createdProducts.flatMap((created): StoreCatalogEntry[] => {
+    const product = created.idempotencyKey ? productsByKey.get(created.idempotencyKey) : undefined;
+    return product ? [{ storeProductId: created.id, product }] : [];
+  });
+}
+
+type Distribution = Array<[value: number, weight: number]>;
+
+// Most customers order once and a few come back often, like the repeat rate of a real store
+const ORDERS_PER_CUSTOMER: Distribution = [[1, 0.55], [2, 0.25], [3, 0.12], [4, 0.05], [5, 0.03]];
+const LINE_ITEMS_PER_ORDER: Distribution = [[1, 0.6], [2, 0.25], [3, 0.1], [4, 0.05]];
+const QUANTITY_PER_LINE_ITEM: Distribution = [[1, 0.85], [2, 0.12], [3, 0.03]];
+// Relative order volume per hour of the day, peaking in the evening
+const HOURLY_WEIGHTS = [1, 0.5, 0.3, 0.2, 0.2, 0.3, 0.6, 1, 1.5, 2, 2.2, 2.4, 2.6, 2.4, 2.2, 2.2, 2.4, 2.8, 3.2, 3.6, 3.8, 3.4, 2.6, 1.6];
+// Sunday to Saturday, with busier weekends
+const WEEKDAY_WEIGHTS = [1.3, 0.9, 0.9, 1, 1, 1.1, 1.3];
+// Average gap between two orders of a returning customer
+const REPEAT_ORDER_MEAN_DAYS = 35;
+// Orders younger than this are still waiting to be shipped
+const FULFILLMENT_DAYS = 2;
+const REFUND_RATE = 0.03;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function pickWeighted<T>(items: T[], weight: (item: T) => number): T {
+  const weights = items.map(weight);
+  let remaining = Math.random() * weights.reduce((sum, value) => sum + value, 0);
+  for (const [index, item] of items.entries()) {
+    remaining -= weights[index];
+    if (remaining <= 0) {
+      return item;
+    }
+  }
+  return items[items.length - 1];
+}
+
+export function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let index = shuffled.length - 1; index > 0; index--) {
+    const swap = Math.floor(Math.random() * (index + 1));
+    [shuffled[index], shuffled[swap]] = [shuffled[swap], shuffled[index]];
+  }
+  return shuffled;
+}
+
+const drawFrom = (distribution: Distribution) => pickWeighted(distribution, ([, weight]) => weight)[0];
+
+/**
+ * Pick the moment of an order near `day`: the day itself is moved to a busier weekday now and then,
+ * and the time of day follows the hourly curve
+ */
+function orderTimestamp(day: number, now: number): number {
+  const date = new Date(day);
+  const busiestWeekday = Math.max(...WEEKDAY_WEIGHTS);
+  for (let attempt = 0; attempt < 3; attempt++) {
+    if (Math.random() < WEEKDAY_WEIGHTS[date.getUTCDay()] / busiestWeekday) {
+      break;
+    }
+    date.setUTCDate(date.getUTCDate() - 1);
+  }
+
+  const hour = pickWeighted(HOURLY_WEIGHTS.map((_, index) => index), (index) => HOURLY_WEIGHTS[index]);
+  date.setUTCHours(hour, Math.floor(Math.random() * 60), Math.floor(Math.random() * 60), 0);
+  return Math.min(date.getTime(), now);
+}
+
+/**
+ * Order dates of one customer: the first order is more likely to be recent (the store is growing),
+ * and each repeat order follows after a random gap until the present is reached
+ */
+function customerOrderDates(orderCount: number, historyDays: number, now: number): number[] {
+  const dates: number[] = [];
+  let day = now - historyDays * (1 - Math.sqrt(Math.random())) * DAY_MS;
+
+  while (dates.length < orderCount && day <= now) {
+    dates.push(orderTimestamp(day, now));
+    day += -Math.log(1 - Math.random()) * REPEAT_ORDER_MEAN_DAYS * DAY_MS;
+  }
+  return dates;
+}
+
+const budgetPriceWeight: Record<CustomerBudget, (priceRank: number) => number> = {
+  budget: (priceRank) => 1.5 - priceRank,
+  'mid-range': () => 1,
+  premium: (priceRank) => 0.5 + priceRank,
+};
+
+/**
+ * Build the order history of the customers from the products of the run. Products sell with a
+ * long-tail popularity, more often to customers interested in their category and in their budget.
+ */
+export function buildOrders(
+  customers: GeneratedCustomer[],
+  catalog: StoreCatalogEntry[],
+  settings: StoreActivitySettings,
+  now = Date.now()
+): GeneratedOrder[] {
+  if (customers.length === 0 || catalog.length === 0) {
+    return [];
+  }
+
+  // A random bestseller ranking for this run
+  const popularity = new Map(
+    shuffle(catalog).map((entry, rank): [string, number] => [entry.storeProductId, 1 / (rank + 1) ** 0.8])
+  );
+  const prices = catalog.map((entry) => parseFloat(entry.product.price) || 0).sort((a, b) => a - b);
+  const priceRank = (entry: StoreCatalogEntry) =>
+    catalog.length > 1 ? prices.indexOf(parseFloat(entry.product.price) || 0) / (catalog.length - 1) : 0.5;
+
+  const orders = customers.flatMap((customer) => {
+    const interests = new Set(customer.persona.interests.map((interest) => interest.toLowerCase()));
+    const weight = (entry: StoreCatalogEntry) =>
+      popularity.get(entry.storeProductId)! *
+      (interests.has(entry.product.category.toLowerCase()) ? 3 : 1) *
+      budgetPriceWeight[customer.persona.budget](priceRank(entry));
+
+    return customerOrderDates(drawFrom(ORDERS_PER_CUSTOMER), settings.historyDays, now).map((processedAt): GeneratedOrder => {
+      const available = [...catalog];
+      const lineItems: GeneratedOrderLineItem[] = [];
+
+      for (let count = drawFrom(LINE_ITEMS_PER_ORDER); count > 0 && available.length > 0; count--) {
+        const entry = pickWeighted(available, weight);
+        available.splice(available.indexOf(entry), 1);
+
+        const variantIndex = Math.floor(Math.random() * entry.product.variants.length);
+        const variant = entry.product.variants[variantIndex];
+        lineItems.push({
+          storeProductId: entry.storeProductId,
+          productTitle: entry.product.title,
+          variantTitle: variant?.title ?? 'Default',
+          variantIndex: variant ? variantIndex : 0,
+          ...(variant?.sku ? { sku: variant.sku } : {}),
+          price: variant?.price || entry.product.price,
+          quantity: drawFrom(QUANTITY_PER_LINE_ITEM),
+        });
+      }
+
+      const fulfilled = now - processedAt > FULFILLMENT_DAYS * DAY_MS;
+      return {
+        key: randomUUID(),
+        customerKey: customer.key,
+        processedAt: new Date(processedAt).toISOString(),
+        lineItems,
+        // Only delivered orders come back for a refund
+        financialStatus: fulfilled && Math.random() < REFUND_RATE ? 'refunded' : 'paid',
+        fulfilled,
+      };
+    });
+  });
+
+  return orders.sort((a, b) => a.processedAt.localeCompare(b.processedAt));
+}
@@ -1,8 +1,48 @@
+import type { CommercePlatform } from './adapters';
+import type { ProductGenerationModels } from './generate-products';
+import type { InventorySettings } from './inventory';
+import type { CollectionMode } from './collections';
+import type { ImageSettings } from './product-images';
+import type { BrandProfile } from './brand-profile';
+import type { StoreActivitySettings } from './store-activity';
+import type { PromotionSettings } from './promotions';
+import type { LocalizationSettings } from './localization';
+import type { MetafieldDefinition } from './metafields';
+
 export interface CategoryInput {
   category: string;
   count: number;
 }
 
+export interface ProductGeneratorOptions {
+  sampleImage?: string | null;
+  platform?: CommercePlatform;
+  // Stop after generation so the products can be reviewed before publishing
+  previewOnly?: boolean;
+  // Generation run to record items and results against (only for signed-in users)
+  runId?: string | null;
+  // Text and image models to generate with (defaults come from the environment)
+  models?: ProductGenerationModels;
+  // Channel for live progress events and cancellation (see progress.ts)
+  progressId?: string | null;
+  // Ranges for stock levels, weights and package dimensions
+  inventory?: InventorySettings;
+  // Whether products are grouped into smart (rule-based) or custom collections per category
+  collectionMode?: CollectionMode;
+  // Which image angles to generate, and whether to add one image per variant colour
+  images?: ImageSettings;
+  // Brand style guide for the copy and photos (see brand-profile.ts)
+  brandProfile?: BrandProfile | null;
+  // Customers, orders and reviews to seed around the published products (see store-activity.ts)
+  storeActivity?: StoreActivitySettings;
+  // Sale prices, discounts and price lists for the published products (see promotions.ts)
+  promotions?: PromotionSettings;
+  // Languages and currencies to translate and price the products in (see localization.ts)
+  localization?: LocalizationSettings;
+  // Custom attributes the model fills for every product (see metafields.ts)
+  metafields?: MetafieldDefinition[];
+}
+
 export interface OrganizedInput {
   categories: CategoryInput[];
   totalProducts: number;
@@ -0,0 +1,23 @@
+import { randomUUID } from 'crypto';
+import type { GeneratedProduct } from './generate-products';
+import { getProductImages } from './product-images';
+import { isDataUri, storeProductImages } from './image-storage';
+
+/**
+ * Give products imported from a catalog file the state generated products have on their way to the
+ * publish steps: a fresh idempotency key, and embedded images moved into blob storage
+ */
+export async function prepareImportedProducts(products: GeneratedProduct[]): Promise<GeneratedProduct[]> {
+  return Promise.all(
+    products.map(async (product) => {
+      const idempotencyKey = randomUUID();
+      const images = getProductImages(product);
+      if (!images.some((image) => isDataUri(image.url))) {
+        return { ...product, idempotencyKey };
+      }
+
+      const storedImages = await storeProductImages(idempotencyKey, images);
+      return { ...product, images: storedImages, image: storedImages[0].url, idempotencyKey };
+    })
+  );
+}
@@ -0,0 +1,103 @@
+import type { GeneratedProduct } from './generate-products';
+
+/**
+ * Shots generated for every product. The front shot is generated first and the others are
+ * generated from it, so every image shows the same product.
+ */
+export type ImageAngle = 'front' | 'side' | 'detail' | 'lifestyle';
+
+export const IMAGE_ANGLES: ImageAngle[] = ['front', 'side', 'detail', 'lifestyle'];
+
+export const IMAGE_ANGLE_PROMPTS: Record<ImageAngle, string> = {
+  front: 'a front view of the whole product on a clean, neutral background',
+  side: 'a side view of the whole product on the same clean, neutral background',
+  detail: 'a close-up detail shot of the materials, texture and craftsmanship',
+  lifestyle: 'a lifestyle shot of the product in use in a realistic, styled setting',
+};
+
+// Appended to the product title to describe each shot in its alt text
+export const IMAGE_ANGLE_ALT_TEXT: Record<ImageAngle, string> = {
+  front: 'front view',
+  side: 'side view',
+  detail: 'close-up of the details',
+  lifestyle: 'in use',
+};
+
+/**
+ * Outcome of analysing a generated product photo (see image-quality.ts): a 0-100 score and the
+ * problems that lowered it
+ */
+export interface ImageQualityReport {
+  score: number;
+  reasons: string[];
+  width?: number;
+  height?: number;
+}
+
+// Images scoring below this are retried and flagged in the preview
+export const MIN_IMAGE_QUALITY_SCORE = 60;
+
+/**
+ * One generated product photo
+ */
+export interface ProductImage {
+  url: string; // Blob storage URL, a remote URL for imported products, or a base64 data URI if it could not be stored
+  angle: ImageAngle | 'variant';
+  altText?: string;
+  // Set on variant images: the option value (such as a colour) the image shows
+  variantOption?: { name: string; value: string };
+  quality?: ImageQualityReport; // Set when the image was analysed after generation
+}
+
+/**
+ * Which images to generate per product
+ */
+export interface ImageSettings {
+  angles: ImageAngle[];
+  // Generate one extra image per colour option value and attach it to the matching variants
+  perVariantColor: boolean;
+}
+
+export const DEFAULT_IMAGE_SETTINGS: ImageSettings = {
+  angles: ['front', 'side', 'detail', 'lifestyle'],
+  perVariantColor: false,
+};
+
+/**
+ * Turn untrusted form input into usable settings. The front shot is always generated since the
+ * other angles are derived from it.
+ */
+export function normalizeImageSettings(input: unknown): ImageSettings {
+  const settings = (input ?? {}) as Partial<Record<keyof ImageSettings, unknown>>;
+  const angles = Array.isArray(settings.angles)
+    ? IMAGE_ANGLES.filter((angle) => angle === 'front' || (settings.angles as unknown[]).includes(angle))
+    : DEFAULT_IMAGE_SETTINGS.angles;
+
+  return {
+    angles,
+    perVariantColor:
+      typeof settings.perVariantColor === 'boolean' ? settings.perVariantColor : DEFAULT_IMAGE_SETTINGS.perVariantColor,
+  };
+}
+
+const COLOR_OPTION_NAMES = ['color', 'colour'];
+
+/**
+ * The product's colour option, if it has one
+ */
+export function findColorOption(
+  product: Pick<GeneratedProduct, 'options'>
+): { name: string; values: string[] } | undefined {
+  return product.options?.find((option) => COLOR_OPTION_NAMES.includes(option.name.trim().toLowerCase()));
+}
+
+/**
+ * All images of a product, falling back to the single image of products generated before
+ * multiple images existed
+ */
+export function getProductImages(product: { image: string; images?: ProductImage[] }): ProductImage[] {
+  if (product.images && product.images.length > 0) {
+    return product.images;
+  }
+  return product.image ? [{ url: product.image, angle: 'front' }] : [];
+}
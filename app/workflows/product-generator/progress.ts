@@ -0,0 +1,94 @@
+/**
+ * Per-item events emitted while a product generator run is in flight
+ */
+export type ProductProgressEvent =
+  | { type: 'started'; progressId: string; totalProducts: number }
+  | { type: 'item-generated'; category: string; index: number; title: string; image: string }
+  | { type: 'placeholder-retry'; category: string; index: number; attempt: number; reasons: string[] }
+  | { type: 'generation-failed'; category: string; index: number; error: string }
+  // Products whose custom fields were filled from the run's metafield schema, before publishing
+  | { type: 'metafields'; completed: number; total: number }
+  // Products translated and priced in the run's other locales and currencies, before publishing
+  | { type: 'localized'; completed: number; total: number }
+  // Existing store products the model proposed new copy or images for
+  | { type: 'enriched'; completed: number; total: number }
+  | { type: 'publishing'; totalProducts: number }
+  | { type: 'product-created'; title: string; storeProductId: string }
+  | { type: 'product-failed'; title: string; error: string }
+  | { type: 'image-uploaded'; storeProductId: string; title: string }
+  | { type: 'image-failed'; storeProductId: string; title: string; error: string }
+  // Running totals of the customers, orders and reviews seeded after publishing
+  | { type: 'store-activity'; customers: number; orders: number; reviews: number }
+  // Running totals of the promotions created after publishing
+  | { type: 'promotions'; salePrices: number; discounts: number; priceLists: number }
+  | { type: 'cancelled' };
+
+export type ProductProgressListener = (event: ProductProgressEvent) => void;
+
+interface ProgressChannel {
+  listeners: Set<ProductProgressListener>;
+  cancelled: boolean;
+  // Secret handed only to whoever started the run, required to cancel it
+  cancelToken: string;
+}
+
+// In-memory tracking for runs streaming from this server instance only
+const activeRuns = new Map<string, ProgressChannel>();
+
+export function registerProgress(progressId: string, cancelToken: string): void {
+  activeRuns.set(progressId, { listeners: new Set(), cancelled: false, cancelToken });
+}
+
+export function unregisterProgress(progressId: string): void {
+  activeRuns.delete(progressId);
+}
+
+export function subscribeProgress(progressId: string, listener: ProductProgressListener): () => void {
+  const channel = activeRuns.get(progressId);
+  channel?.listeners.add(listener);
+  return () => {
+    channel?.listeners.delete(listener);
+  };
+}
+
+export function emitProgress(progressId: string | null | undefined, event: ProductProgressEvent): void {
+  if (!progressId) {
+    return;
+  }
+
+  for (const listener of activeRuns.get(progressId)?.listeners ?? []) {
+    try {
+      listener(event);
+    } catch (error) {
+      // A broken listener (e.g. a closed stream) must never fail the run
+      console.warn(`[emitProgress] Listener failed for ${progressId}:`, error);
+    }
+  }
+}
+
+/**
+ * Whether a cancel token belongs to a run in flight
+ */
+export function isCancelTokenValid(progressId: string, cancelToken: string | null): boolean {
+  return !!cancelToken && activeRuns.get(progressId)?.cancelToken === cancelToken;
+}
+
+/**
+ * Ask a run to stop. Work that already started finishes; nothing new is started.
+ */
+export function cancelProgress(progressId: string): boolean {
+  const channel = activeRuns.get(progressId);
+  if (!channel) {
+    return false;
+  }
+
+  if (!channel.cancelled) {
+    channel.cancelled = true;
+    emitProgress(progressId, { type: 'cancelled' });
+  }
+  return true;
+}
+
+export function isCancelled(progressId: string | null | undefined): boolean {
+  return !!progressId && !!activeRuns.get(progressId)?.cancelled;
+}
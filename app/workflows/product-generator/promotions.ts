@@ -0,0 +1,104 @@
+/**
+ * Which promotional pricing to set up for the products of a run. Sale prices are set on the
+ * generated products before publishing; discounts and price lists are created in the store after.
+ */
+export interface PromotionSettings {
+  // Share (0-1) of the run's products included in each sale, discount and price list
+  coverage: number;
+  // Typical percentage off; individual promotions vary around it
+  depth: number;
+  // Lower the price of covered products and keep the old price as the compare-at price
+  salePrices: boolean;
+  // Create a sale discount that applies at checkout without a code
+  automaticDiscount: boolean;
+  // Discount codes to create; 0 creates none
+  discountCodes: number;
+  // Create wholesale and VIP customer group price lists
+  priceLists: boolean;
+}
+
+export const MIN_DISCOUNT_DEPTH = 5;
+export const MAX_DISCOUNT_DEPTH = 80;
+export const MAX_DISCOUNT_CODES = 10;
+
+export const DEFAULT_PROMOTION_SETTINGS: PromotionSettings = {
+  coverage: 0.3,
+  depth: 20,
+  salePrices: false,
+  automaticDiscount: false,
+  discountCodes: 0,
+  priceLists: false,
+};
+
+/**
+ * A percentage discount on some of the run's products, either applied automatically or redeemed with a code
+ */
+export interface PlannedDiscount {
+  title: string;
+  // null for an automatic discount
+  code: string | null;
+  percentage: number;
+  // Store IDs of the products the discount applies to
+  productIds: string[];
+  startsAt: string;
+  endsAt: string | null;
+  // Total redemptions allowed, for discount codes
+  usageLimit: number | null;
+}
+
+/**
+ * Fixed variant prices for a group of customers, such as wholesale buyers
+ */
+export interface PlannedPriceList {
+  name: string;
+  // Customer group (BigCommerce) the prices are for
+  customerGroup: string;
+  percentage: number;
+  prices: Array<{
+    storeProductId: string;
+    variantIndex: number;
+    sku?: string;
+    price: string;
+  }>;
+}
+
+/**
+ * What the promotions step created, shown in the run results
+ */
+export interface PromotionSummary {
+  salePrices: number;
+  discounts: number;
+  priceLists: number;
+}
+
+/**
+ * Whether any promotion is switched on, so the step can be skipped when none is
+ */
+export function hasPromotions(settings?: PromotionSettings): boolean {
+  return !!settings && (settings.salePrices || settings.automaticDiscount || settings.discountCodes > 0 || settings.priceLists);
+}
+
+/**
+ * Clamp settings coming from a form or request body into the supported ranges
+ */
+export function normalizePromotionSettings(input: unknown): PromotionSettings {
+  const settings = (input ?? {}) as Partial<Record<keyof PromotionSettings, unknown>>;
+  const coverage = Number(settings.coverage);
+  const depth = Math.round(Number(settings.depth));
+  const discountCodes = Math.round(Number(settings.discountCodes));
+
+  return {
+    coverage:
+      Number.isFinite(coverage) && coverage > 0 ? Math.min(coverage, 1) : DEFAULT_PROMOTION_SETTINGS.coverage,
+    depth: Number.isFinite(depth)
+      ? Math.min(Math.max(depth, MIN_DISCOUNT_DEPTH), MAX_DISCOUNT_DEPTH)
+      : DEFAULT_PROMOTION_SETTINGS.depth,
+    salePrices: settings.salePrices === true,
+    automaticDiscount: settings.automaticDiscount === true,
+    discountCodes:
+      Number.isFinite(discountCodes) && discountCodes >= 0
+        ? Math.min(discountCodes, MAX_DISCOUNT_CODES)
+        : DEFAULT_PROMOTION_SETTINGS.discountCodes,
+    priceLists: settings.priceLists === true,
+  };
+}
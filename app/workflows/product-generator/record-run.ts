@@ -0,0 +1,158 @@
+import { GeneratedProduct } from './generate-products';
+import type { StoreProduct } from './adapters';
+import {
+  discardGenerationItems,
+  getGenerationItemCheckpoints,
+  insertGenerationItems,
+  markGenerationItemImagesAttached,
+  markGenerationItemImagesUploaded,
+  updateGenerationItem,
+  updateGenerationRun,
+} from '@/lib/db/generation-runs';
+
+export type ItemCheckpoints = Map<
+  string,
+  { storeProductId: string | null; imagesUploadedAt: Date | null; imagesAttached: number }
+>;
+
+/**
+ * Persist the generated products of a run and return them tagged with their item IDs. This throws:
+ * products without item IDs cannot be checkpointed, so a resumed publish would duplicate them.
+ */
+export async function recordGeneratedItems(
+  runId: string | null | undefined,
+  products: GeneratedProduct[]
+): Promise<GeneratedProduct[]> {
+  if (!runId) {
+    return products;
+  }
+
+  const itemIds = await insertGenerationItems(
+    runId,
+    products.map((product) => ({ ...product }))
+  );
+
+  return products.map((product, index) => ({ ...product, itemId: itemIds[index] }));
+}
+
+/**
+ * Save the (possibly edited) approved products and discard the rest of the run's unpublished items
+ */
+export async function recordApprovedItems(
+  runId: string | null | undefined,
+  products: GeneratedProduct[]
+): Promise<void> {
+  if (!runId) {
+    return;
+  }
+
+  for (const product of products) {
+    if (product.itemId) {
+      await updateGenerationItem(runId, product.itemId, { product: { ...product } });
+    }
+  }
+
+  await discardGenerationItems(
+    runId,
+    products.map((product) => product.itemId).filter((itemId): itemId is string => !!itemId)
+  );
+}
+
+/**
+ * Record the store outcome of a single item. Saving the store product ID throws on failure, since it is
+ * the checkpoint that keeps a resumed publish from creating the product again. Failing to record an
+ * error is only logged, as the item failed either way.
+ */
+export async function recordItemResult(
+  runId: string | null | undefined,
+  product: GeneratedProduct,
+  result: { storeProductId: string } | { error: string }
+): Promise<void> {
+  if (!runId || !product.itemId) {
+    return;
+  }
+
+  if ('storeProductId' in result) {
+    await updateGenerationItem(runId, product.itemId, {
+      status: 'published',
+      storeProductId: result.storeProductId,
+      error: null,
+    });
+    return;
+  }
+
+  try {
+    await updateGenerationItem(runId, product.itemId, { status: 'failed', error: result.error });
+  } catch (error) {
+    console.error(`[recordItemResult] Failed to record result for item ${product.itemId}:`, error);
+  }
+}
+
+/**
+ * Record which store a run is publishing to
+ */
+export async function recordRunStore(runId: string | null | undefined, storeId: string): Promise<void> {
+  if (!runId) {
+    return;
+  }
+
+  await updateGenerationRun(runId, { storeId });
+}
+
+/**
+ * Load how far each item of a run already got. Runs that are not persisted have no checkpoints.
+ * Unlike the other recorders this throws: publishing without checkpoints could duplicate products.
+ */
+export async function loadItemCheckpoints(runId: string | null | undefined): Promise<ItemCheckpoints> {
+  if (!runId) {
+    return new Map();
+  }
+
+  return await getGenerationItemCheckpoints(runId);
+}
+
+/**
+ * Checkpoint how many of a store product's images are attached. This throws: without it a resumed
+ * upload would attach the same images again.
+ */
+export async function recordImagesAttached(
+  runId: string | null | undefined,
+  product: StoreProduct,
+  imagesAttached: number
+): Promise<void> {
+  if (!runId || !product.idempotencyKey) {
+    return;
+  }
+
+  await markGenerationItemImagesAttached(runId, product.idempotencyKey, imagesAttached);
+}
+
+/**
+ * Checkpoint that a store product's images were uploaded
+ */
+export async function recordImagesUploaded(runId: string | null | undefined, product: StoreProduct): Promise<void> {
+  if (!runId || !product.idempotencyKey) {
+    return;
+  }
+
+  try {
+    await markGenerationItemImagesUploaded(runId, product.idempotencyKey);
+  } catch (error) {
+    console.error(`[recordImagesUploaded] Failed to checkpoint images for product ${product.id}:`, error);
+  }
+}
+
+/**
+ * Record that an item's product was removed from the store
+ */
+export async function recordItemDeleted(runId: string, itemId: string | null | undefined): Promise<void> {
+  if (!itemId) {
+    return;
+  }
+
+  try {
+    await updateGenerationItem(runId, itemId, { status: 'deleted', error: null });
+  } catch (error) {
+    console.error(`[recordItemDeleted] Failed to record deletion of item ${itemId}:`, error);
+  }
+}
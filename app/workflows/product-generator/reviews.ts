@@ -0,0 +1,174 @@
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import { assertGatewayConfigured, describeGenerationError, type GeneratedProduct } from './generate-products';
+import type { GeneratedCustomer, GeneratedOrder, GeneratedOrderLineItem, GeneratedReview } from './store-activity';
+
+/**
+ * A review that will be written: who bought what, when they review it and how many stars they give
+ */
+export interface PlannedReview {
+  customer: GeneratedCustomer;
+  lineItem: GeneratedOrderLineItem;
+  rating: number;
+  createdAt: string;
+}
+
+// J-shaped like real review sites: mostly 5 stars, few middling ratings and a bump of angry 1-star reviews
+const RATING_WEIGHTS = [0.07, 0.05, 0.1, 0.23, 0.55];
+// Shoppers review a while after delivery
+const REVIEW_DELAY_DAYS = { min: 4, max: 30 };
+const MAX_ATTEMPTS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function drawRating(refunded: boolean): number {
+  // Customers who sent the product back are the unhappy ones
+  if (refunded) {
+    return Math.random() < 0.6 ? 1 : 2;
+  }
+
+  let remaining = Math.random();
+  for (const [index, weight] of RATING_WEIGHTS.entries()) {
+    remaining -= weight;
+    if (remaining <= 0) {
+      return index + 1;
+    }
+  }
+  return 5;
+}
+
+/**
+ * Decide which purchases get reviewed. Each customer reviews a product at most once, only after
+ * the order was delivered, and never with a date in the future.
+ */
+export function planReviews(
+  orders: GeneratedOrder[],
+  customers: GeneratedCustomer[],
+  reviewRate: number,
+  now = Date.now()
+): PlannedReview[] {
+  const customersByKey = new Map(customers.map((customer) => [customer.key, customer]));
+  const reviewed = new Set<string>();
+  const planned: PlannedReview[] = [];
+
+  for (const order of orders) {
+    const customer = customersByKey.get(order.customerKey);
+    if (!customer || !order.fulfilled) {
+      continue;
+    }
+
+    for (const lineItem of order.lineItems) {
+      const key = `${customer.key}:${lineItem.storeProductId}`;
+      if (reviewed.has(key) || Math.random() >= reviewRate) {
+        continue;
+      }
+
+      const delayDays = REVIEW_DELAY_DAYS.min + Math.random() * (REVIEW_DELAY_DAYS.max - REVIEW_DELAY_DAYS.min);
+      const createdAt = new Date(order.processedAt).getTime() + delayDays * DAY_MS;
+      if (createdAt > now) {
+        continue;
+      }
+
+      reviewed.add(key);
+      planned.push({
+        customer,
+        lineItem,
+        rating: drawRating(order.financialStatus === 'refunded'),
+        createdAt: new Date(createdAt).toISOString(),
+      });
+    }
+  }
+
+  return planned;
+}
+
+const reviewBatchSchema = z.object({
+  reviews: z.array(
+    z.object({
+      title: z.string().min(3).max(80).describe('Short review headline'),
+      body: z.string().min(20).max(1000).describe('The review text, 1-5 sentences'),
+    })
+  ),
+});
+
+async function generateReviewTexts(
+  product: GeneratedProduct,
+  reviews: PlannedReview[],
+  textModel: string,
+  previousError?: string
+): Promise<Array<{ title: string; body: string }>> {
+  const retryEnhancement = previousError
+    ? `
+
+    YOUR PREVIOUS RESPONSE WAS REJECTED: ${previousError}
+    Fix these problems in this response.`
+    : '';
+
+  const reviewers = reviews
+    .map(
+      (review, index) =>
+        `${index + 1}. ${review.rating} star(s), bought "${review.lineItem.variantTitle}". Reviewer: ${review.customer.persona.summary} Writes reviews that are ${review.customer.persona.reviewStyle}.`
+    )
+    .join('\n    ');
+
+  const { object } = await generateObject({
+    model: textModel,
+    schema: reviewBatchSchema,
+    schemaName: 'ProductReviews',
+    schemaDescription: 'Customer reviews of one product, in the order they were requested',
+    prompt: `Write ${reviews.length} customer reviews of this product, one per reviewer, in the same order.
+
+    Product: ${product.title}
+    Description: ${product.description.slice(0, 600)}
+    Features: ${product.features.join('; ')}
+
+    Reviewers:
+    ${reviewers}
+
+    Each review must match its star rating and its reviewer's voice, mention concrete details of the product
+    or the variant they bought, and read like a real customer wrote it. Never mention that it was generated.${retryEnhancement}`,
+  });
+
+  if (object.reviews.length < reviews.length) {
+    throw new Error(`Expected ${reviews.length} reviews but got ${object.reviews.length}`);
+  }
+  return object.reviews;
+}
+
+/**
+ * Write the text of the planned reviews of one product in the voice of each reviewer
+ */
+export async function writeProductReviews(
+  product: GeneratedProduct,
+  reviews: PlannedReview[],
+  textModel: string
+): Promise<GeneratedReview[]> {
+  assertGatewayConfigured();
+
+  let texts: Array<{ title: string; body: string }> | null = null;
+  let lastError: string | undefined;
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS && !texts; attempt++) {
+    try {
+      texts = await generateReviewTexts(product, reviews, textModel, lastError);
+    } catch (error) {
+      lastError = describeGenerationError(error);
+      console.warn(`[writeProductReviews] Invalid reviews on attempt ${attempt} for "${product.title}": ${lastError}`);
+    }
+  }
+
+  if (!texts) {
+    throw new Error(`Could not write reviews for "${product.title}" after ${MAX_ATTEMPTS} attempts: ${lastError}`);
+  }
+
+  return reviews.map((review, index) => ({
+    storeProductId: review.lineItem.storeProductId,
+    productTitle: review.lineItem.productTitle,
+    customerKey: review.customer.key,
+    authorName: `${review.customer.firstName} ${review.customer.lastName.charAt(0)}.`,
+    email: review.customer.email,
+    rating: review.rating,
+    title: texts[index].title.trim(),
+    body: texts[index].body.trim(),
+    createdAt: review.createdAt,
+  }));
+}
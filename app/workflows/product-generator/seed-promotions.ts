@@ -0,0 +1,73 @@
+import type { GeneratedProduct } from './generate-products';
+import { getCommerceAdapter, CommercePlatform, StoreProduct } from './adapters';
+import { emitProgress, isCancelled } from './progress';
+import { linkStoreCatalog } from './orders';
+import { planDiscounts, planPriceLists } from './discounts';
+import type { PromotionSettings, PromotionSummary } from './promotions';
+
+export interface SeedPromotionsResult {
+  summary: PromotionSummary;
+  errors: string[];
+}
+
+/**
+ * Create the discounts and price lists for the products of a run. Sale prices were already set on
+ * the products before publishing, so they are only counted here. A failed discount or price list
+ * is reported and skipped.
+ */
+export async function seedPromotions(
+  products: GeneratedProduct[],
+  createdProducts: StoreProduct[],
+  platform: CommercePlatform,
+  settings: PromotionSettings,
+  progressId?: string | null
+): Promise<SeedPromotionsResult> {
+  const summary: PromotionSummary = { salePrices: 0, discounts: 0, priceLists: 0 };
+  const errors: string[] = [];
+  const reportProgress = () => emitProgress(progressId, { type: 'promotions', ...summary });
+
+  const catalog = linkStoreCatalog(products, createdProducts);
+  if (catalog.length === 0) {
+    return { summary, errors };
+  }
+
+  if (settings.salePrices) {
+    summary.salePrices = catalog.filter((entry) => entry.product.variants.some((variant) => variant.compareAtPrice)).length;
+  }
+
+  const adapter = getCommerceAdapter(platform);
+
+  // Few enough to create one at a time, which keeps the store's discount list in plan order
+  for (const discount of planDiscounts(catalog, settings)) {
+    if (isCancelled(progressId)) {
+      break;
+    }
+
+    try {
+      await adapter.createDiscount(discount);
+      summary.discounts++;
+      reportProgress();
+    } catch (error) {
+      console.error(`[seedPromotions] Failed to create discount "${discount.title}":`, error);
+      errors.push(`Failed to create discount "${discount.title}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  for (const priceList of planPriceLists(catalog, settings)) {
+    if (isCancelled(progressId)) {
+      break;
+    }
+
+    try {
+      await adapter.createPriceList(priceList);
+      summary.priceLists++;
+      reportProgress();
+    } catch (error) {
+      console.error(`[seedPromotions] Failed to create price list "${priceList.name}":`, error);
+      errors.push(`Failed to create price list "${priceList.name}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  console.log('[seedPromotions] Created', summary.discounts, 'discounts and', summary.priceLists, 'price lists');
+  return { summary, errors };
+}
@@ -0,0 +1,109 @@
+import type { GeneratedProduct } from './generate-products';
+import { getCommerceAdapter, CommercePlatform, StoreProduct } from './adapters';
+import { mapWithConcurrency } from './concurrency';
+import { emitProgress, isCancelled } from './progress';
+import { generateCustomers } from './customers';
+import { buildOrders, linkStoreCatalog } from './orders';
+import { planReviews, PlannedReview, writeProductReviews } from './reviews';
+import type { GeneratedOrder, StoreActivitySettings, StoreActivitySummary } from './store-activity';
+import { STORE_WRITE_CONCURRENCY } from '@/lib/constants';
+
+export interface SeedStoreActivityResult {
+  summary: StoreActivitySummary;
+  errors: string[];
+}
+
+/**
+ * Fill the store around the products of a run: customers with personas, their order history for
+ * the run's products and the reviews they left. Failed customers, orders and reviews are reported
+ * and skipped, so one bad record never stops the rest.
+ */
+export async function seedStoreActivity(
+  products: GeneratedProduct[],
+  createdProducts: StoreProduct[],
+  platform: CommercePlatform,
+  settings: StoreActivitySettings,
+  textModel: string,
+  progressId?: string | null
+): Promise<SeedStoreActivityResult> {
+  const summary: StoreActivitySummary = { customers: 0, orders: 0, reviews: 0 };
+  const errors: string[] = [];
+  const reportProgress = () => emitProgress(progressId, { type: 'store-activity', ...summary });
+
+  // Only products that reached the store can be ordered and reviewed
+  const catalog = linkStoreCatalog(products, createdProducts);
+  if (catalog.length === 0 || settings.customers === 0) {
+    return { summary, errors };
+  }
+
+  const adapter = getCommerceAdapter(platform);
+  const categories = [...new Set(catalog.map((entry) => entry.product.category))];
+  const customers = await generateCustomers(settings.customers, categories, textModel);
+
+  const customerIds = new Map<string, string>();
+  await mapWithConcurrency(customers, STORE_WRITE_CONCURRENCY, async (customer) => {
+    if (isCancelled(progressId)) {
+      return;
+    }
+
+    try {
+      customerIds.set(customer.key, await adapter.createCustomer(customer));
+      summary.customers++;
+      reportProgress();
+    } catch (error) {
+      console.error(`[seedStoreActivity] Failed to create customer ${customer.email}:`, error);
+      errors.push(`Failed to create customer ${customer.email}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  const createdCustomers = customers.filter((customer) => customerIds.has(customer.key));
+  const customersByKey = new Map(createdCustomers.map((customer) => [customer.key, customer]));
+  const orders = buildOrders(createdCustomers, catalog, settings);
+
+  // Orders go in one at a time and oldest first, so the store numbers them in date order
+  const createdOrders: GeneratedOrder[] = [];
+  for (const order of orders) {
+    if (isCancelled(progressId)) {
+      break;
+    }
+
+    const customer = customersByKey.get(order.customerKey)!;
+    try {
+      await adapter.createOrder(order, customer, customerIds.get(customer.key)!);
+      createdOrders.push(order);
+      summary.orders++;
+      reportProgress();
+    } catch (error) {
+      console.error(`[seedStoreActivity] Failed to create an order for ${customer.email}:`, error);
+      errors.push(`Failed to create an order for ${customer.email}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Reviews are written per product, so one model call covers all reviewers of a product
+  const plannedByProduct = new Map<string, PlannedReview[]>();
+  for (const review of planReviews(createdOrders, createdCustomers, settings.reviewRate)) {
+    const productId = review.lineItem.storeProductId;
+    plannedByProduct.set(productId, [...(plannedByProduct.get(productId) ?? []), review]);
+  }
+
+  const catalogById = new Map(catalog.map((entry) => [entry.storeProductId, entry.product]));
+  await mapWithConcurrency([...plannedByProduct], STORE_WRITE_CONCURRENCY, async ([productId, planned]) => {
+    if (isCancelled(progressId)) {
+      return;
+    }
+
+    const product = catalogById.get(productId)!;
+    try {
+      const reviews = await writeProductReviews(product, planned, textModel);
+      await adapter.addReviews(productId, reviews);
+      summary.reviews += reviews.length;
+      reportProgress();
+    } catch (error) {
+      console.error(`[seedStoreActivity] Failed to add reviews for "${product.title}":`, error);
+      errors.push(`Failed to add reviews for "${product.title}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  console.log('[seedStoreActivity] Created', summary.customers, 'customers,', summary.orders, 'orders and', summary.reviews, 'reviews');
+  return { summary, errors };
+}
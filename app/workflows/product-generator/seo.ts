@@ -0,0 +1,54 @@
+import type { CommerceAdapter } from './adapters';
+
+/**
+ * Search engine metadata of a product page
+ */
+export interface ProductSeo {
+  title: string; // Shown as the page title and search result headline
+  description: string; // Meta description shown as the search result snippet
+}
+
+// Search engines truncate longer titles and snippets
+export const SEO_TITLE_MAX_LENGTH = 70;
+export const SEO_DESCRIPTION_MAX_LENGTH = 160;
+export const IMAGE_ALT_TEXT_MAX_LENGTH = 125;
+const HANDLE_MAX_LENGTH = 80;
+
+/**
+ * Turn a title into a URL handle: "Modern Ergonomic Office Chair" -> "modern-ergonomic-office-chair"
+ */
+export function slugifyHandle(value: string): string {
+  const slug = value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, HANDLE_MAX_LENGTH)
+    .replace(/-+$/, '');
+
+  return slug || 'product';
+}
+
+/**
+ * Find a handle that is neither used in the store nor by another product of this run, by
+ * appending -2, -3, ... Candidates are reserved before the store is asked, so products
+ * created concurrently never settle on the same handle.
+ */
+export async function resolveUniqueHandle(
+  adapter: CommerceAdapter,
+  handle: string,
+  reserved: Set<string>
+): Promise<string> {
+  for (let suffix = 1; ; suffix++) {
+    const candidate = suffix === 1 ? handle : `${handle.slice(0, HANDLE_MAX_LENGTH - 4)}-${suffix}`;
+    if (reserved.has(candidate)) {
+      continue;
+    }
+
+    reserved.add(candidate);
+    if (!(await adapter.isHandleTaken(candidate))) {
+      return candidate;
+    }
+  }
+}
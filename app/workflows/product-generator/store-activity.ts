@@ -0,0 +1,117 @@
+/**
+ * How much shopper activity to seed around the products of a run: customers with personas,
+ * their order history and the reviews they leave for what they bought
+ */
+export interface StoreActivitySettings {
+  // Customers to create; 0 skips the activity step entirely
+  customers: number;
+  // Orders are spread over this many days before the run
+  historyDays: number;
+  // Share (0-1) of purchased products that get a review from the buyer
+  reviewRate: number;
+}
+
+export const MAX_ACTIVITY_CUSTOMERS = 50;
+export const MAX_ACTIVITY_HISTORY_DAYS = 730;
+
+export const DEFAULT_STORE_ACTIVITY_SETTINGS: StoreActivitySettings = {
+  customers: 0,
+  historyDays: 180,
+  reviewRate: 0.3,
+};
+
+export type CustomerBudget = 'budget' | 'mid-range' | 'premium';
+
+/**
+ * Who a customer is. The persona decides what they buy, how much they spend and how they write reviews.
+ */
+export interface CustomerPersona {
+  summary: string; // "Busy parent of two who buys durable kitchen gear"
+  ageRange: string;
+  interests: string[]; // Categories of the run the customer shops in
+  budget: CustomerBudget;
+  reviewStyle: string; // Tone of their reviews, such as "short and practical"
+}
+
+export interface CustomerAddress {
+  address1: string;
+  city: string;
+  province: string;
+  zip: string;
+  country: string;
+  countryCode: string; // ISO 3166-1 alpha-2
+}
+
+export interface GeneratedCustomer {
+  key: string; // Stable ID that links the customer's orders and reviews before they reach the store
+  firstName: string;
+  lastName: string;
+  email: string; // Always on a reserved example domain, so no real person is ever emailed
+  acceptsMarketing: boolean;
+  persona: CustomerPersona;
+  address: CustomerAddress;
+  tags: string[];
+}
+
+export interface GeneratedOrderLineItem {
+  storeProductId: string;
+  productTitle: string;
+  variantTitle: string;
+  variantIndex: number; // Position of the variant in the generated product, matched to the store's variants
+  sku?: string;
+  price: string;
+  quantity: number;
+}
+
+export interface GeneratedOrder {
+  key: string;
+  customerKey: string;
+  processedAt: string; // ISO date in the past, within the configured history
+  lineItems: GeneratedOrderLineItem[];
+  financialStatus: 'paid' | 'refunded';
+  fulfilled: boolean;
+}
+
+export interface GeneratedReview {
+  storeProductId: string;
+  productTitle: string;
+  customerKey: string;
+  authorName: string; // "Jane D." - reviews only show the initial of the last name
+  email: string;
+  rating: number; // 1-5 stars
+  title: string;
+  body: string;
+  createdAt: string; // ISO date after the order it reviews
+}
+
+/**
+ * Counts of what the activity step created in the store
+ */
+export interface StoreActivitySummary {
+  customers: number;
+  orders: number;
+  reviews: number;
+}
+
+/**
+ * Turn untrusted form input into usable settings, falling back to the defaults per field
+ */
+export function normalizeStoreActivitySettings(input: unknown): StoreActivitySettings {
+  const settings = (input ?? {}) as Partial<Record<keyof StoreActivitySettings, unknown>>;
+  const customers = Math.round(Number(settings.customers));
+  const historyDays = Math.round(Number(settings.historyDays));
+  const reviewRate = Number(settings.reviewRate);
+
+  return {
+    customers:
+      Number.isFinite(customers) && customers >= 0
+        ? Math.min(customers, MAX_ACTIVITY_CUSTOMERS)
+        : DEFAULT_STORE_ACTIVITY_SETTINGS.customers,
+    historyDays:
+      Number.isFinite(historyDays) && historyDays >= 1
+        ? Math.min(historyDays, MAX_ACTIVITY_HISTORY_DAYS)
+        : DEFAULT_STORE_ACTIVITY_SETTINGS.historyDays,
+    reviewRate:
+      Number.isFinite(reviewRate) && reviewRate >= 0 ? Math.min(reviewRate, 1) : DEFAULT_STORE_ACTIVITY_SETTINGS.reviewRate,
+  };
+}
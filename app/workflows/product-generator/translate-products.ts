@@ -0,0 +1,153 @@
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import { assertGatewayConfigured, describeGenerationError, type GeneratedProduct } from './generate-products';
+import { mapWithConcurrency } from './concurrency';
+import { emitProgress, isCancelled } from './progress';
+import { SEO_DESCRIPTION_MAX_LENGTH, SEO_TITLE_MAX_LENGTH } from './seo';
+import {
+  buildMarketPrices,
+  hasLocalization,
+  LocalizationSettings,
+  ProductTranslation,
+  SUPPORTED_LOCALES,
+  SupportedLocale,
+} from './localization';
+import { PRODUCT_GENERATION_CONCURRENCY } from '@/lib/constants';
+
+const MAX_ATTEMPTS = 3;
+
+const translationSchema = z.object({
+  translations: z.array(
+    z.object({
+      locale: z.string().describe('Locale code exactly as requested, such as "fr" or "pt-BR"'),
+      title: z.string().min(3).max(150),
+      description: z.string().min(50).describe('The full description, keeping its paragraphs'),
+      seoTitle: z.string().min(5).max(SEO_TITLE_MAX_LENGTH),
+      seoDescription: z.string().min(20).max(SEO_DESCRIPTION_MAX_LENGTH),
+    })
+  ),
+});
+
+async function generateTranslations(
+  product: GeneratedProduct,
+  locales: SupportedLocale[],
+  textModel: string,
+  previousError?: string
+): Promise<ProductTranslation[]> {
+  const retryEnhancement = previousError
+    ? `
+
+    YOUR PREVIOUS RESPONSE WAS REJECTED: ${previousError}
+    Fix these problems in this response.`
+    : '';
+
+  const { object } = await generateObject({
+    model: textModel,
+    schema: translationSchema,
+    schemaName: 'ProductTranslations',
+    schemaDescription: 'Translations of the copy of one product',
+    prompt: `Translate this online store product into: ${locales.map((locale) => `${SUPPORTED_LOCALES[locale]} (${locale})`).join(', ')}.
+
+    Title: ${product.title}
+    Description:
+    ${product.description}
+    SEO title: ${product.seo?.title ?? product.title}
+    SEO description: ${product.seo?.description ?? product.description.slice(0, SEO_DESCRIPTION_MAX_LENGTH)}
+
+    Write each translation the way a native copywriter for a local shop would, not word for word. Keep brand
+    names, model numbers and measurements unchanged, keep the SEO title within ${SEO_TITLE_MAX_LENGTH} characters
+    and the SEO description within ${SEO_DESCRIPTION_MAX_LENGTH} characters.${retryEnhancement}`,
+  });
+
+  return locales.map((locale) => {
+    const translation = object.translations.find((candidate) => candidate.locale.toLowerCase() === locale.toLowerCase());
+    if (!translation) {
+      throw new Error(`The ${SUPPORTED_LOCALES[locale]} (${locale}) translation is missing`);
+    }
+    return {
+      locale,
+      title: translation.title.trim(),
+      description: translation.description.trim(),
+      seo: { title: translation.seoTitle.trim(), description: translation.seoDescription.trim() },
+    };
+  });
+}
+
+/**
+ * Translate the copy of a product into the given locales, retrying with the rejection as feedback
+ */
+export async function translateProduct(
+  product: GeneratedProduct,
+  locales: SupportedLocale[],
+  textModel: string
+): Promise<ProductTranslation[]> {
+  if (locales.length === 0) {
+    return [];
+  }
+  assertGatewayConfigured();
+
+  let lastError: string | undefined;
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      return await generateTranslations(product, locales, textModel, lastError);
+    } catch (error) {
+      lastError = describeGenerationError(error);
+      console.warn(`[translateProduct] Invalid translations on attempt ${attempt} for "${product.title}": ${lastError}`);
+    }
+  }
+
+  throw new Error(`Could not translate "${product.title}" after ${MAX_ATTEMPTS} attempts: ${lastError}`);
+}
+
+/**
+ * Add translations and market prices to one product. Market prices are derived from its current
+ * prices, so call this after any price changes such as sale prices.
+ */
+export async function localizeProduct(
+  product: GeneratedProduct,
+  settings: LocalizationSettings,
+  textModel: string
+): Promise<GeneratedProduct> {
+  return {
+    ...product,
+    ...(settings.locales.length > 0 ? { translations: await translateProduct(product, settings.locales, textModel) } : {}),
+    ...(settings.currencies.length > 0 ? { marketPrices: buildMarketPrices(product, settings.currencies) } : {}),
+  };
+}
+
+/**
+ * Localize the products of a run. A product that cannot be translated is kept in English and reported.
+ */
+export async function localizeProducts(
+  products: GeneratedProduct[],
+  settings: LocalizationSettings | undefined,
+  textModel: string,
+  progressId?: string | null
+): Promise<{ products: GeneratedProduct[]; errors: string[] }> {
+  if (!settings || !hasLocalization(settings)) {
+    return { products, errors: [] };
+  }
+
+  const errors: string[] = [];
+  let completed = 0;
+  const localized = await mapWithConcurrency(products, PRODUCT_GENERATION_CONCURRENCY, async (product) => {
+    if (isCancelled(progressId)) {
+      return product;
+    }
+
+    try {
+      return await localizeProduct(product, settings, textModel);
+    } catch (error) {
+      console.error(`[localizeProducts] Failed to localize "${product.title}":`, error);
+      errors.push(`Failed to translate "${product.title}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+      // Prices need no model, so they are kept even when the copy could not be translated
+      return settings.currencies.length > 0
+        ? { ...product, marketPrices: buildMarketPrices(product, settings.currencies) }
+        : product;
+    } finally {
+      emitProgress(progressId, { type: 'localized', completed: ++completed, total: products.length });
+    }
+  });
+
+  return { products: localized, errors };
+}
@@ -1,90 +1,68 @@
-import { ShopifyProduct } from './create-shopify-products';
+import { getCommerceAdapter, CommercePlatform, StoreProduct } from './adapters';
+import { mapWithConcurrency } from './concurrency';
+import { emitProgress } from './progress';
+import { loadItemCheckpoints, recordImagesAttached, recordImagesUploaded } from './record-run';
+import { getProductImages } from './product-images';
+import { resolveImageForUpload } from './image-storage';
+import { STORE_WRITE_CONCURRENCY } from '@/lib/constants';
 
 export async function uploadProductImages(
-  products: ShopifyProduct[]
+  products: StoreProduct[],
+  platform: CommercePlatform,
+  runId?: string | null,
+  progressId?: string | null
 ): Promise<void> {
   // Note: 'use step' removed - when called from within a workflow with 'use workflow',
   // the steps are automatically tracked. The directive was causing return value issues.
-  const shopifyDomain = process.env.SHOPIFY_STORE_DOMAIN;
-  const accessToken = process.env.SHOPIFY_ACCESS_TOKEN;
+  const adapter = getCommerceAdapter(platform);
+  const checkpoints = await loadItemCheckpoints(runId);
 
-  if (!shopifyDomain || !accessToken) {
-    throw new Error(
-      'Shopify credentials not configured. Please set SHOPIFY_STORE_DOMAIN and SHOPIFY_ACCESS_TOKEN environment variables.'
-    );
-  }
-
-  // Normalize domain - remove https:// or http:// if present
-  const normalizedDomain = shopifyDomain.replace(/^https?:\/\//, '').replace(/\/$/, '');
-
-  for (const product of products) {
+  await mapWithConcurrency(products, STORE_WRITE_CONCURRENCY, async (product) => {
     try {
-      if (!product.image || product.image.length === 0) {
-        continue; // Skip if no image data
-      }
-
-      // Extract base64 image data without data URI prefix
-      // Handle various formats: data:image/png;base64, data:image/svg+xml;base64, etc.
-      // Use more flexible regex that matches any MIME type (including svg+xml)
-      let imageData = product.image;
-      if (imageData.startsWith('data:image/')) {
-        // Remove data URI prefix - match everything from data:image/ to ;base64,
-        imageData = imageData.replace(/^data:image\/[^;]+;base64,/, '');
-      } else if (imageData.includes('base64,')) {
-        // Fallback: just remove everything before base64,
-        imageData = imageData.substring(imageData.indexOf('base64,') + 7);
+      const images = getProductImages(product);
+      if (images.length === 0) {
+        return; // Skip if no image data
       }
 
-      if (!imageData || imageData.length === 0) {
-        continue; // Skip if no valid base64 data
+      // Skip products whose images were uploaded by an earlier attempt of this run, and images an
+      // interrupted attempt already attached
+      const checkpoint = product.idempotencyKey ? checkpoints.get(product.idempotencyKey) : undefined;
+      if (checkpoint?.imagesUploadedAt) {
+        return;
       }
+      const skip = checkpoint?.imagesAttached ?? 0;
 
-      // Determine image type from original data URI or default to PNG
-      let imageExtension = 'png';
-      const mimeTypeMatch = product.image.match(/data:image\/([^;]+)/);
-      if (mimeTypeMatch) {
-        const mimeType = mimeTypeMatch[1];
-        if (mimeType.includes('jpeg') || mimeType.includes('jpg')) {
-          imageExtension = 'jpg';
-        } else if (mimeType.includes('png')) {
-          imageExtension = 'png';
-        } else if (mimeType.includes('webp')) {
-          imageExtension = 'webp';
-        } else if (mimeType.includes('svg')) {
-          // Shopify might not accept SVG via base64 attachment
-          // Convert to PNG or use a different approach
-          imageExtension = 'png';
+      // Products generated before alt text existed still get a description of the photo
+      // Images are passed by URL where the store can fetch them, so only one product's files are ever inlined at a time
+      await adapter.attachImages(
+        product.id,
+        await Promise.all(
+          images.map(async (image, index) =>
+            index < skip
+              ? image
+              : {
+                  ...image,
+                  url: await resolveImageForUpload(image.url),
+                  altText: image.altText || product.imageAltText || product.title,
+                }
+          )
+        ),
+        {
+          skip,
+          onAttached: (attachedCount) => recordImagesAttached(runId, product, attachedCount),
         }
-      }
-
-      // Upload image using ProductImage resource endpoint
-      const imageUploadUrl = `https://${normalizedDomain}/admin/api/2025-07/products/${product.id}/images.json`;
-
-      // Shopify API requires filename when using attachment
-      const imagePayload = {
-        image: {
-          attachment: imageData,
-          filename: `product-${product.id}-${Date.now()}.${imageExtension}`,
-        },
-      };
-
-      const response = await fetch(imageUploadUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Shopify-Access-Token': accessToken.trim(),
-        },
-        body: JSON.stringify(imagePayload),
+      );
+      await recordImagesUploaded(runId, product);
+      emitProgress(progressId, { type: 'image-uploaded', storeProductId: product.id, title: product.title });
+    } catch (error) {
+      // Continue to next product if image upload fails - don't fail entire batch
+      console.warn(`[uploadProductImages] Image upload failed for product ${product.id}:`, error);
+      emitProgress(progressId, {
+        type: 'image-failed',
+        storeProductId: product.id,
+        title: product.title,
+        error: error instanceof Error ? error.message : 'Unknown error',
       });
-
-      if (!response.ok) {
-        // Continue to next product - don't fail entire batch
-        continue;
-      }
-    } catch {
-      // Continue to next product if image upload fails
-      continue;
     }
-  }
+  });
 }
-
@@ -0,0 +1,54 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+
+interface BrandProfileSelectProps {
+  value: string | null
+  onChange: (value: string | null) => void
+}
+
+export function BrandProfileSelect({ value, onChange }: BrandProfileSelectProps) {
+  const [profiles, setProfiles] = useState<Array<{ id: string; name: string }> | null>(null)
+
+  useEffect(() => {
+    const fetchProfiles = async () => {
+      try {
+        const response = await fetch('/api/brand-profiles', { cache: 'no-store' })
+        // Signed-out users have no profiles, so the select simply stays empty
+        const data = response.ok ? await response.json() : { profiles: [] }
+        setProfiles(data.profiles)
+      } catch (err) {
+        console.error('Error fetching brand profiles:', err)
+        setProfiles([])
+      }
+    }
+
+    fetchProfiles()
+  }, [])
+
+  return (
+    <div>
+      <label className="mb-2 block text-sm font-medium text-zinc-700 dark:text-zinc-300">Brand Profile</label>
+      <select
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value || null)}
+        disabled={profiles === null}
+        className="w-full rounded-md border border-zinc-300 px-3 py-2 text-black focus:border-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-500 disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-white"
+      >
+        <option value="">{profiles === null ? 'Loading brand profiles…' : 'No brand profile'}</option>
+        {profiles?.map((profile) => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}
+          </option>
+        ))}
+      </select>
+      <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+        Tone, price band, forbidden words, colours and reference photos.{' '}
+        <Link href="/settings" className="underline hover:text-zinc-700 dark:hover:text-zinc-300">
+          Manage profiles
+        </Link>
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,455 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Image from 'next/image'
+import {
+  MAX_BRAND_PALETTE_COLORS,
+  MAX_BRAND_REFERENCE_IMAGES,
+  type BrandProfile,
+} from '@/app/workflows/product-generator/brand-profile'
+
+type SavedBrandProfile = BrandProfile & { id: string }
+
+// Form state keeps the free-text fields as typed and converts them when saving
+interface BrandProfileForm {
+  name: string
+  toneOfVoice: string
+  targetAudience: string
+  priceMin: string
+  priceMax: string
+  forbiddenWords: string
+  colorPalette: string[]
+  referenceImages: string[]
+}
+
+const emptyForm: BrandProfileForm = {
+  name: '',
+  toneOfVoice: '',
+  targetAudience: '',
+  priceMin: '',
+  priceMax: '',
+  forbiddenWords: '',
+  colorPalette: [],
+  referenceImages: [],
+}
+
+const inputClassName =
+  'mt-1 w-full rounded-md border border-zinc-300 px-3 py-2 text-sm text-zinc-900 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100'
+const labelClassName = 'block text-sm font-medium text-zinc-700 dark:text-zinc-300'
+
+function toForm(profile: SavedBrandProfile): BrandProfileForm {
+  return {
+    name: profile.name,
+    toneOfVoice: profile.toneOfVoice,
+    targetAudience: profile.targetAudience,
+    priceMin: profile.priceBand ? String(profile.priceBand.min) : '',
+    priceMax: profile.priceBand ? String(profile.priceBand.max) : '',
+    forbiddenWords: profile.forbiddenWords.join(', '),
+    colorPalette: profile.colorPalette,
+    referenceImages: profile.referenceImages,
+  }
+}
+
+function toRequestBody(form: BrandProfileForm) {
+  return {
+    name: form.name,
+    toneOfVoice: form.toneOfVoice,
+    targetAudience: form.targetAudience,
+    // Both ends are needed for a band; leaving either empty means no price rule
+    priceBand:
+      form.priceMin.trim() && form.priceMax.trim()
+        ? { min: parseFloat(form.priceMin), max: parseFloat(form.priceMax) }
+        : null,
+    forbiddenWords: form.forbiddenWords
+      .split(',')
+      .map((word) => word.trim())
+      .filter(Boolean),
+    colorPalette: form.colorPalette,
+    referenceImages: form.referenceImages,
+  }
+}
+
+export function BrandProfileSettings() {
+  const [profiles, setProfiles] = useState<SavedBrandProfile[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // null: no form open, 'new': creating a profile, otherwise the ID of the profile being edited
+  const [editing, setEditing] = useState<string | null>(null)
+  const [form, setForm] = useState<BrandProfileForm>(emptyForm)
+
+  useEffect(() => {
+    const fetchProfiles = async () => {
+      try {
+        const response = await fetch('/api/brand-profiles', { cache: 'no-store' })
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch brand profiles')
+        }
+
+        setProfiles(data.profiles)
+      } catch (err) {
+        console.error('Error fetching brand profiles:', err)
+        setError(err instanceof Error ? err.message : 'Failed to fetch brand profiles')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchProfiles()
+  }, [])
+
+  const openForm = (profile?: SavedBrandProfile) => {
+    setError(null)
+    setEditing(profile?.id ?? 'new')
+    setForm(profile ? toForm(profile) : emptyForm)
+  }
+
+  const handleReferenceImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).slice(0, MAX_BRAND_REFERENCE_IMAGES - form.referenceImages.length)
+    e.target.value = ''
+
+    for (const file of files) {
+      if (!['image/png', 'image/jpeg', 'image/webp'].includes(file.type)) {
+        setError('Reference images must be PNG, JPEG or WebP files')
+        continue
+      }
+      if (file.size > 5 * 1024 * 1024) {
+        setError('Reference images must be 5 MB or smaller')
+        continue
+      }
+
+      const reader = new FileReader()
+      reader.onload = () => {
+        if (typeof reader.result === 'string') {
+          const image = reader.result
+          setForm((current) => ({
+            ...current,
+            referenceImages: [...current.referenceImages, image].slice(0, MAX_BRAND_REFERENCE_IMAGES),
+          }))
+        }
+      }
+      reader.onerror = () => {
+        setError('Failed to read image file')
+      }
+      reader.readAsDataURL(file)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setSaving(true)
+
+    try {
+      const response = await fetch(editing === 'new' ? '/api/brand-profiles' : `/api/brand-profiles/${editing}`, {
+        method: editing === 'new' ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toRequestBody(form)),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save brand profile')
+      }
+
+      setProfiles((current) =>
+        [...current.filter((profile) => profile.id !== data.profile.id), data.profile].sort((a, b) =>
+          a.name.localeCompare(b.name),
+        ),
+      )
+      setEditing(null)
+    } catch (err) {
+      console.error('Error saving brand profile:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save brand profile')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (profile: SavedBrandProfile) => {
+    if (!confirm(`Delete the brand profile "${profile.name}"?`)) return
+
+    setError(null)
+    try {
+      const response = await fetch(`/api/brand-profiles/${profile.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete brand profile')
+      }
+
+      setProfiles((current) => current.filter((candidate) => candidate.id !== profile.id))
+      if (editing === profile.id) {
+        setEditing(null)
+      }
+    } catch (err) {
+      console.error('Error deleting brand profile:', err)
+      setError(err instanceof Error ? err.message : 'Failed to delete brand profile')
+    }
+  }
+
+  return (
+    <div className="mx-auto w-full max-w-3xl space-y-4 px-8 pb-16">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-black dark:text-zinc-50">Brand profiles</h2>
+          <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+            Reusable style guides for client catalogs. Pick one when starting a run to keep the copy, prices and
+            photos on brand.
+          </p>
+        </div>
+        {editing === null && !loading && (
+          <button
+            type="button"
+            onClick={() => openForm()}
+            className="shrink-0 rounded-md bg-black px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 dark:bg-white dark:text-black dark:hover:bg-zinc-200"
+          >
+            New profile
+          </button>
+        )}
+      </div>
+
+      {loading && <p className="text-sm text-zinc-500">Loading brand profiles…</p>}
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 text-red-700 dark:bg-red-900/20 dark:text-red-400">{error}</div>
+      )}
+
+      {!loading && editing === null && profiles.length === 0 && (
+        <p className="text-sm text-zinc-500">No brand profiles yet.</p>
+      )}
+
+      {!loading && editing === null && profiles.length > 0 && (
+        <ul className="divide-y divide-zinc-200 rounded-lg border border-zinc-200 bg-white dark:divide-zinc-800 dark:border-zinc-800 dark:bg-zinc-900">
+          {profiles.map((profile) => (
+            <li key={profile.id} className="flex items-center justify-between gap-4 p-4">
+              <div className="min-w-0">
+                <p className="font-medium text-zinc-900 dark:text-zinc-100">{profile.name}</p>
+                <p className="truncate text-xs text-zinc-500">
+                  {[
+                    profile.toneOfVoice,
+                    profile.priceBand && `$${profile.priceBand.min}-$${profile.priceBand.max}`,
+                    profile.referenceImages.length > 0 && `${profile.referenceImages.length} reference images`,
+                  ]
+                    .filter(Boolean)
+                    .join(' · ') || 'No guidelines yet'}
+                </p>
+              </div>
+              <div className="flex shrink-0 items-center gap-2">
+                {profile.colorPalette.map((color) => (
+                  <span key={color} className="h-4 w-4 rounded-full border border-zinc-300" style={{ backgroundColor: color }} />
+                ))}
+                <button
+                  type="button"
+                  onClick={() => openForm(profile)}
+                  className="rounded-md border border-zinc-300 px-3 py-1 text-sm text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800"
+                >
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(profile)}
+                  className="rounded-md px-3 py-1 text-sm text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-900/20"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {editing !== null && (
+        <form
+          onSubmit={handleSubmit}
+          className="space-y-4 rounded-lg border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900"
+        >
+          <div>
+            <label htmlFor="brandName" className={labelClassName}>
+              Name
+            </label>
+            <input
+              id="brandName"
+              type="text"
+              required
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Acme Outdoor"
+              className={inputClassName}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="brandTone" className={labelClassName}>
+              Tone of voice
+            </label>
+            <textarea
+              id="brandTone"
+              rows={2}
+              value={form.toneOfVoice}
+              onChange={(e) => setForm({ ...form, toneOfVoice: e.target.value })}
+              placeholder="Warm, confident and practical. Short sentences, no hype."
+              className={inputClassName}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="brandAudience" className={labelClassName}>
+              Target audience
+            </label>
+            <textarea
+              id="brandAudience"
+              rows={2}
+              value={form.targetAudience}
+              onChange={(e) => setForm({ ...form, targetAudience: e.target.value })}
+              placeholder="Weekend hikers aged 25-45 who value durable gear"
+              className={inputClassName}
+            />
+          </div>
+
+          <div>
+            <span className={labelClassName}>Price band (USD)</span>
+            <div className="mt-1 flex items-center gap-2">
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.priceMin}
+                onChange={(e) => setForm({ ...form, priceMin: e.target.value })}
+                placeholder="Min"
+                aria-label="Minimum price"
+                className="w-32 rounded-md border border-zinc-300 px-3 py-2 text-sm text-zinc-900 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+              />
+              <span className="text-zinc-500">–</span>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.priceMax}
+                onChange={(e) => setForm({ ...form, priceMax: e.target.value })}
+                placeholder="Max"
+                aria-label="Maximum price"
+                className="w-32 rounded-md border border-zinc-300 px-3 py-2 text-sm text-zinc-900 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+              />
+            </div>
+            <p className="mt-1 text-xs text-zinc-500">Every product and variant price is kept inside this range.</p>
+          </div>
+
+          <div>
+            <label htmlFor="brandForbiddenWords" className={labelClassName}>
+              Forbidden words
+            </label>
+            <input
+              id="brandForbiddenWords"
+              type="text"
+              value={form.forbiddenWords}
+              onChange={(e) => setForm({ ...form, forbiddenWords: e.target.value })}
+              placeholder="cheap, best-in-class, revolutionary"
+              className={inputClassName}
+            />
+            <p className="mt-1 text-xs text-zinc-500">
+              Comma separated. Products using them are regenerated before they reach the preview.
+            </p>
+          </div>
+
+          <div>
+            <span className={labelClassName}>Colour palette</span>
+            <div className="mt-1 flex flex-wrap items-center gap-2">
+              {form.colorPalette.map((color, index) => (
+                <div key={index} className="flex items-center gap-1 rounded-md border border-zinc-300 p-1 dark:border-zinc-700">
+                  <input
+                    type="color"
+                    value={color}
+                    onChange={(e) =>
+                      setForm({
+                        ...form,
+                        colorPalette: form.colorPalette.map((current, i) => (i === index ? e.target.value : current)),
+                      })
+                    }
+                    aria-label={`Colour ${index + 1}`}
+                    className="h-7 w-7 cursor-pointer"
+                  />
+                  <span className="font-mono text-xs text-zinc-600 dark:text-zinc-400">{color}</span>
+                  <button
+                    type="button"
+                    onClick={() => setForm({ ...form, colorPalette: form.colorPalette.filter((_, i) => i !== index) })}
+                    aria-label={`Remove colour ${color}`}
+                    className="px-1 text-zinc-500 hover:text-red-600"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+              {form.colorPalette.length < MAX_BRAND_PALETTE_COLORS && (
+                <button
+                  type="button"
+                  onClick={() => setForm({ ...form, colorPalette: [...form.colorPalette, '#000000'] })}
+                  className="rounded-md border border-dashed border-zinc-300 px-3 py-1.5 text-sm text-zinc-600 hover:bg-zinc-50 dark:border-zinc-700 dark:text-zinc-400 dark:hover:bg-zinc-800"
+                >
+                  Add colour
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <span className={labelClassName}>Reference images</span>
+            <p className="mt-1 text-xs text-zinc-500">
+              Up to {MAX_BRAND_REFERENCE_IMAGES} photos sent to the image model with every product, so the lighting,
+              backgrounds and styling match the brand.
+            </p>
+            <div className="mt-2 flex flex-wrap gap-2">
+              {form.referenceImages.map((image, index) => (
+                <div
+                  key={index}
+                  className="relative h-20 w-20 overflow-hidden rounded-md border border-zinc-300 dark:border-zinc-700"
+                >
+                  <Image src={image} alt={`Reference image ${index + 1}`} fill unoptimized className="object-cover" />
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setForm({ ...form, referenceImages: form.referenceImages.filter((_, i) => i !== index) })
+                    }
+                    aria-label={`Remove reference image ${index + 1}`}
+                    className="absolute right-0.5 top-0.5 rounded bg-black/60 px-1 text-xs text-white hover:bg-black/80"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+            {form.referenceImages.length < MAX_BRAND_REFERENCE_IMAGES && (
+              <input
+                type="file"
+                accept="image/png,image/jpeg,image/webp"
+                multiple
+                onChange={handleReferenceImageUpload}
+                className="mt-2 w-full rounded-md border border-zinc-300 px-3 py-2 text-sm file:mr-4 file:rounded-md file:border-0 file:bg-zinc-900 file:px-4 file:py-1.5 file:text-sm file:font-medium file:text-white hover:file:bg-zinc-800 dark:border-zinc-700 dark:file:bg-zinc-100 dark:file:text-zinc-900"
+              />
+            )}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              type="submit"
+              disabled={saving}
+              className="rounded-md bg-black px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 disabled:opacity-50 dark:bg-white dark:text-black dark:hover:bg-zinc-200"
+            >
+              {saving ? 'Saving…' : 'Save profile'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditing(null)}
+              disabled={saving}
+              className="rounded-md px-4 py-2 text-sm text-zinc-600 hover:bg-zinc-100 disabled:opacity-50 dark:text-zinc-400 dark:hover:bg-zinc-800"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
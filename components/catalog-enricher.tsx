@@ -0,0 +1,251 @@
+'use client'
+
+import { useState } from 'react'
+import type { EnrichmentApplyResult, EnrichmentPreviewResult } from '@/app/workflows/product-generator'
+import { EnrichmentPreview } from '@/components/enrichment-preview'
+import {
+  buildApprovedEnrichment,
+  DEFAULT_ENRICHMENT_QUERY,
+  ENRICHMENT_FIELD_LABELS,
+  ENRICHMENT_FIELDS,
+  ENRICHMENT_SOURCES,
+  listEnrichmentChanges,
+  MAX_ENRICHMENT_PRODUCTS,
+  normalizeEnrichmentFields,
+  type ApprovedEnrichment,
+  type EnrichmentField,
+  type EnrichmentQuery,
+  type EnrichmentSource,
+  type ProductEnrichment,
+} from '@/app/workflows/product-generator/enrichment'
+
+interface CatalogEnricherProps {
+  platform: 'shopify' | 'bigcommerce'
+  brandProfileId: string | null
+}
+
+const SOURCE_LABELS: Record<EnrichmentSource, string> = {
+  collection: 'Collection',
+  tag: 'Tag',
+  search: 'Search',
+}
+
+const VALUE_PLACEHOLDERS: Record<EnrichmentSource, string> = {
+  collection: 'e.g., Office Chairs',
+  tag: 'e.g., leather',
+  search: 'e.g., ergonomic chair',
+}
+
+const inputClassName =
+  'w-full rounded-md border border-zinc-300 px-3 py-2 text-black focus:border-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-white'
+
+// Every proposed change starts out approved
+const approveAll = (enrichments: ProductEnrichment[]) =>
+  Object.fromEntries(
+    enrichments.map((enrichment) => [enrichment.product.id, listEnrichmentChanges(enrichment).map((change) => change.field)])
+  )
+
+export function CatalogEnricher({ platform, brandProfileId }: CatalogEnricherProps) {
+  const [query, setQuery] = useState<EnrichmentQuery>(DEFAULT_ENRICHMENT_QUERY)
+  const [fields, setFields] = useState<EnrichmentField[]>([...ENRICHMENT_FIELDS])
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const [isApplying, setIsApplying] = useState(false)
+  const [preview, setPreview] = useState<EnrichmentPreviewResult | null>(null)
+  const [approved, setApproved] = useState<Record<string, EnrichmentField[]>>({})
+  const [result, setResult] = useState<EnrichmentApplyResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const toggleField = (field: EnrichmentField) => {
+    setFields((current) =>
+      current.includes(field) ? current.filter((value) => value !== field) : normalizeEnrichmentFields([...current, field])
+    )
+  }
+
+  const handleToggleApprovedField = (productId: string, field: EnrichmentField) => {
+    setApproved((current) => {
+      const productFields = current[productId] ?? []
+      return {
+        ...current,
+        [productId]: productFields.includes(field)
+          ? productFields.filter((value) => value !== field)
+          : [...productFields, field],
+      }
+    })
+  }
+
+  const handlePreview = async () => {
+    setError(null)
+    setResult(null)
+    setPreview(null)
+    setIsPreviewing(true)
+
+    try {
+      const { previewCatalogEnrichment } = await import('@/app/actions/workflow')
+      const previewResult = await previewCatalogEnrichment(platform, query, fields, brandProfileId)
+      setPreview(previewResult)
+      setApproved(approveAll(previewResult.enrichments))
+
+      if (!previewResult.success) {
+        setError(previewResult.errors?.join(', ') || 'No changes could be proposed')
+      }
+    } catch (err) {
+      console.error('[CatalogEnricher] Preview error:', err)
+      setError(err instanceof Error ? err.message : 'Failed to enrich products')
+    } finally {
+      setIsPreviewing(false)
+    }
+  }
+
+  const handleApply = async () => {
+    if (!preview) return
+
+    const changes = preview.enrichments
+      .map((enrichment) => buildApprovedEnrichment(enrichment, approved[enrichment.product.id] ?? []))
+      .filter((change): change is ApprovedEnrichment => change !== null)
+    if (changes.length === 0) return
+
+    setError(null)
+    setIsApplying(true)
+
+    try {
+      const { applyCatalogEnrichment } = await import('@/app/actions/workflow')
+      const applyResult = await applyCatalogEnrichment(platform, changes)
+
+      setPreview(null)
+      setResult(applyResult)
+
+      if (!applyResult.success) {
+        setError(applyResult.errors?.join(', ') || 'Updating the products failed')
+      }
+    } catch (err) {
+      console.error('[CatalogEnricher] Apply error:', err)
+      setError(err instanceof Error ? err.message : 'Failed to update products')
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+        <label className="mb-1 block text-sm font-medium text-zinc-700 dark:text-zinc-300">Products to Enrich</label>
+        <p className="mb-3 text-xs text-zinc-500 dark:text-zinc-400">
+          Existing products are read from the store and rewritten by the same models as generated products. Nothing is
+          written back until you approve the changes.
+        </p>
+        <div className="grid grid-cols-1 gap-2 sm:grid-cols-[10rem_1fr_6rem]">
+          <select
+            value={query.source}
+            onChange={(e) => setQuery({ ...query, source: e.target.value as EnrichmentSource })}
+            className={inputClassName}
+          >
+            {ENRICHMENT_SOURCES.map((source) => (
+              <option key={source} value={source}>
+                {SOURCE_LABELS[source]}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={query.value}
+            onChange={(e) => setQuery({ ...query, value: e.target.value })}
+            placeholder={VALUE_PLACEHOLDERS[query.source]}
+            className={inputClassName}
+          />
+          <input
+            type="number"
+            value={query.limit}
+            onChange={(e) => setQuery({ ...query, limit: parseInt(e.target.value) || 1 })}
+            min="1"
+            max={MAX_ENRICHMENT_PRODUCTS}
+            title="Maximum number of products"
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div className="rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+        <label className="mb-2 block text-sm font-medium text-zinc-700 dark:text-zinc-300">Fields</label>
+        <div className="grid grid-cols-2 gap-2">
+          {ENRICHMENT_FIELDS.map((field) => (
+            <label key={field} className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+              <input
+                type="checkbox"
+                checked={fields.includes(field)}
+                onChange={() => toggleField(field)}
+                className="h-4 w-4"
+              />
+              {ENRICHMENT_FIELD_LABELS[field]}
+            </label>
+          ))}
+        </div>
+        <p className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">
+          Photos are only generated for products without any image.
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 text-red-700 dark:bg-red-900/20 dark:text-red-400">{error}</div>
+      )}
+
+      {preview && preview.enrichments.length > 0 && !isPreviewing && (
+        <>
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">
+            Changes proposed for {preview.enrichments.length} of {preview.totalProducts} products.
+          </p>
+          {preview.success && preview.errors && preview.errors.length > 0 && (
+            <ul className="list-inside list-disc text-sm text-red-600 dark:text-red-400">
+              {preview.errors.map((err, idx) => (
+                <li key={idx}>{err}</li>
+              ))}
+            </ul>
+          )}
+          <EnrichmentPreview
+            enrichments={preview.enrichments}
+            approved={approved}
+            isApplying={isApplying}
+            onToggleField={handleToggleApprovedField}
+            onApply={handleApply}
+            onDiscard={() => setPreview(null)}
+          />
+        </>
+      )}
+
+      {preview?.success && preview.enrichments.length === 0 && (
+        <p className="text-sm text-zinc-600 dark:text-zinc-400">
+          All {preview.totalProducts} products already match the proposed copy. Nothing to change.
+        </p>
+      )}
+
+      {result && (
+        <div className="rounded-md bg-zinc-50 p-4 dark:bg-zinc-900/50">
+          <p className="mb-2 text-sm font-medium text-zinc-700 dark:text-zinc-300">Results:</p>
+          <div className="space-y-1 text-sm text-zinc-600 dark:text-zinc-400">
+            <p>Updated: {result.updatedProducts.length}</p>
+            {result.errors && result.errors.length > 0 && (
+              <div className="mt-2">
+                <p className="font-medium text-red-600 dark:text-red-400">Errors:</p>
+                <ul className="mt-1 list-inside list-disc">
+                  {result.errors.map((err, idx) => (
+                    <li key={idx}>{err}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {!preview?.enrichments.length && (
+        <button
+          type="button"
+          onClick={handlePreview}
+          disabled={isPreviewing || isApplying || fields.length === 0 || !query.value.trim()}
+          className="w-full rounded-md bg-zinc-900 px-6 py-3 text-lg font-medium text-white transition-colors hover:bg-zinc-800 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200"
+        >
+          {isPreviewing ? 'Enriching Products...' : 'Preview Changes'}
+        </button>
+      )}
+    </div>
+  )
+}
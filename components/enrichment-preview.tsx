@@ -0,0 +1,140 @@
+'use client'
+
+import Image from 'next/image'
+import {
+  diffWords,
+  ENRICHMENT_FIELD_LABELS,
+  listEnrichmentChanges,
+  type EnrichmentChange,
+  type EnrichmentField,
+  type ProductEnrichment,
+} from '@/app/workflows/product-generator/enrichment'
+
+interface EnrichmentPreviewProps {
+  enrichments: ProductEnrichment[]
+  // Approved fields per product ID
+  approved: Record<string, EnrichmentField[]>
+  isApplying: boolean
+  onToggleField: (productId: string, field: EnrichmentField) => void
+  onApply: () => void
+  onDiscard: () => void
+}
+
+// Removed words are struck through and added words highlighted, in one run of text
+function ChangeDiff({ change }: { change: EnrichmentChange }) {
+  return (
+    <p className="whitespace-pre-wrap rounded-md bg-zinc-50 p-2 text-xs text-zinc-700 dark:bg-zinc-800/50 dark:text-zinc-300">
+      {diffWords(change.before, change.after).map((segment, index) =>
+        segment.type === 'same' ? (
+          <span key={index}>{segment.text}</span>
+        ) : (
+          <span
+            key={index}
+            className={
+              segment.type === 'added'
+                ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'
+                : 'bg-red-100 text-red-800 line-through dark:bg-red-900/30 dark:text-red-300'
+            }
+          >
+            {segment.text}
+          </span>
+        )
+      )}
+    </p>
+  )
+}
+
+export function EnrichmentPreview({
+  enrichments,
+  approved,
+  isApplying,
+  onToggleField,
+  onApply,
+  onDiscard,
+}: EnrichmentPreviewProps) {
+  const approvedCount = enrichments.filter((enrichment) => approved[enrichment.product.id]?.length).length
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="font-medium text-zinc-900 dark:text-zinc-100">Review proposed changes</p>
+          <p className="text-sm text-zinc-500 dark:text-zinc-400">
+            Untick the fields to keep as they are. Only ticked changes are written to the store.
+          </p>
+        </div>
+        <p className="text-sm text-zinc-600 dark:text-zinc-400">
+          {approvedCount}/{enrichments.length} products
+        </p>
+      </div>
+
+      {enrichments.map((enrichment) => (
+        <div
+          key={enrichment.product.id}
+          className="space-y-3 rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900"
+        >
+          <div>
+            <p className="font-medium text-zinc-900 dark:text-zinc-100">{enrichment.product.title}</p>
+            {enrichment.product.category && (
+              <p className="text-xs text-zinc-500 dark:text-zinc-400">{enrichment.product.category}</p>
+            )}
+          </div>
+
+          {listEnrichmentChanges(enrichment).map((change) => (
+            <div key={change.field} className="space-y-1">
+              <label className="flex items-center gap-2 text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                <input
+                  type="checkbox"
+                  checked={approved[enrichment.product.id]?.includes(change.field) ?? false}
+                  onChange={() => onToggleField(enrichment.product.id, change.field)}
+                  className="h-4 w-4"
+                />
+                {ENRICHMENT_FIELD_LABELS[change.field]}
+              </label>
+              {change.field === 'images' ? (
+                <div className="flex gap-2">
+                  {enrichment.images?.map((image, index) => (
+                    <div
+                      key={index}
+                      className="relative h-24 w-24 overflow-hidden rounded-md border border-green-500"
+                      title={image.altText}
+                    >
+                      <Image
+                        src={image.url}
+                        alt={image.altText || enrichment.product.title}
+                        fill
+                        unoptimized
+                        className="object-cover"
+                      />
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <ChangeDiff change={change} />
+              )}
+            </div>
+          ))}
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onDiscard}
+          disabled={isApplying}
+          className="rounded-md border border-zinc-300 bg-white px-4 py-3 text-zinc-700 hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-300 dark:hover:bg-zinc-800"
+        >
+          Discard
+        </button>
+        <button
+          type="button"
+          onClick={onApply}
+          disabled={isApplying || approvedCount === 0}
+          className="flex-1 rounded-md bg-zinc-900 px-6 py-3 font-medium text-white transition-colors hover:bg-zinc-800 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200"
+        >
+          {isApplying ? 'Updating...' : `Update ${approvedCount} Product${approvedCount === 1 ? '' : 's'}`}
+        </button>
+      </div>
+    </div>
+  )
+}
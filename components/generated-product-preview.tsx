@@ -0,0 +1,330 @@
+'use client'
+
+import Image from 'next/image'
+import type { GeneratedProduct } from '@/app/workflows/product-generator'
+import { slugifyHandle } from '@/app/workflows/product-generator/seo'
+import { MIN_IMAGE_QUALITY_SCORE, type ImageQualityReport } from '@/app/workflows/product-generator/product-images'
+import { buildMarketPrices, SUPPORTED_LOCALES } from '@/app/workflows/product-generator/localization'
+import { formatMetafieldValue, metafieldName } from '@/app/workflows/product-generator/metafields'
+
+export interface PreviewItem {
+  id: string
+  index: number // Position within its category, used when regenerating
+  product: GeneratedProduct
+  approved: boolean
+  regenerating: boolean
+}
+
+interface GeneratedProductPreviewProps {
+  items: PreviewItem[]
+  isPublishing: boolean
+  onChange: (id: string, product: GeneratedProduct) => void
+  onToggleApproved: (id: string) => void
+  onRemove: (id: string) => void
+  onRegenerate: (id: string) => void
+  onPublish: () => void
+  onDiscard: () => void
+}
+
+const inputClassName =
+  'w-full rounded-md border border-zinc-300 px-3 py-2 text-sm text-black focus:border-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-white'
+
+function ImageQualityBadge({ quality }: { quality: ImageQualityReport }) {
+  const passed = quality.score >= MIN_IMAGE_QUALITY_SCORE
+
+  return (
+    <div className="mt-2 text-xs" title={quality.reasons.join('\n')}>
+      <span
+        className={`rounded-full px-2 py-0.5 font-medium ${
+          passed
+            ? 'bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400'
+            : 'bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-400'
+        }`}
+      >
+        Image quality {quality.score}/100
+      </span>
+      {!passed && quality.reasons.length > 0 && (
+        <ul className="mt-1 list-inside list-disc text-amber-700 dark:text-amber-400">
+          {quality.reasons.map((reason) => (
+            <li key={reason}>{reason}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export function GeneratedProductPreview({
+  items,
+  isPublishing,
+  onChange,
+  onToggleApproved,
+  onRemove,
+  onRegenerate,
+  onPublish,
+  onDiscard,
+}: GeneratedProductPreviewProps) {
+  const approvedCount = items.filter((item) => item.approved).length
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="font-medium text-zinc-900 dark:text-zinc-100">Review generated products</p>
+          <p className="text-sm text-zinc-500 dark:text-zinc-400">
+            Edit, remove or regenerate items. Only approved products are published.
+          </p>
+        </div>
+        <p className="text-sm text-zinc-600 dark:text-zinc-400">
+          {approvedCount}/{items.length} approved
+        </p>
+      </div>
+
+      {items.map((item) => (
+        <div
+          key={item.id}
+          className={`flex gap-4 rounded-lg border bg-white p-4 dark:bg-zinc-900 ${
+            item.approved ? 'border-green-500' : 'border-zinc-200 dark:border-zinc-800'
+          }`}
+        >
+          <div className="w-40 shrink-0">
+            <div className="relative aspect-square overflow-hidden rounded-md border border-zinc-200 dark:border-zinc-700">
+              {item.regenerating ? (
+                <div className="flex h-full items-center justify-center">
+                  <div className="h-6 w-6 animate-spin rounded-full border-2 border-zinc-600 border-t-transparent"></div>
+                </div>
+              ) : (
+                <Image
+                  src={item.product.image}
+                  alt={item.product.imageAltText || item.product.title}
+                  fill
+                  unoptimized
+                  className="object-cover"
+                />
+              )}
+            </div>
+            <p className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">{item.product.category}</p>
+            {item.product.images?.[0]?.quality && <ImageQualityBadge quality={item.product.images[0].quality} />}
+            {item.product.images && item.product.images.length > 1 && (
+              <div className="mt-2 grid grid-cols-4 gap-1">
+                {item.product.images.slice(1).map((image, imageIndex) => (
+                  <div
+                    key={imageIndex}
+                    className="relative aspect-square overflow-hidden rounded border border-zinc-200 dark:border-zinc-700"
+                    title={image.variantOption ? `${image.variantOption.name}: ${image.variantOption.value}` : image.angle}
+                  >
+                    <Image src={image.url} alt={image.altText || item.product.title} fill unoptimized className="object-cover" />
+                  </div>
+                ))}
+              </div>
+            )}
+            {item.product.taxonomyCategory && (
+              <p className="mt-1 text-xs text-zinc-400 dark:text-zinc-500">{item.product.taxonomyCategory}</p>
+            )}
+          </div>
+
+          <div className="flex-1 space-y-2">
+            <input
+              type="text"
+              value={item.product.title}
+              // The handle follows the title; it is made unique against the store when publishing
+              onChange={(e) =>
+                onChange(item.id, { ...item.product, title: e.target.value, handle: slugifyHandle(e.target.value) })
+              }
+              disabled={item.regenerating}
+              className={inputClassName}
+            />
+            <textarea
+              value={item.product.description}
+              onChange={(e) => onChange(item.id, { ...item.product, description: e.target.value })}
+              disabled={item.regenerating}
+              rows={4}
+              className={inputClassName}
+            />
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-zinc-600 dark:text-zinc-400">Price</label>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={item.product.price}
+                // Market prices are converted from the price, so they follow it
+                onChange={(e) =>
+                  onChange(item.id, {
+                    ...item.product,
+                    price: e.target.value,
+                    ...(item.product.marketPrices && {
+                      marketPrices: buildMarketPrices(
+                        { ...item.product, price: e.target.value },
+                        item.product.marketPrices.map((marketPrice) => marketPrice.currency),
+                      ),
+                    }),
+                  })
+                }
+                disabled={item.regenerating}
+                className={`${inputClassName} w-28`}
+              />
+              <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                {item.product.variants.length} variant{item.product.variants.length === 1 ? '' : 's'}
+                {item.product.options && item.product.options.length > 0 &&
+                  ` · ${item.product.options.map((option) => option.name).join(', ')}`}
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-zinc-600 dark:text-zinc-400">Tags</label>
+              <input
+                type="text"
+                value={(item.product.tags ?? []).join(', ')}
+                onChange={(e) =>
+                  onChange(item.id, {
+                    ...item.product,
+                    tags: e.target.value.split(',').map((tag) => tag.trimStart()),
+                  })
+                }
+                onBlur={() =>
+                  onChange(item.id, {
+                    ...item.product,
+                    tags: (item.product.tags ?? []).map((tag) => tag.trim()).filter(Boolean),
+                  })
+                }
+                disabled={item.regenerating}
+                className={inputClassName}
+              />
+            </div>
+            <details className="text-sm">
+              <summary className="cursor-pointer text-zinc-600 dark:text-zinc-400">
+                SEO{item.product.handle && <span className="ml-2 font-mono text-xs">/{item.product.handle}</span>}
+              </summary>
+              <div className="mt-2 space-y-2">
+                <input
+                  type="text"
+                  placeholder="SEO title"
+                  value={item.product.seo?.title ?? ''}
+                  onChange={(e) =>
+                    onChange(item.id, {
+                      ...item.product,
+                      seo: { title: e.target.value, description: item.product.seo?.description ?? '' },
+                    })
+                  }
+                  disabled={item.regenerating}
+                  className={inputClassName}
+                />
+                <textarea
+                  placeholder="Meta description"
+                  value={item.product.seo?.description ?? ''}
+                  onChange={(e) =>
+                    onChange(item.id, {
+                      ...item.product,
+                      seo: { title: item.product.seo?.title ?? '', description: e.target.value },
+                    })
+                  }
+                  disabled={item.regenerating}
+                  rows={2}
+                  className={inputClassName}
+                />
+                <input
+                  type="text"
+                  placeholder="Image alt text"
+                  value={item.product.imageAltText ?? ''}
+                  onChange={(e) => onChange(item.id, { ...item.product, imageAltText: e.target.value })}
+                  disabled={item.regenerating}
+                  className={inputClassName}
+                />
+              </div>
+            </details>
+            {!!item.product.metafields?.length && (
+              <details className="text-sm">
+                <summary className="cursor-pointer text-zinc-600 dark:text-zinc-400">
+                  Custom fields<span className="ml-2 text-xs">{item.product.metafields.length}</span>
+                </summary>
+                <dl className="mt-2 space-y-1 text-xs text-zinc-600 dark:text-zinc-400">
+                  {item.product.metafields.map((metafield) => (
+                    <div key={`${metafield.namespace}.${metafield.key}`}>
+                      <dt className="inline font-medium">{metafieldName(metafield.key)}:</dt>{' '}
+                      <dd className="inline whitespace-pre-line">{formatMetafieldValue(metafield)}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </details>
+            )}
+            {(!!item.product.translations?.length || !!item.product.marketPrices?.length) && (
+              <details className="text-sm">
+                <summary className="cursor-pointer text-zinc-600 dark:text-zinc-400">
+                  Translations & market prices
+                  <span className="ml-2 text-xs">
+                    {[
+                      ...(item.product.translations ?? []).map((translation) => translation.locale),
+                      ...(item.product.marketPrices ?? []).map((marketPrice) => marketPrice.currency),
+                    ].join(', ')}
+                  </span>
+                </summary>
+                <div className="mt-2 space-y-1 text-xs text-zinc-600 dark:text-zinc-400">
+                  {item.product.translations?.map((translation) => (
+                    <p key={translation.locale}>
+                      <span className="font-medium">{SUPPORTED_LOCALES[translation.locale]}:</span> {translation.title}
+                    </p>
+                  ))}
+                  {item.product.marketPrices && item.product.marketPrices.length > 0 && (
+                    <p>
+                      {item.product.marketPrices
+                        .map((marketPrice) => `${marketPrice.price} ${marketPrice.currency}`)
+                        .join(' · ')}
+                    </p>
+                  )}
+                </div>
+              </details>
+            )}
+            <div className="flex gap-2 pt-1">
+              <button
+                type="button"
+                onClick={() => onToggleApproved(item.id)}
+                disabled={item.regenerating}
+                className={`rounded-md px-3 py-1.5 text-sm disabled:opacity-50 ${
+                  item.approved
+                    ? 'bg-green-600 text-white hover:bg-green-700'
+                    : 'border border-zinc-300 text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800'
+                }`}
+              >
+                {item.approved ? 'Approved' : 'Approve'}
+              </button>
+              <button
+                type="button"
+                onClick={() => onRegenerate(item.id)}
+                disabled={item.regenerating}
+                className="rounded-md border border-zinc-300 px-3 py-1.5 text-sm text-zinc-700 hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800"
+              >
+                {item.regenerating ? 'Regenerating...' : 'Regenerate'}
+              </button>
+              <button
+                type="button"
+                onClick={() => onRemove(item.id)}
+                disabled={item.regenerating}
+                className="rounded-md bg-red-500 px-3 py-1.5 text-sm text-white hover:bg-red-600 disabled:opacity-50"
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onDiscard}
+          disabled={isPublishing}
+          className="rounded-md border border-zinc-300 bg-white px-4 py-3 text-zinc-700 hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-300 dark:hover:bg-zinc-800"
+        >
+          Discard
+        </button>
+        <button
+          type="button"
+          onClick={onPublish}
+          disabled={isPublishing || approvedCount === 0 || items.some((item) => item.regenerating)}
+          className="flex-1 rounded-md bg-zinc-900 px-6 py-3 font-medium text-white transition-colors hover:bg-zinc-800 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200"
+        >
+          {isPublishing ? 'Publishing...' : `Publish ${approvedCount} Approved Product${approvedCount === 1 ? '' : 's'}`}
+        </button>
+      </div>
+    </div>
+  )
+}
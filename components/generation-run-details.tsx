@@ -0,0 +1,365 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Image from 'next/image'
+import Link from 'next/link'
+import type { CommercePlatform, DeletedProductResult, GeneratedProduct } from '@/app/workflows/product-generator'
+import { GeneratedProductPreview, type PreviewItem } from '@/components/generated-product-preview'
+import { runStatusClassNames, type GenerationRunSummary } from '@/components/generation-runs-list'
+
+interface GenerationItem {
+  id: string
+  position: number
+  category: string
+  title: string
+  product: GeneratedProduct
+  status: 'generated' | 'published' | 'failed' | 'discarded' | 'deleted'
+  storeProductId: string | null
+  error: string | null
+  publishedAt: string | null
+}
+
+type GenerationRun = Omit<GenerationRunSummary, 'itemCount' | 'publishedCount' | 'failedCount'> & {
+  items: GenerationItem[]
+}
+
+// Catalog file downloads (see app/api/runs/[runId]/export)
+const exportLinks = [
+  { label: 'Shopify CSV', query: 'format=shopify-csv' },
+  { label: 'BigCommerce CSV', query: 'format=bigcommerce-csv' },
+  { label: 'JSON', query: 'format=json' },
+  { label: 'JSON with images', query: 'format=json&embedImages=true' },
+]
+
+interface GenerationRunDetailsProps {
+  runId: string
+}
+
+const itemStatusClassNames: Record<GenerationItem['status'], string> = {
+  generated: 'text-amber-600 dark:text-amber-400',
+  published: 'text-green-600 dark:text-green-400',
+  failed: 'text-red-600 dark:text-red-400',
+  discarded: 'text-zinc-500',
+  deleted: 'text-zinc-500 line-through',
+}
+
+export function GenerationRunDetails({ runId }: GenerationRunDetailsProps) {
+  const [run, setRun] = useState<GenerationRun | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [previewItems, setPreviewItems] = useState<PreviewItem[]>([])
+  const [isPublishing, setIsPublishing] = useState(false)
+  const [isResuming, setIsResuming] = useState(false)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [deleteResults, setDeleteResults] = useState<DeletedProductResult[] | null>(null)
+
+  const fetchRun = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/runs/${runId}`, { cache: 'no-store' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch generation run')
+      }
+
+      const fetchedRun = data.run as GenerationRun
+      setRun(fetchedRun)
+
+      // Re-open runs that are still waiting for review
+      if (fetchedRun.status === 'preview') {
+        const categoryCounts: Record<string, number> = {}
+        setPreviewItems(
+          fetchedRun.items
+            .filter((item) => item.status === 'generated')
+            .map((item) => {
+              const index = categoryCounts[item.category] ?? 0
+              categoryCounts[item.category] = index + 1
+              return {
+                id: item.id,
+                index,
+                product: { ...item.product, itemId: item.id },
+                approved: true,
+                regenerating: false,
+              }
+            }),
+        )
+      } else {
+        setPreviewItems([])
+      }
+    } catch (err) {
+      console.error('Error fetching generation run:', err)
+      setError(err instanceof Error ? err.message : 'Failed to fetch generation run')
+    } finally {
+      setLoading(false)
+    }
+  }, [runId])
+
+  useEffect(() => {
+    fetchRun()
+  }, [fetchRun])
+
+  const updatePreviewItem = (id: string, update: Partial<PreviewItem>) => {
+    setPreviewItems((items) => items.map((item) => (item.id === id ? { ...item, ...update } : item)))
+  }
+
+  const handleRegenerate = async (id: string) => {
+    const item = previewItems.find((previewItem) => previewItem.id === id)
+    if (!item) return
+
+    updatePreviewItem(id, { regenerating: true })
+    try {
+      const { regeneratePreviewProduct } = await import('@/app/actions/workflow')
+      const product = await regeneratePreviewProduct(
+        item.product.category,
+        item.index,
+        null,
+        run?.brandProfileId,
+        // Localized into the same languages and currencies as the item it replaces
+        {
+          locales: item.product.translations?.map((translation) => translation.locale) ?? [],
+          currencies: item.product.marketPrices?.map((marketPrice) => marketPrice.currency) ?? [],
+        },
+        // The run does not keep the generation hints, so the fields are refilled from their names alone
+        item.product.metafields?.map(({ namespace, key, type }) => ({ namespace, key, type, hint: '' })),
+        // Keeps the collection and sale depth of the item it replaces
+        { collection: item.product.collection, variants: item.product.variants },
+      )
+      updatePreviewItem(id, {
+        product: { ...product, itemId: item.id, idempotencyKey: item.product.idempotencyKey },
+        regenerating: false,
+      })
+    } catch (err) {
+      console.error('[GenerationRunDetails] Regenerate error:', err)
+      setError(err instanceof Error ? err.message : 'Failed to regenerate product')
+      updatePreviewItem(id, { regenerating: false })
+    }
+  }
+
+  const handlePublish = async () => {
+    if (!run) return
+
+    const approvedProducts = previewItems.filter((item) => item.approved).map((item) => item.product)
+    if (approvedProducts.length === 0) return
+
+    setError(null)
+    setIsPublishing(true)
+    try {
+      const { publishApprovedProducts } = await import('@/app/actions/workflow')
+      const result = await publishApprovedProducts(approvedProducts, run.platform as CommercePlatform, run.id)
+
+      if (!result.success) {
+        setError(result.errors?.join(', ') || 'Publishing failed')
+      }
+
+      await fetchRun()
+    } catch (err) {
+      console.error('[GenerationRunDetails] Publish error:', err)
+      setError(err instanceof Error ? err.message : 'Failed to publish products')
+    } finally {
+      setIsPublishing(false)
+    }
+  }
+
+  const handleResume = async () => {
+    if (!run) return
+
+    setError(null)
+    setIsResuming(true)
+    try {
+      const { resumeGenerationRun } = await import('@/app/actions/workflow')
+      const result = await resumeGenerationRun(run.id)
+
+      if (!result.success) {
+        setError(result.errors?.join(', ') || 'Resuming failed')
+      }
+
+      await fetchRun()
+    } catch (err) {
+      console.error('[GenerationRunDetails] Resume error:', err)
+      setError(err instanceof Error ? err.message : 'Failed to resume run')
+    } finally {
+      setIsResuming(false)
+    }
+  }
+
+  const handleDeleteProducts = async () => {
+    if (!run) return
+    if (!confirm(`Delete every product this run created in the ${run.platform} store? This cannot be undone.`)) return
+
+    setError(null)
+    setIsDeleting(true)
+    try {
+      const { deleteRunProducts } = await import('@/app/actions/workflow')
+      setDeleteResults(await deleteRunProducts(run.id))
+      await fetchRun()
+    } catch (err) {
+      console.error('[GenerationRunDetails] Delete products error:', err)
+      setError(err instanceof Error ? err.message : 'Failed to delete products')
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  const canResume = run?.status === 'failed' || run?.status === 'cancelled'
+  const canDeleteProducts = !!run?.items.some((item) => item.storeProductId && item.status !== 'deleted')
+
+  return (
+    <div className="mx-auto w-full max-w-5xl space-y-6 px-8 py-16">
+      <Link href="/runs" className="text-sm text-zinc-600 underline dark:text-zinc-400">
+        ← All runs
+      </Link>
+
+      {loading && <p className="text-sm text-zinc-500">Loading run…</p>}
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 text-red-700 dark:bg-red-900/20 dark:text-red-400">{error}</div>
+      )}
+
+      {run && (
+        <>
+          <div className="flex items-start justify-between">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight text-black dark:text-zinc-50">
+                Run {new Date(run.createdAt).toLocaleString()}
+              </h1>
+              <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+                <span className="capitalize">{run.platform}</span>
+                {run.storeId && ` · ${run.storeId}`} ·{' '}
+                {run.categories.map((cat) => `${cat.category} (${cat.count})`).join(', ')}
+              </p>
+              <p className="mt-1 text-xs text-zinc-500">ID: {run.id}</p>
+              <p className="mt-2 flex flex-wrap gap-x-3 text-sm text-zinc-600 dark:text-zinc-400">
+                <span>Export:</span>
+                {exportLinks.map((link) => (
+                  <a
+                    key={link.label}
+                    href={`/api/runs/${run.id}/export?${link.query}`}
+                    download
+                    className="underline hover:text-zinc-900 dark:hover:text-zinc-200"
+                  >
+                    {link.label}
+                  </a>
+                ))}
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              {canDeleteProducts && (
+                <button
+                  type="button"
+                  onClick={handleDeleteProducts}
+                  disabled={isDeleting || isResuming}
+                  className="rounded-md border border-red-300 px-3 py-1.5 text-sm font-medium text-red-700 hover:bg-red-50 disabled:opacity-50 dark:border-red-800 dark:text-red-400 dark:hover:bg-red-900/20"
+                >
+                  {isDeleting ? 'Deleting…' : 'Delete products from store'}
+                </button>
+              )}
+              {canResume && (
+                <button
+                  type="button"
+                  onClick={handleResume}
+                  disabled={isResuming}
+                  className="rounded-md bg-zinc-900 px-3 py-1.5 text-sm font-medium text-white hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200"
+                >
+                  {isResuming ? 'Resuming…' : 'Resume publishing'}
+                </button>
+              )}
+              <span className={`rounded-full px-3 py-1 text-sm font-medium ${runStatusClassNames[run.status]}`}>
+                {run.status}
+              </span>
+            </div>
+          </div>
+
+          {run.errors && run.errors.length > 0 && (
+            <div className="rounded-md bg-red-50 p-4 text-sm text-red-700 dark:bg-red-900/20 dark:text-red-400">
+              <p className="font-medium">Errors:</p>
+              <ul className="mt-1 list-inside list-disc">
+                {run.errors.map((err, idx) => (
+                  <li key={idx}>{err}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {deleteResults && (
+            <div className="rounded-md bg-zinc-50 p-4 text-sm dark:bg-zinc-900/50">
+              <p className="font-medium text-zinc-700 dark:text-zinc-300">
+                Deleted {deleteResults.filter((result) => result.success).length} of {deleteResults.length} products
+              </p>
+              <ul className="mt-2 space-y-1">
+                {deleteResults.map((result) => (
+                  <li key={result.storeProductId} className="text-zinc-600 dark:text-zinc-400">
+                    <span className={result.success ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                      {result.success ? '✓' : '✗'}
+                    </span>{' '}
+                    {result.title} <span className="font-mono text-xs">({result.storeProductId})</span>
+                    {result.error && <span className="block text-xs text-red-600">{result.error}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {previewItems.length > 0 ? (
+            <GeneratedProductPreview
+              items={previewItems}
+              isPublishing={isPublishing}
+              onChange={(id, product) => updatePreviewItem(id, { product })}
+              onToggleApproved={(id) =>
+                setPreviewItems((items) =>
+                  items.map((item) => (item.id === id ? { ...item, approved: !item.approved } : item)),
+                )
+              }
+              onRemove={(id) => setPreviewItems((items) => items.filter((item) => item.id !== id))}
+              onRegenerate={handleRegenerate}
+              onPublish={handlePublish}
+              onDiscard={fetchRun}
+            />
+          ) : (
+            <div className="overflow-hidden rounded-lg border border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-900">
+              <table className="w-full text-left text-sm">
+                <thead className="border-b border-zinc-200 text-zinc-500 dark:border-zinc-800 dark:text-zinc-400">
+                  <tr>
+                    <th className="px-4 py-3 font-medium">Product</th>
+                    <th className="px-4 py-3 font-medium">Status</th>
+                    <th className="px-4 py-3 font-medium">Store Product ID</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {run.items.map((item) => (
+                    <tr key={item.id} className="border-b border-zinc-100 last:border-0 dark:border-zinc-800">
+                      <td className="px-4 py-3">
+                        <div className="flex items-center gap-3">
+                          {item.product.image && (
+                            <Image
+                              src={item.product.image}
+                              alt={item.title}
+                              width={40}
+                              height={40}
+                              unoptimized
+                              className="h-10 w-10 rounded object-cover"
+                            />
+                          )}
+                          <div>
+                            <p className="text-zinc-900 dark:text-zinc-100">{item.title}</p>
+                            <p className="text-xs text-zinc-500">{item.category}</p>
+                          </div>
+                        </div>
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={itemStatusClassNames[item.status]}>{item.status}</span>
+                        {item.error && <p className="mt-1 max-w-xs truncate text-xs text-red-600">{item.error}</p>}
+                      </td>
+                      <td className="px-4 py-3 font-mono text-xs text-zinc-700 dark:text-zinc-300">
+                        {item.storeProductId ?? '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
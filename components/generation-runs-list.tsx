@@ -0,0 +1,120 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+
+export interface GenerationRunSummary {
+  id: string
+  platform: string
+  storeId: string | null
+  categories: Array<{ category: string; count: number }>
+  brandProfileId: string | null
+  status: 'processing' | 'preview' | 'completed' | 'failed' | 'cancelled'
+  totalProducts: number | null
+  errors: string[] | null
+  itemCount: number
+  publishedCount: number
+  failedCount: number
+  createdAt: string
+  completedAt: string | null
+}
+
+export const runStatusClassNames: Record<GenerationRunSummary['status'], string> = {
+  processing: 'bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-400',
+  preview: 'bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-400',
+  completed: 'bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400',
+  failed: 'bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-400',
+  cancelled: 'bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300',
+}
+
+export function GenerationRunsList() {
+  const [runs, setRuns] = useState<GenerationRunSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchRuns = async () => {
+      try {
+        const response = await fetch('/api/runs', { cache: 'no-store' })
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch generation runs')
+        }
+
+        setRuns(data.runs)
+      } catch (err) {
+        console.error('Error fetching generation runs:', err)
+        setError(err instanceof Error ? err.message : 'Failed to fetch generation runs')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchRuns()
+  }, [])
+
+  return (
+    <div className="mx-auto w-full max-w-5xl space-y-6 px-8 py-16">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight text-black dark:text-zinc-50">Generation History</h1>
+        <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+          Past product generator runs and what they pushed to which store
+        </p>
+      </div>
+
+      {loading && <p className="text-sm text-zinc-500">Loading runs…</p>}
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 text-red-700 dark:bg-red-900/20 dark:text-red-400">{error}</div>
+      )}
+
+      {!loading && !error && runs.length === 0 && (
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">No runs yet.</p>
+      )}
+
+      {runs.length > 0 && (
+        <div className="overflow-hidden rounded-lg border border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-900">
+          <table className="w-full text-left text-sm">
+            <thead className="border-b border-zinc-200 text-zinc-500 dark:border-zinc-800 dark:text-zinc-400">
+              <tr>
+                <th className="px-4 py-3 font-medium">Started</th>
+                <th className="px-4 py-3 font-medium">Categories</th>
+                <th className="px-4 py-3 font-medium">Store</th>
+                <th className="px-4 py-3 font-medium">Status</th>
+                <th className="px-4 py-3 font-medium">Published</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map((run) => (
+                <tr key={run.id} className="border-b border-zinc-100 last:border-0 dark:border-zinc-800">
+                  <td className="px-4 py-3">
+                    <Link href={`/runs/${run.id}`} className="text-zinc-900 underline dark:text-zinc-100">
+                      {new Date(run.createdAt).toLocaleString()}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-3 text-zinc-700 dark:text-zinc-300">
+                    {run.categories.map((cat) => `${cat.category} (${cat.count})`).join(', ')}
+                  </td>
+                  <td className="px-4 py-3 text-zinc-700 dark:text-zinc-300">
+                    <span className="capitalize">{run.platform}</span>
+                    {run.storeId && <span className="block text-xs text-zinc-500">{run.storeId}</span>}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${runStatusClassNames[run.status]}`}>
+                      {run.status}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-zinc-700 dark:text-zinc-300">
+                    {run.publishedCount}/{run.itemCount}
+                    {run.failedCount > 0 && <span className="ml-1 text-red-600">({run.failedCount} failed)</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+'use client'
+
+import { IMAGE_ANGLES, type ImageAngle, type ImageSettings } from '@/app/workflows/product-generator/product-images'
+
+interface ImageSettingsFieldsProps {
+  value: ImageSettings
+  onChange: (value: ImageSettings) => void
+}
+
+const angleLabels: Record<ImageAngle, string> = {
+  front: 'Front',
+  side: 'Side',
+  detail: 'Detail',
+  lifestyle: 'Lifestyle',
+}
+
+export function ImageSettingsFields({ value, onChange }: ImageSettingsFieldsProps) {
+  const toggleAngle = (angle: ImageAngle) => {
+    const angles = value.angles.includes(angle)
+      ? value.angles.filter((selected) => selected !== angle)
+      : IMAGE_ANGLES.filter((candidate) => candidate === angle || value.angles.includes(candidate))
+    onChange({ ...value, angles })
+  }
+
+  return (
+    <div className="rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+      <label className="mb-1 block text-sm font-medium text-zinc-700 dark:text-zinc-300">Product Images</label>
+      <p className="mb-3 text-xs text-zinc-500 dark:text-zinc-400">
+        Every angle is generated from the front shot so the images show the same product
+      </p>
+      <div className="flex flex-wrap gap-4">
+        {IMAGE_ANGLES.map((angle) => (
+          <label key={angle} className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+            <input
+              type="checkbox"
+              checked={angle === 'front' || value.angles.includes(angle)}
+              disabled={angle === 'front'}
+              onChange={() => toggleAngle(angle)}
+              className="h-4 w-4"
+            />
+            {angleLabels[angle]}
+          </label>
+        ))}
+      </div>
+      <label className="mt-3 flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+        <input
+          type="checkbox"
+          checked={value.perVariantColor}
+          onChange={(e) => onChange({ ...value, perVariantColor: e.target.checked })}
+          className="h-4 w-4"
+        />
+        One image per variant colour, attached to the matching variants
+      </label>
+    </div>
+  )
+}
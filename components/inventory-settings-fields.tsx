@@ -0,0 +1,92 @@
+'use client'
+
+import type { InventorySettings, NumberRange } from '@/app/workflows/product-generator/inventory'
+
+interface InventorySettingsFieldsProps {
+  value: InventorySettings
+  onChange: (value: InventorySettings) => void
+}
+
+const inputClassName =
+  'w-full rounded-md border border-zinc-300 px-3 py-2 text-black focus:border-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-white'
+
+function RangeField({
+  label,
+  range,
+  step,
+  onChange,
+}: {
+  label: string
+  range: NumberRange
+  step: number
+  onChange: (range: NumberRange) => void
+}) {
+  return (
+    <div>
+      <span className="mb-1 block text-xs font-medium text-zinc-600 dark:text-zinc-400">{label}</span>
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          min={0}
+          step={step}
+          value={range.min}
+          onChange={(e) => onChange({ ...range, min: parseFloat(e.target.value) || 0 })}
+          aria-label={`${label} minimum`}
+          className={inputClassName}
+        />
+        <span className="text-zinc-500">–</span>
+        <input
+          type="number"
+          min={0}
+          step={step}
+          value={range.max}
+          onChange={(e) => onChange({ ...range, max: parseFloat(e.target.value) || 0 })}
+          aria-label={`${label} maximum`}
+          className={inputClassName}
+        />
+      </div>
+    </div>
+  )
+}
+
+export function InventorySettingsFields({ value, onChange }: InventorySettingsFieldsProps) {
+  return (
+    <div className="rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+      <label className="mb-1 block text-sm font-medium text-zinc-700 dark:text-zinc-300">Inventory & Shipping</label>
+      <p className="mb-3 text-xs text-zinc-500 dark:text-zinc-400">
+        Ranges for generated stock levels, shipping weights and package sizes
+      </p>
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+        <RangeField
+          label="Stock per location"
+          range={value.stockPerLocation}
+          step={1}
+          onChange={(stockPerLocation) => onChange({ ...value, stockPerLocation })}
+        />
+        <div>
+          <span className="mb-1 block text-xs font-medium text-zinc-600 dark:text-zinc-400">Stock locations</span>
+          <input
+            type="number"
+            min={1}
+            max={5}
+            value={value.locations}
+            onChange={(e) => onChange({ ...value, locations: parseInt(e.target.value) || 1 })}
+            className={inputClassName}
+          />
+        </div>
+        <RangeField
+          label="Weight (kg)"
+          range={value.weightKg}
+          step={0.1}
+          onChange={(weightKg) => onChange({ ...value, weightKg })}
+        />
+        <RangeField
+          label="Package side (cm)"
+          range={value.dimensionsCm}
+          step={1}
+          onChange={(dimensionsCm) => onChange({ ...value, dimensionsCm })}
+        />
+      </div>
+    </div>
+  )
+}
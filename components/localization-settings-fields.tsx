@@ -0,0 +1,77 @@
+'use client'
+
+import {
+  MAX_LOCALES,
+  SUPPORTED_CURRENCIES,
+  SUPPORTED_LOCALES,
+  type LocalizationSettings,
+  type SupportedCurrency,
+  type SupportedLocale,
+} from '@/app/workflows/product-generator/localization'
+
+interface LocalizationSettingsFieldsProps {
+  value: LocalizationSettings
+  onChange: (value: LocalizationSettings) => void
+}
+
+const locales = Object.keys(SUPPORTED_LOCALES) as SupportedLocale[]
+const currencies = Object.keys(SUPPORTED_CURRENCIES) as SupportedCurrency[]
+
+export function LocalizationSettingsFields({ value, onChange }: LocalizationSettingsFieldsProps) {
+  const toggleLocale = (locale: SupportedLocale) => {
+    onChange({
+      ...value,
+      locales: value.locales.includes(locale)
+        ? value.locales.filter((selected) => selected !== locale)
+        : locales.filter((candidate) => candidate === locale || value.locales.includes(candidate)),
+    })
+  }
+
+  const toggleCurrency = (currency: SupportedCurrency) => {
+    onChange({
+      ...value,
+      currencies: value.currencies.includes(currency)
+        ? value.currencies.filter((selected) => selected !== currency)
+        : currencies.filter((candidate) => candidate === currency || value.currencies.includes(candidate)),
+    })
+  }
+
+  return (
+    <div className="rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+      <label className="mb-1 block text-sm font-medium text-zinc-700 dark:text-zinc-300">Languages & Currencies</label>
+      <p className="mb-3 text-xs text-zinc-500 dark:text-zinc-400">
+        Translate every product into up to {MAX_LOCALES} languages and price it in other currencies. The languages and
+        currencies must be enabled in the store.
+      </p>
+      <span className="mb-1 block text-xs font-medium text-zinc-600 dark:text-zinc-400">Languages</span>
+      <div className="mb-3 flex flex-wrap gap-4">
+        {locales.map((locale) => (
+          <label key={locale} className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+            <input
+              type="checkbox"
+              checked={value.locales.includes(locale)}
+              disabled={!value.locales.includes(locale) && value.locales.length >= MAX_LOCALES}
+              onChange={() => toggleLocale(locale)}
+              className="h-4 w-4"
+            />
+            {SUPPORTED_LOCALES[locale]}
+          </label>
+        ))}
+      </div>
+      <span className="mb-1 block text-xs font-medium text-zinc-600 dark:text-zinc-400">Currencies</span>
+      <div className="flex flex-wrap gap-4">
+        {currencies.map((currency) => (
+          <label key={currency} className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+            <input
+              type="checkbox"
+              checked={value.currencies.includes(currency)}
+              onChange={() => toggleCurrency(currency)}
+              className="h-4 w-4"
+            />
+            {currency}
+          </label>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+'use client'
+
+import {
+  DEFAULT_METAFIELD_NAMESPACE,
+  MAX_METAFIELD_HINT_LENGTH,
+  MAX_METAFIELDS,
+  METAFIELD_TYPE_LABELS,
+  METAFIELD_TYPES,
+  type MetafieldDefinition,
+  type MetafieldType,
+} from '@/app/workflows/product-generator/metafields'
+
+interface MetafieldSchemaFieldsProps {
+  value: MetafieldDefinition[]
+  onChange: (value: MetafieldDefinition[]) => void
+}
+
+const inputClassName =
+  'w-full rounded-md border border-zinc-300 px-3 py-2 text-black focus:border-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-white'
+
+export function MetafieldSchemaFields({ value, onChange }: MetafieldSchemaFieldsProps) {
+  const updateField = (index: number, update: Partial<MetafieldDefinition>) => {
+    onChange(value.map((field, i) => (i === index ? { ...field, ...update } : field)))
+  }
+
+  const addField = () => {
+    if (value.length < MAX_METAFIELDS) {
+      onChange([...value, { namespace: DEFAULT_METAFIELD_NAMESPACE, key: '', type: 'single_line_text_field', hint: '' }])
+    }
+  }
+
+  return (
+    <div className="rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+      <label className="mb-1 block text-sm font-medium text-zinc-700 dark:text-zinc-300">Custom Fields</label>
+      <p className="mb-3 text-xs text-zinc-500 dark:text-zinc-400">
+        Attributes filled for every product, such as care instructions or warranty years. Published as metafields on
+        Shopify and custom fields on BigCommerce. Keys use lowercase letters, digits, dashes and underscores.
+      </p>
+      <div className="space-y-3">
+        {value.map((field, index) => (
+          <div key={index} className="grid grid-cols-1 gap-2 sm:grid-cols-[1fr_1fr_1fr_auto]">
+            <input
+              type="text"
+              placeholder="Namespace"
+              value={field.namespace}
+              onChange={(e) => updateField(index, { namespace: e.target.value })}
+              className={inputClassName}
+            />
+            <input
+              type="text"
+              placeholder="Key, e.g. care_instructions"
+              value={field.key}
+              onChange={(e) => updateField(index, { key: e.target.value })}
+              className={inputClassName}
+            />
+            <select
+              value={field.type}
+              onChange={(e) => updateField(index, { type: e.target.value as MetafieldType })}
+              className={inputClassName}
+            >
+              {METAFIELD_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {METAFIELD_TYPE_LABELS[type]}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+              className="rounded-md bg-red-500 px-4 py-2 text-white hover:bg-red-600"
+            >
+              Remove
+            </button>
+            <input
+              type="text"
+              placeholder="Generation hint, e.g. Washing and drying instructions"
+              value={field.hint}
+              maxLength={MAX_METAFIELD_HINT_LENGTH}
+              onChange={(e) => updateField(index, { hint: e.target.value })}
+              className={`${inputClassName} sm:col-span-4`}
+            />
+          </div>
+        ))}
+      </div>
+      {value.length < MAX_METAFIELDS && (
+        <button
+          type="button"
+          onClick={addField}
+          className="mt-3 w-full rounded-md border border-zinc-300 bg-white px-4 py-2 text-sm text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-300 dark:hover:bg-zinc-800"
+        >
+          + Add Field ({value.length}/{MAX_METAFIELDS})
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+interface ProductModels {
+  textModel: string
+  imageModel: string
+}
+
+export function ProductModelSettings() {
+  const [models, setModels] = useState<ProductModels>({ textModel: '', imageModel: '' })
+  const [defaults, setDefaults] = useState<ProductModels | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  useEffect(() => {
+    const fetchModels = async () => {
+      try {
+        const response = await fetch('/api/settings/product-models', { cache: 'no-store' })
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch product models')
+        }
+
+        setModels(data.models)
+        setDefaults(data.defaults)
+      } catch (err) {
+        console.error('Error fetching product models:', err)
+        setError(err instanceof Error ? err.message : 'Failed to fetch product models')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchModels()
+  }, [])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setSaved(false)
+    setSaving(true)
+
+    try {
+      const response = await fetch('/api/settings/product-models', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(models),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save product models')
+      }
+
+      setModels(data.models)
+      setSaved(true)
+    } catch (err) {
+      console.error('Error saving product models:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save product models')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="mx-auto w-full max-w-3xl space-y-6 px-8 py-16">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight text-black dark:text-zinc-50">Settings</h1>
+        <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+          Models used by the product generator. Copy and photos are generated separately, so a cheaper text model
+          can be paired with a dedicated image model.
+        </p>
+      </div>
+
+      {loading && <p className="text-sm text-zinc-500">Loading settings…</p>}
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 text-red-700 dark:bg-red-900/20 dark:text-red-400">{error}</div>
+      )}
+
+      {!loading && defaults && (
+        <form
+          onSubmit={handleSubmit}
+          className="space-y-4 rounded-lg border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900"
+        >
+          <div>
+            <label htmlFor="textModel" className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+              Text model
+            </label>
+            <input
+              id="textModel"
+              type="text"
+              value={models.textModel}
+              onChange={(e) => setModels({ ...models, textModel: e.target.value })}
+              placeholder={defaults.textModel}
+              className="mt-1 w-full rounded-md border border-zinc-300 px-3 py-2 font-mono text-sm text-zinc-900 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+            />
+            <p className="mt-1 text-xs text-zinc-500">Writes titles, descriptions, variants and features.</p>
+          </div>
+
+          <div>
+            <label htmlFor="imageModel" className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+              Image model
+            </label>
+            <input
+              id="imageModel"
+              type="text"
+              value={models.imageModel}
+              onChange={(e) => setModels({ ...models, imageModel: e.target.value })}
+              placeholder={defaults.imageModel}
+              className="mt-1 w-full rounded-md border border-zinc-300 px-3 py-2 font-mono text-sm text-zinc-900 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+            />
+            <p className="mt-1 text-xs text-zinc-500">
+              Renders product photos. Placeholder images are retried with this model only.
+            </p>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              type="submit"
+              disabled={saving}
+              className="rounded-md bg-black px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 disabled:opacity-50 dark:bg-white dark:text-black dark:hover:bg-zinc-200"
+            >
+              {saving ? 'Saving…' : 'Save'}
+            </button>
+            {saved && <span className="text-sm text-green-600 dark:text-green-400">Saved</span>}
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
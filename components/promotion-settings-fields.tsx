@@ -0,0 +1,99 @@
+'use client'
+
+import {
+  hasPromotions,
+  MAX_DISCOUNT_CODES,
+  MAX_DISCOUNT_DEPTH,
+  MIN_DISCOUNT_DEPTH,
+  type PromotionSettings,
+} from '@/app/workflows/product-generator/promotions'
+
+interface PromotionSettingsFieldsProps {
+  value: PromotionSettings
+  onChange: (value: PromotionSettings) => void
+}
+
+const inputClassName =
+  'w-full rounded-md border border-zinc-300 px-3 py-2 text-black focus:border-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-500 disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-white'
+
+export function PromotionSettingsFields({ value, onChange }: PromotionSettingsFieldsProps) {
+  const disabled = !hasPromotions(value)
+
+  return (
+    <div className="rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+      <label className="mb-1 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+        Sales, Discounts & Price Lists
+      </label>
+      <p className="mb-3 text-xs text-zinc-500 dark:text-zinc-400">
+        Put products on sale with compare-at prices, and after publishing create discounts and customer group price
+        lists for them.
+      </p>
+      <div className="mb-3 grid grid-cols-1 gap-2 sm:grid-cols-2">
+        <label className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+          <input
+            type="checkbox"
+            checked={value.salePrices}
+            onChange={(e) => onChange({ ...value, salePrices: e.target.checked })}
+            className="h-4 w-4"
+          />
+          Sale prices with compare-at prices
+        </label>
+        <label className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+          <input
+            type="checkbox"
+            checked={value.automaticDiscount}
+            onChange={(e) => onChange({ ...value, automaticDiscount: e.target.checked })}
+            className="h-4 w-4"
+          />
+          Automatic discount at checkout
+        </label>
+        <label className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+          <input
+            type="checkbox"
+            checked={value.priceLists}
+            onChange={(e) => onChange({ ...value, priceLists: e.target.checked })}
+            className="h-4 w-4"
+          />
+          Wholesale and VIP price lists
+        </label>
+      </div>
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+        <div>
+          <span className="mb-1 block text-xs font-medium text-zinc-600 dark:text-zinc-400">Discount codes</span>
+          <input
+            type="number"
+            min={0}
+            max={MAX_DISCOUNT_CODES}
+            value={value.discountCodes}
+            onChange={(e) => onChange({ ...value, discountCodes: parseInt(e.target.value) || 0 })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <span className="mb-1 block text-xs font-medium text-zinc-600 dark:text-zinc-400">Discount depth (%)</span>
+          <input
+            type="number"
+            min={MIN_DISCOUNT_DEPTH}
+            max={MAX_DISCOUNT_DEPTH}
+            value={value.depth}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...value, depth: parseInt(e.target.value) || MIN_DISCOUNT_DEPTH })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <span className="mb-1 block text-xs font-medium text-zinc-600 dark:text-zinc-400">Products covered (%)</span>
+          <input
+            type="number"
+            min={1}
+            max={100}
+            value={Math.round(value.coverage * 100)}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...value, coverage: (parseInt(e.target.value) || 1) / 100 })}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -2,29 +2,87 @@
 
 import { useState, useRef } from 'react'
 import Image from 'next/image'
+import type { GeneratedProduct, WorkflowResult as ProductWorkflowResult } from '@/app/workflows/product-generator'
+import { GeneratedProductPreview, type PreviewItem } from '@/components/generated-product-preview'
+import { WorkflowProgress } from '@/components/workflow-progress'
+import { InventorySettingsFields } from '@/components/inventory-settings-fields'
+import { ImageSettingsFields } from '@/components/image-settings-fields'
+import { BrandProfileSelect } from '@/components/brand-profile-select'
+import { StoreActivitySettingsFields } from '@/components/store-activity-settings-fields'
+import { PromotionSettingsFields } from '@/components/promotion-settings-fields'
+import { LocalizationSettingsFields } from '@/components/localization-settings-fields'
+import { MetafieldSchemaFields } from '@/components/metafield-schema-fields'
+import { CatalogEnricher } from '@/components/catalog-enricher'
+import { DEFAULT_INVENTORY_SETTINGS, type InventorySettings } from '@/app/workflows/product-generator/inventory'
+import { DEFAULT_COLLECTION_MODE, type CollectionMode } from '@/app/workflows/product-generator/collections'
+import { DEFAULT_IMAGE_SETTINGS, type ImageSettings } from '@/app/workflows/product-generator/product-images'
+import {
+  DEFAULT_STORE_ACTIVITY_SETTINGS,
+  type StoreActivitySettings,
+  type StoreActivitySummary,
+} from '@/app/workflows/product-generator/store-activity'
+import {
+  DEFAULT_PROMOTION_SETTINGS,
+  type PromotionSettings,
+  type PromotionSummary,
+} from '@/app/workflows/product-generator/promotions'
+import {
+  DEFAULT_LOCALIZATION_SETTINGS,
+  type LocalizationSettings,
+} from '@/app/workflows/product-generator/localization'
+import type { MetafieldDefinition } from '@/app/workflows/product-generator/metafields'
+import { useWorkflowStream } from '@/lib/hooks/use-workflow-stream'
 
 interface Category {
   category: string
   count: number
 }
 
+type Platform = 'shopify' | 'bigcommerce'
+
+// Generate products with AI, publish the products of an exported catalog file, or improve products
+// already in the store
+type ProductSource = 'generate' | 'import' | 'enrich'
+
+// JSON exports with embedded images can be large
+const MAX_CATALOG_FILE_SIZE = 50 * 1024 * 1024
+
 interface WorkflowResult {
   success: boolean
   totalProducts?: number
   createdProducts?: any[]
   errors?: string[]
   v0ProjectUrl?: string
+  storeActivity?: StoreActivitySummary
+  promotions?: PromotionSummary
 }
 
 export function ShopifyDataGenerator() {
+  const [source, setSource] = useState<ProductSource>('generate')
+  const [catalogFile, setCatalogFile] = useState<{ name: string; content: string } | null>(null)
   const [categories, setCategories] = useState<Category[]>([{ category: '', count: 1 }])
   const [sampleImage, setSampleImage] = useState<string | null>(null)
+  const [platform, setPlatform] = useState<Platform>('shopify')
+  const [previewOnly, setPreviewOnly] = useState(true)
+  const [inventory, setInventory] = useState<InventorySettings>(DEFAULT_INVENTORY_SETTINGS)
+  const [collectionMode, setCollectionMode] = useState<CollectionMode>(DEFAULT_COLLECTION_MODE)
+  const [imageSettings, setImageSettings] = useState<ImageSettings>(DEFAULT_IMAGE_SETTINGS)
+  const [brandProfileId, setBrandProfileId] = useState<string | null>(null)
+  const [storeActivity, setStoreActivity] = useState<StoreActivitySettings>(DEFAULT_STORE_ACTIVITY_SETTINGS)
+  const [promotions, setPromotions] = useState<PromotionSettings>(DEFAULT_PROMOTION_SETTINGS)
+  const [localization, setLocalization] = useState<LocalizationSettings>(DEFAULT_LOCALIZATION_SETTINGS)
+  const [metafieldSchema, setMetafieldSchema] = useState<MetafieldDefinition[]>([])
+  const [previewItems, setPreviewItems] = useState<PreviewItem[]>([])
+  const [isPublishing, setIsPublishing] = useState(false)
+  const [previewRunId, setPreviewRunId] = useState<string | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [workflowId, setWorkflowId] = useState<string | null>(null)
   const [workflowStatus, setWorkflowStatus] = useState<string | null>(null)
   const [workflowResult, setWorkflowResult] = useState<WorkflowResult | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const catalogFileInputRef = useRef<HTMLInputElement>(null)
+  const { progress, start: startWorkflow, cancel: cancelWorkflow } = useWorkflowStream<ProductWorkflowResult>()
 
   const updateCategory = (index: number, field: keyof Category, value: string | number) => {
     const newCategories = [...categories]
@@ -81,39 +139,116 @@ export function ShopifyDataGenerator() {
     }
   }
 
+  const handleCatalogFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) {
+      setCatalogFile(null)
+      return
+    }
+
+    if (file.size > MAX_CATALOG_FILE_SIZE) {
+      setError('Catalog files must be smaller than 50MB')
+      setCatalogFile(null)
+      if (catalogFileInputRef.current) {
+        catalogFileInputRef.current.value = ''
+      }
+      return
+    }
+
+    try {
+      setCatalogFile({ name: file.name, content: await file.text() })
+      setError(null)
+    } catch (err) {
+      console.error('[ShopifyDataGenerator] Catalog file error:', err)
+      setError('Failed to read catalog file')
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+    // The catalog enricher previews and applies its changes with its own buttons
+    if (source === 'enrich') return
+
     setError(null)
     setIsSubmitting(true)
     setWorkflowId(null)
     setWorkflowStatus(null)
     setWorkflowResult(null)
+    setPreviewItems([])
 
     try {
-      // Validate categories
-      const validCategories = categories.filter((cat) => cat.category.trim())
-      if (validCategories.length === 0) {
-        setError('Please add at least one category')
-        setIsSubmitting(false)
-        return
+      // Stream the run through the workflow API so progress shows up while it runs
+      const formData = new FormData()
+      formData.append('platform', platform)
+      formData.append('previewOnly', String(previewOnly))
+      formData.append('collectionMode', collectionMode)
+
+      if (source === 'import') {
+        if (!catalogFile) {
+          setError('Please choose a catalog file to import')
+          setIsSubmitting(false)
+          return
+        }
+
+        console.log('[ShopifyDataGenerator] Importing catalog file:', catalogFile.name)
+        formData.append('catalogFile', catalogFile.content)
+      } else {
+        // Validate categories
+        const validCategories = categories.filter((cat) => cat.category.trim())
+        if (validCategories.length === 0) {
+          setError('Please add at least one category')
+          setIsSubmitting(false)
+          return
+        }
+
+        console.log('[ShopifyDataGenerator] Starting workflow with categories:', validCategories)
+        console.log('[ShopifyDataGenerator] Sample image provided:', !!sampleImage)
+
+        formData.append('categories', JSON.stringify(validCategories))
+        formData.append('inventory', JSON.stringify(inventory))
+        formData.append('images', JSON.stringify(imageSettings))
+        formData.append('storeActivity', JSON.stringify(storeActivity))
+        formData.append('promotions', JSON.stringify(promotions))
+        formData.append('localization', JSON.stringify(localization))
+        formData.append('metafields', JSON.stringify(metafieldSchema))
+        if (sampleImage) {
+          formData.append('sampleImage', sampleImage)
+        }
+        if (brandProfileId) {
+          formData.append('brandProfileId', brandProfileId)
+        }
       }
 
-      console.log('[ShopifyDataGenerator] Starting workflow with categories:', validCategories)
-      console.log('[ShopifyDataGenerator] Sample image provided:', !!sampleImage)
+      console.log('[ShopifyDataGenerator] Target platform:', platform)
+      console.log('[ShopifyDataGenerator] Preview only:', previewOnly)
 
       setWorkflowStatus('Processing workflow...')
 
-      // Call the actual server action
-      const { triggerProductGeneratorWorkflow } = await import('@/app/actions/workflow')
-      const result = await triggerProductGeneratorWorkflow(validCategories, sampleImage)
+      const { workflowId: streamedWorkflowId, status, result } = await startWorkflow(formData)
 
       console.log('[ShopifyDataGenerator] Workflow result:', result)
 
-      setWorkflowId(`workflow-${Date.now()}`)
-      setWorkflowStatus(result.success ? 'completed' : 'failed')
+      setWorkflowId(streamedWorkflowId)
+
+      if (result.success && result.previewProducts) {
+        // Keep track of each item's position within its category so it can be regenerated
+        const categoryCounts: Record<string, number> = {}
+        setPreviewItems(
+          result.previewProducts.map((product, i) => {
+            const index = categoryCounts[product.category] ?? 0
+            categoryCounts[product.category] = index + 1
+            return { id: `${Date.now()}-${i}`, index, product, approved: true, regenerating: false }
+          }),
+        )
+        setPreviewRunId(result.runId ?? null)
+        setWorkflowStatus('preview')
+        return
+      }
+
+      setWorkflowStatus(status === 'cancelled' ? 'cancelled' : result.success ? 'completed' : 'failed')
       setWorkflowResult(result)
 
-      if (!result.success) {
+      if (!result.success && !result.cancelled) {
         setError(result.errors?.join(', ') || 'Workflow failed')
       }
     } catch (err) {
@@ -132,6 +267,94 @@ export function ShopifyDataGenerator() {
     }
   }
 
+  const handleCancel = async () => {
+    try {
+      await cancelWorkflow()
+    } catch (err) {
+      console.error('[ShopifyDataGenerator] Cancel error:', err)
+      setError(err instanceof Error ? err.message : 'Failed to cancel workflow')
+    }
+  }
+
+  const updatePreviewItem = (id: string, update: Partial<PreviewItem>) => {
+    setPreviewItems((items) => items.map((item) => (item.id === id ? { ...item, ...update } : item)))
+  }
+
+  const handlePreviewChange = (id: string, product: GeneratedProduct) => {
+    updatePreviewItem(id, { product })
+  }
+
+  const handleToggleApproved = (id: string) => {
+    setPreviewItems((items) => items.map((item) => (item.id === id ? { ...item, approved: !item.approved } : item)))
+  }
+
+  const handleRemovePreviewItem = (id: string) => {
+    setPreviewItems((items) => items.filter((item) => item.id !== id))
+  }
+
+  const handleRegenerate = async (id: string) => {
+    const item = previewItems.find((previewItem) => previewItem.id === id)
+    if (!item) return
+
+    updatePreviewItem(id, { regenerating: true })
+    try {
+      const { regeneratePreviewProduct } = await import('@/app/actions/workflow')
+      const product = await regeneratePreviewProduct(
+        item.product.category,
+        item.index,
+        sampleImage,
+        brandProfileId,
+        localization,
+        metafieldSchema,
+        // Keeps the collection and sale depth of the item it replaces
+        { collection: item.product.collection, variants: item.product.variants },
+      )
+      // Keep the persisted item ID and idempotency key so the regenerated product replaces the original in the run
+      updatePreviewItem(id, {
+        product: { ...product, itemId: item.product.itemId, idempotencyKey: item.product.idempotencyKey },
+        regenerating: false,
+      })
+    } catch (err) {
+      console.error('[ShopifyDataGenerator] Regenerate error:', err)
+      setError(err instanceof Error ? err.message : 'Failed to regenerate product')
+      updatePreviewItem(id, { regenerating: false })
+    }
+  }
+
+  const handleDiscardPreview = () => {
+    setPreviewItems([])
+    setWorkflowId(null)
+    setWorkflowStatus(null)
+  }
+
+  const handlePublish = async () => {
+    const approvedProducts = previewItems.filter((item) => item.approved).map((item) => item.product)
+    if (approvedProducts.length === 0) return
+
+    setError(null)
+    setIsPublishing(true)
+
+    try {
+      const { publishApprovedProducts } = await import('@/app/actions/workflow')
+      const result = await publishApprovedProducts(approvedProducts, platform, previewRunId, storeActivity, promotions)
+
+      console.log('[ShopifyDataGenerator] Publish result:', result)
+
+      setPreviewItems([])
+      setWorkflowStatus(result.success ? 'completed' : 'failed')
+      setWorkflowResult(result)
+
+      if (!result.success) {
+        setError(result.errors?.join(', ') || 'Publishing failed')
+      }
+    } catch (err) {
+      console.error('[ShopifyDataGenerator] Publish error:', err)
+      setError(err instanceof Error ? err.message : 'Failed to publish products')
+    } finally {
+      setIsPublishing(false)
+    }
+  }
+
   return (
     <div className="flex min-h-screen items-center justify-center bg-zinc-50 font-sans dark:bg-black">
       <main className="flex min-h-screen w-full max-w-7xl flex-col items-center justify-center py-16 px-8">
@@ -146,100 +369,234 @@ export function ShopifyDataGenerator() {
             {/* Product Generator Form */}
             <div className="mx-auto max-w-2xl space-y-6">
               <form onSubmit={handleSubmit} className="space-y-6">
-                <div className="space-y-4">
-                  {categories.map((cat, index) => (
-                    <div
-                      key={index}
-                      className="flex gap-4 rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900"
+                {/* Product Source */}
+                <div className="flex rounded-lg border border-zinc-200 bg-white p-1 dark:border-zinc-800 dark:bg-zinc-900">
+                  {(
+                    [
+                      ['generate', 'Generate with AI'],
+                      ['import', 'Import catalog file'],
+                      ['enrich', 'Enrich store catalog'],
+                    ] as const
+                  ).map(([value, label]) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => setSource(value)}
+                      className={`flex-1 rounded-md px-4 py-2 text-sm font-medium ${
+                        source === value
+                          ? 'bg-zinc-900 text-white dark:bg-zinc-100 dark:text-zinc-900'
+                          : 'text-zinc-600 hover:bg-zinc-50 dark:text-zinc-400 dark:hover:bg-zinc-800'
+                      }`}
                     >
-                      <div className="flex-1">
-                        <label className="mb-2 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
-                          Category Name
-                        </label>
-                        <input
-                          type="text"
-                          value={cat.category}
-                          onChange={(e) => updateCategory(index, 'category', e.target.value)}
-                          placeholder="e.g., Chairs"
-                          className="w-full rounded-md border border-zinc-300 px-3 py-2 text-black focus:border-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-white"
-                          required
-                        />
-                      </div>
-                      <div className="w-32">
-                        <label className="mb-2 block text-sm font-medium text-zinc-700 dark:text-zinc-300">Count</label>
-                        <input
-                          type="number"
-                          value={cat.count}
-                          onChange={(e) => updateCategory(index, 'count', parseInt(e.target.value) || 1)}
-                          min="1"
-                          max="100"
-                          className="w-full rounded-md border border-zinc-300 px-3 py-2 text-black focus:border-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-white"
-                          required
-                        />
-                      </div>
-                      {categories.length > 1 && (
-                        <button
-                          type="button"
-                          onClick={() => removeCategory(index)}
-                          className="mt-6 rounded-md bg-red-500 px-4 py-2 text-white hover:bg-red-600"
-                        >
-                          Remove
-                        </button>
-                      )}
-                    </div>
+                      {label}
+                    </button>
                   ))}
                 </div>
 
-                {categories.length < 10 && (
-                  <button
-                    type="button"
-                    onClick={addCategory}
-                    className="w-full rounded-md border border-zinc-300 bg-white px-4 py-2 text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-300 dark:hover:bg-zinc-800"
-                  >
-                    + Add Category ({categories.length}/10)
-                  </button>
-                )}
+                {source === 'generate' && (
+                  <>
+                    <div className="space-y-4">
+                      {categories.map((cat, index) => (
+                        <div
+                          key={index}
+                          className="flex gap-4 rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900"
+                        >
+                          <div className="flex-1">
+                            <label className="mb-2 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                              Category Name
+                            </label>
+                            <input
+                              type="text"
+                              value={cat.category}
+                              onChange={(e) => updateCategory(index, 'category', e.target.value)}
+                              placeholder="e.g., Chairs"
+                              className="w-full rounded-md border border-zinc-300 px-3 py-2 text-black focus:border-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-white"
+                              required
+                            />
+                          </div>
+                          <div className="w-32">
+                            <label className="mb-2 block text-sm font-medium text-zinc-700 dark:text-zinc-300">Count</label>
+                            <input
+                              type="number"
+                              value={cat.count}
+                              onChange={(e) => updateCategory(index, 'count', parseInt(e.target.value) || 1)}
+                              min="1"
+                              max="100"
+                              className="w-full rounded-md border border-zinc-300 px-3 py-2 text-black focus:border-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-white"
+                              required
+                            />
+                          </div>
+                          {categories.length > 1 && (
+                            <button
+                              type="button"
+                              onClick={() => removeCategory(index)}
+                              className="mt-6 rounded-md bg-red-500 px-4 py-2 text-white hover:bg-red-600"
+                            >
+                              Remove
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
 
-                {/* Sample Image Upload Section */}
-                <div className="rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
-                  <label className="mb-2 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
-                    Sample Product Image (Optional)
-                  </label>
-                  <p className="mb-3 text-xs text-zinc-500 dark:text-zinc-400">
-                    Upload a reference image to generate similar products
-                  </p>
-                  {sampleImage ? (
-                    <div className="space-y-2">
-                      <div className="relative w-full overflow-hidden rounded-md border border-zinc-300 dark:border-zinc-700">
-                        <Image
-                          src={sampleImage}
-                          alt="Sample product"
-                          width={400}
-                          height={300}
-                          className="h-auto w-full object-contain"
-                        />
-                      </div>
+                    {categories.length < 10 && (
                       <button
                         type="button"
-                        onClick={removeSampleImage}
-                        className="w-full rounded-md bg-red-500 px-3 py-1.5 text-sm text-white hover:bg-red-600"
+                        onClick={addCategory}
+                        className="w-full rounded-md border border-zinc-300 bg-white px-4 py-2 text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-300 dark:hover:bg-zinc-800"
                       >
-                        Remove Image
+                        + Add Category ({categories.length}/10)
                       </button>
-                    </div>
-                  ) : (
-                    <div>
-                      <input
-                        ref={fileInputRef}
-                        type="file"
-                        accept="image/*"
-                        onChange={handleImageUpload}
-                        className="w-full rounded-md border border-zinc-300 px-3 py-2 text-sm file:mr-4 file:rounded-md file:border-0 file:bg-zinc-900 file:px-4 file:py-1.5 file:text-sm file:font-medium file:text-white hover:file:bg-zinc-800 dark:border-zinc-700 dark:file:bg-zinc-100 dark:file:text-zinc-900"
-                      />
-                    </div>
-                  )}
+                    )}
+                  </>
+                )}
+
+                {source === 'import' && (
+                  <div className="rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+                    <label className="mb-2 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                      Catalog File
+                    </label>
+                    <p className="mb-3 text-xs text-zinc-500 dark:text-zinc-400">
+                      A Shopify product CSV, a BigCommerce import CSV or a JSON export. The products are published
+                      as they are, without AI generation.
+                    </p>
+                    <input
+                      ref={catalogFileInputRef}
+                      type="file"
+                      accept=".csv,.json,text/csv,application/json"
+                      onChange={handleCatalogFileUpload}
+                      className="w-full rounded-md border border-zinc-300 px-3 py-2 text-sm file:mr-4 file:rounded-md file:border-0 file:bg-zinc-900 file:px-4 file:py-1.5 file:text-sm file:font-medium file:text-white hover:file:bg-zinc-800 dark:border-zinc-700 dark:file:bg-zinc-100 dark:file:text-zinc-900"
+                    />
+                    {catalogFile && <p className="mt-2 text-xs text-zinc-500">Selected: {catalogFile.name}</p>}
+                  </div>
+                )}
+
+                {/* Target Platform */}
+                <div className="rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+                  <label className="mb-2 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                    Target Platform
+                  </label>
+                  {/* Previewed items are published to the store they were generated for */}
+                  <select
+                    value={platform}
+                    onChange={(e) => setPlatform(e.target.value as Platform)}
+                    disabled={previewItems.length > 0}
+                    className="w-full rounded-md border border-zinc-300 px-3 py-2 text-black focus:border-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-500 disabled:cursor-not-allowed disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-white"
+                  >
+                    <option value="shopify">Shopify</option>
+                    <option value="bigcommerce">BigCommerce</option>
+                  </select>
                 </div>
 
+                {source !== 'enrich' && (
+                  <label className="flex items-center gap-3 rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+                    <input
+                      type="checkbox"
+                      checked={previewOnly}
+                      onChange={(e) => setPreviewOnly(e.target.checked)}
+                      className="h-4 w-4"
+                    />
+                    <span>
+                      <span className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                        Preview before publishing
+                      </span>
+                      <span className="block text-xs text-zinc-500 dark:text-zinc-400">
+                        Review and edit the generated products before anything is written to the store
+                      </span>
+                    </span>
+                  </label>
+                )}
+
+                {/* Brand Profile */}
+                {source !== 'import' && (
+                  <div className="rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+                    <BrandProfileSelect value={brandProfileId} onChange={setBrandProfileId} />
+                  </div>
+                )}
+
+                {/* Store Catalog Enrichment */}
+                {source === 'enrich' && <CatalogEnricher platform={platform} brandProfileId={brandProfileId} />}
+
+                {/* Store Collections */}
+                {source !== 'enrich' && (
+                  <div className="rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+                    <label className="mb-2 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                      Collections
+                    </label>
+                    <select
+                      value={collectionMode}
+                      onChange={(e) => setCollectionMode(e.target.value as CollectionMode)}
+                      className="w-full rounded-md border border-zinc-300 px-3 py-2 text-black focus:border-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-white"
+                    >
+                      <option value="smart">Smart collection per category (matched by product type)</option>
+                      <option value="custom">Custom collection per category</option>
+                      <option value="none">Don&apos;t create collections</option>
+                    </select>
+                  </div>
+                )}
+
+                {source === 'generate' && (
+                  <>
+                    {/* Inventory & Shipping Ranges */}
+                    <InventorySettingsFields value={inventory} onChange={setInventory} />
+
+                    {/* Image Angles */}
+                    <ImageSettingsFields value={imageSettings} onChange={setImageSettings} />
+
+                    {/* Customers, Orders & Reviews */}
+                    <StoreActivitySettingsFields value={storeActivity} onChange={setStoreActivity} />
+
+                    {/* Sales, Discounts & Price Lists */}
+                    <PromotionSettingsFields value={promotions} onChange={setPromotions} />
+
+                    {/* Languages & Currencies */}
+                    <LocalizationSettingsFields value={localization} onChange={setLocalization} />
+
+                    {/* Custom Fields */}
+                    <MetafieldSchemaFields value={metafieldSchema} onChange={setMetafieldSchema} />
+
+                    {/* Sample Image Upload Section */}
+                    <div className="rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+                      <label className="mb-2 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                        Sample Product Image (Optional)
+                      </label>
+                      <p className="mb-3 text-xs text-zinc-500 dark:text-zinc-400">
+                        Upload a reference image to generate similar products
+                      </p>
+                      {sampleImage ? (
+                        <div className="space-y-2">
+                          <div className="relative w-full overflow-hidden rounded-md border border-zinc-300 dark:border-zinc-700">
+                            <Image
+                              src={sampleImage}
+                              alt="Sample product"
+                              width={400}
+                              height={300}
+                              className="h-auto w-full object-contain"
+                            />
+                          </div>
+                          <button
+                            type="button"
+                            onClick={removeSampleImage}
+                            className="w-full rounded-md bg-red-500 px-3 py-1.5 text-sm text-white hover:bg-red-600"
+                          >
+                            Remove Image
+                          </button>
+                        </div>
+                      ) : (
+                        <div>
+                          <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept="image/*"
+                            onChange={handleImageUpload}
+                            className="w-full rounded-md border border-zinc-300 px-3 py-2 text-sm file:mr-4 file:rounded-md file:border-0 file:bg-zinc-900 file:px-4 file:py-1.5 file:text-sm file:font-medium file:text-white hover:file:bg-zinc-800 dark:border-zinc-700 dark:file:bg-zinc-100 dark:file:text-zinc-900"
+                          />
+                        </div>
+                      )}
+                    </div>
+                  </>
+                )}
+
                 {error && (
                   <div className="rounded-md bg-red-50 p-4 text-red-700 dark:bg-red-900/20 dark:text-red-400">
                     {error}
@@ -248,20 +605,23 @@ export function ShopifyDataGenerator() {
 
                 {/* Workflow Status */}
                 {isSubmitting && (
-                  <div className="rounded-md bg-blue-50 p-4 dark:bg-blue-900/20">
-                    <div className="flex items-center gap-3">
-                      <div className="h-5 w-5 animate-spin rounded-full border-2 border-blue-600 border-t-transparent"></div>
-                      <div>
-                        <p className="font-medium text-blue-900 dark:text-blue-100">
-                          {workflowStatus || 'Processing workflow...'}
-                        </p>
-                        <p className="text-sm text-blue-700 dark:text-blue-300">This may take a few minutes</p>
-                      </div>
-                    </div>
-                  </div>
+                  <WorkflowProgress progress={progress} publishes={!previewOnly} onCancel={handleCancel} />
                 )}
 
-                {workflowId && !isSubmitting && (
+                {previewItems.length > 0 && !isSubmitting && (
+                  <GeneratedProductPreview
+                    items={previewItems}
+                    isPublishing={isPublishing}
+                    onChange={handlePreviewChange}
+                    onToggleApproved={handleToggleApproved}
+                    onRemove={handleRemovePreviewItem}
+                    onRegenerate={handleRegenerate}
+                    onPublish={handlePublish}
+                    onDiscard={handleDiscardPreview}
+                  />
+                )}
+
+                {workflowId && !isSubmitting && workflowStatus !== 'preview' && (
                   <div className="space-y-3">
                     {/* v0 Project Link - Show above results when available */}
                     {workflowResult?.v0ProjectUrl && (
@@ -295,17 +655,21 @@ export function ShopifyDataGenerator() {
                       className={`rounded-md p-4 ${
                         workflowStatus === 'completed'
                           ? 'bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400'
-                          : workflowStatus === 'failed'
-                            ? 'bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-400'
-                            : 'bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-400'
+                          : workflowStatus === 'cancelled'
+                            ? 'bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300'
+                            : workflowStatus === 'failed'
+                              ? 'bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-400'
+                              : 'bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-400'
                       }`}
                     >
                       <p className="font-medium">
                         {workflowStatus === 'completed'
                           ? 'Workflow completed successfully!'
-                          : workflowStatus === 'failed'
-                            ? 'Workflow failed'
-                            : 'Workflow started'}
+                          : workflowStatus === 'cancelled'
+                            ? 'Workflow cancelled'
+                            : workflowStatus === 'failed'
+                              ? 'Workflow failed'
+                              : 'Workflow started'}
                       </p>
                       <p className="mt-1 text-sm">ID: {workflowId}</p>
                     </div>
@@ -317,6 +681,18 @@ export function ShopifyDataGenerator() {
                           <p>Success: {workflowResult.success ? 'Yes' : 'No'}</p>
                           <p>Total Products: {workflowResult.totalProducts || 0}</p>
                           <p>Created: {workflowResult.createdProducts?.length || 0}</p>
+                          {workflowResult.storeActivity && (
+                            <p>
+                              Customers: {workflowResult.storeActivity.customers}, Orders:{' '}
+                              {workflowResult.storeActivity.orders}, Reviews: {workflowResult.storeActivity.reviews}
+                            </p>
+                          )}
+                          {workflowResult.promotions && (
+                            <p>
+                              On sale: {workflowResult.promotions.salePrices}, Discounts:{' '}
+                              {workflowResult.promotions.discounts}, Price lists: {workflowResult.promotions.priceLists}
+                            </p>
+                          )}
                           {workflowResult.errors && workflowResult.errors.length > 0 && (
                             <div className="mt-2">
                               <p className="font-medium text-red-600 dark:text-red-400">Errors:</p>
@@ -333,13 +709,15 @@ export function ShopifyDataGenerator() {
                   </div>
                 )}
 
-                <button
-                  type="submit"
-                  disabled={isSubmitting}
-                  className="w-full rounded-md bg-zinc-900 px-6 py-3 text-lg font-medium text-white transition-colors hover:bg-zinc-800 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200"
-                >
-                  {isSubmitting ? 'Starting Workflow...' : 'Generate Products'}
-                </button>
+                {source !== 'enrich' && (
+                  <button
+                    type="submit"
+                    disabled={isSubmitting || isPublishing}
+                    className="w-full rounded-md bg-zinc-900 px-6 py-3 text-lg font-medium text-white transition-colors hover:bg-zinc-800 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200"
+                  >
+                    {isSubmitting ? 'Starting Workflow...' : previewOnly ? 'Generate Preview' : 'Generate Products'}
+                  </button>
+                )}
               </form>
             </div>
           </div>
@@ -0,0 +1,68 @@
+'use client'
+
+import {
+  MAX_ACTIVITY_CUSTOMERS,
+  MAX_ACTIVITY_HISTORY_DAYS,
+  type StoreActivitySettings,
+} from '@/app/workflows/product-generator/store-activity'
+
+interface StoreActivitySettingsFieldsProps {
+  value: StoreActivitySettings
+  onChange: (value: StoreActivitySettings) => void
+}
+
+const inputClassName =
+  'w-full rounded-md border border-zinc-300 px-3 py-2 text-black focus:border-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-500 disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-white'
+
+export function StoreActivitySettingsFields({ value, onChange }: StoreActivitySettingsFieldsProps) {
+  const disabled = value.customers === 0
+
+  return (
+    <div className="rounded-lg border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+      <label className="mb-1 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+        Customers, Orders & Reviews
+      </label>
+      <p className="mb-3 text-xs text-zinc-500 dark:text-zinc-400">
+        After publishing, create customers with personas, their order history and reviews for the new products. Leave
+        customers at 0 to skip.
+      </p>
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+        <div>
+          <span className="mb-1 block text-xs font-medium text-zinc-600 dark:text-zinc-400">Customers</span>
+          <input
+            type="number"
+            min={0}
+            max={MAX_ACTIVITY_CUSTOMERS}
+            value={value.customers}
+            onChange={(e) => onChange({ ...value, customers: parseInt(e.target.value) || 0 })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <span className="mb-1 block text-xs font-medium text-zinc-600 dark:text-zinc-400">Order history (days)</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_ACTIVITY_HISTORY_DAYS}
+            value={value.historyDays}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...value, historyDays: parseInt(e.target.value) || 1 })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <span className="mb-1 block text-xs font-medium text-zinc-600 dark:text-zinc-400">Purchases reviewed (%)</span>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={Math.round(value.reviewRate * 100)}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...value, reviewRate: (parseInt(e.target.value) || 0) / 100 })}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+'use client'
+
+import Image from 'next/image'
+import type { WorkflowProgressState } from '@/lib/hooks/use-workflow-stream'
+
+interface WorkflowProgressProps {
+  progress: WorkflowProgressState
+  // Whether the run publishes to the store after generating (false in preview mode)
+  publishes: boolean
+  onCancel: () => void
+}
+
+export function WorkflowProgress({ progress, publishes, onCancel }: WorkflowProgressProps) {
+  const generationDone = progress.generated + progress.generationFailed
+  const publishDone = progress.created + progress.createFailed
+
+  // Generation is the first half of the bar and publishing the second; preview runs stop at generation
+  const generationShare = progress.totalProducts > 0 ? generationDone / progress.totalProducts : 0
+  const publishShare = progress.publishTotal > 0 ? publishDone / progress.publishTotal : 0
+  const percent = Math.round(
+    !publishes ? generationShare * 100 : progress.phase === 'publishing' ? 50 + publishShare * 50 : generationShare * 50,
+  )
+
+  return (
+    <div className="space-y-3 rounded-md bg-blue-50 p-4 dark:bg-blue-900/20">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <p className="font-medium text-blue-900 dark:text-blue-100">
+            {progress.phase === 'publishing'
+              ? `Publishing ${publishDone}/${progress.publishTotal}`
+              : progress.totalProducts > 0
+                ? `Generating ${generationDone}/${progress.totalProducts}`
+                : 'Starting workflow…'}
+          </p>
+          {progress.lastMessage && (
+            <p className="max-w-md truncate text-sm text-blue-700 dark:text-blue-300">{progress.lastMessage}</p>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={progress.cancelled}
+          className="rounded-md border border-blue-300 bg-white px-3 py-1.5 text-sm text-blue-900 hover:bg-blue-100 disabled:opacity-50 dark:border-blue-700 dark:bg-blue-950 dark:text-blue-100"
+        >
+          {progress.cancelled ? 'Cancelling…' : 'Cancel'}
+        </button>
+      </div>
+
+      <div className="h-2 w-full overflow-hidden rounded-full bg-blue-100 dark:bg-blue-950">
+        <div className="h-full bg-blue-600 transition-all" style={{ width: `${percent}%` }} />
+      </div>
+
+      <p className="text-xs text-blue-700 dark:text-blue-300">
+        {progress.generated} generated
+        {progress.generationFailed > 0 && `, ${progress.generationFailed} failed`}
+        {progress.placeholderRetries > 0 && `, ${progress.placeholderRetries} image retries`}
+        {progress.publishTotal > 0 &&
+          ` · ${progress.created} created, ${progress.imagesUploaded} images uploaded` +
+            (progress.createFailed + progress.imagesFailed > 0
+              ? `, ${progress.createFailed + progress.imagesFailed} store errors`
+              : '')}
+      </p>
+
+      {progress.thumbnails.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {progress.thumbnails.map((thumbnail) => (
+            <Image
+              key={thumbnail.key}
+              src={thumbnail.image}
+              alt={thumbnail.title}
+              title={thumbnail.title}
+              width={48}
+              height={48}
+              unoptimized
+              className="h-12 w-12 rounded object-cover"
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
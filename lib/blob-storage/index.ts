@@ -0,0 +1,19 @@
+import type { BlobStore } from './types'
+import { createLocalBlobStore } from './local'
+import { createVercelBlobStore } from './vercel-blob'
+
+export type { BlobStore } from './types'
+
+let blobStore: BlobStore | null = null
+
+/**
+ * The configured object store: Vercel Blob when BLOB_READ_WRITE_TOKEN is set, otherwise the
+ * local filesystem (for development)
+ */
+export function getBlobStore(): BlobStore {
+  if (!blobStore) {
+    const token = process.env.BLOB_READ_WRITE_TOKEN
+    blobStore = token ? createVercelBlobStore(token) : createLocalBlobStore()
+  }
+  return blobStore
+}
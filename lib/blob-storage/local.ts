@@ -0,0 +1,73 @@
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import path from 'path'
+import type { BlobStore } from './types'
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+}
+
+export function getLocalBlobDirectory(): string {
+  return path.resolve(process.env.BLOB_STORAGE_DIR || '.blob-storage')
+}
+
+/**
+ * Resolve a blob key to a path inside the storage directory, rejecting keys that try to escape it
+ */
+export function resolveLocalBlobPath(key: string): string | null {
+  const directory = getLocalBlobDirectory()
+  const filePath = path.resolve(directory, key)
+  return filePath.startsWith(`${directory}${path.sep}`) ? filePath : null
+}
+
+export function getLocalBlobContentType(filePath: string): string {
+  return CONTENT_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream'
+}
+
+/**
+ * Filesystem store for development. Files are served by /api/blobs, so their URLs are only
+ * reachable from outside when BLOB_PUBLIC_BASE_URL points at a public address (such as a tunnel).
+ */
+export function createLocalBlobStore(): BlobStore {
+  const publicBaseUrl = process.env.BLOB_PUBLIC_BASE_URL?.replace(/\/$/, '')
+  const baseUrl = `${publicBaseUrl || `http://localhost:${process.env.PORT || 3000}`}/api/blobs`
+
+  const keyFromUrl = (url: string) => (url.startsWith(`${baseUrl}/`) ? decodeURI(url.slice(baseUrl.length + 1)) : null)
+
+  return {
+    name: 'local',
+    publiclyReachable: !!publicBaseUrl,
+
+    async put(key, data) {
+      const filePath = resolveLocalBlobPath(key)
+      if (!filePath) {
+        throw new Error(`Invalid blob key: ${key}`)
+      }
+
+      await mkdir(path.dirname(filePath), { recursive: true })
+      await writeFile(filePath, data)
+      return `${baseUrl}/${encodeURI(key)}`
+    },
+
+    owns(url) {
+      const key = keyFromUrl(url)
+      return !!key && !!resolveLocalBlobPath(key)
+    },
+
+    async get(url) {
+      const key = keyFromUrl(url)
+      const filePath = key ? resolveLocalBlobPath(key) : null
+      if (!filePath) {
+        return null
+      }
+
+      try {
+        return { data: await readFile(filePath), contentType: getLocalBlobContentType(filePath) }
+      } catch {
+        return null
+      }
+    },
+  }
+}
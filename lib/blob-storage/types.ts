@@ -0,0 +1,18 @@
+/**
+ * An object store for generated files. Files are written once and passed around by URL,
+ * so large payloads such as product images never live in memory or workflow state.
+ */
+export interface BlobStore {
+  readonly name: 'local' | 'vercel-blob'
+  /**
+   * Whether other services (such as a commerce platform fetching an image) can download the URLs.
+   * Local development URLs usually point at localhost.
+   */
+  readonly publiclyReachable: boolean
+  /** Write a file under a key such as "products/<id>/front.png" and return its URL */
+  put(key: string, data: Buffer, contentType: string): Promise<string>
+  /** Whether a URL points at a file in this store, as returned by put() */
+  owns(url: string): boolean
+  /** Read a file back by the URL put() returned, or null if it does not exist or belongs elsewhere */
+  get(url: string): Promise<{ data: Buffer; contentType: string } | null>
+}
@@ -0,0 +1,82 @@
+import type { BlobStore } from './types'
+
+const VERCEL_BLOB_API_URL = process.env.VERCEL_BLOB_API_URL || 'https://vercel.com/api/blob'
+const VERCEL_BLOB_API_VERSION = '7'
+const VERCEL_BLOB_HOST_SUFFIX = '.public.blob.vercel-storage.com'
+
+/**
+ * The host of the store's public URLs, taken from the store ID in read-write tokens
+ * ("vercel_blob_rw_<storeId>_<secret>"). Null for tokens in another format.
+ */
+function getStoreHost(token: string): string | null {
+  const storeId = token.match(/^vercel_blob_rw_([a-z0-9]+)_/i)?.[1]
+  return storeId ? `${storeId.toLowerCase()}${VERCEL_BLOB_HOST_SUFFIX}` : null
+}
+
+/**
+ * Vercel Blob store, written to through its REST API. Blob URLs are public, so commerce
+ * platforms can download images from them directly.
+ */
+export function createVercelBlobStore(token: string): BlobStore {
+  const storeHost = getStoreHost(token)
+
+  // URLs can come from the client, so only this store's files are ever fetched
+  const owns = (url: string) => {
+    try {
+      const { protocol, hostname } = new URL(url)
+      return (
+        protocol === 'https:' && (storeHost ? hostname === storeHost : hostname.endsWith(VERCEL_BLOB_HOST_SUFFIX))
+      )
+    } catch {
+      return false
+    }
+  }
+
+  return {
+    name: 'vercel-blob',
+    publiclyReachable: true,
+
+    async put(key, data, contentType) {
+      const response = await fetch(`${VERCEL_BLOB_API_URL}/?pathname=${encodeURIComponent(key)}`, {
+        method: 'PUT',
+        headers: {
+          authorization: `Bearer ${token}`,
+          'x-api-version': VERCEL_BLOB_API_VERSION,
+          'x-content-type': contentType,
+          // Keys already contain the product's idempotency key, so a retried upload replaces the same file
+          'x-add-random-suffix': '0',
+          'x-allow-overwrite': '1',
+        },
+        body: new Uint8Array(data),
+      })
+
+      if (!response.ok) {
+        throw new Error(`Vercel Blob upload failed: ${response.status} - ${await response.text()}`)
+      }
+
+      const result = await response.json()
+      return result.url as string
+    },
+
+    owns,
+
+    async get(url) {
+      if (!owns(url)) {
+        return null
+      }
+
+      const response = await fetch(url)
+      if (response.status === 404) {
+        return null
+      }
+      if (!response.ok) {
+        throw new Error(`Vercel Blob download failed: ${response.status}`)
+      }
+
+      return {
+        data: Buffer.from(await response.arrayBuffer()),
+        contentType: response.headers.get('content-type') ?? 'application/octet-stream',
+      }
+    },
+  }
+}
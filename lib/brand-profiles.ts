@@ -0,0 +1,80 @@
+import { createHash } from 'crypto'
+import { z } from 'zod'
+import { getBlobStore } from '@/lib/blob-storage'
+import type { BrandProfileFields } from '@/lib/db/brand-profiles'
+import { isImageUrl, parseImageDataUri } from '@/app/workflows/product-generator/adapters/utils'
+import {
+  isHexColor,
+  MAX_BRAND_PALETTE_COLORS,
+  MAX_BRAND_REFERENCE_IMAGES,
+} from '@/app/workflows/product-generator/brand-profile'
+
+const MAX_REFERENCE_IMAGE_BYTES = 5 * 1024 * 1024
+
+function isValidReferenceImage(image: string): boolean {
+  if (isImageUrl(image)) {
+    return true
+  }
+
+  const parsed = image.startsWith('data:image/') ? parseImageDataUri(image) : null
+  return !!parsed && parsed.extension !== 'svg' && Buffer.byteLength(parsed.base64, 'base64') <= MAX_REFERENCE_IMAGE_BYTES
+}
+
+export const brandProfileInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  toneOfVoice: z.string().trim().max(500).default(''),
+  targetAudience: z.string().trim().max(500).default(''),
+  priceBand: z
+    .object({ min: z.number().nonnegative(), max: z.number().positive() })
+    .refine((band) => band.min < band.max, 'The minimum price must be below the maximum price')
+    .nullable()
+    .default(null),
+  forbiddenWords: z
+    .array(z.string().trim().min(1).max(50))
+    .max(50, 'At most 50 forbidden words')
+    .transform((words) => [...new Set(words.map((word) => word.toLowerCase()))])
+    .default([]),
+  colorPalette: z
+    .array(z.string().trim().refine(isHexColor, 'Colours must be hex codes such as "#1a1a1a"'))
+    .max(MAX_BRAND_PALETTE_COLORS, `At most ${MAX_BRAND_PALETTE_COLORS} colours`)
+    .transform((colors) => [...new Set(colors.map((color) => color.toLowerCase()))])
+    .default([]),
+  // Data URIs for new uploads, or URLs of images the profile already has
+  referenceImages: z
+    .array(z.string().refine(isValidReferenceImage, 'Reference images must be PNG, JPEG or WebP files of at most 5 MB'))
+    .max(MAX_BRAND_REFERENCE_IMAGES, `At most ${MAX_BRAND_REFERENCE_IMAGES} reference images`)
+    .default([]),
+})
+
+export type BrandProfileInput = z.infer<typeof brandProfileInputSchema>
+
+/**
+ * Turn validated input into the fields to save: new uploads are written to blob storage and
+ * replaced by their URLs. URLs the profile does not already have are dropped, so a profile can
+ * never point the image model at an arbitrary address.
+ */
+export async function prepareBrandProfileFields(
+  profileId: string,
+  input: BrandProfileInput,
+  existingReferenceImages: string[] = [],
+): Promise<BrandProfileFields> {
+  const blobStore = getBlobStore()
+
+  const referenceImages = await Promise.all(
+    input.referenceImages
+      .filter((image) => !isImageUrl(image) || existingReferenceImages.includes(image))
+      .map(async (image) => {
+        const parsed = parseImageDataUri(image)
+        if (isImageUrl(image) || !parsed) {
+          return image
+        }
+
+        // Content-addressed keys, so saving the same upload twice does not duplicate the file
+        const data = Buffer.from(parsed.base64, 'base64')
+        const hash = createHash('sha256').update(data).digest('hex').slice(0, 16)
+        return blobStore.put(`brand-profiles/${profileId}/${hash}.${parsed.extension}`, data, parsed.mimeType)
+      }),
+  )
+
+  return { ...input, referenceImages }
+}
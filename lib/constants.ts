@@ -7,3 +7,17 @@ export const VERCEL_DEPLOY_URL =
 
 // Vercel button URL for markdown
 export const VERCEL_DEPLOY_BUTTON_URL = `[![Deploy with Vercel](https://vercel.com/button)](${VERCEL_DEPLOY_URL})`
+
+// Product generator models (AI Gateway model IDs), overridable per user through settings
+export const DEFAULT_PRODUCT_TEXT_MODEL = process.env.PRODUCT_TEXT_MODEL || 'google/gemini-2.5-flash'
+export const DEFAULT_PRODUCT_IMAGE_MODEL = process.env.PRODUCT_IMAGE_MODEL || 'google/gemini-2.5-flash-image-preview'
+
+// A concurrency limit from the environment, falling back to the default unless it is a positive integer
+const parseConcurrency = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value)
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback
+}
+
+// How many products are generated, and written to the store, at the same time
+export const PRODUCT_GENERATION_CONCURRENCY = parseConcurrency(process.env.PRODUCT_GENERATION_CONCURRENCY, 4)
+export const STORE_WRITE_CONCURRENCY = parseConcurrency(process.env.STORE_WRITE_CONCURRENCY, 2)
@@ -0,0 +1,87 @@
+import { db } from './client'
+import { brandProfiles, type BrandProfile } from './schema'
+import { eq, and, asc } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+
+export type BrandProfileFields = Pick<
+  BrandProfile,
+  'name' | 'toneOfVoice' | 'targetAudience' | 'priceBand' | 'forbiddenWords' | 'colorPalette' | 'referenceImages'
+>
+
+/**
+ * List a user's brand profiles in alphabetical order
+ */
+export async function getBrandProfiles(userId: string): Promise<BrandProfile[]> {
+  const profiles = await db
+    .select()
+    .from(brandProfiles)
+    .where(eq(brandProfiles.userId, userId))
+    .orderBy(asc(brandProfiles.name))
+
+  return profiles as BrandProfile[]
+}
+
+/**
+ * Get a single brand profile. Returns null if the profile does not belong to the user.
+ */
+export async function getBrandProfile(profileId: string, userId: string): Promise<BrandProfile | null> {
+  const [profile] = await db
+    .select()
+    .from(brandProfiles)
+    .where(and(eq(brandProfiles.id, profileId), eq(brandProfiles.userId, userId)))
+    .limit(1)
+
+  return (profile as BrandProfile | undefined) ?? null
+}
+
+/**
+ * Create a brand profile for a user.
+ *
+ * @param id - Optional ID, for callers that need it up front (e.g. to key stored reference images)
+ * @returns The new profile
+ */
+export async function createBrandProfile(
+  userId: string,
+  data: BrandProfileFields,
+  id: string = nanoid(),
+): Promise<BrandProfile> {
+  const [profile] = await db
+    .insert(brandProfiles)
+    .values({ id, userId, ...data })
+    .returning()
+
+  return profile as BrandProfile
+}
+
+/**
+ * Replace the fields of a user's brand profile.
+ *
+ * @returns The updated profile, or null if it does not belong to the user
+ */
+export async function updateBrandProfile(
+  profileId: string,
+  userId: string,
+  data: BrandProfileFields,
+): Promise<BrandProfile | null> {
+  const [profile] = await db
+    .update(brandProfiles)
+    .set({ ...data, updatedAt: new Date() })
+    .where(and(eq(brandProfiles.id, profileId), eq(brandProfiles.userId, userId)))
+    .returning()
+
+  return (profile as BrandProfile | undefined) ?? null
+}
+
+/**
+ * Delete a user's brand profile. Runs generated with it keep their products and lose the reference.
+ *
+ * @returns Whether a profile was deleted
+ */
+export async function deleteBrandProfile(profileId: string, userId: string): Promise<boolean> {
+  const deleted = await db
+    .delete(brandProfiles)
+    .where(and(eq(brandProfiles.id, profileId), eq(brandProfiles.userId, userId)))
+    .returning({ id: brandProfiles.id })
+
+  return deleted.length > 0
+}
@@ -0,0 +1,265 @@
+import { db } from './client'
+import { generationRuns, generationItems, type GenerationRun, type GenerationItem } from './schema'
+import { eq, and, desc, inArray, notInArray, sql } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+
+type ItemStatus = GenerationItem['status']
+
+export interface GenerationRunSummary extends GenerationRun {
+  itemCount: number
+  publishedCount: number
+  failedCount: number
+}
+
+/**
+ * Create a generation run for a user before the workflow starts.
+ *
+ * @returns The new run ID
+ */
+export async function createGenerationRun(
+  data: Pick<GenerationRun, 'userId' | 'platform' | 'categories'> & {
+    previewOnly?: boolean
+    brandProfileId?: string | null
+  },
+): Promise<string> {
+  const id = nanoid()
+
+  await db.insert(generationRuns).values({
+    id,
+    userId: data.userId,
+    platform: data.platform,
+    categories: data.categories,
+    brandProfileId: data.brandProfileId ?? null,
+    previewOnly: data.previewOnly ?? false,
+    status: 'processing',
+  })
+
+  return id
+}
+
+/**
+ * Move a failed or cancelled run back to processing, in one statement so that of two concurrent resumes
+ * only one claims the run. Returns false when the run was not in a resumable state.
+ */
+export async function claimGenerationRunForResume(runId: string): Promise<boolean> {
+  const claimed = await db
+    .update(generationRuns)
+    .set({ status: 'processing', errors: null, updatedAt: new Date() })
+    .where(and(eq(generationRuns.id, runId), inArray(generationRuns.status, ['failed', 'cancelled'])))
+    .returning({ id: generationRuns.id })
+
+  return claimed.length > 0
+}
+
+/**
+ * Update a run's status and result fields. Sets completedAt once the run is finished.
+ */
+export async function updateGenerationRun(
+  runId: string,
+  data: Partial<Pick<GenerationRun, 'status' | 'storeId' | 'totalProducts' | 'errors'>>,
+): Promise<void> {
+  const finished = data.status === 'completed' || data.status === 'failed' || data.status === 'cancelled'
+
+  await db
+    .update(generationRuns)
+    .set({
+      ...data,
+      updatedAt: new Date(),
+      ...(finished ? { completedAt: new Date() } : {}),
+    })
+    .where(eq(generationRuns.id, runId))
+}
+
+/**
+ * Insert the generated products of a run, keeping their order.
+ *
+ * @returns The item IDs in the same order as the products
+ */
+export async function insertGenerationItems(
+  runId: string,
+  products: Array<{ title: string; category: string; idempotencyKey?: string } & Record<string, unknown>>,
+): Promise<string[]> {
+  if (products.length === 0) {
+    return []
+  }
+
+  const rows = products.map((product, position) => ({
+    id: nanoid(),
+    runId,
+    position,
+    category: product.category,
+    title: product.title,
+    product,
+    idempotencyKey: product.idempotencyKey ?? null,
+    status: 'generated' as const,
+  }))
+
+  await db.insert(generationItems).values(rows)
+
+  return rows.map((row) => row.id)
+}
+
+/**
+ * Record the outcome of an item (published, failed, edited in preview, ...). Item IDs come from the
+ * client, so only items of the given (already authorized) run are matched.
+ */
+export async function updateGenerationItem(
+  runId: string,
+  itemId: string,
+  data: {
+    status?: ItemStatus
+    storeProductId?: string | null
+    error?: string | null
+    product?: { title: string } & Record<string, unknown>
+    imagesUploadedAt?: Date
+  },
+): Promise<void> {
+  await db
+    .update(generationItems)
+    .set({
+      ...(data.status ? { status: data.status } : {}),
+      ...(data.storeProductId !== undefined ? { storeProductId: data.storeProductId } : {}),
+      ...(data.error !== undefined ? { error: data.error } : {}),
+      ...(data.product ? { product: data.product, title: data.product.title } : {}),
+      ...(data.status === 'published' ? { publishedAt: new Date() } : {}),
+      ...(data.imagesUploadedAt ? { imagesUploadedAt: data.imagesUploadedAt } : {}),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(generationItems.runId, runId), eq(generationItems.id, itemId)))
+}
+
+/**
+ * Checkpoint that an item's images were uploaded so a resumed run does not upload them twice
+ */
+export async function markGenerationItemImagesUploaded(runId: string, idempotencyKey: string): Promise<void> {
+  await db
+    .update(generationItems)
+    .set({ imagesUploadedAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(generationItems.runId, runId), eq(generationItems.idempotencyKey, idempotencyKey)))
+}
+
+/**
+ * Checkpoint how many of an item's images are attached so far, so a resumed run continues after them
+ */
+export async function markGenerationItemImagesAttached(
+  runId: string,
+  idempotencyKey: string,
+  imagesAttached: number,
+): Promise<void> {
+  await db
+    .update(generationItems)
+    .set({ imagesAttached, updatedAt: new Date() })
+    .where(and(eq(generationItems.runId, runId), eq(generationItems.idempotencyKey, idempotencyKey)))
+}
+
+/**
+ * Get how far each item of a run got, keyed by idempotency key, so a resumed run can skip finished work
+ */
+export async function getGenerationItemCheckpoints(
+  runId: string,
+): Promise<Map<string, { storeProductId: string | null; imagesUploadedAt: Date | null; imagesAttached: number }>> {
+  const items = await db
+    .select({
+      idempotencyKey: generationItems.idempotencyKey,
+      storeProductId: generationItems.storeProductId,
+      imagesUploadedAt: generationItems.imagesUploadedAt,
+      imagesAttached: generationItems.imagesAttached,
+    })
+    .from(generationItems)
+    .where(eq(generationItems.runId, runId))
+
+  return new Map(
+    items
+      .filter((item): item is typeof item & { idempotencyKey: string } => !!item.idempotencyKey)
+      .map((item) => [
+        item.idempotencyKey,
+        {
+          storeProductId: item.storeProductId,
+          imagesUploadedAt: item.imagesUploadedAt,
+          imagesAttached: item.imagesAttached,
+        },
+      ]),
+  )
+}
+
+/**
+ * Mark every still-unpublished item of a run that is not in keepItemIds as discarded
+ */
+export async function discardGenerationItems(runId: string, keepItemIds: string[]): Promise<void> {
+  const conditions = [eq(generationItems.runId, runId), eq(generationItems.status, 'generated' as ItemStatus)]
+  if (keepItemIds.length > 0) {
+    conditions.push(notInArray(generationItems.id, keepItemIds))
+  }
+
+  await db
+    .update(generationItems)
+    .set({ status: 'discarded', updatedAt: new Date() })
+    .where(and(...conditions))
+}
+
+/**
+ * List a user's runs, newest first, with per-status item counts
+ */
+export async function getGenerationRuns(userId: string, limit: number = 50): Promise<GenerationRunSummary[]> {
+  const runs = await db
+    .select()
+    .from(generationRuns)
+    .where(eq(generationRuns.userId, userId))
+    .orderBy(desc(generationRuns.createdAt))
+    .limit(limit)
+
+  if (runs.length === 0) {
+    return []
+  }
+
+  const counts = await db
+    .select({
+      runId: generationItems.runId,
+      itemCount: sql<number>`count(*)::int`,
+      publishedCount: sql<number>`count(*) filter (where ${generationItems.status} = 'published')::int`,
+      failedCount: sql<number>`count(*) filter (where ${generationItems.status} = 'failed')::int`,
+    })
+    .from(generationItems)
+    .where(
+      inArray(
+        generationItems.runId,
+        runs.map((run) => run.id),
+      ),
+    )
+    .groupBy(generationItems.runId)
+
+  const countsByRun = new Map(counts.map((count) => [count.runId, count]))
+
+  return runs.map((run) => ({
+    ...(run as GenerationRun),
+    itemCount: countsByRun.get(run.id)?.itemCount ?? 0,
+    publishedCount: countsByRun.get(run.id)?.publishedCount ?? 0,
+    failedCount: countsByRun.get(run.id)?.failedCount ?? 0,
+  }))
+}
+
+/**
+ * Get a single run with all of its items. Returns null if the run does not belong to the user.
+ */
+export async function getGenerationRun(
+  runId: string,
+  userId: string,
+): Promise<(GenerationRun & { items: GenerationItem[] }) | null> {
+  const [run] = await db
+    .select()
+    .from(generationRuns)
+    .where(and(eq(generationRuns.id, runId), eq(generationRuns.userId, userId)))
+    .limit(1)
+
+  if (!run) {
+    return null
+  }
+
+  const items = await db
+    .select()
+    .from(generationItems)
+    .where(eq(generationItems.runId, runId))
+    .orderBy(generationItems.position)
+
+  return { ...(run as GenerationRun), items: items as GenerationItem[] }
+}
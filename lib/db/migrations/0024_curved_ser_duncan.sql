@@ -0,0 +1,32 @@
+CREATE TABLE "generation_items" (
+	"id" text PRIMARY KEY NOT NULL,
+	"run_id" text NOT NULL,
+	"position" integer NOT NULL,
+	"category" text NOT NULL,
+	"title" text NOT NULL,
+	"product" jsonb NOT NULL,
+	"status" text DEFAULT 'generated' NOT NULL,
+	"store_product_id" text,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"published_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "generation_runs" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"platform" text NOT NULL,
+	"store_id" text,
+	"categories" jsonb NOT NULL,
+	"preview_only" boolean DEFAULT false,
+	"status" text DEFAULT 'processing' NOT NULL,
+	"total_products" integer DEFAULT 0,
+	"errors" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "generation_items" ADD CONSTRAINT "generation_items_run_id_generation_runs_id_fk" FOREIGN KEY ("run_id") REFERENCES "public"."generation_runs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generation_runs" ADD CONSTRAINT "generation_runs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "generation_items" ADD COLUMN "idempotency_key" text;--> statement-breakpoint
+ALTER TABLE "generation_items" ADD COLUMN "images_uploaded_at" timestamp;--> statement-breakpoint
+CREATE UNIQUE INDEX "generation_items_idempotency_key_idx" ON "generation_items" USING btree ("idempotency_key");
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "brand_profiles" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"tone_of_voice" text DEFAULT '' NOT NULL,
+	"target_audience" text DEFAULT '' NOT NULL,
+	"price_band" jsonb,
+	"forbidden_words" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"color_palette" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"reference_images" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "generation_runs" ADD COLUMN "brand_profile_id" text;--> statement-breakpoint
+ALTER TABLE "brand_profiles" ADD CONSTRAINT "brand_profiles_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generation_runs" ADD CONSTRAINT "generation_runs_brand_profile_id_brand_profiles_id_fk" FOREIGN KEY ("brand_profile_id") REFERENCES "public"."brand_profiles"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
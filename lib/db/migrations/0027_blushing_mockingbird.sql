@@ -0,0 +1 @@
+ALTER TABLE "generation_items" ADD COLUMN "images_attached" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
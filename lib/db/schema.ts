@@ -440,6 +440,134 @@ export const selectSettingSchema = z.object({
 export type Setting = z.infer<typeof selectSettingSchema>
 export type InsertSetting = z.infer<typeof insertSettingSchema>
 
+// Brand profiles table - reusable style guides a user picks when starting a generator run
+export const brandProfiles = pgTable('brand_profiles', {
+  id: text('id').primaryKey(),
+  userId: text('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }), // Foreign key to users table
+  name: text('name').notNull(),
+  toneOfVoice: text('tone_of_voice').notNull().default(''), // How product copy should sound
+  targetAudience: text('target_audience').notNull().default(''), // Who the catalog is written for
+  priceBand: jsonb('price_band').$type<{ min: number; max: number }>(), // USD range every price must fall in
+  forbiddenWords: jsonb('forbidden_words').$type<string[]>().notNull().default([]), // Words the copy must never use
+  colorPalette: jsonb('color_palette').$type<string[]>().notNull().default([]), // Brand colours as hex codes
+  referenceImages: jsonb('reference_images').$type<string[]>().notNull().default([]), // Blob storage URLs sent to the image model
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+})
+
+export const selectBrandProfileSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  name: z.string(),
+  toneOfVoice: z.string(),
+  targetAudience: z.string(),
+  priceBand: z.object({ min: z.number(), max: z.number() }).nullable(),
+  forbiddenWords: z.array(z.string()),
+  colorPalette: z.array(z.string()),
+  referenceImages: z.array(z.string()),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+})
+
+export type BrandProfile = z.infer<typeof selectBrandProfileSchema>
+
+// Generation runs table - one row per product generator workflow run
+export const generationRuns = pgTable('generation_runs', {
+  id: text('id').primaryKey(),
+  userId: text('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }), // Foreign key to users table
+  platform: text('platform', {
+    enum: ['shopify', 'bigcommerce'],
+  }).notNull(), // Commerce platform the run targets
+  storeId: text('store_id'), // Store the products were pushed to (Shopify domain or BigCommerce store hash)
+  categories: jsonb('categories').$type<Array<{ category: string; count: number }>>().notNull(), // Run inputs
+  brandProfileId: text('brand_profile_id').references(() => brandProfiles.id, { onDelete: 'set null' }), // Brand profile the run was generated with
+  previewOnly: boolean('preview_only').default(false),
+  status: text('status', {
+    enum: ['processing', 'preview', 'completed', 'failed', 'cancelled'],
+  })
+    .notNull()
+    .default('processing'),
+  totalProducts: integer('total_products').default(0),
+  errors: jsonb('errors').$type<string[]>(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  completedAt: timestamp('completed_at'),
+})
+
+export const selectGenerationRunSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  platform: z.enum(['shopify', 'bigcommerce']),
+  storeId: z.string().nullable(),
+  categories: z.array(z.object({ category: z.string(), count: z.number() })),
+  brandProfileId: z.string().nullable(),
+  previewOnly: z.boolean().nullable(),
+  status: z.enum(['processing', 'preview', 'completed', 'failed', 'cancelled']),
+  totalProducts: z.number().nullable(),
+  errors: z.array(z.string()).nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+  completedAt: z.date().nullable(),
+})
+
+export type GenerationRun = z.infer<typeof selectGenerationRunSchema>
+
+// Generation items table - one row per generated product within a run
+export const generationItems = pgTable(
+  'generation_items',
+  {
+    id: text('id').primaryKey(),
+    runId: text('run_id')
+      .notNull()
+      .references(() => generationRuns.id, { onDelete: 'cascade' }), // Foreign key to generation_runs table
+    position: integer('position').notNull(), // Order within the run
+    category: text('category').notNull(),
+    title: text('title').notNull(),
+    product: jsonb('product').$type<Record<string, unknown>>().notNull(), // Full generated product payload
+    status: text('status', {
+      enum: ['generated', 'published', 'failed', 'discarded', 'deleted'],
+    })
+      .notNull()
+      .default('generated'),
+    idempotencyKey: text('idempotency_key'), // Stable key of the generated product, checkpointed by each workflow step
+    storeProductId: text('store_product_id'), // Product ID assigned by the store
+    error: text('error'), // Last error for this item
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+    publishedAt: timestamp('published_at'),
+    imagesUploadedAt: timestamp('images_uploaded_at'), // Set once the item's images reached the store
+    imagesAttached: integer('images_attached').notNull().default(0), // Leading images already attached, checkpointed per image
+  },
+  (table) => ({
+    // Unique constraint: an item is pushed to the store at most once
+    idempotencyKeyUnique: uniqueIndex('generation_items_idempotency_key_idx').on(table.idempotencyKey),
+  }),
+)
+
+export const selectGenerationItemSchema = z.object({
+  id: z.string(),
+  runId: z.string(),
+  position: z.number(),
+  category: z.string(),
+  title: z.string(),
+  product: z.record(z.string(), z.unknown()),
+  status: z.enum(['generated', 'published', 'failed', 'discarded', 'deleted']),
+  idempotencyKey: z.string().nullable(),
+  storeProductId: z.string().nullable(),
+  error: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+  publishedAt: z.date().nullable(),
+  imagesUploadedAt: z.date().nullable(),
+  imagesAttached: z.number(),
+})
+
+export type GenerationItem = z.infer<typeof selectGenerationItemSchema>
+
 // Keep legacy export for backwards compatibility during migration
 export const userConnections = accounts
 export type UserConnection = Account
@@ -1,7 +1,8 @@
 import { db } from './client'
 import { settings } from './schema'
 import { eq, and } from 'drizzle-orm'
-import { MAX_SANDBOX_DURATION } from '@/lib/constants'
+import { nanoid } from 'nanoid'
+import { DEFAULT_PRODUCT_IMAGE_MODEL, DEFAULT_PRODUCT_TEXT_MODEL, MAX_SANDBOX_DURATION } from '@/lib/constants'
 
 /**
  * Get a setting value with fallback to default.
@@ -58,3 +59,39 @@ export async function getMaxSandboxDuration(userId?: string): Promise<number> {
   const result = await getNumericSetting('maxSandboxDuration', userId, MAX_SANDBOX_DURATION)
   return result ?? MAX_SANDBOX_DURATION
 }
+
+/**
+ * Create or update a user-specific setting.
+ *
+ * @param key - Setting key
+ * @param userId - User ID the setting belongs to
+ * @param value - Setting value (stored as text)
+ */
+export async function setSetting(key: string, userId: string, value: string): Promise<void> {
+  await db
+    .insert(settings)
+    .values({ id: nanoid(), userId, key, value })
+    .onConflictDoUpdate({
+      target: [settings.userId, settings.key],
+      set: { value, updatedAt: new Date() },
+    })
+}
+
+/**
+ * Get the models used to write product copy and to render product photos for a user.
+ * Checks user-specific settings, then falls back to environment variables.
+ *
+ * @param userId - Optional user ID for user-specific models
+ * @returns The text and image model IDs
+ */
+export async function getProductGenerationModels(userId?: string): Promise<{ textModel: string; imageModel: string }> {
+  const [textModel, imageModel] = await Promise.all([
+    getSetting('productTextModel', userId, DEFAULT_PRODUCT_TEXT_MODEL),
+    getSetting('productImageModel', userId, DEFAULT_PRODUCT_IMAGE_MODEL),
+  ])
+
+  return {
+    textModel: textModel ?? DEFAULT_PRODUCT_TEXT_MODEL,
+    imageModel: imageModel ?? DEFAULT_PRODUCT_IMAGE_MODEL,
+  }
+}
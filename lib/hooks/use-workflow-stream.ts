@@ -0,0 +1,180 @@
+'use client'
+
+import { useCallback, useRef, useState } from 'react'
+import type { ProductProgressEvent } from '@/app/workflows/product-generator/progress'
+
+export interface WorkflowProgressState {
+  phase: 'idle' | 'generating' | 'publishing' | 'finished'
+  totalProducts: number
+  generated: number
+  generationFailed: number
+  placeholderRetries: number
+  publishTotal: number
+  created: number
+  createFailed: number
+  imagesUploaded: number
+  imagesFailed: number
+  cancelled: boolean
+  lastMessage: string | null
+  thumbnails: Array<{ key: string; title: string; image: string }>
+}
+
+export interface WorkflowStreamResult<TResult> {
+  workflowId: string
+  status: string
+  result: TResult
+}
+
+const initialProgress: WorkflowProgressState = {
+  phase: 'idle',
+  totalProducts: 0,
+  generated: 0,
+  generationFailed: 0,
+  placeholderRetries: 0,
+  publishTotal: 0,
+  created: 0,
+  createFailed: 0,
+  imagesUploaded: 0,
+  imagesFailed: 0,
+  cancelled: false,
+  lastMessage: null,
+  thumbnails: [],
+}
+
+function applyProgressEvent(state: WorkflowProgressState, event: ProductProgressEvent): WorkflowProgressState {
+  switch (event.type) {
+    case 'started':
+      return { ...state, phase: 'generating', totalProducts: event.totalProducts, lastMessage: 'Generating products…' }
+    case 'item-generated':
+      return {
+        ...state,
+        generated: state.generated + 1,
+        lastMessage: `Generated "${event.title}"`,
+        thumbnails: [...state.thumbnails, { key: `${event.category}-${event.index}`, title: event.title, image: event.image }],
+      }
+    case 'placeholder-retry':
+      return {
+        ...state,
+        placeholderRetries: state.placeholderRetries + 1,
+        lastMessage: `Retrying image for ${event.category} product ${event.index + 1} (attempt ${event.attempt})${
+          event.reasons.length > 0 ? `: ${event.reasons.join('; ')}` : ''
+        }`,
+      }
+    case 'generation-failed':
+      return {
+        ...state,
+        generationFailed: state.generationFailed + 1,
+        lastMessage: `Failed to generate ${event.category} product ${event.index + 1}: ${event.error}`,
+      }
+    case 'publishing':
+      return { ...state, phase: 'publishing', publishTotal: event.totalProducts, lastMessage: 'Publishing to store…' }
+    case 'product-created':
+      return { ...state, created: state.created + 1, lastMessage: `Created "${event.title}"` }
+    case 'product-failed':
+      return { ...state, createFailed: state.createFailed + 1, lastMessage: `Failed to create "${event.title}": ${event.error}` }
+    case 'image-uploaded':
+      return { ...state, imagesUploaded: state.imagesUploaded + 1, lastMessage: `Uploaded image for "${event.title}"` }
+    case 'image-failed':
+      return {
+        ...state,
+        imagesFailed: state.imagesFailed + 1,
+        lastMessage: `Image upload failed for "${event.title}": ${event.error}`,
+      }
+    case 'metafields':
+      return { ...state, lastMessage: `Filled custom fields of ${event.completed} of ${event.total} products` }
+    case 'localized':
+      return { ...state, lastMessage: `Localized ${event.completed} of ${event.total} products` }
+    case 'enriched':
+      return { ...state, lastMessage: `Enriched ${event.completed} of ${event.total} products` }
+    case 'store-activity':
+      return {
+        ...state,
+        lastMessage: `Seeded ${event.customers} customers, ${event.orders} orders and ${event.reviews} reviews`,
+      }
+    case 'promotions':
+      return {
+        ...state,
+        lastMessage: `Created ${event.discounts} discounts and ${event.priceLists} price lists`,
+      }
+    case 'cancelled':
+      return { ...state, cancelled: true, lastMessage: 'Cancelling - waiting for items in progress to finish…' }
+  }
+}
+
+/**
+ * Post a product generator request to /api/workflow and follow its Server-Sent Events
+ */
+export function useWorkflowStream<TResult>() {
+  const [progress, setProgress] = useState<WorkflowProgressState>(initialProgress)
+  const progressIdRef = useRef<string | null>(null)
+  const cancelTokenRef = useRef<string | null>(null)
+
+  const start = useCallback(async (formData: FormData): Promise<WorkflowStreamResult<TResult>> => {
+    setProgress(initialProgress)
+    formData.set('stream', 'true')
+
+    const response = await fetch('/api/workflow', { method: 'POST', body: formData })
+
+    if (!response.ok || !response.body) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.error || 'Failed to start workflow')
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        buffer += decoder.decode(value, { stream: true })
+        const messages = buffer.split('\n\n')
+        buffer = messages.pop() ?? ''
+
+        for (const message of messages) {
+          const event = message.match(/^event: (.*)$/m)?.[1]
+          const data = message.match(/^data: (.*)$/m)?.[1]
+          if (!event || !data) continue
+
+          const payload = JSON.parse(data)
+          if (event === 'run') {
+            progressIdRef.current = payload.progressId
+            cancelTokenRef.current = payload.cancelToken
+          } else if (event === 'progress') {
+            setProgress((state) => applyProgressEvent(state, payload))
+          } else if (event === 'result') {
+            setProgress((state) => ({ ...state, phase: 'finished' }))
+            return payload as WorkflowStreamResult<TResult>
+          } else if (event === 'error') {
+            throw new Error(payload.error || 'Workflow failed')
+          }
+        }
+      }
+    } finally {
+      progressIdRef.current = null
+      cancelTokenRef.current = null
+      reader.releaseLock()
+    }
+
+    throw new Error('Workflow stream ended before a result was received')
+  }, [])
+
+  const cancel = useCallback(async () => {
+    const progressId = progressIdRef.current
+    const cancelToken = cancelTokenRef.current
+    if (!progressId || !cancelToken) return
+
+    const response = await fetch(`/api/workflow/${progressId}`, {
+      method: 'DELETE',
+      headers: { 'X-Cancel-Token': cancelToken },
+    })
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.error || 'Failed to cancel workflow')
+    }
+  }, [])
+
+  return { progress, start, cancel }
+}
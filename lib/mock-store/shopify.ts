@@ -0,0 +1,1043 @@
+import { createHash } from 'crypto'
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import { NextResponse } from 'next/server'
+import {
+  getMockStoreDirectory,
+  nextMockId,
+  readMockStoreState,
+  updateMockStoreState,
+  type MockCollection,
+  type MockCustomer,
+  type MockOrder,
+  type MockProduct,
+  type MockStoreState,
+  type MockVariant,
+} from './state'
+
+export const DEFAULT_MOCK_STORE_ACCESS_TOKEN = 'mock-access-token'
+
+// Prices in the mock store are kept in one currency
+const MOCK_SHOP_CURRENCY = 'USD'
+
+interface ProductInput {
+  title?: string
+  body_html?: string
+  vendor?: string
+  product_type?: string
+  handle?: string
+  tags?: string
+  metafields_global_title_tag?: string
+  metafields_global_description_tag?: string
+  metafields?: MockProduct['metafields']
+  options?: Array<{ name: string; values?: string[] }>
+  variants?: Array<Partial<Omit<MockVariant, 'id' | 'product_id' | 'inventory_item_id' | 'image_id'>>>
+}
+
+interface ImageInput {
+  src?: string
+  attachment?: string
+  filename?: string
+  alt?: string
+  variant_ids?: number[]
+}
+
+// Leaky bucket of the REST Admin API on standard plans: 40 calls, draining 2 per second
+const BUCKET_SIZE = 40
+const BUCKET_LEAK_PER_SECOND = 2
+const bucket = { used: 0, updatedAt: Date.now() }
+
+function drainBucket() {
+  const now = Date.now()
+  bucket.used = Math.max(0, bucket.used - ((now - bucket.updatedAt) / 1000) * BUCKET_LEAK_PER_SECOND)
+  bucket.updatedAt = now
+}
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}) {
+  return NextResponse.json(body, {
+    status,
+    headers: { 'X-Shopify-Shop-Api-Call-Limit': `${Math.ceil(bucket.used)}/${BUCKET_SIZE}`, ...headers },
+  })
+}
+
+// Store changes either succeed with a response body or fail with field errors, as in 422 responses
+type MockResult<T> = T | { errors: Record<string, string[]> }
+
+const notFound = () => json({ errors: 'Not Found' }, 404)
+const unprocessable = (errors: Record<string, string[]>) => json({ errors }, 422)
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+/**
+ * Shopify keeps handles unique by appending a counter, like "t-shirt-1"
+ */
+function uniqueHandle(current: MockStoreState, requested: string): string {
+  const base = slugify(requested) || 'product'
+  const taken = new Set(current.products.map((product) => product.handle))
+  let handle = base
+  for (let counter = 1; taken.has(handle); counter++) {
+    handle = `${base}-${counter}`
+  }
+  return handle
+}
+
+/**
+ * Keep only the requested top-level fields, like the "fields" query parameter of the REST API
+ */
+function pickFields<T extends object>(record: T, fields: string | null): Partial<T> {
+  if (!fields) {
+    return record
+  }
+  const names = new Set(fields.split(',').map((field) => field.trim()))
+  return Object.fromEntries(Object.entries(record).filter(([key]) => names.has(key))) as Partial<T>
+}
+
+function validateProduct(input: ProductInput): Record<string, string[]> {
+  const errors: Record<string, string[]> = {}
+
+  if (!input.title?.trim()) {
+    errors.title = ["can't be blank"]
+  }
+  if ((input.options?.length ?? 0) > 3) {
+    errors.options = ['are too many (maximum is 3)']
+  }
+  if ((input.variants?.length ?? 0) > 100) {
+    errors.variants = ['are too many (maximum is 100)']
+  }
+
+  const invalidPrices = (input.variants ?? []).filter((variant) => variant.price !== undefined && Number.isNaN(parseFloat(variant.price)))
+  if (invalidPrices.length > 0) {
+    errors.price = ['is not a number']
+  }
+
+  const seen = new Set<string>()
+  for (const variant of input.variants ?? []) {
+    const title = [variant.option1, variant.option2, variant.option3].filter(Boolean).join(' / ')
+    if (seen.has(title)) {
+      errors.base = [...(errors.base ?? []), `The variant '${title}' already exists.`]
+    }
+    seen.add(title)
+  }
+
+  return errors
+}
+
+function createProduct(current: MockStoreState, input: ProductInput): MockProduct {
+  const id = nextMockId(current)
+  const now = new Date().toISOString()
+  const variantInputs = input.variants?.length ? input.variants : [{ option1: 'Default Title', price: '0.00' }]
+
+  const variants = variantInputs.map((variant, index): MockVariant => {
+    const option1 = variant.option1 ?? 'Default Title'
+    const option2 = variant.option2 ?? null
+    const option3 = variant.option3 ?? null
+
+    return {
+      id: nextMockId(current),
+      product_id: id,
+      title: [option1, option2, option3].filter(Boolean).join(' / '),
+      option1,
+      option2,
+      option3,
+      price: parseFloat(variant.price ?? '0').toFixed(2),
+      compare_at_price: variant.compare_at_price ?? null,
+      sku: variant.sku ?? null,
+      barcode: variant.barcode ?? null,
+      weight: variant.weight ?? 0,
+      weight_unit: variant.weight_unit ?? 'kg',
+      requires_shipping: variant.requires_shipping ?? true,
+      position: index + 1,
+      inventory_management: variant.inventory_management ?? null,
+      inventory_item_id: nextMockId(current),
+      image_id: null,
+    }
+  })
+
+  // Products without declared options get Shopify's implicit "Title" option
+  const optionNames = input.options?.length ? input.options.map((option) => option.name) : ['Title']
+  const options = optionNames.map((name, index) => {
+    const key = `option${index + 1}` as 'option1' | 'option2' | 'option3'
+    return {
+      id: nextMockId(current),
+      product_id: id,
+      name,
+      position: index + 1,
+      values: [...new Set(variants.map((variant) => variant[key]).filter((value): value is string => !!value))],
+    }
+  })
+
+  const product: MockProduct = {
+    id,
+    title: input.title!.trim(),
+    body_html: input.body_html ?? '',
+    vendor: input.vendor ?? '',
+    product_type: input.product_type ?? '',
+    handle: uniqueHandle(current, input.handle || input.title!),
+    tags: input.tags ?? '',
+    status: 'active',
+    category: null,
+    metafields_global_title_tag: input.metafields_global_title_tag ?? null,
+    metafields_global_description_tag: input.metafields_global_description_tag ?? null,
+    metafields: input.metafields ?? [],
+    options,
+    variants,
+    images: [],
+    created_at: now,
+    updated_at: now,
+  }
+
+  current.products.push(product)
+  return product
+}
+
+/**
+ * Write an uploaded base64 image next to the store state and return the URL it is served from
+ */
+async function saveAttachment(origin: string, imageId: number, input: ImageInput): Promise<string | null> {
+  const data = Buffer.from(input.attachment ?? '', 'base64')
+  if (data.length === 0) {
+    return null
+  }
+
+  const fileName = `${imageId}-${path.basename(input.filename || 'image.png')}`
+  const directory = path.join(getMockStoreDirectory(), 'files')
+  await mkdir(directory, { recursive: true })
+  await writeFile(path.join(directory, fileName), data)
+  return `${origin}/api/mock-store/_mock/files/${encodeURIComponent(fileName)}`
+}
+
+// Product fields that can be translated, by their translatable content key
+const TRANSLATABLE_PRODUCT_FIELDS = {
+  title: 'title',
+  body_html: 'body_html',
+  meta_title: 'metafields_global_title_tag',
+  meta_description: 'metafields_global_description_tag',
+} as const satisfies Record<string, keyof MockProduct>
+
+const digest = (value: string) => createHash('sha256').update(value).digest('hex')
+
+function translatableContent(product: MockProduct) {
+  return Object.entries(TRANSLATABLE_PRODUCT_FIELDS).flatMap(([key, field]) => {
+    const value = product[field]
+    return value ? [{ key, value, digest: digest(value), locale: 'en' }] : []
+  })
+}
+
+// Product fields read back by catalog enrichment, in the shape of the GraphQL Admin API
+function toProductNode(product: MockProduct) {
+  const prices = product.variants.map((variant) => parseFloat(variant.price)).filter((price) => !Number.isNaN(price))
+  return {
+    id: `gid://shopify/Product/${product.id}`,
+    title: product.title,
+    productType: product.product_type,
+    descriptionHtml: product.body_html,
+    tags: product.tags ? product.tags.split(',').map((tag) => tag.trim()).filter(Boolean) : [],
+    seo: { title: product.metafields_global_title_tag, description: product.metafields_global_description_tag },
+    priceRangeV2: {
+      minVariantPrice: { amount: prices.length > 0 ? Math.min(...prices).toFixed(2) : '0.00', currencyCode: MOCK_SHOP_CURRENCY },
+    },
+    images: { nodes: product.images.map((image) => ({ url: image.src, altText: image.alt })) },
+  }
+}
+
+// Smart collection rules on the product type, tags and title; other columns never match
+function matchesRule(product: MockProduct, rule: NonNullable<MockCollection['rules']>[number]): boolean {
+  const values =
+    rule.column === 'type'
+      ? [product.product_type]
+      : rule.column === 'tag'
+        ? product.tags.split(',').map((tag) => tag.trim())
+        : rule.column === 'title'
+          ? [product.title]
+          : []
+  const condition = rule.condition.toLowerCase()
+  return values.some((value) =>
+    rule.relation === 'contains' ? value.toLowerCase().includes(condition) : value.toLowerCase() === condition
+  )
+}
+
+function collectionProducts(current: MockStoreState, collectionId: number): MockProduct[] {
+  const smart = current.smartCollections.find((collection) => collection.id === collectionId)
+  if (smart) {
+    return current.products.filter((product) =>
+      smart.disjunctive
+        ? (smart.rules ?? []).some((rule) => matchesRule(product, rule))
+        : (smart.rules ?? []).every((rule) => matchesRule(product, rule))
+    )
+  }
+
+  const productIds = new Set(
+    current.collects.filter((collect) => collect.collection_id === collectionId).map((collect) => collect.product_id)
+  )
+  return current.products.filter((product) => productIds.has(product.id))
+}
+
+// Product searches support a tag:"..." filter; anything else is matched against the title and description
+function searchProducts(products: MockProduct[], search: string): MockProduct[] {
+  const tag = search.match(/^tag:"?(.*?)"?$/)?.[1]?.replace(/\\(.)/g, '$1').toLowerCase()
+  if (tag !== undefined) {
+    return products.filter((product) => product.tags.split(',').some((candidate) => candidate.trim().toLowerCase() === tag))
+  }
+
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean)
+  return products.filter((product) => {
+    const text = `${product.title} ${product.body_html}`.toLowerCase()
+    return terms.every((term) => text.includes(term))
+  })
+}
+
+async function handleGraphql(body: { query?: string; variables?: Record<string, unknown> }): Promise<Response> {
+  const query = body.query ?? ''
+
+  if (/\btaxonomy\b/.test(query)) {
+    // Every search finds one category, named so it matches the leaf of the requested path
+    const search = String(body.variables?.search ?? '').trim()
+    const nodes = search ? [{ id: `gid://shopify/TaxonomyCategory/mock-${slugify(search)}`, fullName: `Mock > ${search}` }] : []
+    return json({ data: { taxonomy: { categories: { nodes } } } })
+  }
+
+  if (/\bproductUpdate\b/.test(query)) {
+    const input = (body.variables?.product ?? {}) as { id?: string; category?: string }
+    const productId = Number(input.id?.split('/').pop())
+
+    const userErrors = await updateMockStoreState((current) => {
+      const product = current.products.find((candidate) => candidate.id === productId)
+      if (!product) {
+        return [{ field: ['id'], message: 'Product does not exist' }]
+      }
+      product.category = input.category ?? product.category
+      product.updated_at = new Date().toISOString()
+      return []
+    })
+    return json({ data: { productUpdate: { userErrors } } })
+  }
+
+  // Products are identified by the value of one of their metafields (a custom ID)
+  if (/\bproductByIdentifier\b/.test(query)) {
+    const customId = ((body.variables?.identifier ?? {}) as {
+      customId?: { namespace?: string; key?: string; value?: string }
+    }).customId
+    const product = (await readMockStoreState()).products.find((candidate) =>
+      candidate.metafields.some(
+        (metafield) =>
+          metafield.namespace === customId?.namespace && metafield.key === customId?.key && metafield.value === customId?.value
+      )
+    )
+    return json({
+      data: { productByIdentifier: product ? { id: `gid://shopify/Product/${product.id}`, title: product.title } : null },
+    })
+  }
+
+  const discountMutation = query.match(/\b(discountCodeBasicCreate|discountAutomaticBasicCreate)\b/)?.[1]
+  if (discountMutation) {
+    const input = (body.variables?.discount ?? {}) as {
+      title?: string
+      code?: string
+      startsAt?: string
+      endsAt?: string | null
+      usageLimit?: number | null
+      customerGets?: { value?: { percentage?: number }; items?: { products?: { productsToAdd?: string[] } } }
+    }
+    const isCode = discountMutation === 'discountCodeBasicCreate'
+    const percentage = input.customerGets?.value?.percentage ?? 0
+    const productIds = (input.customerGets?.items?.products?.productsToAdd ?? []).map((id) => Number(id.split('/').pop()))
+
+    const result = await updateMockStoreState((current) => {
+      const userErrors: Array<{ field: string[]; message: string }> = []
+      if (!input.title) {
+        userErrors.push({ field: ['title'], message: "Title can't be blank" })
+      }
+      if (isCode && !input.code) {
+        userErrors.push({ field: ['code'], message: "Code can't be blank" })
+      }
+      if (isCode && current.discounts.some((discount) => discount.code?.toLowerCase() === input.code?.toLowerCase())) {
+        userErrors.push({ field: ['code'], message: 'Code must be unique' })
+      }
+      if (!(percentage > 0 && percentage <= 1)) {
+        userErrors.push({ field: ['customerGets', 'value', 'percentage'], message: 'Percentage must be between 0 and 1' })
+      }
+      if (productIds.some((id) => !current.products.some((product) => product.id === id))) {
+        userErrors.push({ field: ['customerGets', 'items'], message: 'Product does not exist' })
+      }
+      if (userErrors.length > 0) {
+        return { node: null, userErrors }
+      }
+
+      const id = nextMockId(current)
+      current.discounts.push({
+        id,
+        title: input.title!,
+        code: isCode ? input.code! : null,
+        percentage,
+        product_ids: productIds,
+        starts_at: input.startsAt ?? new Date().toISOString(),
+        ends_at: input.endsAt ?? null,
+        usage_limit: input.usageLimit ?? null,
+      })
+      return { node: { id: `gid://shopify/${isCode ? 'DiscountCodeNode' : 'DiscountAutomaticNode'}/${id}` }, userErrors }
+    })
+
+    const nodeField = isCode ? 'codeDiscountNode' : 'automaticDiscountNode'
+    return json({ data: { [discountMutation]: { [nodeField]: result.node, userErrors: result.userErrors } } })
+  }
+
+  if (/\bmetafieldDefinitionCreate\b/.test(query)) {
+    const input = (body.variables?.definition ?? {}) as {
+      name?: string
+      namespace?: string
+      key?: string
+      type?: string
+      ownerType?: string
+    }
+
+    const result = await updateMockStoreState((current) => {
+      if (!input.name || !input.namespace || !input.key || !input.type || !input.ownerType) {
+        return {
+          createdDefinition: null,
+          userErrors: [{ field: ['definition'], message: 'Name, namespace, key, type and owner type are required', code: 'BLANK' }],
+        }
+      }
+      const taken = current.metafieldDefinitions.some(
+        (definition) =>
+          definition.owner_type === input.ownerType && definition.namespace === input.namespace && definition.key === input.key
+      )
+      if (taken) {
+        return {
+          createdDefinition: null,
+          userErrors: [{ field: ['definition', 'key'], message: 'Key is in use for Product metafields', code: 'TAKEN' }],
+        }
+      }
+
+      const id = nextMockId(current)
+      current.metafieldDefinitions.push({
+        id,
+        name: input.name,
+        namespace: input.namespace,
+        key: input.key,
+        type: input.type,
+        owner_type: input.ownerType,
+      })
+      return { createdDefinition: { id: `gid://shopify/MetafieldDefinition/${id}` }, userErrors: [] }
+    })
+    return json({ data: { metafieldDefinitionCreate: result } })
+  }
+
+  if (/\btranslatableResource\b/.test(query)) {
+    const productId = Number(String(body.variables?.resourceId ?? '').split('/').pop())
+    const product = (await readMockStoreState()).products.find((candidate) => candidate.id === productId)
+    return json({
+      data: {
+        translatableResource: product
+          ? { resourceId: `gid://shopify/Product/${product.id}`, translatableContent: translatableContent(product) }
+          : null,
+      },
+    })
+  }
+
+  if (/\btranslationsRegister\b/.test(query)) {
+    const productId = Number(String(body.variables?.resourceId ?? '').split('/').pop())
+    const translations = (body.variables?.translations ?? []) as Array<{
+      locale?: string
+      key?: string
+      value?: string
+      translatableContentDigest?: string
+    }>
+
+    const userErrors = await updateMockStoreState((current) => {
+      const product = current.products.find((candidate) => candidate.id === productId)
+      if (!product) {
+        return [{ field: ['resourceId'], message: 'Resource does not exist' }]
+      }
+
+      const digests = new Map(translatableContent(product).map((content) => [content.key, content.digest]))
+      const errors: Array<{ field: string[]; message: string }> = []
+      translations.forEach((translation, index) => {
+        if (!current.shopLocales.some((shopLocale) => shopLocale.locale === translation.locale)) {
+          errors.push({ field: ['translations', String(index), 'locale'], message: 'Locale is not enabled for the shop' })
+        } else if (!translation.key || !digests.has(translation.key)) {
+          errors.push({ field: ['translations', String(index), 'key'], message: 'Key is not translatable' })
+        } else if (digests.get(translation.key) !== translation.translatableContentDigest) {
+          errors.push({ field: ['translations', String(index), 'translatableContentDigest'], message: 'Digest is invalid' })
+        } else if (!translation.value) {
+          errors.push({ field: ['translations', String(index), 'value'], message: "Value can't be blank" })
+        }
+      })
+      if (errors.length > 0) {
+        return errors
+      }
+
+      // Registering a translation again replaces it
+      for (const translation of translations) {
+        current.translations = [
+          ...current.translations.filter(
+            (existing) =>
+              existing.product_id !== productId || existing.locale !== translation.locale || existing.key !== translation.key
+          ),
+          { product_id: productId, locale: translation.locale!, key: translation.key!, value: translation.value! },
+        ]
+      }
+      return []
+    })
+    return json({ data: { translationsRegister: { userErrors } } })
+  }
+
+  if (/\bshopLocaleEnable\b/.test(query)) {
+    const locale = String(body.variables?.locale ?? '')
+    const published = /\bshopLocaleUpdate\b/.test(query)
+
+    await updateMockStoreState((current) => {
+      const existing = current.shopLocales.find((shopLocale) => shopLocale.locale === locale)
+      if (existing) {
+        existing.published ||= published
+      } else if (locale) {
+        current.shopLocales.push({ locale, primary: false, published })
+      }
+    })
+    const userErrors = locale ? [] : [{ field: ['locale'], message: 'Locale is invalid' }]
+    return json({
+      data: { shopLocaleEnable: { userErrors }, ...(published ? { shopLocaleUpdate: { userErrors } } : {}) },
+    })
+  }
+
+  if (/\bshop\s*\{/.test(query)) {
+    return json({ data: { shop: { currencyCode: MOCK_SHOP_CURRENCY } } })
+  }
+
+  if (/\bshopLocales\b/.test(query)) {
+    return json({ data: { shopLocales: (await readMockStoreState()).shopLocales } })
+  }
+
+  if (/\bcollections\(/.test(query)) {
+    const search = String(body.variables?.query ?? '')
+    const title = (search.match(/^title:"?(.*?)"?$/)?.[1] ?? search).replace(/\\(.)/g, '$1').toLowerCase()
+    const { customCollections, smartCollections } = await readMockStoreState()
+    const nodes = [...customCollections, ...smartCollections]
+      .filter((collection) => collection.title.toLowerCase().includes(title))
+      .map((collection) => ({ id: `gid://shopify/Collection/${collection.id}`, title: collection.title }))
+    return json({ data: { collections: { nodes } } })
+  }
+
+  if (/\bcollection\(/.test(query)) {
+    const collectionId = Number(String(body.variables?.id ?? '').split('/').pop())
+    const first = Number(body.variables?.first ?? 50)
+    const current = await readMockStoreState()
+    const exists = [...current.customCollections, ...current.smartCollections].some(
+      (collection) => collection.id === collectionId
+    )
+    return json({
+      data: {
+        collection: exists
+          ? { products: { nodes: collectionProducts(current, collectionId).slice(0, first).map(toProductNode) } }
+          : null,
+      },
+    })
+  }
+
+  if (/\bproducts\(/.test(query)) {
+    const first = Number(body.variables?.first ?? 50)
+    const { products } = await readMockStoreState()
+    // Newest changes first, as requested with sortKey: UPDATED_AT and reverse: true
+    const nodes = searchProducts(products, String(body.variables?.query ?? '').trim())
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+      .slice(0, first)
+      .map(toProductNode)
+    return json({ data: { products: { nodes } } })
+  }
+
+  // The mock store has no markets, so market prices always go to unattached price lists
+  if (/\bmarkets\b/.test(query)) {
+    const { priceLists } = await readMockStoreState()
+    return json({
+      data: {
+        markets: { nodes: [] },
+        priceLists: {
+          nodes: priceLists.map((priceList) => ({ id: `gid://shopify/PriceList/${priceList.id}`, name: priceList.name })),
+        },
+      },
+    })
+  }
+
+  if (/\bpriceListCreate\b/.test(query)) {
+    const input = (body.variables?.input ?? {}) as { name?: string; currency?: string; catalogId?: string }
+
+    const result = await updateMockStoreState((current) => {
+      if (!input.name || !input.currency) {
+        return { priceList: null, userErrors: [{ field: ['input'], message: 'Name and currency are required' }] }
+      }
+      if (current.priceLists.some((priceList) => priceList.name === input.name)) {
+        return { priceList: null, userErrors: [{ field: ['input', 'name'], message: 'Name has already been taken' }] }
+      }
+      if (input.catalogId) {
+        return { priceList: null, userErrors: [{ field: ['input', 'catalogId'], message: 'Catalog does not exist' }] }
+      }
+
+      const id = nextMockId(current)
+      current.priceLists.push({ id, name: input.name, currency: input.currency, fixed_prices: [] })
+      return { priceList: { id: `gid://shopify/PriceList/${id}` }, userErrors: [] }
+    })
+    return json({ data: { priceListCreate: result } })
+  }
+
+  if (/\bpriceListFixedPricesAdd\b/.test(query)) {
+    const priceListId = Number(String(body.variables?.priceListId ?? '').split('/').pop())
+    const prices = (body.variables?.prices ?? []) as Array<{ variantId?: string; price?: { amount?: string } }>
+
+    const userErrors = await updateMockStoreState((current) => {
+      const priceList = current.priceLists.find((candidate) => candidate.id === priceListId)
+      if (!priceList) {
+        return [{ field: ['priceListId'], message: 'Price list does not exist' }]
+      }
+
+      const variantIds = new Set(current.products.flatMap((product) => product.variants.map((variant) => variant.id)))
+      const fixedPrices = prices.map((price) => ({
+        variant_id: Number(price.variantId?.split('/').pop()),
+        amount: price.price?.amount ?? '',
+      }))
+      if (fixedPrices.some((price) => !variantIds.has(price.variant_id) || !(parseFloat(price.amount) >= 0))) {
+        return [{ field: ['prices'], message: 'Every price needs an existing variant and an amount' }]
+      }
+
+      // Adding a price for a variant that already has one replaces it
+      priceList.fixed_prices = [
+        ...priceList.fixed_prices.filter((existing) => !fixedPrices.some((price) => price.variant_id === existing.variant_id)),
+        ...fixedPrices,
+      ]
+      return []
+    })
+    return json({ data: { priceListFixedPricesAdd: { userErrors } } })
+  }
+
+  return json({
+    errors: [{ message: 'The mock store only supports taxonomy searches, the shop currency, productUpdate, productByIdentifier, product and collection queries, metafield definitions, discounts, price lists and translations' }],
+  })
+}
+
+/**
+ * Answer from a simulated error rule matching the request, counting the rule down
+ */
+async function takeSimulatedError(method: string, resourcePath: string): Promise<Response | null> {
+  const matches = (rule: MockStoreState['simulatedErrors'][number]) =>
+    (!rule.method || rule.method.toUpperCase() === method) && (!rule.path || resourcePath.includes(rule.path))
+
+  if (!(await readMockStoreState()).simulatedErrors.some(matches)) {
+    return null
+  }
+
+  const rule = await updateMockStoreState((current) => {
+    const index = current.simulatedErrors.findIndex(matches)
+    const match = current.simulatedErrors[index]
+    if (match?.count !== undefined) {
+      match.count -= 1
+      if (match.count <= 0) {
+        current.simulatedErrors.splice(index, 1)
+      }
+    }
+    return match
+  })
+
+  if (!rule) {
+    return null
+  }
+  if (rule.status === 401) {
+    return json({ errors: '[API] Invalid API key or access token (unrecognized login or wrong password)' }, 401)
+  }
+  if (rule.status === 429) {
+    return json(
+      { errors: 'Exceeded 2 calls per second for api client. Reduce request rates to resume uninterrupted service.' },
+      429,
+      { 'Retry-After': String(rule.retryAfter ?? 1) }
+    )
+  }
+  return unprocessable({ base: ['Simulated validation error'] })
+}
+
+/**
+ * Handle a request to the mock Shopify REST Admin API. The path segments follow the store
+ * domain, as in admin/api/2025-07/products.json.
+ */
+export async function handleMockShopifyRequest(request: Request, segments: string[]): Promise<Response> {
+  const [admin, api, , ...rest] = segments
+  if (admin !== 'admin' || api !== 'api' || rest.length === 0) {
+    return notFound()
+  }
+
+  const url = new URL(request.url)
+  const method = request.method.toUpperCase()
+  const resourcePath = rest.join('/')
+
+  const simulated = await takeSimulatedError(method, resourcePath)
+  if (simulated) {
+    return simulated
+  }
+
+  const expectedToken = process.env.MOCK_STORE_ACCESS_TOKEN || DEFAULT_MOCK_STORE_ACCESS_TOKEN
+  if (request.headers.get('X-Shopify-Access-Token') !== expectedToken) {
+    return json({ errors: '[API] Invalid API key or access token (unrecognized login or wrong password)' }, 401)
+  }
+
+  drainBucket()
+  if (bucket.used + 1 > BUCKET_SIZE) {
+    return json(
+      { errors: 'Exceeded 2 calls per second for api client. Reduce request rates to resume uninterrupted service.' },
+      429,
+      { 'Retry-After': '1' }
+    )
+  }
+  bucket.used += 1
+
+  const body = method === 'POST' || method === 'PUT' ? await request.json().catch(() => null) : null
+  if ((method === 'POST' || method === 'PUT') && !body) {
+    return json({ errors: { query: 'Required parameter missing or invalid' } }, 400)
+  }
+
+  if (resourcePath === 'graphql.json' && method === 'POST') {
+    return handleGraphql(body)
+  }
+
+  if (resourcePath === 'products.json') {
+    if (method === 'GET') {
+      const { products } = await readMockStoreState()
+      const handle = url.searchParams.get('handle')
+      const limit = Math.min(parseInt(url.searchParams.get('limit') ?? '50', 10) || 50, 250)
+      return json({
+        products: products
+          .filter((product) => !handle || product.handle === handle)
+          .slice(0, limit)
+          .map((product) => pickFields(product, url.searchParams.get('fields'))),
+      })
+    }
+
+    if (method === 'POST') {
+      const input: ProductInput = body.product ?? {}
+      const errors = validateProduct(input)
+      if (Object.keys(errors).length > 0) {
+        return unprocessable(errors)
+      }
+      const product = await updateMockStoreState((current) => createProduct(current, input))
+      return json({ product }, 201)
+    }
+  }
+
+  const productMatch = resourcePath.match(/^products\/(\d+)\.json$/)
+  if (productMatch) {
+    const productId = Number(productMatch[1])
+
+    if (method === 'GET') {
+      const product = (await readMockStoreState()).products.find((candidate) => candidate.id === productId)
+      return product ? json({ product: pickFields(product, url.searchParams.get('fields')) }) : notFound()
+    }
+
+    if (method === 'PUT') {
+      const input: ProductInput = body.product ?? {}
+      const product = await updateMockStoreState((current) => {
+        const existing = current.products.find((candidate) => candidate.id === productId)
+        if (!existing) {
+          return null
+        }
+        existing.body_html = input.body_html ?? existing.body_html
+        existing.metafields_global_title_tag = input.metafields_global_title_tag ?? existing.metafields_global_title_tag
+        existing.metafields_global_description_tag =
+          input.metafields_global_description_tag ?? existing.metafields_global_description_tag
+        existing.updated_at = new Date().toISOString()
+        return existing
+      })
+      return product ? json({ product }) : notFound()
+    }
+
+    if (method === 'DELETE') {
+      const deleted = await updateMockStoreState((current) => {
+        const index = current.products.findIndex((candidate) => candidate.id === productId)
+        if (index === -1) {
+          return false
+        }
+        const [product] = current.products.splice(index, 1)
+        const inventoryItemIds = new Set(product.variants.map((variant) => variant.inventory_item_id))
+        current.collects = current.collects.filter((collect) => collect.product_id !== productId)
+        current.inventoryLevels = current.inventoryLevels.filter((level) => !inventoryItemIds.has(level.inventory_item_id))
+        return true
+      })
+      return deleted ? json({}) : notFound()
+    }
+  }
+
+  const imagesMatch = resourcePath.match(/^products\/(\d+)\/images\.json$/)
+  if (imagesMatch) {
+    const productId = Number(imagesMatch[1])
+
+    if (method === 'GET') {
+      const product = (await readMockStoreState()).products.find((candidate) => candidate.id === productId)
+      return product ? json({ images: product.images }) : notFound()
+    }
+
+    if (method === 'POST') {
+      const input: ImageInput = body.image ?? {}
+      const existing = (await readMockStoreState()).products.find((candidate) => candidate.id === productId)
+      if (!existing) {
+        return notFound()
+      }
+      if (!input.src && !input.attachment) {
+        return unprocessable({ image: ['must have a src or an attachment'] })
+      }
+      const variantIds = new Set(existing.variants.map((variant) => variant.id))
+      if ((input.variant_ids ?? []).some((variantId) => !variantIds.has(variantId))) {
+        return unprocessable({ variant_ids: ['must belong to the product'] })
+      }
+
+      // The store never downloads remote images, so any src is accepted as is
+      const imageId = await updateMockStoreState((current) => nextMockId(current))
+      const src = input.src ?? (await saveAttachment(url.origin, imageId, input))
+      if (!src) {
+        return unprocessable({ attachment: ['is not valid base64 image data'] })
+      }
+
+      const image = await updateMockStoreState((current) => {
+        const product = current.products.find((candidate) => candidate.id === productId)
+        if (!product) {
+          return null
+        }
+        const created = {
+          id: imageId,
+          product_id: productId,
+          position: product.images.length + 1,
+          src,
+          alt: input.alt ?? null,
+          variant_ids: input.variant_ids ?? [],
+        }
+        product.images.push(created)
+        for (const variant of product.variants) {
+          if (created.variant_ids.includes(variant.id)) {
+            variant.image_id = imageId
+          }
+        }
+        product.updated_at = new Date().toISOString()
+        return created
+      })
+      return image ? json({ image }) : notFound()
+    }
+  }
+
+  const collectionsMatch = resourcePath.match(/^(custom|smart)_collections\.json$/)
+  if (collectionsMatch) {
+    const smart = collectionsMatch[1] === 'smart'
+    const resource = smart ? 'smart_collections' : 'custom_collections'
+    const key = smart ? 'smart_collection' : 'custom_collection'
+    const collectionsOf = (current: MockStoreState) => (smart ? current.smartCollections : current.customCollections)
+
+    if (method === 'GET') {
+      const title = url.searchParams.get('title')?.toLowerCase()
+      const collections = collectionsOf(await readMockStoreState())
+      return json({
+        [resource]: collections
+          .filter((collection) => !title || collection.title.toLowerCase() === title)
+          .map((collection) => pickFields(collection, url.searchParams.get('fields'))),
+      })
+    }
+
+    if (method === 'POST') {
+      const input: Partial<MockCollection> = body[key] ?? {}
+      if (!input.title?.trim()) {
+        return unprocessable({ title: ["can't be blank"] })
+      }
+      if (smart && !input.rules?.length) {
+        return unprocessable({ rules: ["can't be blank"] })
+      }
+
+      const collection = await updateMockStoreState((current) => {
+        const created: MockCollection = {
+          id: nextMockId(current),
+          title: input.title!.trim(),
+          handle: slugify(input.title!),
+          published: input.published ?? true,
+          ...(smart ? { disjunctive: input.disjunctive ?? false, rules: input.rules } : {}),
+        }
+        collectionsOf(current).push(created)
+        return created
+      })
+      return json({ [key]: collection }, 201)
+    }
+  }
+
+  if (resourcePath === 'collects.json' && method === 'POST') {
+    const input: { product_id?: number; collection_id?: number } = body.collect ?? {}
+    const result = await updateMockStoreState((current): MockResult<{ collect: MockStoreState['collects'][number] }> => {
+      if (!current.products.some((product) => product.id === input.product_id)) {
+        return { errors: { product: ["can't be blank"] } }
+      }
+      // Products join smart collections through their rules only
+      if (!current.customCollections.some((collection) => collection.id === input.collection_id)) {
+        return { errors: { collection: ["can't be blank"] } }
+      }
+      if (current.collects.some((collect) => collect.product_id === input.product_id && collect.collection_id === input.collection_id)) {
+        return { errors: { product_id: ['already exists in this collection'] } }
+      }
+
+      const collect = { id: nextMockId(current), product_id: input.product_id!, collection_id: input.collection_id! }
+      current.collects.push(collect)
+      return { collect }
+    })
+    return 'errors' in result ? unprocessable(result.errors) : json(result, 201)
+  }
+
+  const metafieldsMatch = resourcePath.match(/^products\/(\d+)\/metafields\.json$/)
+  if (metafieldsMatch) {
+    const productId = Number(metafieldsMatch[1])
+
+    if (method === 'GET') {
+      const product = (await readMockStoreState()).products.find((candidate) => candidate.id === productId)
+      return product ? json({ metafields: product.metafields }) : notFound()
+    }
+
+    if (method === 'POST') {
+      const input: Partial<MockProduct['metafields'][number]> = body.metafield ?? {}
+      if (!input.namespace || !input.key || !input.type || typeof input.value !== 'string') {
+        return unprocessable({ metafield: ['needs a namespace, key, type and string value'] })
+      }
+
+      // Writing an existing namespace and key replaces its value
+      const metafield = { namespace: input.namespace, key: input.key, type: input.type, value: input.value }
+      const saved = await updateMockStoreState((current) => {
+        const product = current.products.find((candidate) => candidate.id === productId)
+        if (!product) {
+          return false
+        }
+        product.metafields = [
+          ...product.metafields.filter((existing) => existing.namespace !== metafield.namespace || existing.key !== metafield.key),
+          metafield,
+        ]
+        return true
+      })
+      return saved ? json({ metafield }, 201) : notFound()
+    }
+  }
+
+  if (resourcePath === 'customers.json') {
+    if (method === 'GET') {
+      return json({ customers: (await readMockStoreState()).customers })
+    }
+
+    if (method === 'POST') {
+      const input: Partial<MockCustomer> = body.customer ?? {}
+      const result = await updateMockStoreState((current): MockResult<{ customer: MockCustomer }> => {
+        if (!input.email?.includes('@')) {
+          return { errors: { email: ['is invalid'] } }
+        }
+        if (current.customers.some((customer) => customer.email.toLowerCase() === input.email!.toLowerCase())) {
+          return { errors: { email: ['has already been taken'] } }
+        }
+
+        const customer: MockCustomer = {
+          id: nextMockId(current),
+          first_name: input.first_name ?? '',
+          last_name: input.last_name ?? '',
+          email: input.email,
+          note: input.note ?? null,
+          tags: input.tags ?? '',
+          addresses: input.addresses ?? [],
+          created_at: new Date().toISOString(),
+        }
+        current.customers.push(customer)
+        return { customer }
+      })
+      return 'errors' in result ? unprocessable(result.errors) : json(result, 201)
+    }
+  }
+
+  if (resourcePath === 'orders.json') {
+    if (method === 'GET') {
+      return json({ orders: (await readMockStoreState()).orders })
+    }
+
+    if (method === 'POST') {
+      const input: Partial<Omit<MockOrder, 'line_items'>> & {
+        customer?: { id?: number }
+        line_items?: Array<{ variant_id?: number; quantity?: number; price?: string }>
+      } = body.order ?? {}
+
+      const result = await updateMockStoreState((current): MockResult<{ order: MockOrder }> => {
+        if (!input.line_items?.length) {
+          return { errors: { line_items: ["can't be blank"] } }
+        }
+        if (input.customer?.id !== undefined && !current.customers.some((customer) => customer.id === input.customer!.id)) {
+          return { errors: { customer: ['does not exist'] } }
+        }
+
+        const variants = current.products.flatMap((product) => product.variants.map((variant) => ({ product, variant })))
+        const lineItems: MockOrder['line_items'] = []
+        for (const lineItem of input.line_items) {
+          const match = variants.find(({ variant }) => variant.id === lineItem.variant_id)
+          if (!match) {
+            return { errors: { line_items: [`variant ${lineItem.variant_id} does not exist`] } }
+          }
+          lineItems.push({
+            id: nextMockId(current),
+            product_id: match.product.id,
+            variant_id: match.variant.id,
+            title: match.product.title,
+            quantity: lineItem.quantity ?? 1,
+            price: parseFloat(lineItem.price ?? match.variant.price).toFixed(2),
+          })
+        }
+
+        const order: MockOrder = {
+          id: nextMockId(current),
+          order_number: 1001 + current.orders.length,
+          customer_id: input.customer?.id ?? 0,
+          email: input.email ?? null,
+          processed_at: input.processed_at ?? new Date().toISOString(),
+          financial_status: input.financial_status ?? 'paid',
+          fulfillment_status: input.fulfillment_status ?? null,
+          line_items: lineItems,
+          total_price: lineItems.reduce((sum, lineItem) => sum + parseFloat(lineItem.price) * lineItem.quantity, 0).toFixed(2),
+          billing_address: input.billing_address ?? null,
+          shipping_address: input.shipping_address ?? null,
+          tags: input.tags ?? '',
+        }
+        current.orders.push(order)
+        return { order }
+      })
+      return 'errors' in result ? unprocessable(result.errors) : json(result, 201)
+    }
+  }
+
+  if (resourcePath === 'locations.json' && method === 'GET') {
+    return json({ locations: (await readMockStoreState()).locations })
+  }
+
+  if (resourcePath === 'inventory_levels/set.json' && method === 'POST') {
+    const input: { location_id?: number; inventory_item_id?: number; available?: number } = body
+    const result = await updateMockStoreState((current): MockResult<{ inventory_level: MockStoreState['inventoryLevels'][number] }> => {
+      if (!current.locations.some((location) => location.id === input.location_id)) {
+        return { errors: { location_id: ['is invalid'] } }
+      }
+      const tracked = current.products
+        .flatMap((product) => product.variants)
+        .find((variant) => variant.inventory_item_id === input.inventory_item_id)
+      if (!tracked) {
+        return { errors: { inventory_item_id: ['is invalid'] } }
+      }
+      if (!tracked.inventory_management) {
+        return { errors: { base: ['Inventory item does not have inventory tracking enabled'] } }
+      }
+      if (typeof input.available !== 'number') {
+        return { errors: { available: ['must be a number'] } }
+      }
+
+      const level = { inventory_item_id: tracked.inventory_item_id, location_id: input.location_id!, available: input.available }
+      current.inventoryLevels = [
+        ...current.inventoryLevels.filter(
+          (existing) => existing.inventory_item_id !== level.inventory_item_id || existing.location_id !== level.location_id
+        ),
+        level,
+      ]
+      return { inventory_level: level }
+    })
+    return 'errors' in result ? unprocessable(result.errors) : json(result)
+  }
+
+  return notFound()
+}
@@ -0,0 +1,264 @@
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import path from 'path'
+
+export interface MockOption {
+  id: number
+  product_id: number
+  name: string
+  position: number
+  values: string[]
+}
+
+export interface MockVariant {
+  id: number
+  product_id: number
+  title: string
+  option1: string | null
+  option2: string | null
+  option3: string | null
+  price: string
+  compare_at_price: string | null
+  sku: string | null
+  barcode: string | null
+  weight: number
+  weight_unit: string
+  requires_shipping: boolean
+  position: number
+  inventory_management: string | null
+  inventory_item_id: number
+  image_id: number | null
+}
+
+export interface MockImage {
+  id: number
+  product_id: number
+  position: number
+  src: string
+  alt: string | null
+  variant_ids: number[]
+}
+
+export interface MockProduct {
+  id: number
+  title: string
+  body_html: string
+  vendor: string
+  product_type: string
+  handle: string
+  tags: string
+  status: 'active'
+  // Standard Product Taxonomy category ID, set through the GraphQL productUpdate mutation
+  category: string | null
+  metafields_global_title_tag: string | null
+  metafields_global_description_tag: string | null
+  metafields: Array<{ namespace: string; key: string; type: string; value: string }>
+  options: MockOption[]
+  variants: MockVariant[]
+  images: MockImage[]
+  created_at: string
+  updated_at: string
+}
+
+export interface MockCollection {
+  id: number
+  title: string
+  handle: string
+  published: boolean
+  // Smart collections only
+  disjunctive?: boolean
+  rules?: Array<{ column: string; relation: string; condition: string }>
+}
+
+export interface MockAddress {
+  first_name?: string
+  last_name?: string
+  address1?: string
+  city?: string
+  province?: string
+  zip?: string
+  country?: string
+  country_code?: string
+}
+
+export interface MockCustomer {
+  id: number
+  first_name: string
+  last_name: string
+  email: string
+  note: string | null
+  tags: string
+  addresses: MockAddress[]
+  created_at: string
+}
+
+export interface MockOrder {
+  id: number
+  order_number: number
+  customer_id: number
+  email: string | null
+  processed_at: string
+  financial_status: string
+  fulfillment_status: string | null
+  line_items: Array<{ id: number; product_id: number; variant_id: number; title: string; quantity: number; price: string }>
+  total_price: string
+  billing_address: MockAddress | null
+  shipping_address: MockAddress | null
+  tags: string
+}
+
+export interface MockDiscount {
+  id: number
+  title: string
+  // null for automatic discounts
+  code: string | null
+  percentage: number
+  product_ids: number[]
+  starts_at: string
+  ends_at: string | null
+  usage_limit: number | null
+}
+
+export interface MockPriceList {
+  id: number
+  name: string
+  currency: string
+  fixed_prices: Array<{ variant_id: number; amount: string }>
+}
+
+export interface MockMetafieldDefinition {
+  id: number
+  name: string
+  namespace: string
+  key: string
+  type: string
+  owner_type: string
+}
+
+export interface MockShopLocale {
+  locale: string
+  primary: boolean
+  published: boolean
+}
+
+export interface MockTranslation {
+  product_id: number
+  locale: string
+  // translatable content key, such as "title" or "body_html"
+  key: string
+  value: string
+}
+
+export interface MockLocation {
+  id: number
+  name: string
+  active: boolean
+}
+
+/**
+ * An error the mock store answers with instead of handling matching requests
+ */
+export interface SimulatedError {
+  status: 401 | 422 | 429
+  /** Only match this HTTP method, such as "POST" */
+  method?: string
+  /** Only match request paths containing this text, such as "products.json" */
+  path?: string
+  /** How many more requests fail before the rule is removed. Fails forever when omitted. */
+  count?: number
+  /** Retry-After header in seconds, for 429 errors */
+  retryAfter?: number
+}
+
+export interface MockStoreState {
+  nextId: number
+  products: MockProduct[]
+  customCollections: MockCollection[]
+  smartCollections: MockCollection[]
+  collects: Array<{ id: number; product_id: number; collection_id: number }>
+  locations: MockLocation[]
+  inventoryLevels: Array<{ inventory_item_id: number; location_id: number; available: number }>
+  customers: MockCustomer[]
+  orders: MockOrder[]
+  discounts: MockDiscount[]
+  priceLists: MockPriceList[]
+  shopLocales: MockShopLocale[]
+  translations: MockTranslation[]
+  metafieldDefinitions: MockMetafieldDefinition[]
+  simulatedErrors: SimulatedError[]
+}
+
+function createInitialState(): MockStoreState {
+  return {
+    nextId: 1000000003,
+    products: [],
+    customCollections: [],
+    smartCollections: [],
+    collects: [],
+    locations: [
+      { id: 1000000001, name: 'Main Warehouse', active: true },
+      { id: 1000000002, name: 'Retail Store', active: true },
+    ],
+    inventoryLevels: [],
+    customers: [],
+    orders: [],
+    discounts: [],
+    priceLists: [],
+    shopLocales: [{ locale: 'en', primary: true, published: true }],
+    translations: [],
+    metafieldDefinitions: [],
+    simulatedErrors: [],
+  }
+}
+
+export function getMockStoreDirectory(): string {
+  return path.resolve(process.env.MOCK_STORE_DIR || '.mock-store')
+}
+
+const stateFile = () => path.join(getMockStoreDirectory(), 'shopify.json')
+
+let state: Promise<MockStoreState> | null = null
+// Changes are applied one at a time, so parallel store writes cannot overwrite each other on disk
+let pendingUpdate: Promise<unknown> = Promise.resolve()
+
+function loadState(): Promise<MockStoreState> {
+  state ??= readFile(stateFile(), 'utf8')
+    .then((content) => ({ ...createInitialState(), ...JSON.parse(content) }) as MockStoreState)
+    .catch(() => createInitialState())
+  return state
+}
+
+export function readMockStoreState(): Promise<MockStoreState> {
+  return pendingUpdate.then(loadState)
+}
+
+/**
+ * Apply a change to the store state and write it to disk before resolving
+ */
+export function updateMockStoreState<T>(update: (state: MockStoreState) => T): Promise<T> {
+  const result = pendingUpdate.then(async () => {
+    const current = await loadState()
+    const value = update(current)
+    await mkdir(getMockStoreDirectory(), { recursive: true })
+    await writeFile(stateFile(), JSON.stringify(current, null, 2))
+    return value
+  })
+  pendingUpdate = result.catch(() => undefined)
+  return result
+}
+
+/**
+ * Remove every product, collection, customer, order, discount, price list and simulated error, keeping only the
+ * seeded locations
+ */
+export function resetMockStoreState(): Promise<void> {
+  return updateMockStoreState((current) => {
+    Object.assign(current, createInitialState())
+  })
+}
+
+/**
+ * IDs are shared across resources like on Shopify, so an ID never points at two things
+ */
+export function nextMockId(current: MockStoreState): number {
+  return current.nextId++
+}
@@ -0,0 +1,42 @@
+import { mkdtemp, rm } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, vi } from 'vitest'
+import { DEFAULT_MOCK_STORE_ACCESS_TOKEN, handleMockShopifyRequest } from './shopify'
+import { resetMockStoreState } from './state'
+
+const MOCK_STORE_BASE_URL = 'http://mock-store.test/api/mock-store'
+
+type MockStoreHandler = (request: Request) => Promise<Response>
+
+/**
+ * Point the Shopify adapter at an empty mock store for every test, answering its requests in-process.
+ * An intercept sees every request before the store does, e.g. to lose a response as if the process stopped.
+ */
+export function useMockShopifyStore(
+  options: { domain?: string; intercept?: (request: Request, handle: MockStoreHandler) => Promise<Response> } = {},
+) {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), 'mock-store-'))
+    vi.stubEnv('MOCK_STORE_DIR', directory)
+    vi.stubEnv('SHOPIFY_STORE_DOMAIN', options.domain ?? 'mock.myshopify.com')
+    vi.stubEnv('SHOPIFY_ACCESS_TOKEN', DEFAULT_MOCK_STORE_ACCESS_TOKEN)
+    vi.stubEnv('SHOPIFY_API_BASE_URL', MOCK_STORE_BASE_URL)
+    // The state is cached in memory, so it is cleared rather than only pointed at a new directory
+    await resetMockStoreState()
+    vi.stubGlobal('fetch', async (input: RequestInfo | URL, init?: RequestInit) => {
+      const handle: MockStoreHandler = (request) =>
+        handleMockShopifyRequest(request, new URL(request.url).pathname.replace(/^\/api\/mock-store\//, '').split('/'))
+      const request = new Request(input, init)
+      return options.intercept ? options.intercept(request, handle) : handle(request)
+    })
+  })
+
+  afterEach(async () => {
+    vi.unstubAllGlobals()
+    vi.unstubAllEnvs()
+    await rm(directory, { recursive: true, force: true })
+  })
+}